@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { LinearAdapter } from '@shakenbake/linear';
+import { MANIFEST_FIELD, reportPayloadFromFormData } from '@shakenbake/core';
 import type { BugReport } from '@shakenbake/core';
 
 // ---------------------------------------------------------------------------
@@ -37,19 +38,27 @@ export async function GET() {
 
 // ---------------------------------------------------------------------------
 // POST /api/shakenbake — route based on Content-Type
-//   - multipart/form-data  -> image upload
-//   - application/json     -> issue creation
+//   - multipart/form-data with a manifest -> issue creation (binary parts)
+//   - multipart/form-data with a file     -> image upload
+//   - application/json                    -> issue creation (base64 report)
 // ---------------------------------------------------------------------------
 
 export async function POST(request: NextRequest) {
   const contentType = request.headers.get('content-type') ?? '';
 
-  // Image upload (from ProxyAdapter.uploadImage)
   if (contentType.includes('multipart/form-data')) {
-    return handleUpload(request);
+    const formData = await request.formData();
+
+    // Issue creation (from ProxyAdapter.createIssue)
+    if (formData.has(MANIFEST_FIELD)) {
+      return handleIssuePayload(formData);
+    }
+
+    // Image upload (from ProxyAdapter.uploadImage)
+    return handleUpload(formData);
   }
 
-  // Issue creation (from ProxyAdapter.createIssue)
+  // Issue creation (from ProxyAdapter with transport: 'json')
   return handleIssue(request);
 }
 
@@ -57,10 +66,9 @@ export async function POST(request: NextRequest) {
 // Upload handler
 // ---------------------------------------------------------------------------
 
-async function handleUpload(request: NextRequest): Promise<NextResponse> {
+async function handleUpload(formData: FormData): Promise<NextResponse> {
   try {
     const adapter = getLinearAdapter();
-    const formData = await request.formData();
     const file = formData.get('file');
 
     if (!file || !(file instanceof Blob)) {
@@ -70,10 +78,10 @@ async function handleUpload(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const buffer = Buffer.from(await file.arrayBuffer());
+    const bytes = new Uint8Array(await file.arrayBuffer());
     const filename =
       file instanceof File ? file.name : 'screenshot.png';
-    const url = await adapter.uploadImage(buffer, filename);
+    const url = await adapter.uploadImage(bytes, filename);
 
     return NextResponse.json({ url });
   } catch (err: unknown) {
@@ -83,9 +91,22 @@ async function handleUpload(request: NextRequest): Promise<NextResponse> {
 }
 
 // ---------------------------------------------------------------------------
-// Issue handler
+// Issue handlers
 // ---------------------------------------------------------------------------
 
+async function handleIssuePayload(formData: FormData): Promise<NextResponse> {
+  try {
+    const adapter = getLinearAdapter();
+    const payload = await reportPayloadFromFormData(formData);
+    const result = await adapter.createIssueFromPayload(payload);
+
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Issue creation failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
 async function handleIssue(request: NextRequest): Promise<NextResponse> {
   try {
     const adapter = getLinearAdapter();
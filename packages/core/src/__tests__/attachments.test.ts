@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentKind,
+  attachmentMimeType,
+  createAttachment,
+  normalizeAttachments,
+} from '../attachments.js';
+import type { BugReport } from '../types.js';
+
+function makeReport(overrides?: Partial<BugReport>): BugReport {
+  return {
+    id: 'r1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    title: 'Bug',
+    description: '',
+    severity: 'low',
+    category: 'bug',
+    screenshot: {
+      annotated: 'AAAA',
+      original: 'AAAA',
+      dimensions: { width: 1, height: 1 },
+    },
+    context: {} as BugReport['context'],
+    ...overrides,
+  };
+}
+
+describe('attachmentKind', () => {
+  it('maps mime types to kinds', () => {
+    expect(attachmentKind('image/jpeg')).toBe('image');
+    expect(attachmentKind('video/mp4')).toBe('video');
+    expect(attachmentKind('audio/webm')).toBe('audio');
+    expect(attachmentKind('text/plain')).toBe('log');
+    expect(attachmentKind('application/zip')).toBe('file');
+  });
+});
+
+describe('attachmentMimeType', () => {
+  it('maps filename extensions to mime types', () => {
+    expect(attachmentMimeType('shot.JPEG')).toBe('image/jpeg');
+    expect(attachmentMimeType('screen.webp')).toBe('image/webp');
+    expect(attachmentMimeType('app.log')).toBe('text/plain');
+    expect(attachmentMimeType('archive')).toBe('application/octet-stream');
+  });
+});
+
+describe('createAttachment', () => {
+  it('reads the mime type from a data URI and computes the size', () => {
+    const attachment = createAttachment({ data: 'data:image/webp;base64,AAAAAA==' });
+
+    expect(attachment).toEqual({
+      kind: 'image',
+      mimeType: 'image/webp',
+      filename: 'image.webp',
+      size: 4,
+      data: 'data:image/webp;base64,AAAAAA==',
+    });
+  });
+
+  it('keeps URL-only attachments with an unknown size', () => {
+    const attachment = createAttachment({
+      url: 'https://cdn.example.com/session.mp4',
+      mimeType: 'video/mp4',
+      filename: 'session.mp4',
+    });
+
+    expect(attachment.kind).toBe('video');
+    expect(attachment.size).toBe(0);
+    expect(attachment.data).toBeUndefined();
+  });
+});
+
+describe('normalizeAttachments', () => {
+  it('returns reports without legacy attachments unchanged', () => {
+    const report = makeReport({ customMetadata: { build: 42 } });
+    expect(normalizeAttachments(report)).toBe(report);
+  });
+
+  it('migrates customMetadata.attachments into typed attachments', () => {
+    const existing = createAttachment({ data: 'bG9n', mimeType: 'text/plain', filename: 'a.log' });
+    const report = makeReport({
+      attachments: [existing],
+      customMetadata: {
+        build: 42,
+        attachments: [
+          { base64: 'AAAA', mimeType: 'image/jpeg', filename: 'photo.jpg' },
+          { base64: 'BBBB' },
+          { mimeType: 'image/png' },
+        ],
+      },
+    });
+
+    const migrated = normalizeAttachments(report);
+
+    expect(migrated.customMetadata).toEqual({ build: 42 });
+    expect(migrated.attachments).toEqual([
+      existing,
+      { kind: 'image', mimeType: 'image/jpeg', filename: 'photo.jpg', size: 3, data: 'AAAA' },
+      { kind: 'image', mimeType: 'image/png', filename: 'attachment-r1-2.png', size: 3, data: 'BBBB' },
+    ]);
+    // The input report is not mutated.
+    expect(report.customMetadata?.['attachments']).toHaveLength(3);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base64ByteLength,
+  base64ToBytes,
+  bytesToBase64,
+  dataUriMimeType,
+  isRemoteUrl,
+  stripDataUri,
+  toDataUri,
+} from '../binary.js';
+
+describe('base64ToBytes / bytesToBase64', () => {
+  it('round-trips every padding length', () => {
+    for (const text of ['', 'a', 'ab', 'abc', 'abcd', 'hello world']) {
+      const bytes = new TextEncoder().encode(text);
+      const base64 = bytesToBase64(bytes);
+
+      expect(base64).toBe(Buffer.from(text).toString('base64'));
+      expect(new TextDecoder().decode(base64ToBytes(base64))).toBe(text);
+    }
+  });
+
+  it('round-trips all byte values', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+
+  it('decodes data URIs, whitespace and URL-safe characters', () => {
+    expect(base64ToBytes('data:text/plain;base64,aGk=')).toEqual(
+      new Uint8Array([104, 105]),
+    );
+    expect(base64ToBytes('aG\nk=')).toEqual(new Uint8Array([104, 105]));
+    expect(base64ToBytes('-_8')).toEqual(base64ToBytes('+/8'));
+  });
+});
+
+describe('base64ByteLength', () => {
+  it('matches the decoded length without decoding', () => {
+    for (const base64 of ['', 'YQ==', 'YWI=', 'YWJj', 'data:image/png;base64,YWJjZA==']) {
+      expect(base64ByteLength(base64)).toBe(base64ToBytes(base64).length);
+    }
+  });
+});
+
+describe('data URI helpers', () => {
+  it('reads the mime type and strips the prefix', () => {
+    expect(dataUriMimeType('data:image/webp;base64,AAAA')).toBe('image/webp');
+    expect(dataUriMimeType('AAAA')).toBeUndefined();
+    expect(stripDataUri('data:image/webp;base64,AAAA')).toBe('AAAA');
+    expect(stripDataUri('AAAA')).toBe('AAAA');
+  });
+
+  it('wraps raw base64 only', () => {
+    expect(toDataUri('AAAA', 'image/png')).toBe('data:image/png;base64,AAAA');
+    expect(toDataUri('data:image/jpeg;base64,AAAA', 'image/png')).toBe(
+      'data:image/jpeg;base64,AAAA',
+    );
+  });
+
+  it('recognises remote URLs', () => {
+    expect(isRemoteUrl('https://cdn.example.com/a.png')).toBe(true);
+    expect(isRemoteUrl('data:image/png;base64,AAAA')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  BreadcrumbBuffer,
+  BreadcrumbCollector,
+  addBreadcrumb,
+  defaultBreadcrumbs,
+} from '../breadcrumbs.js';
+
+describe('BreadcrumbBuffer', () => {
+  it('records breadcrumbs with a timestamp, oldest first', () => {
+    const buffer = new BreadcrumbBuffer();
+    buffer.add({ type: 'click', message: 'Clicked button' });
+    buffer.add({ type: 'navigation', message: 'Navigated to /cart', data: { to: '/cart' } });
+
+    const all = buffer.getAll();
+    expect(all.map((b) => b.message)).toEqual(['Clicked button', 'Navigated to /cart']);
+    expect(all[1]?.data).toEqual({ to: '/cart' });
+    expect(Date.parse(all[0]!.timestamp)).not.toBeNaN();
+  });
+
+  it('drops the oldest entries beyond maxSize', () => {
+    const buffer = new BreadcrumbBuffer({ maxSize: 3 });
+    for (let i = 0; i < 5; i++) {
+      buffer.add({ type: 'custom', message: `step ${String(i)}` });
+    }
+    expect(buffer.getAll().map((b) => b.message)).toEqual(['step 2', 'step 3', 'step 4']);
+  });
+
+  it('truncates long messages and copies data', () => {
+    const buffer = new BreadcrumbBuffer();
+    const data = { id: 1 };
+    const breadcrumb = buffer.add({ type: 'custom', message: 'x'.repeat(400), data });
+
+    expect(breadcrumb.message).toHaveLength(300);
+    expect(breadcrumb.message.endsWith('…')).toBe(true);
+    expect(breadcrumb.data).not.toBe(data);
+  });
+
+  it('finds the last breadcrumb of a type and clears', () => {
+    const buffer = new BreadcrumbBuffer();
+    buffer.add({ type: 'navigation', message: 'a' });
+    buffer.add({ type: 'click', message: 'b' });
+
+    expect(buffer.last()?.message).toBe('b');
+    expect(buffer.last('navigation')?.message).toBe('a');
+    expect(buffer.last('touch')).toBeUndefined();
+
+    buffer.clear();
+    expect(buffer.getAll()).toEqual([]);
+  });
+});
+
+describe('addBreadcrumb', () => {
+  afterEach(() => defaultBreadcrumbs.clear());
+
+  it('records in the default buffer', () => {
+    addBreadcrumb({ type: 'custom', message: 'Applied coupon', data: { code: 'SAVE10' } });
+    expect(defaultBreadcrumbs.last()?.message).toBe('Applied coupon');
+  });
+
+  it('is collected as context.breadcrumbs', async () => {
+    addBreadcrumb({ type: 'custom', message: 'Opened cart' });
+    const context = await new BreadcrumbCollector().collect();
+    expect(context.breadcrumbs).toEqual([
+      expect.objectContaining({ type: 'custom', message: 'Opened cart' }),
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConsentStore,
+  describeConsentSections,
+  DEFAULT_CONSENT_STORAGE_KEY,
+} from '../consent.js';
+import { MemoryStorage } from '../storage.js';
+
+describe('ConsentStore', () => {
+  it('has no decision until the user decides', async () => {
+    const store = new ConsentStore({ storage: new MemoryStorage() });
+    expect(await store.getDecision()).toBeNull();
+    expect(await store.hasConsent()).toBe(false);
+  });
+
+  it('remembers a grant with its version', async () => {
+    const storage = new MemoryStorage();
+    const record = await new ConsentStore({ storage, version: '2' }).grant();
+
+    expect(record).toMatchObject({ granted: true, version: '2' });
+    expect(await new ConsentStore({ storage, version: '2' }).hasConsent()).toBe(true);
+  });
+
+  it('remembers a denial without granting consent', async () => {
+    const store = new ConsentStore({ storage: new MemoryStorage() });
+    await store.deny();
+
+    expect((await store.getDecision())?.granted).toBe(false);
+    expect(await store.hasConsent()).toBe(false);
+  });
+
+  it('asks again when the policy version changes', async () => {
+    const storage = new MemoryStorage();
+    await new ConsentStore({ storage, version: '1' }).grant();
+
+    expect(await new ConsentStore({ storage, version: '2' }).getDecision()).toBeNull();
+  });
+
+  it('keeps decisions per user', async () => {
+    const storage = new MemoryStorage();
+    await new ConsentStore({ storage, userId: 'alice' }).grant();
+
+    expect(await new ConsentStore({ storage, userId: 'alice' }).hasConsent()).toBe(true);
+    expect(await new ConsentStore({ storage, userId: 'bob' }).hasConsent()).toBe(false);
+    expect(await storage.getItem(`${DEFAULT_CONSENT_STORAGE_KEY}:alice`)).not.toBeNull();
+  });
+
+  it('treats corrupt storage as undecided', async () => {
+    const storage = new MemoryStorage();
+    await storage.setItem(`${DEFAULT_CONSENT_STORAGE_KEY}:anonymous`, '{nope');
+    expect(await new ConsentStore({ storage }).getDecision()).toBeNull();
+  });
+
+  it('clear() forgets the decision', async () => {
+    const store = new ConsentStore({ storage: new MemoryStorage() });
+    await store.grant();
+    await store.clear();
+    expect(await store.getDecision()).toBeNull();
+  });
+});
+
+describe('describeConsentSections', () => {
+  it('lists the screenshot and every non-empty section', () => {
+    const sections = describeConsentSections({
+      platform: { os: 'web' },
+      network: {},
+      console: { recentLogs: [], recentErrors: [] },
+      app: { url: 'https://example.com' },
+    });
+
+    expect(sections.map((s) => s.key)).toEqual(['screenshot', 'platform', 'app']);
+  });
+
+  it('includes custom metadata when configured', () => {
+    const sections = describeConsentSections({}, { customMetadata: true });
+    expect(sections.map((s) => s.key)).toEqual(['screenshot', 'customMetadata']);
+  });
+});
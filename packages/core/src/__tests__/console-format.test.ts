@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatConsoleArgs,
+  formatError,
+  formatErrorStack,
+  serializeValue,
+} from '../console-format.js';
+
+describe('serializeValue', () => {
+  it('serializes primitives and plain objects', () => {
+    expect(serializeValue('text')).toBe('text');
+    expect(serializeValue(42)).toBe('42');
+    expect(serializeValue(null)).toBe('null');
+    expect(serializeValue(undefined)).toBe('undefined');
+    expect(serializeValue(10n)).toBe('10n');
+    expect(serializeValue({ a: [1, 'two'], b: true })).toBe('{"a":[1,"two"],"b":true}');
+  });
+
+  it('marks circular references instead of throwing', () => {
+    const node: Record<string, unknown> = { name: 'root' };
+    node['self'] = node;
+    expect(serializeValue(node)).toBe('{"name":"root","self":"[Circular]"}');
+  });
+
+  it('keeps shared references that are not circular', () => {
+    const shared = { id: 1 };
+    expect(serializeValue({ a: shared, b: shared })).toBe('{"a":{"id":1},"b":{"id":1}}');
+  });
+
+  it('cuts off deep nesting', () => {
+    const value = { a: { b: { c: { d: 1 } } }, list: [[[[1]]]] };
+    expect(serializeValue(value, { maxDepth: 2 })).toBe(
+      '{"a":{"b":"[Object]"},"list":["[Array]"]}',
+    );
+  });
+
+  it('limits keys, items and overall length', () => {
+    expect(serializeValue([1, 2, 3, 4], { maxKeys: 2 })).toBe('[1,2,"… 2 more"]');
+    expect(serializeValue({ a: 1, b: 2, c: 3 }, { maxKeys: 1 })).toBe('{"a":1,"…":"2 more"}');
+    expect(serializeValue('x'.repeat(20), { maxLength: 5 })).toBe('xxxxx… (20 chars)');
+  });
+
+  it('stops walking a large value once maxLength is used up', () => {
+    let reads = 0;
+    const row = (i: number) => ({
+      get text(): string {
+        reads += 1;
+        return `${String(i)}${'x'.repeat(2000)}`;
+      },
+    });
+    const rows = () => Array.from({ length: 50 }, (_, i) => row(i));
+    const state = Object.fromEntries(
+      Array.from({ length: 50 }, (_, i) => [`k${String(i)}`, rows()]),
+    );
+
+    const text = serializeValue(state, { maxLength: 100 });
+
+    expect(reads).toBe(1);
+    expect(text.startsWith('{"k0":[{"text":"0xxx')).toBe(true);
+    expect(text).toMatch(/… \(\d+ chars\)$/);
+  });
+
+  it('describes functions, dates, maps, sets and toJSON values', () => {
+    expect(serializeValue(function handler() {})).toBe('[Function: handler]');
+    expect(serializeValue(new Date('2026-01-02T03:04:05.000Z'))).toBe(
+      '2026-01-02T03:04:05.000Z',
+    );
+    expect(serializeValue(new Map([['k', 1]]))).toBe('{"k":1}');
+    expect(serializeValue(new Set(['a']))).toBe('["a"]');
+    expect(serializeValue({ url: new URL('https://example.com/a') })).toBe(
+      '{"url":"https://example.com/a"}',
+    );
+  });
+
+  it('never throws for hostile objects', () => {
+    const hostile = {
+      get boom(): never {
+        throw new Error('getter');
+      },
+    };
+    expect(serializeValue(hostile)).toBe('[Unserializable]');
+  });
+});
+
+describe('formatError', () => {
+  it('includes the cause chain', () => {
+    const root = new TypeError('socket closed');
+    const error = new Error('Request failed', { cause: root });
+    expect(formatError(error)).toBe('Error: Request failed\nCaused by: TypeError: socket closed');
+  });
+
+  it('serializes non-Error causes', () => {
+    const error = new Error('Save failed', { cause: { code: 'E_QUOTA' } });
+    expect(formatError(error)).toBe('Error: Save failed\nCaused by: {"code":"E_QUOTA"}');
+  });
+
+  it('stops at cyclic cause chains', () => {
+    const a = new Error('a');
+    const b = new Error('b', { cause: a });
+    (a as { cause?: unknown }).cause = b;
+    expect(formatError(a).split('\n')).toHaveLength(6);
+  });
+});
+
+describe('formatErrorStack', () => {
+  it('joins the stacks of the cause chain', () => {
+    const error = new Error('outer', { cause: new Error('inner') });
+    const stack = formatErrorStack(error)!;
+    expect(stack).toContain('Error: outer');
+    expect(stack).toContain('Caused by: Error: inner');
+  });
+
+  it('returns undefined without stacks', () => {
+    const error = new Error('no stack');
+    error.stack = undefined;
+    expect(formatErrorStack(error)).toBeUndefined();
+  });
+});
+
+describe('formatConsoleArgs', () => {
+  it('joins arguments with spaces', () => {
+    expect(formatConsoleArgs(['count', 3, { ok: true }])).toBe('count 3 {"ok":true}');
+  });
+
+  it('substitutes format specifiers', () => {
+    expect(formatConsoleArgs(['%s has %d items (%f%%)', 'cart', '3.7', 12.5])).toBe(
+      'cart has 3 items (12.5%)',
+    );
+    expect(formatConsoleArgs(['user %o', { id: 7 }])).toBe('user {"id":7}');
+    expect(formatConsoleArgs(['%cstyled', 'color: red'])).toBe('styled');
+  });
+
+  it('appends arguments left over after substitution', () => {
+    expect(formatConsoleArgs(['%s:', 'a', 'b', 1])).toBe('a: b 1');
+  });
+
+  it('leaves specifiers without arguments alone', () => {
+    expect(formatConsoleArgs(['100% done %s'])).toBe('100% done %s');
+  });
+
+  it('formats errors with their cause', () => {
+    const error = new Error('outer', { cause: new Error('inner') });
+    expect(formatConsoleArgs(['Failed:', error])).toBe(
+      'Failed: Error: outer\nCaused by: Error: inner',
+    );
+  });
+});
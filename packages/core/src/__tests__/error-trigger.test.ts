@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorReportGate, describeError } from '../error-trigger.js';
+
+describe('describeError', () => {
+  it('reads Errors, error-like objects, strings and other values', () => {
+    const error = new RangeError('out of range');
+    expect(describeError(error)).toEqual({ message: 'out of range', stack: error.stack });
+    expect(describeError({ message: 'plain', stack: 'at x' })).toEqual({
+      message: 'plain',
+      stack: 'at x',
+    });
+    expect(describeError('oops')).toEqual({ message: 'oops' });
+    expect(describeError({ code: 42 })).toEqual({ message: '{"code":42}' });
+    expect(describeError(undefined)).toEqual({ message: 'undefined' });
+  });
+});
+
+describe('ErrorReportGate', () => {
+  it('builds a crash payload from the message and stack', () => {
+    const gate = new ErrorReportGate();
+    const error = new Error('Checkout failed\nwith details');
+
+    expect(gate.toPayload(error)).toEqual({
+      title: 'Checkout failed',
+      description: error.stack,
+      severity: 'critical',
+      category: 'crash',
+    });
+  });
+
+  it('falls back to the message without a stack and truncates long titles', () => {
+    const gate = new ErrorReportGate({ severity: 'high' });
+    const payload = gate.toPayload('x'.repeat(300));
+
+    expect(payload?.title).toHaveLength(200);
+    expect(payload?.title?.endsWith('…')).toBe(true);
+    expect(payload?.description).toBe('x'.repeat(300));
+    expect(payload?.severity).toBe('high');
+  });
+
+  it('ignores default noise and custom patterns', () => {
+    const gate = new ErrorReportGate({ throttleMs: 0, ignore: ['AbortError', /^Loading chunk/] });
+
+    expect(gate.toPayload('Script error.')).toBeNull();
+    expect(gate.toPayload('ResizeObserver loop limit exceeded')).toBeNull();
+    expect(gate.toPayload(new Error('AbortError: aborted'))).toBeNull();
+    expect(gate.toPayload(new Error('Loading chunk 7 failed'))).toBeNull();
+    expect(gate.toPayload(new Error('real problem'))).not.toBeNull();
+  });
+
+  it('throttles reports within the window', () => {
+    let now = 0;
+    const gate = new ErrorReportGate({ throttleMs: 1000 }, () => now);
+
+    expect(gate.toPayload('a')).not.toBeNull();
+    gate.markReported();
+    now = 999;
+    expect(gate.toPayload('b')).toBeNull();
+    now = 1000;
+    expect(gate.toPayload('c')).not.toBeNull();
+
+    gate.reset();
+    expect(gate.toPayload('d')).not.toBeNull();
+  });
+
+  it('only starts the window once a report is marked', () => {
+    const gate = new ErrorReportGate({ throttleMs: 1000 }, () => 0);
+
+    expect(gate.toPayload('a')).not.toBeNull();
+    expect(gate.toPayload('b')).not.toBeNull();
+    gate.markReported();
+    expect(gate.toPayload('c')).toBeNull();
+  });
+
+  it('marks payloads headless in auto mode', () => {
+    const gate = new ErrorReportGate({ mode: 'auto' });
+    expect(gate.mode).toBe('auto');
+    expect(gate.toPayload('boom')?.headless).toBe(true);
+  });
+
+  it('attaches metadata to the payload', () => {
+    const gate = new ErrorReportGate();
+    expect(gate.toPayload('boom', { errorSource: 'error' })?.metadata).toEqual({
+      errorSource: 'error',
+    });
+    gate.reset();
+    expect(gate.toPayload('boom')).not.toHaveProperty('metadata');
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import {
   ShakeNbakeError,
   ERROR_MESSAGES,
+  parseRetryAfter,
 } from '../errors.js';
 import type { ErrorCode } from '../errors.js';
 
@@ -81,6 +82,7 @@ describe('ShakeNbakeError', () => {
       'RATE_LIMITED',
       'UPLOAD_FAILED',
       'NETWORK_ERROR',
+      'CONSENT_REQUIRED',
       'UNKNOWN',
     ];
     for (const code of codes) {
@@ -96,3 +98,35 @@ describe('ShakeNbakeError', () => {
     expect(err.stack).toContain('ShakeNbakeError');
   });
 });
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120000);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('parses an HTTP-date relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('clamps dates in the past to zero', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('ShakeNbakeError.retryAfterMs', () => {
+  it('stores retryAfterMs from options', () => {
+    const err = new ShakeNbakeError('slow down', 'RATE_LIMITED', {
+      retryAfterMs: 5000,
+    });
+    expect(err.retryAfterMs).toBe(5000);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FrustrationDetector } from '../frustration.js';
+
+describe('FrustrationDetector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signals a rage click once the threshold is reached', () => {
+    const detector = new FrustrationDetector();
+    expect(detector.recordClick('button#save')).toBeNull();
+    expect(detector.recordClick('button#save')).toBeNull();
+    expect(detector.recordClick('button#save')).toBeNull();
+
+    expect(detector.recordClick('button#save')).toEqual({
+      type: 'rage-click',
+      count: 4,
+      windowMs: 1000,
+      detectedAt: '2026-01-01T00:00:00.000Z',
+      target: 'button#save',
+    });
+  });
+
+  it('ignores clicks that fall outside the window', () => {
+    const detector = new FrustrationDetector();
+    for (let i = 0; i < 6; i++) {
+      expect(detector.recordClick('button#save')).toBeNull();
+      vi.advanceTimersByTime(400);
+    }
+  });
+
+  it('starts over when another element is clicked', () => {
+    const detector = new FrustrationDetector();
+    detector.recordClick('a');
+    detector.recordClick('a');
+    detector.recordClick('a');
+    expect(detector.recordClick('b')).toBeNull();
+    expect(detector.recordClick('a')).toBeNull();
+  });
+
+  it('counts clicks on disabled controls separately', () => {
+    const detector = new FrustrationDetector();
+    detector.recordClick('button#pay', true);
+    detector.recordClick('button#pay', true);
+    expect(detector.recordClick('button#pay', true)).toMatchObject({
+      type: 'disabled-click',
+      count: 3,
+      target: 'button#pay',
+    });
+  });
+
+  it('signals error bursts with the latest, trimmed message', () => {
+    const detector = new FrustrationDetector({ errorBursts: { count: 2, windowMs: 100 } });
+    detector.recordError('first');
+    const signal = detector.recordError('x'.repeat(300));
+    expect(signal).toMatchObject({ type: 'error-burst', count: 2, windowMs: 100 });
+    expect(signal?.message).toBe(`${'x'.repeat(200)}…`);
+    expect(signal).not.toHaveProperty('target');
+  });
+
+  it('stays quiet during the cooldown', () => {
+    const detector = new FrustrationDetector({ cooldownMs: 5000 });
+    for (let i = 0; i < 4; i++) detector.recordClick('a');
+
+    for (let i = 0; i < 4; i++) expect(detector.recordClick('a')).toBeNull();
+    for (let i = 0; i < 3; i++) expect(detector.recordError('boom')).toBeNull();
+
+    vi.advanceTimersByTime(5000);
+    for (let i = 0; i < 3; i++) detector.recordClick('a');
+    expect(detector.recordClick('a')).not.toBeNull();
+  });
+
+  it('can turn patterns off and never signals below two events', () => {
+    const detector = new FrustrationDetector({
+      rageClicks: false,
+      errorBursts: { count: 1 },
+    });
+    for (let i = 0; i < 10; i++) expect(detector.recordClick('a')).toBeNull();
+    expect(detector.recordError('once')).toBeNull();
+    expect(detector.recordError('twice')).not.toBeNull();
+  });
+
+  it('reset forgets events and ends the cooldown', () => {
+    const detector = new FrustrationDetector();
+    for (let i = 0; i < 4; i++) detector.recordClick('a');
+    detector.reset();
+    for (let i = 0; i < 3; i++) detector.recordClick('a');
+    expect(detector.recordClick('a')).not.toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ImagePipeline } from '../image-pipeline.js';
+import type { ImageCodec, ImageMimeType } from '../image-pipeline.js';
+
+// ---------------------------------------------------------------------------
+// Fake codec: encoded size = width * height * quality * bytesPerPixel.
+// ---------------------------------------------------------------------------
+
+function dataUri(mimeType: string, bytes: number): string {
+  return `data:${mimeType};base64,${'A'.repeat(Math.ceil((bytes * 4) / 3))}`;
+}
+
+function fakeCodec(
+  size: { width: number; height: number },
+  options?: { unsupported?: ImageMimeType[] },
+) {
+  const bytesPerPixel: Record<ImageMimeType, number> = {
+    'image/png': 4,
+    'image/jpeg': 1,
+    'image/webp': 0.5,
+  };
+  const codec: ImageCodec = {
+    getDimensions: vi.fn(async () => size),
+    encode: vi.fn<ImageCodec['encode']>(async (_image, encodeOptions) => {
+      const { width, height, mimeType, quality } = encodeOptions;
+      if (options?.unsupported?.includes(mimeType)) {
+        return dataUri('image/png', width * height * 4);
+      }
+      const q = mimeType === 'image/png' ? 1 : quality;
+      const bytes = Math.round(width * height * q * bytesPerPixel[mimeType]);
+      return dataUri(mimeType, bytes);
+    }),
+  };
+  return codec;
+}
+
+describe('ImagePipeline.process', () => {
+  it('keeps images that already fit the budget', async () => {
+    const codec = fakeCodec({ width: 100, height: 100 });
+    const image = dataUri('image/png', 40_000);
+
+    const result = await new ImagePipeline(codec).process(image);
+
+    expect(result.data).toBe(image);
+    expect(result.mimeType).toBe('image/png');
+    expect(codec.encode).not.toHaveBeenCalled();
+  });
+
+  it('converts to the preferred format at the highest quality that fits', async () => {
+    // 1000x1000 WebP: 500 kB at q=1, so q=0.9 (450 kB) fits a 500 kB budget.
+    const codec = fakeCodec({ width: 1000, height: 1000 });
+    const pipeline = new ImagePipeline(codec, { maxBytes: 500_000 });
+
+    const result = await pipeline.process(dataUri('image/png', 4_000_000));
+
+    expect(result.mimeType).toBe('image/webp');
+    expect(result.width).toBe(1000);
+    expect(result.bytes).toBeLessThanOrEqual(500_000);
+    expect(result.bytes).toBeGreaterThan(400_000);
+  });
+
+  it('searches quality down until the image fits', async () => {
+    const codec = fakeCodec({ width: 1000, height: 1000 });
+    const pipeline = new ImagePipeline(codec, {
+      maxBytes: 700_000,
+      formats: ['image/jpeg'],
+    });
+
+    const result = await pipeline.process(dataUri('image/png', 4_000_000));
+
+    // q=0.9 is 900 kB; the search settles on the best quality <= 0.7.
+    expect(result.mimeType).toBe('image/jpeg');
+    expect(result.bytes).toBeLessThanOrEqual(700_000);
+    expect(result.bytes).toBeGreaterThan(650_000);
+  });
+
+  it('downscales to maxPixels and further when quality alone is not enough', async () => {
+    const codec = fakeCodec({ width: 4000, height: 3000 });
+    const pipeline = new ImagePipeline(codec, {
+      maxPixels: 3_000_000,
+      maxBytes: 300_000,
+      formats: ['image/jpeg'],
+    });
+
+    const result = await pipeline.process(dataUri('image/png', 48_000_000));
+
+    expect(result.width * result.height).toBeLessThanOrEqual(3_000_000 * 0.75 * 0.75);
+    expect(result.bytes).toBeLessThanOrEqual(300_000);
+    expect(result.width / result.height).toBeCloseTo(4 / 3, 1);
+  });
+
+  it('falls back to the next format when the platform cannot encode one', async () => {
+    const codec = fakeCodec({ width: 1000, height: 1000 }, { unsupported: ['image/webp'] });
+    const pipeline = new ImagePipeline(codec, { maxBytes: 950_000 });
+
+    const result = await pipeline.process(dataUri('image/png', 4_000_000));
+
+    expect(result.mimeType).toBe('image/jpeg');
+  });
+});
+
+describe('ImagePipeline.processScreenshot', () => {
+  it('records final dimensions, format and sizes', async () => {
+    const codec = fakeCodec({ width: 1000, height: 1000 });
+    const pipeline = new ImagePipeline(codec, { maxBytes: 500_000 });
+
+    const screenshot = await pipeline.processScreenshot({
+      annotated: dataUri('image/png', 4_000_000),
+      original: dataUri('image/png', 3_900_000),
+      dimensions: { width: 1000, height: 1000 },
+    });
+
+    expect(screenshot.mimeType).toBe('image/webp');
+    expect(screenshot.dimensions).toEqual({ width: 1000, height: 1000 });
+    expect(screenshot.sizes!.annotated).toBeLessThanOrEqual(500_000);
+    expect(screenshot.originalSkipped).toBe(true); // same pixels, same encoding
+    expect(screenshot.original).toBe('');
+  });
+
+  it('skips an original identical to the annotated image', async () => {
+    const codec = fakeCodec({ width: 10, height: 10 });
+    const image = dataUri('image/png', 400);
+
+    const screenshot = await new ImagePipeline(codec).processScreenshot({
+      annotated: image,
+      original: image,
+      dimensions: { width: 10, height: 10 },
+    });
+
+    expect(screenshot.original).toBe('');
+    expect(screenshot.originalSkipped).toBe(true);
+    expect(screenshot.sizes).toEqual({ annotated: 400, original: 0 });
+  });
+
+  it('keeps the original when skipIdenticalOriginal is false', async () => {
+    const codec = fakeCodec({ width: 10, height: 10 });
+    const image = dataUri('image/png', 400);
+
+    const screenshot = await new ImagePipeline(codec, {
+      skipIdenticalOriginal: false,
+    }).processScreenshot({
+      annotated: image,
+      original: image,
+      dimensions: { width: 10, height: 10 },
+    });
+
+    expect(screenshot.original).toBe(image);
+    expect(screenshot.originalSkipped).toBeUndefined();
+  });
+
+  it('returns the screenshot unchanged when the codec fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const codec: ImageCodec = {
+      getDimensions: vi.fn(async () => {
+        throw new Error('decode failed');
+      }),
+      encode: vi.fn(),
+    };
+    const input = {
+      annotated: 'data:image/png;base64,AAAA',
+      original: 'data:image/png;base64,BBBB',
+      dimensions: { width: 1, height: 1 },
+    };
+
+    expect(await new ImagePipeline(codec).processScreenshot(input)).toBe(input);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('leaves reports without a screenshot untouched', async () => {
+    const codec = fakeCodec({ width: 10, height: 10 });
+    const input = { annotated: '', original: '', dimensions: { width: 0, height: 0 } };
+
+    expect(await new ImagePipeline(codec).processScreenshot(input)).toBe(input);
+    expect(codec.getDimensions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MiddlewarePipeline } from '../middleware.js';
+import type { BugReport, SubmitResult } from '../types.js';
+
+const REPORT = { id: 'r1', title: 'Broken', customMetadata: {} } as unknown as BugReport;
+const RESULT: SubmitResult = { url: 'https://linear.app/1', id: 'ISS-1', success: true };
+
+describe('MiddlewarePipeline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes the report through beforeSubmit hooks in order', async () => {
+    const pipeline = new MiddlewarePipeline([
+      {
+        name: 'release',
+        beforeSubmit: (report) => ({
+          ...report,
+          customMetadata: { ...report.customMetadata, release: '1.2.3' },
+        }),
+      },
+      {
+        name: 'title',
+        beforeSubmit: async (report) => ({
+          ...report,
+          title: `[${String(report.customMetadata?.['release'])}] ${report.title}`,
+        }),
+      },
+    ]);
+
+    const result = await pipeline.runBeforeSubmit(REPORT);
+
+    expect(result?.title).toBe('[1.2.3] Broken');
+    expect(result?.customMetadata).toEqual({ release: '1.2.3' });
+  });
+
+  it('keeps the report unchanged when a hook returns nothing', async () => {
+    const pipeline = new MiddlewarePipeline([{ name: 'noop', beforeSubmit: () => undefined }]);
+    expect(await pipeline.runBeforeSubmit(REPORT)).toBe(REPORT);
+  });
+
+  it('drops the report and skips later hooks when a hook returns null', async () => {
+    const later = vi.fn();
+    const pipeline = new MiddlewarePipeline([
+      { name: 'veto', beforeSubmit: () => null },
+      { name: 'later', beforeSubmit: later },
+    ]);
+
+    expect(await pipeline.runBeforeSubmit(REPORT)).toBeNull();
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('isolates a throwing beforeSubmit hook', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { name: 'broken', beforeSubmit: () => { throw new Error('boom'); } },
+      { name: 'tag', beforeSubmit: (report) => ({ ...report, title: 'Tagged' }) },
+    ]);
+
+    const result = await pipeline.runBeforeSubmit(REPORT);
+
+    expect(result?.title).toBe('Tagged');
+    expect(console.error).toHaveBeenCalledWith(
+      '[MiddlewarePipeline] Middleware "broken" beforeSubmit failed:',
+      expect.any(Error),
+    );
+  });
+
+  it('lets beforeCollect cancel the flow', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { name: 'ok', beforeCollect: () => undefined },
+      { name: 'cancel', beforeCollect: async () => false },
+    ]);
+    expect(await pipeline.runBeforeCollect()).toBe(false);
+  });
+
+  it('does not cancel the flow when beforeCollect throws', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { name: 'broken', beforeCollect: () => { throw new Error('boom'); } },
+    ]);
+    expect(await pipeline.runBeforeCollect()).toBe(true);
+  });
+
+  it('runs every afterSubmit hook even if one throws', async () => {
+    const second = vi.fn();
+    const pipeline = new MiddlewarePipeline([
+      { name: 'broken', afterSubmit: () => Promise.reject(new Error('boom')) },
+      { name: 'analytics', afterSubmit: second },
+    ]);
+
+    await pipeline.runAfterSubmit(REPORT, RESULT);
+
+    expect(second).toHaveBeenCalledWith(REPORT, RESULT);
+  });
+
+  it('is a no-op without middleware', async () => {
+    const pipeline = new MiddlewarePipeline();
+    expect(await pipeline.runBeforeCollect()).toBe(true);
+    expect(await pipeline.runBeforeSubmit(REPORT)).toBe(REPORT);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MultiDestinationAdapter } from '../multi-destination-adapter.js';
+import { ShakeNbakeError } from '../errors.js';
+import type { BugReport, DestinationAdapter } from '../types.js';
+
+const REPORT = { id: 'r1', title: 'Broken' } as unknown as BugReport;
+
+function makeAdapter(
+  name: string,
+  overrides?: Partial<DestinationAdapter>,
+): DestinationAdapter {
+  return {
+    name,
+    uploadImage: vi.fn().mockResolvedValue(`https://${name}.example.com/img.png`),
+    createIssue: vi.fn().mockResolvedValue({
+      url: `https://${name}.example.com/1`,
+      id: `${name}-1`,
+      success: true,
+    }),
+    testConnection: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  };
+}
+
+const failing = (name: string, error: unknown) =>
+  makeAdapter(name, { createIssue: vi.fn().mockRejectedValue(error) });
+
+describe('MultiDestinationAdapter', () => {
+  it('requires at least one adapter', () => {
+    expect(() => new MultiDestinationAdapter([])).toThrow(ShakeNbakeError);
+  });
+
+  it('submits to every adapter and lists each outcome', async () => {
+    const linear = makeAdapter('linear');
+    const slack = makeAdapter('slack');
+    const adapter = new MultiDestinationAdapter([linear, slack]);
+
+    const result = await adapter.createIssue(REPORT);
+
+    expect(result).toEqual({
+      url: 'https://linear.example.com/1',
+      id: 'linear-1',
+      success: true,
+      destinations: [
+        { adapter: 'linear', success: true, url: 'https://linear.example.com/1', id: 'linear-1' },
+        { adapter: 'slack', success: true, url: 'https://slack.example.com/1', id: 'slack-1' },
+      ],
+    });
+    expect(linear.createIssue).toHaveBeenCalledWith(REPORT);
+    expect(slack.createIssue).toHaveBeenCalledWith(REPORT);
+  });
+
+  it('never calls uploadImage on children (createIssue uploads once per adapter)', async () => {
+    const linear = makeAdapter('linear');
+    await new MultiDestinationAdapter([linear]).createIssue(REPORT);
+    expect(linear.uploadImage).not.toHaveBeenCalled();
+  });
+
+  it("fails in 'all' mode when any child fails", async () => {
+    const adapter = new MultiDestinationAdapter([
+      makeAdapter('linear'),
+      failing('slack', new ShakeNbakeError('bad token', 'AUTH_FAILED')),
+    ]);
+
+    const error = await adapter.createIssue(REPORT).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ShakeNbakeError);
+    expect((error as ShakeNbakeError).code).toBe('AUTH_FAILED');
+    expect((error as ShakeNbakeError).message).toContain('slack: bad token');
+    expect((error as ShakeNbakeError).originalError).toEqual([
+      { adapter: 'linear', success: true, url: 'https://linear.example.com/1', id: 'linear-1' },
+      { adapter: 'slack', success: false, error: 'bad token' },
+    ]);
+  });
+
+  it("succeeds in 'best-effort' mode when at least one child succeeds", async () => {
+    const adapter = new MultiDestinationAdapter(
+      [failing('linear', new Error('boom')), makeAdapter('archive')],
+      { mode: 'best-effort' },
+    );
+
+    const result = await adapter.createIssue(REPORT);
+
+    expect(result.url).toBe('https://archive.example.com/1');
+    expect(result.destinations).toEqual([
+      { adapter: 'linear', success: false, error: 'boom' },
+      { adapter: 'archive', success: true, url: 'https://archive.example.com/1', id: 'archive-1' },
+    ]);
+  });
+
+  it("stops at the first success in 'first-success' mode", async () => {
+    const first = failing('linear', new Error('down'));
+    const second = makeAdapter('slack');
+    const third = makeAdapter('archive');
+    const adapter = new MultiDestinationAdapter([first, second, third], {
+      mode: 'first-success',
+    });
+
+    const result = await adapter.createIssue(REPORT);
+
+    expect(result.id).toBe('slack-1');
+    expect(third.createIssue).not.toHaveBeenCalled();
+    expect(result.destinations?.[2]).toEqual({ adapter: 'archive', success: false });
+  });
+
+  it('only resubmits failed children when a report is retried', async () => {
+    const linear = makeAdapter('linear');
+    const slack = makeAdapter('slack', {
+      createIssue: vi
+        .fn()
+        .mockRejectedValueOnce(new ShakeNbakeError('offline', 'NETWORK_ERROR'))
+        .mockResolvedValue({ url: 'https://slack.example.com/1', id: 'slack-1', success: true }),
+    });
+    const adapter = new MultiDestinationAdapter([linear, slack]);
+
+    await expect(adapter.createIssue(REPORT)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+      retryable: true,
+    });
+    const result = await adapter.createIssue(REPORT);
+
+    expect(result.success).toBe(true);
+    expect(linear.createIssue).toHaveBeenCalledTimes(1);
+    expect(slack.createIssue).toHaveBeenCalledTimes(2);
+  });
+
+  it('is only retryable when every failure is retryable', async () => {
+    const adapter = new MultiDestinationAdapter([
+      failing('linear', new ShakeNbakeError('offline', 'NETWORK_ERROR')),
+      failing('slack', new ShakeNbakeError('bad token', 'AUTH_FAILED')),
+    ]);
+
+    await expect(adapter.createIssue(REPORT)).rejects.toMatchObject({
+      code: 'UNKNOWN',
+      retryable: false,
+    });
+  });
+
+  it('returns the first successful upload URL', async () => {
+    const adapter = new MultiDestinationAdapter([
+      makeAdapter('linear', { uploadImage: vi.fn().mockRejectedValue(new Error('no')) }),
+      makeAdapter('slack'),
+    ]);
+
+    await expect(adapter.uploadImage(new Blob(['x']), 'a.png')).resolves.toBe(
+      'https://slack.example.com/img.png',
+    );
+  });
+
+  it('testConnection requires every child in all mode and any child otherwise', async () => {
+    const children = [
+      makeAdapter('linear'),
+      makeAdapter('slack', { testConnection: vi.fn().mockResolvedValue(false) }),
+    ];
+
+    await expect(new MultiDestinationAdapter(children).testConnection()).resolves.toBe(false);
+    await expect(
+      new MultiDestinationAdapter(children, { mode: 'best-effort' }).testConnection(),
+    ).resolves.toBe(true);
+  });
+
+  it('requestUrls combines the children', () => {
+    const adapter = new MultiDestinationAdapter([
+      makeAdapter('linear', { requestUrls: () => ['https://api.linear.app/graphql'] }),
+      makeAdapter('slack'),
+      makeAdapter('proxy', { requestUrls: () => ['/api/bugs/'] }),
+    ]);
+    expect(adapter.requestUrls()).toEqual(['https://api.linear.app/graphql', '/api/bugs/']);
+  });
+});
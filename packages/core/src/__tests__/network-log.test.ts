@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NetworkLog,
+  bodySize,
+  bodyText,
+  isFailedRequest,
+  parseRawHeaders,
+  redactHeaders,
+  redactUrl,
+} from '../network-log.js';
+import type { DestinationAdapter, NetworkRequest } from '../types.js';
+
+function makeRequest(overrides?: Partial<NetworkRequest>): NetworkRequest {
+  return {
+    initiator: 'fetch',
+    method: 'GET',
+    url: 'https://api.example.com/items',
+    status: 200,
+    startedAt: '2026-02-20T12:00:00.000Z',
+    durationMs: 120,
+    ...overrides,
+  };
+}
+
+describe('redactUrl', () => {
+  it('redacts sensitive query parameters and credentials', () => {
+    expect(
+      redactUrl('https://user:pw@api.example.com/a?page=2&access_token=abc&API_KEY=k#top'),
+    ).toBe('https://api.example.com/a?page=2&access_token=[REDACTED]&API_KEY=[REDACTED]#top');
+  });
+
+  it('keeps relative URLs and URLs without a query as they are', () => {
+    expect(redactUrl('/api/items')).toBe('/api/items');
+    expect(redactUrl('/api/items?clientSecret=s')).toBe('/api/items?clientSecret=[REDACTED]');
+  });
+
+  it('redacts extra parameter names', () => {
+    expect(redactUrl('/search?email=a%40b.co&q=x', ['email'])).toBe(
+      '/search?email=[REDACTED]&q=x',
+    );
+  });
+});
+
+describe('header helpers', () => {
+  it('redacts sensitive headers', () => {
+    expect(
+      redactHeaders(
+        { Authorization: 'Bearer x', 'X-CSRF-Token': 't', 'X-Tenant': 'acme', Accept: '*/*' },
+        ['x-tenant'],
+      ),
+    ).toEqual({
+      Authorization: '[REDACTED]',
+      'X-CSRF-Token': '[REDACTED]',
+      'X-Tenant': '[REDACTED]',
+      Accept: '*/*',
+    });
+  });
+
+  it('parses raw XHR response headers', () => {
+    expect(parseRawHeaders('Content-Type: application/json\r\nX-Request-Id: a:b\r\n')).toEqual({
+      'content-type': 'application/json',
+      'x-request-id': 'a:b',
+    });
+    expect(parseRawHeaders(null)).toEqual({});
+  });
+});
+
+describe('body helpers', () => {
+  it('measures text and binary bodies', () => {
+    expect(bodySize('héllo')).toBe(6);
+    expect(bodySize(new Uint8Array(4))).toBe(4);
+    expect(bodySize(new URLSearchParams({ a: '1' }))).toBe(3);
+    expect(bodySize({})).toBeUndefined();
+  });
+
+  it('returns text bodies only', () => {
+    expect(bodyText('{"a":1}')).toBe('{"a":1}');
+    expect(bodyText(new URLSearchParams({ a: '1' }))).toBe('a=1');
+    expect(bodyText(new Uint8Array(2))).toBeUndefined();
+  });
+});
+
+describe('isFailedRequest', () => {
+  it('flags HTTP errors and requests without a response', () => {
+    expect(isFailedRequest(makeRequest({ status: 200 }))).toBe(false);
+    expect(isFailedRequest(makeRequest({ status: 404 }))).toBe(true);
+    expect(isFailedRequest(makeRequest({ status: 0 }))).toBe(true);
+    expect(isFailedRequest(makeRequest({ status: undefined, error: 'Network error' }))).toBe(true);
+  });
+});
+
+describe('NetworkLog', () => {
+  it('keeps the most recent requests', () => {
+    const log = new NetworkLog({ maxRequests: 2 });
+    log.add(makeRequest({ url: '/a' }));
+    log.add(makeRequest({ url: '/b' }));
+    log.add(makeRequest({ url: '/c' }));
+
+    expect(log.getAll().map((r) => r.url)).toEqual(['/b', '/c']);
+  });
+
+  it('skips ignored URLs and redacts the rest', () => {
+    const log = new NetworkLog({ ignoreUrls: ['/api/shakenbake', /uploads\.linear\.app/] });
+
+    expect(log.add(makeRequest({ url: '/api/shakenbake/issue' }))).toBeNull();
+    expect(log.add(makeRequest({ url: 'https://uploads.linear.app/x?sig=1' }))).toBeNull();
+    expect(log.add(makeRequest({ url: '/me?token=t' }))?.url).toBe('/me?token=[REDACTED]');
+    expect(log.getAll()).toHaveLength(1);
+  });
+
+  it("skips the destination's request URLs as they change", () => {
+    const urls: Array<string | RegExp> = [/\/graphql$/];
+    const destination: DestinationAdapter = {
+      name: 'linear',
+      uploadImage: async () => '',
+      createIssue: async () => ({ url: '', id: '', success: true }),
+      testConnection: async () => true,
+      requestUrls: () => urls,
+    };
+    const log = new NetworkLog({}, destination);
+
+    expect(log.shouldRecord('https://api.linear.app/graphql')).toBe(false);
+    expect(log.shouldRecord('https://storage.example.com/signed/1?sig=x')).toBe(true);
+    urls.push('https://storage.example.com/signed/1');
+    expect(log.shouldRecord('https://storage.example.com/signed/1?sig=x')).toBe(false);
+  });
+
+  it('drops bodies unless captureBodies is on', () => {
+    const log = new NetworkLog();
+    const entry = log.add(makeRequest({ requestBody: 'a', responseBody: 'b' }));
+
+    expect(entry).not.toHaveProperty('requestBody');
+    expect(entry).not.toHaveProperty('responseBody');
+  });
+
+  it('keeps redacted headers only when captureHeaders is on', () => {
+    const request = makeRequest({
+      requestHeaders: { authorization: 'Bearer x', accept: 'application/json' },
+      responseHeaders: { 'set-cookie': 'sid=1' },
+    });
+
+    expect(new NetworkLog().add(request)).not.toHaveProperty('requestHeaders');
+    expect(new NetworkLog({ captureHeaders: true }).add(request)).toMatchObject({
+      requestHeaders: { authorization: '[REDACTED]', accept: 'application/json' },
+      responseHeaders: { 'set-cookie': '[REDACTED]' },
+    });
+  });
+
+  it('truncates captured bodies', () => {
+    const log = new NetworkLog({ captureBodies: true, maxBodyLength: 5 });
+    const entry = log.add(makeRequest({ requestBody: 'short', responseBody: 'x'.repeat(8) }));
+
+    expect(entry?.requestBody).toBe('short');
+    expect(entry?.responseBody).toBe('xxxxx… (8 chars)');
+  });
+
+  it('marks partly read response bodies as truncated without a length', () => {
+    const log = new NetworkLog({ captureBodies: true, maxBodyLength: 5 });
+    const entry = log.add(makeRequest({ responseBody: 'x'.repeat(8) }), {
+      partialResponseBody: true,
+    });
+
+    expect(entry?.responseBody).toBe('xxxxx… (truncated)');
+  });
+
+  it('clears', () => {
+    const log = new NetworkLog();
+    log.add(makeRequest());
+    log.clear();
+    expect(log.getAll()).toEqual([]);
+  });
+});
@@ -61,4 +61,64 @@ describe('redactContext', () => {
     expect(result.platform?.os).toBe('web');
     expect(result.app?.url).toBe('https://example.com/secret?token=abc');
   });
+
+  it('removes fields at arbitrary depth', () => {
+    const ctx = {
+      ...makeContext(),
+      navigation: { currentRoute: 'Reset', routeParams: { token: 'abc', step: 2 } },
+    };
+    const result = redactContext(ctx, ['navigation.routeParams.token']);
+    expect(result.navigation?.routeParams).toEqual({ step: 2 });
+  });
+
+  it('matches any depth with **', () => {
+    const ctx = {
+      ...makeContext(),
+      navigation: { routeParams: { token: 'a', nested: { token: 'b', keep: 1 } } },
+    } as Partial<DeviceContext>;
+    const result = redactContext(ctx, ['**.token']);
+    expect(result.navigation?.routeParams).toEqual({ nested: { keep: 1 } });
+  });
+
+  it('supports array wildcards and indices', () => {
+    const ctx = {
+      ...makeContext(),
+      console: {
+        recentLogs: [
+          { level: 'info', message: 'one', timestamp: 't1' },
+          { level: 'warn', message: 'two', timestamp: 't2' },
+        ],
+      },
+      navigation: { navigationHistory: ['/a', '/b', '/c'] },
+    };
+    const result = redactContext(ctx, [
+      'console.recentLogs[*].message',
+      'navigation.navigationHistory[1]',
+    ]);
+    expect(result.console?.recentLogs).toEqual([
+      { level: 'info', timestamp: 't1' },
+      { level: 'warn', timestamp: 't2' },
+    ]);
+    expect(result.navigation?.navigationHistory).toEqual(['/a', '/c']);
+  });
+
+  it('masks values while keeping the key', () => {
+    const result = redactContext(makeContext(), [
+      { path: 'app.url', mask: '***' },
+      { path: 'console.recentLogs[*].message', mask: '[redacted]' },
+    ]);
+    expect(result.app).toHaveProperty('url', '***');
+    expect(result.console?.recentLogs?.[0]?.message).toBe('[redacted]');
+    expect(result.console?.recentLogs?.[0]?.level).toBe('info');
+  });
+
+  it('masks every leaf below a ** suffix', () => {
+    const result = redactContext(makeContext(), [{ path: 'app.**', mask: '***' }]);
+    expect(result.app).toEqual({ url: '***', pathname: '***', title: '***' });
+  });
+
+  it('ignores malformed patterns', () => {
+    const ctx = makeContext();
+    expect(redactContext(ctx, ['app[x]', 'app.url[', ''])).toEqual(ctx);
+  });
 });
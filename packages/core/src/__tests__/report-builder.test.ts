@@ -139,6 +139,20 @@ describe('ReportBuilder', () => {
       expect(report.audio).toBeUndefined();
     });
 
+    it('copies attachments from the input', () => {
+      const builder = new ReportBuilder(new PluginRegistry(), makeAdapter());
+      const attachment = {
+        kind: 'log' as const,
+        mimeType: 'text/plain',
+        filename: 'app.log',
+        size: 3,
+        data: 'bG9n',
+      };
+
+      const report = builder.build(makeInput({ attachments: [attachment] }), makeDeviceContext());
+      expect(report.attachments).toEqual([attachment]);
+    });
+
     it('throws ShakeNbakeError when title is empty', () => {
       const registry = new PluginRegistry();
       const adapter = makeAdapter();
@@ -149,14 +163,19 @@ describe('ReportBuilder', () => {
       expect(() => builder.build(input, ctx)).toThrow(ShakeNbakeError);
     });
 
-    it('throws ShakeNbakeError when annotatedScreenshot is missing', () => {
+    it('builds a report without a screenshot', () => {
       const registry = new PluginRegistry();
       const adapter = makeAdapter();
       const builder = new ReportBuilder(registry, adapter);
       const ctx = makeDeviceContext();
-      const input = makeInput({ annotatedScreenshot: '' });
+      const input = makeInput({
+        annotatedScreenshot: undefined,
+        originalScreenshot: undefined,
+      });
 
-      expect(() => builder.build(input, ctx)).toThrow(ShakeNbakeError);
+      const report = builder.build(input, ctx);
+      expect(report.screenshot.annotated).toBe('');
+      expect(report.screenshot.original).toBe('');
     });
 
     it('includes all input fields in the report', () => {
@@ -253,6 +272,20 @@ describe('ReportBuilder', () => {
       expect(ctx.battery).toEqual({});
     });
 
+    it('keeps breadcrumbs from collectors', async () => {
+      const registry = new PluginRegistry();
+      const breadcrumbs = [
+        { type: 'click' as const, message: 'Clicked button', timestamp: '2026-01-01T00:00:00Z' },
+      ];
+      registry.registerCollector(makeCollector('breadcrumbs', { breadcrumbs }));
+      const builder = new ReportBuilder(registry, makeAdapter());
+
+      expect((await builder.collectContext()).breadcrumbs).toEqual(breadcrumbs);
+
+      const empty = new ReportBuilder(new PluginRegistry(), makeAdapter());
+      expect(await empty.collectContext()).not.toHaveProperty('breadcrumbs');
+    });
+
     it('handles collector errors gracefully', async () => {
       const registry = new PluginRegistry();
       registry.registerCollector(
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeReportPayload,
+  encodeReportPayload,
+  reportPayloadFromFormData,
+  reportPayloadToFormData,
+  resolvePart,
+} from '../report-payload.js';
+import { ShakeNbakeError } from '../errors.js';
+import type { BugReport } from '../types.js';
+
+function makeReport(overrides?: Partial<BugReport>): BugReport {
+  return {
+    id: 'r1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    title: 'Bug',
+    description: '',
+    severity: 'low',
+    category: 'bug',
+    screenshot: {
+      annotated: 'data:image/webp;base64,YW5ub3RhdGVk',
+      original: 'b3JpZ2luYWw=',
+      dimensions: { width: 1, height: 1 },
+    },
+    context: {} as BugReport['context'],
+    ...overrides,
+  };
+}
+
+describe('encodeReportPayload', () => {
+  it('moves inline binaries into parts and references them', () => {
+    const payload = encodeReportPayload(
+      makeReport({
+        audio: { data: 'YXVkaW8=', durationMs: 1000, mimeType: 'audio/webm' },
+        attachments: [
+          { kind: 'log', mimeType: 'text/plain', filename: 'console', size: 3, data: 'bG9n' },
+          { kind: 'video', mimeType: 'video/mp4', filename: 'a.mp4', size: 0, url: 'https://x/a.mp4' },
+        ],
+      }),
+    );
+
+    expect(payload.manifest.screenshot.annotated).toBe('part:screenshot-annotated');
+    expect(payload.manifest.screenshot.original).toBe('part:screenshot-original');
+    expect(payload.manifest.audio?.data).toBe('part:audio');
+    expect(payload.manifest.attachments?.[0]?.data).toBe('part:attachment-1');
+    expect(payload.manifest.attachments?.[1]).toEqual({
+      kind: 'video',
+      mimeType: 'video/mp4',
+      filename: 'a.mp4',
+      size: 0,
+      url: 'https://x/a.mp4',
+    });
+
+    expect(payload.parts.map(({ name, filename, mimeType }) => ({ name, filename, mimeType }))).toEqual([
+      { name: 'screenshot-annotated', filename: 'screenshot-annotated-r1.webp', mimeType: 'image/webp' },
+      { name: 'screenshot-original', filename: 'screenshot-original-r1.png', mimeType: 'image/png' },
+      { name: 'audio', filename: 'audio-r1.webm', mimeType: 'audio/webm' },
+      { name: 'attachment-1', filename: 'console.txt', mimeType: 'text/plain' },
+    ]);
+    const annotated = resolvePart(payload, payload.manifest.screenshot.annotated);
+    expect(new TextDecoder().decode(annotated?.data)).toBe('annotated');
+  });
+
+  it('keeps empty values and remote URLs out of the parts', () => {
+    const payload = encodeReportPayload(
+      makeReport({
+        screenshot: {
+          annotated: 'https://cdn.example.com/shot.png',
+          original: '',
+          dimensions: { width: 1, height: 1 },
+        },
+      }),
+    );
+
+    expect(payload.parts).toEqual([]);
+    expect(payload.manifest.screenshot.annotated).toBe('https://cdn.example.com/shot.png');
+    expect(payload.manifest.screenshot.original).toBe('');
+  });
+
+  it('migrates legacy customMetadata.attachments', () => {
+    const payload = encodeReportPayload(
+      makeReport({ customMetadata: { attachments: [{ base64: 'cGhvdG8=' }] } }),
+    );
+
+    expect(payload.manifest.customMetadata).toEqual({});
+    expect(payload.parts.at(-1)).toMatchObject({
+      name: 'attachment-1',
+      filename: 'attachment-r1-1.png',
+    });
+  });
+});
+
+describe('decodeReportPayload', () => {
+  it('restores inline data URIs', () => {
+    const report = decodeReportPayload(encodeReportPayload(makeReport()));
+
+    expect(report.screenshot.annotated).toBe('data:image/webp;base64,YW5ub3RhdGVk');
+    expect(report.screenshot.original).toBe('data:image/png;base64,b3JpZ2luYWw=');
+  });
+});
+
+describe('multipart form data', () => {
+  it('round-trips a payload', async () => {
+    const payload = encodeReportPayload(makeReport());
+
+    const parsed = await reportPayloadFromFormData(reportPayloadToFormData(payload));
+
+    expect(parsed.manifest).toEqual(payload.manifest);
+    expect(parsed.parts).toEqual(payload.parts);
+  });
+
+  it('rejects form data without a manifest', async () => {
+    await expect(reportPayloadFromFormData(new FormData())).rejects.toBeInstanceOf(
+      ShakeNbakeError,
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ReportQueue, DEFAULT_QUEUE_STORAGE_KEY } from '../report-queue.js';
+import { MemoryStorage } from '../storage.js';
+import { ShakeNbakeError } from '../errors.js';
+import type { BugReport, DestinationAdapter, SubmitResult } from '../types.js';
+
+function makeReport(id: string): BugReport {
+  return {
+    id,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    title: `Report ${id}`,
+    description: '',
+    severity: 'medium',
+    category: 'bug',
+    screenshot: {
+      annotated: 'YW5ub3RhdGVk',
+      original: 'b3JpZ2luYWw=',
+      dimensions: { width: 100, height: 100 },
+    },
+    context: {
+      platform: { os: 'web' },
+      device: {},
+      screen: { width: 0, height: 0 },
+      network: {},
+      battery: {},
+      locale: {},
+      app: {},
+      accessibility: {},
+      performance: {},
+      navigation: {},
+      console: {},
+    },
+  };
+}
+
+function makeAdapter(overrides?: Partial<DestinationAdapter>): DestinationAdapter {
+  return {
+    name: 'mock',
+    uploadImage: vi.fn().mockResolvedValue('https://cdn.example.com/img.png'),
+    createIssue: vi.fn(async (report: BugReport) => ({
+      url: `https://linear.app/${report.id}`,
+      id: report.id,
+      success: true,
+    })),
+    testConnection: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  };
+}
+
+describe('ReportQueue', () => {
+  it('enqueues and persists reports to storage', async () => {
+    const storage = new MemoryStorage();
+    const queue = new ReportQueue(makeAdapter(), { storage });
+
+    await queue.enqueue(makeReport('a'));
+
+    expect(await queue.size()).toBe(1);
+    const raw = await storage.getItem(DEFAULT_QUEUE_STORAGE_KEY);
+    expect(JSON.parse(raw!)[0].report.id).toBe('a');
+  });
+
+  it('ignores duplicate report ids', async () => {
+    const queue = new ReportQueue(makeAdapter(), { storage: new MemoryStorage() });
+
+    expect(await queue.enqueue(makeReport('a'))).toBe(true);
+    expect(await queue.enqueue(makeReport('a'))).toBe(false);
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('drops the oldest reports beyond maxSize', async () => {
+    const queue = new ReportQueue(makeAdapter(), {
+      storage: new MemoryStorage(),
+      maxSize: 2,
+    });
+
+    await queue.enqueue(makeReport('a'));
+    await queue.enqueue(makeReport('b'));
+    await queue.enqueue(makeReport('c'));
+
+    const pending = await queue.getPending();
+    expect(pending.map((e) => e.report.id)).toEqual(['b', 'c']);
+  });
+
+  it('restores queued reports from storage in a new instance', async () => {
+    const storage = new MemoryStorage();
+    await new ReportQueue(makeAdapter(), { storage }).enqueue(makeReport('a'));
+
+    const adapter = makeAdapter();
+    const result = await new ReportQueue(adapter, { storage }).drain();
+
+    expect(adapter.createIssue).toHaveBeenCalledTimes(1);
+    expect(result.submitted[0]?.reportId).toBe('a');
+    expect(result.remaining).toBe(0);
+    expect(await storage.getItem(DEFAULT_QUEUE_STORAGE_KEY)).toBeNull();
+  });
+
+  it('keeps reports and stops draining on a retryable failure', async () => {
+    const adapter = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValue(new ShakeNbakeError('offline', 'NETWORK_ERROR')),
+    });
+    const queue = new ReportQueue(adapter, { storage: new MemoryStorage() });
+    await queue.enqueue(makeReport('a'));
+    await queue.enqueue(makeReport('b'));
+
+    const result = await queue.drain();
+
+    expect(adapter.createIssue).toHaveBeenCalledTimes(1);
+    expect(result.remaining).toBe(2);
+    const [first] = await queue.getPending();
+    expect(first?.attempts).toBe(1);
+    expect(first?.lastError).toBe('offline');
+  });
+
+  it('drops reports that fail with a non-retryable error', async () => {
+    const adapter = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValue(new ShakeNbakeError('bad key', 'AUTH_FAILED')),
+    });
+    const queue = new ReportQueue(adapter, { storage: new MemoryStorage() });
+    await queue.enqueue(makeReport('a'));
+
+    const result = await queue.drain();
+
+    expect(result.dropped).toEqual([{ reportId: 'a', error: 'bad key' }]);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('drops reports once maxAttempts is reached', async () => {
+    const adapter = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValue(new ShakeNbakeError('offline', 'NETWORK_ERROR')),
+    });
+    const queue = new ReportQueue(adapter, {
+      storage: new MemoryStorage(),
+      maxAttempts: 2,
+    });
+    await queue.enqueue(makeReport('a'));
+
+    await queue.drain();
+    expect(await queue.size()).toBe(1);
+
+    const result = await queue.drain();
+    expect(result.dropped[0]?.reportId).toBe('a');
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('shares a single in-flight drain between concurrent callers', async () => {
+    let resolveIssue!: () => void;
+    const adapter = makeAdapter({
+      createIssue: vi.fn(
+        () =>
+          new Promise<SubmitResult>((resolve) => {
+            resolveIssue = () =>
+              resolve({ url: 'https://linear.app/a', id: 'a', success: true });
+          }),
+      ),
+    });
+    const queue = new ReportQueue(adapter, { storage: new MemoryStorage() });
+    await queue.enqueue(makeReport('a'));
+
+    const first = queue.drain();
+    const second = queue.drain();
+    await vi.waitFor(() => expect(adapter.createIssue).toHaveBeenCalled());
+    resolveIssue();
+
+    expect(await first).toBe(await second);
+    expect(adapter.createIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats corrupt storage as an empty queue', async () => {
+    const storage = new MemoryStorage();
+    await storage.setItem(DEFAULT_QUEUE_STORAGE_KEY, '{not json');
+    const queue = new ReportQueue(makeAdapter(), { storage });
+
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('isQueueable only accepts retryable ShakeNbakeErrors', () => {
+    expect(ReportQueue.isQueueable(new ShakeNbakeError('x', 'NETWORK_ERROR'))).toBe(true);
+    expect(ReportQueue.isQueueable(new ShakeNbakeError('x', 'RATE_LIMITED'))).toBe(true);
+    expect(ReportQueue.isQueueable(new ShakeNbakeError('x', 'AUTH_FAILED'))).toBe(false);
+    expect(ReportQueue.isQueueable(new Error('x'))).toBe(false);
+  });
+});
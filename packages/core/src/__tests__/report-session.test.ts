@@ -0,0 +1,509 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ReportSession } from '../report-session.js';
+import type { ReportSessionOptions } from '../report-session.js';
+import type { FlowStep } from '../flow-state.js';
+import { ShakeNbakeError } from '../errors.js';
+import type {
+  CapturePlugin,
+  DestinationAdapter,
+  ReportInput,
+  ShakeNbakeConfig,
+  TriggerPlugin,
+} from '../types.js';
+
+function makeAdapter(overrides?: Partial<DestinationAdapter>): DestinationAdapter {
+  return {
+    name: 'mock',
+    uploadImage: vi.fn().mockResolvedValue('https://cdn.example.com/img.png'),
+    createIssue: vi
+      .fn()
+      .mockResolvedValue({ url: 'https://linear.app/1', id: 'ISS-1', success: true }),
+    testConnection: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  };
+}
+
+function makeCapture(overrides?: Partial<CapturePlugin>): CapturePlugin {
+  return {
+    name: 'mock-capture',
+    platform: 'universal',
+    capture: vi.fn().mockResolvedValue({
+      imageData: 'data:image/png;base64,AAAA',
+      dimensions: { width: 390, height: 844 },
+      mimeType: 'image/png',
+    }),
+    ...overrides,
+  };
+}
+
+function makeInput(overrides?: Partial<ReportInput>): ReportInput {
+  return {
+    title: 'Button is broken',
+    description: 'Nothing happens on tap',
+    severity: 'high',
+    category: 'bug',
+    annotatedScreenshot: 'data:image/png;base64,AAAA',
+    originalScreenshot: 'data:image/png;base64,AAAA',
+    ...overrides,
+  };
+}
+
+function makeSession(
+  config: Partial<ShakeNbakeConfig> = {},
+  options: Omit<ReportSessionOptions, 'config'> = {},
+  capture: CapturePlugin = makeCapture(),
+): ReportSession {
+  const session = new ReportSession({
+    config: { enabled: true, destination: makeAdapter(), ...config },
+    ...options,
+  });
+  session.registry.registerCapture(capture);
+  return session;
+}
+
+function waitForStep(session: ReportSession, step: FlowStep): Promise<void> {
+  return vi.waitFor(() => {
+    expect(session.getState().step).toBe(step);
+  });
+}
+
+/** Drives a session from idle to the report form. */
+async function openForm(session: ReportSession): Promise<void> {
+  session.trigger();
+  await waitForStep(session, 'annotating');
+  session.finishAnnotation('data:image/png;base64,AAAA', 'data:image/png;base64,AAAA');
+}
+
+describe('ReportSession', () => {
+  // ---- Capture ----
+
+  it('captures the screenshot and context, then opens annotation', async () => {
+    const session = makeSession({
+      contextCollectors: [],
+    });
+    session.registry.registerCollector({
+      name: 'app',
+      platform: 'universal',
+      collect: vi.fn().mockResolvedValue({ app: { version: '1.2.3' } }),
+    });
+    const steps: FlowStep[] = [];
+    session.subscribe((state) => steps.push(state.step));
+
+    session.trigger();
+    expect(session.getState().step).toBe('triggered');
+    await waitForStep(session, 'annotating');
+
+    expect(steps).toEqual(['triggered', 'capturing', 'annotating']);
+    const { data } = session.getState();
+    expect(data.captureResult?.dimensions).toEqual({ width: 390, height: 844 });
+    expect(data.context?.app).toEqual({ version: '1.2.3' });
+  });
+
+  it('ignores triggers when disabled or already in a flow', async () => {
+    const disabled = makeSession({ enabled: false });
+    expect(disabled.trigger()).toBe(false);
+    expect(disabled.getState().step).toBe('idle');
+
+    const capture = makeCapture();
+    const session = makeSession({}, {}, capture);
+    expect(session.trigger()).toBe(true);
+    expect(session.trigger()).toBe(false);
+    await waitForStep(session, 'annotating');
+    expect(capture.capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns to idle when beforeCollect vetoes the report', async () => {
+    const capture = makeCapture();
+    const session = makeSession(
+      { middleware: [{ name: 'veto', beforeCollect: () => false }] },
+      {},
+      capture,
+    );
+
+    session.trigger();
+    await waitForStep(session, 'idle');
+    expect(capture.capture).not.toHaveBeenCalled();
+  });
+
+  it('moves to error when capture fails or times out', async () => {
+    const failing = makeSession({}, {}, makeCapture({
+      capture: vi.fn().mockRejectedValue(new Error('view-shot failed')),
+    }));
+    failing.trigger();
+    await waitForStep(failing, 'error');
+    expect(failing.getState().data.error).toBe('view-shot failed');
+
+    const slow = makeSession({}, { captureTimeoutMs: 10 }, makeCapture({
+      capture: () => new Promise(() => undefined),
+    }));
+    slow.trigger();
+    await waitForStep(slow, 'error');
+    expect(slow.getState().data.error).toBe('Screenshot capture timed out after 0s');
+  });
+
+  it('continues with empty context when collection times out', async () => {
+    const session = makeSession({}, { contextTimeoutMs: 10 });
+    session.registry.registerCollector({
+      name: 'slow',
+      platform: 'universal',
+      collect: () => new Promise(() => undefined),
+    });
+
+    session.trigger();
+    await waitForStep(session, 'annotating');
+    expect(session.getState().data.context?.platform).toEqual({ os: 'unknown' });
+  });
+
+  it('discards a capture that finishes after reset', async () => {
+    let resolveCapture: (value: unknown) => void = () => undefined;
+    const session = makeSession({}, {}, makeCapture({
+      capture: vi.fn(
+        () => new Promise((resolve) => { resolveCapture = resolve; }),
+      ) as CapturePlugin['capture'],
+    }));
+
+    session.trigger();
+    await waitForStep(session, 'capturing');
+    session.reset();
+    resolveCapture({
+      imageData: 'AAAA',
+      dimensions: { width: 1, height: 1 },
+      mimeType: 'image/png',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(session.getState().step).toBe('idle');
+  });
+
+  // ---- Consent ----
+
+  it('asks for consent and records the decision on the report', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({
+      destination,
+      privacy: { requireConsent: true },
+    });
+
+    session.trigger();
+    await waitForStep(session, 'consent');
+    await session.grantConsent();
+    expect(session.getState().step).toBe('annotating');
+
+    session.finishAnnotation('data:image/png;base64,AAAA', 'data:image/png;base64,AAAA');
+    await session.submit(makeInput());
+
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report.customMetadata?.['consent']).toMatchObject({ granted: true, version: '1' });
+  });
+
+  it('skips the prompt once consent is stored and closes on denial', async () => {
+    const session = makeSession({ privacy: { requireConsent: true } });
+
+    session.trigger();
+    await waitForStep(session, 'consent');
+    await session.denyConsent();
+    expect(session.getState().step).toBe('idle');
+
+    session.trigger();
+    await waitForStep(session, 'consent');
+    await session.grantConsent();
+    session.reset();
+
+    session.trigger();
+    await waitForStep(session, 'annotating');
+    expect(session.getState().data.consent?.granted).toBe(true);
+  });
+
+  // ---- Submit ----
+
+  it('builds the report with capture data and metadata and submits it', async () => {
+    const destination = makeAdapter();
+    const afterSubmit = vi.fn();
+    const session = makeSession({
+      destination,
+      customMetadata: () => ({ userId: 'u-1' }),
+      middleware: [{ name: 'after', afterSubmit }],
+    });
+
+    await openForm(session);
+    const result = await session.submit(makeInput());
+
+    expect(result).toEqual({ url: 'https://linear.app/1', id: 'ISS-1', success: true });
+    expect(session.getState().step).toBe('success');
+    expect(session.getState().data.submitResult).toEqual(result);
+
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report.title).toBe('Button is broken');
+    expect(report.screenshot.dimensions).toEqual({ width: 390, height: 844 });
+    expect(report.customMetadata).toEqual({ userId: 'u-1' });
+    expect(afterSubmit).toHaveBeenCalledWith(report, result);
+  });
+
+  it('redacts context fields and scrubs personal data before submitting', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({
+      destination,
+      privacy: { redactFields: ['app.version'], stripPersonalData: true },
+    });
+    session.registry.registerCollector({
+      name: 'app',
+      platform: 'universal',
+      collect: vi.fn().mockResolvedValue({ app: { version: '1.2.3' } }),
+    });
+
+    await openForm(session);
+    await session.submit(makeInput({ description: 'Contact jane@example.com' }));
+
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report.context.app.version).toBeUndefined();
+    expect(report.description).not.toContain('jane@example.com');
+    expect(session.piiScrubber).toBeDefined();
+  });
+
+  it('closes the flow when beforeSubmit drops the report', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({
+      destination,
+      middleware: [{ name: 'drop', beforeSubmit: () => null }],
+    });
+
+    await openForm(session);
+    const result = await session.submit(makeInput());
+
+    expect(result.success).toBe(false);
+    expect(destination.createIssue).not.toHaveBeenCalled();
+    expect(session.getState().step).toBe('idle');
+  });
+
+  it('queues reports that fail with a retryable error', async () => {
+    const error = new ShakeNbakeError('offline', 'NETWORK_ERROR', { retryable: true });
+    const session = makeSession({
+      destination: makeAdapter({ createIssue: vi.fn().mockRejectedValue(error) }),
+    });
+
+    await openForm(session);
+    await expect(session.submit(makeInput())).rejects.toBe(error);
+
+    expect(session.getState().step).toBe('error');
+    expect(session.getState().data.queued).toBe(true);
+    expect(await session.queue?.size()).toBe(1);
+
+    // Retrying by hand would duplicate the queued report.
+    session.retry();
+    expect(session.getState().step).toBe('idle');
+  });
+
+  it('shows other failures as errors and returns to the form on retry', async () => {
+    const session = makeSession({
+      destination: makeAdapter({
+        createIssue: vi.fn().mockRejectedValue(new Error('boom')),
+      }),
+      offlineQueue: { enabled: false },
+    });
+
+    await openForm(session);
+    await expect(session.submit(makeInput())).rejects.toThrow('boom');
+
+    expect(session.queue).toBeNull();
+    expect(session.getState().step).toBe('error');
+    expect(session.getState().data.error).toBe('boom');
+    expect(session.getState().data.retryable).toBe(false);
+
+    session.retry();
+    expect(session.getState().step).toBe('form');
+  });
+
+  it('reports retries as submit status', async () => {
+    const createIssue = vi
+      .fn()
+      .mockRejectedValueOnce(new ShakeNbakeError('offline', 'NETWORK_ERROR', { retryable: true }))
+      .mockResolvedValue({ url: 'https://linear.app/2', id: 'ISS-2', success: true });
+    const session = makeSession({
+      destination: makeAdapter({ createIssue }),
+      retry: { maxAttempts: 2, baseDelayMs: 0, jitter: false },
+    });
+    const statuses: Array<string | undefined> = [];
+    session.subscribe((state) => statuses.push(state.data.submitStatus));
+
+    await openForm(session);
+    await session.submit(makeInput());
+
+    expect(statuses).toContain('Retrying (2/2)...');
+    expect(session.getState().step).toBe('success');
+  });
+
+  // ---- Headless submission ----
+
+  it('submits a headless report with defaults, a screenshot and metadata', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({ destination });
+
+    const result = await session.submitReport(
+      { title: 'Checkout failed' },
+      { metadata: { orderId: 'o-1' } },
+    );
+
+    expect(result.success).toBe(true);
+    expect(session.getState().step).toBe('idle');
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report).toMatchObject({
+      title: 'Checkout failed',
+      description: '',
+      severity: 'medium',
+      category: 'bug',
+      customMetadata: { orderId: 'o-1' },
+    });
+    expect(report.screenshot.annotated).toBe('data:image/png;base64,AAAA');
+    expect(report.screenshot.dimensions).toEqual({ width: 390, height: 844 });
+  });
+
+  it('submits without a screenshot when disabled or when capture fails', async () => {
+    const destination = makeAdapter();
+    const capture = makeCapture();
+    const session = makeSession({ destination }, {}, capture);
+
+    await session.submitReport({ title: 'No screenshot' }, { screenshot: false });
+    expect(capture.capture).not.toHaveBeenCalled();
+
+    vi.mocked(capture.capture).mockRejectedValueOnce(new Error('no view'));
+    await session.submitReport({ title: 'Capture failed' });
+
+    const reports = vi.mocked(destination.createIssue).mock.calls.map(([r]) => r);
+    expect(reports.map((r) => r.screenshot.annotated)).toEqual(['', '']);
+  });
+
+  it('requires stored consent for headless reports', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({ destination, privacy: { requireConsent: true } });
+
+    await expect(session.submitReport({ title: 'Crash' })).rejects.toMatchObject({
+      code: 'CONSENT_REQUIRED',
+    });
+    expect(destination.createIssue).not.toHaveBeenCalled();
+  });
+
+  it('queues headless reports that fail with a retryable error', async () => {
+    const error = new ShakeNbakeError('offline', 'NETWORK_ERROR', { retryable: true });
+    const session = makeSession({
+      destination: makeAdapter({ createIssue: vi.fn().mockRejectedValue(error) }),
+    });
+
+    await expect(session.submitReport({ title: 'Crash' })).rejects.toBe(error);
+    expect(await session.queue?.size()).toBe(1);
+    expect(session.getState().step).toBe('idle');
+  });
+
+  // ---- Trigger payloads ----
+
+  it('keeps the trigger payload through the flow for the form', async () => {
+    const session = makeSession();
+    const payload = { title: 'TypeError: x is undefined', category: 'crash' as const };
+
+    session.trigger(payload);
+    await waitForStep(session, 'annotating');
+    expect(session.getState().data.payload).toEqual(payload);
+
+    session.finishAnnotation('data:image/png;base64,AAAA', 'data:image/png;base64,AAAA');
+    session.reAnnotate();
+    expect(session.getState().data.payload).toEqual(payload);
+  });
+
+  it('submits headless payloads without opening the flow', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({ destination });
+
+    session.trigger({ title: 'Crash', category: 'crash', headless: true });
+
+    expect(session.getState().step).toBe('idle');
+    await vi.waitFor(() => expect(destination.createIssue).toHaveBeenCalled());
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report).toMatchObject({ title: 'Crash', category: 'crash' });
+  });
+
+  it('skips annotation and adds payload metadata to the report', async () => {
+    const destination = makeAdapter();
+    const session = makeSession({ destination });
+
+    session.trigger({ skipAnnotation: true, metadata: { source: 'help-menu' } });
+    await waitForStep(session, 'form');
+    expect(session.getState().data.annotatedScreenshot).toBe('data:image/png;base64,AAAA');
+
+    await session.submit(makeInput());
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report.customMetadata).toMatchObject({ source: 'help-menu' });
+  });
+
+  it('skips annotation after consent is granted', async () => {
+    const session = makeSession({ privacy: { requireConsent: true } });
+
+    session.trigger({ skipAnnotation: true });
+    await waitForStep(session, 'consent');
+    await session.grantConsent();
+    expect(session.getState().step).toBe('form');
+  });
+
+  it('ignores values that are not trigger payloads', async () => {
+    const session = makeSession();
+
+    session.trigger({ type: 'click', headless: 'yes' } as never);
+    await waitForStep(session, 'annotating');
+    expect(session.getState().data.payload).toBeUndefined();
+  });
+
+  // ---- Lifecycle ----
+
+  it('activates triggers on start and deactivates them on stop', async () => {
+    let fire: () => void = () => undefined;
+    const trigger: TriggerPlugin = {
+      name: 'manual',
+      platform: 'universal',
+      activate: vi.fn((onTrigger: () => void) => { fire = onTrigger; }),
+      deactivate: vi.fn(),
+    };
+    const session = makeSession();
+    session.registry.registerTrigger(trigger);
+
+    await session.start();
+    fire();
+    expect(session.getState().step).toBe('triggered');
+
+    session.stop();
+    expect(trigger.deactivate).toHaveBeenCalled();
+  });
+
+  it('stops notifying a listener after it unsubscribes', () => {
+    const session = makeSession();
+    const listener = vi.fn();
+    const unsubscribe = session.subscribe(listener);
+
+    session.trigger();
+    unsubscribe();
+    session.reset();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports sending while a headless report or queue drain is in flight', async () => {
+    let sendingDuringCreate: boolean | undefined;
+    const destination = makeAdapter({
+      createIssue: vi.fn(async () => {
+        sendingDuringCreate = session.isSending();
+        return { url: 'https://linear.app/1', id: 'ISS-1', success: true };
+      }),
+    });
+    const session = makeSession({ destination });
+    const changes = vi.fn();
+    session.onSendingChange(changes);
+
+    await session.submitReport({ title: 'Headless' }, { screenshot: false });
+    expect(sendingDuringCreate).toBe(true);
+    expect(session.isSending()).toBe(false);
+    expect(changes.mock.calls).toEqual([[true], [false]]);
+
+    const drain = session.drainQueue();
+    expect(session.isSending()).toBe(true);
+    await drain;
+    expect(session.isSending()).toBe(false);
+    expect(changes).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RetryingAdapter } from '../retrying-adapter.js';
+import type { RetryAttemptEvent } from '../retrying-adapter.js';
+import { ShakeNbakeError } from '../errors.js';
+import type { BugReport, DestinationAdapter, SubmitResult } from '../types.js';
+
+const RESULT: SubmitResult = { url: 'https://linear.app/1', id: 'ISS-1', success: true };
+const REPORT = { id: 'r1', title: 'Broken' } as unknown as BugReport;
+
+function makeAdapter(overrides?: Partial<DestinationAdapter>): DestinationAdapter {
+  return {
+    name: 'inner',
+    uploadImage: vi.fn().mockResolvedValue('https://cdn.example.com/img.png'),
+    createIssue: vi.fn().mockResolvedValue(RESULT),
+    testConnection: vi.fn().mockResolvedValue(true),
+    ...overrides,
+  };
+}
+
+const offline = () => new ShakeNbakeError('offline', 'NETWORK_ERROR');
+
+describe('RetryingAdapter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes its name from the wrapped adapter', () => {
+    expect(new RetryingAdapter(makeAdapter()).name).toBe('inner');
+  });
+
+  it('returns the first successful result without retrying', async () => {
+    const inner = makeAdapter();
+    const adapter = new RetryingAdapter(inner);
+
+    await expect(adapter.createIssue(REPORT)).resolves.toEqual(RESULT);
+    expect(inner.createIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries retryable errors until success', async () => {
+    const inner = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValueOnce(offline())
+        .mockRejectedValueOnce(offline())
+        .mockResolvedValue(RESULT),
+    });
+    const adapter = new RetryingAdapter(inner, { baseDelayMs: 0, maxAttempts: 3 });
+
+    await expect(adapter.createIssue(REPORT)).resolves.toEqual(RESULT);
+    expect(inner.createIssue).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows the last error after maxAttempts', async () => {
+    const inner = makeAdapter({ createIssue: vi.fn().mockRejectedValue(offline()) });
+    const adapter = new RetryingAdapter(inner, { baseDelayMs: 0, maxAttempts: 2 });
+
+    await expect(adapter.createIssue(REPORT)).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+    });
+    expect(inner.createIssue).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const inner = makeAdapter({
+      createIssue: vi.fn().mockRejectedValue(new ShakeNbakeError('nope', 'AUTH_FAILED')),
+    });
+    const adapter = new RetryingAdapter(inner, { baseDelayMs: 0 });
+
+    await expect(adapter.createIssue(REPORT)).rejects.toMatchObject({
+      code: 'AUTH_FAILED',
+    });
+    expect(inner.createIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry plain errors', async () => {
+    const inner = makeAdapter({ uploadImage: vi.fn().mockRejectedValue(new Error('boom')) });
+    const adapter = new RetryingAdapter(inner, { baseDelayMs: 0 });
+
+    await expect(adapter.uploadImage(new Blob(['x']), 'a.png')).rejects.toThrow('boom');
+    expect(inner.uploadImage).toHaveBeenCalledTimes(1);
+  });
+
+  it('emits an event before every attempt', async () => {
+    const events: RetryAttemptEvent[] = [];
+    const inner = makeAdapter({
+      createIssue: vi.fn().mockRejectedValueOnce(offline()).mockResolvedValue(RESULT),
+    });
+    const adapter = new RetryingAdapter(inner, {
+      baseDelayMs: 0,
+      maxAttempts: 5,
+      onAttempt: (e) => events.push(e),
+    });
+
+    await adapter.createIssue(REPORT);
+
+    expect(events.map((e) => [e.attempt, e.maxAttempts])).toEqual([
+      [1, 5],
+      [2, 5],
+    ]);
+    expect(events[0]?.lastError).toBeUndefined();
+    expect(events[1]?.lastError).toBeInstanceOf(ShakeNbakeError);
+    expect(events[1]?.operation).toBe('createIssue');
+  });
+
+  it('uses exponential delays capped by maxDelayMs without jitter', () => {
+    const adapter = new RetryingAdapter(makeAdapter(), {
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      jitter: false,
+    });
+
+    expect(adapter.delayFor(2)).toBe(100);
+    expect(adapter.delayFor(3)).toBe(200);
+    expect(adapter.delayFor(4)).toBe(300);
+  });
+
+  it('keeps jittered delays within the exponential bound', () => {
+    const adapter = new RetryingAdapter(makeAdapter(), { baseDelayMs: 100 });
+    for (let i = 0; i < 20; i += 1) {
+      const delay = adapter.delayFor(3);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('honors retryAfterMs from the error', async () => {
+    vi.useFakeTimers();
+    const inner = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValueOnce(
+          new ShakeNbakeError('slow down', 'RATE_LIMITED', { retryAfterMs: 2000 }),
+        )
+        .mockResolvedValue(RESULT),
+    });
+    const adapter = new RetryingAdapter(inner, { baseDelayMs: 10 });
+
+    const promise = adapter.createIssue(REPORT);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(inner.createIssue).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toEqual(RESULT);
+    expect(inner.createIssue).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the next delay would exceed maxElapsedMs', async () => {
+    const inner = makeAdapter({
+      createIssue: vi
+        .fn()
+        .mockRejectedValue(
+          new ShakeNbakeError('slow down', 'RATE_LIMITED', { retryAfterMs: 60000 }),
+        ),
+    });
+    const adapter = new RetryingAdapter(inner, { maxElapsedMs: 1000 });
+
+    await expect(adapter.createIssue(REPORT)).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+    });
+    expect(inner.createIssue).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes testConnection through without retrying', async () => {
+    const inner = makeAdapter();
+    await expect(new RetryingAdapter(inner).testConnection()).resolves.toBe(true);
+    expect(inner.testConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes requestUrls through', () => {
+    expect(new RetryingAdapter(makeAdapter()).requestUrls()).toEqual([]);
+    const inner = makeAdapter({ requestUrls: () => ['/api/bugs/'] });
+    expect(new RetryingAdapter(inner).requestUrls()).toEqual(['/api/bugs/']);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RoutingAdapter } from '../routing-adapter.js';
+import type { RoutingRule } from '../routing-adapter.js';
+import type { BugReport, DestinationAdapter, DeviceContext } from '../types.js';
+
+function makeAdapter(name: string): DestinationAdapter {
+  return {
+    name,
+    uploadImage: vi.fn().mockResolvedValue(`https://${name}.example.com/img.png`),
+    createIssue: vi.fn().mockResolvedValue({
+      url: `https://${name}.example.com/1`,
+      id: `${name}-1`,
+      success: true,
+    }),
+    testConnection: vi.fn().mockResolvedValue(true),
+  };
+}
+
+function makeReport(overrides?: Partial<BugReport>, context?: Partial<DeviceContext>): BugReport {
+  return {
+    id: 'r1',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    title: 'Broken',
+    description: '',
+    severity: 'medium',
+    category: 'bug',
+    screenshot: { annotated: '', original: '', dimensions: { width: 0, height: 0 } },
+    context: {
+      platform: { os: 'macOS', browser: 'Chrome' },
+      device: {},
+      screen: { width: 0, height: 0 },
+      network: {},
+      battery: {},
+      locale: {},
+      app: { pathname: '/dashboard' },
+      accessibility: {},
+      performance: {},
+      navigation: {},
+      console: {},
+      ...context,
+    },
+    ...overrides,
+  };
+}
+
+const oncall = makeAdapter('oncall');
+const design = makeAdapter('design');
+const fallback = makeAdapter('linear');
+
+const RULES: RoutingRule[] = [
+  { name: 'critical crashes', match: { severity: 'critical', category: 'crash' }, destination: oncall },
+  { name: 'ui', match: { category: 'ui' }, destination: design },
+  { name: 'checkout', match: { route: '/checkout' }, overrides: { teamId: 'payments' } },
+];
+
+describe('RoutingAdapter', () => {
+  const router = new RoutingAdapter({ rules: RULES, fallback });
+
+  it('uses the fallback when no rule matches', () => {
+    const explanation = router.explain(makeReport());
+    expect(explanation.destination).toBe('linear');
+    expect(explanation.rule).toBeUndefined();
+  });
+
+  it('requires every condition of a rule to match', () => {
+    expect(router.explain(makeReport({ severity: 'critical' })).rule).toBeUndefined();
+    expect(
+      router.explain(makeReport({ severity: 'critical', category: 'crash' })).destination,
+    ).toBe('oncall');
+  });
+
+  it('picks the first matching rule', () => {
+    const explanation = router.explain(makeReport({ category: 'ui' }, { app: { pathname: '/checkout' } }));
+    expect(explanation.rule).toBe('ui');
+    expect(explanation.evaluations.map((e) => e.matched)).toEqual([false, true, true]);
+  });
+
+  it('matches route prefixes against pathname and currentRoute', () => {
+    expect(router.explain(makeReport({}, { app: { pathname: '/checkout/pay' } })).rule).toBe('checkout');
+    expect(
+      router.explain(makeReport({}, { app: {}, navigation: { currentRoute: '/checkout' } })).rule,
+    ).toBe('checkout');
+    expect(router.explain(makeReport({}, { app: { pathname: '/checkouts' } })).rule).toBeUndefined();
+  });
+
+  it('matches RegExp routes, platforms and customMetadata predicates', () => {
+    const target = makeAdapter('mobile-beta');
+    const custom = new RoutingAdapter({
+      fallback,
+      rules: [
+        {
+          match: {
+            route: /^Settings/,
+            platform: ['ios', 'android'],
+            customMetadata: { 'user.plan': 'beta', build: (v: unknown) => Number(v) > 100 },
+          },
+          destination: target,
+        },
+      ],
+    });
+    const report = makeReport(
+      { customMetadata: { user: { plan: 'beta' }, build: 120 } },
+      { platform: { os: 'iOS' }, app: {}, navigation: { currentRoute: 'SettingsScreen' } },
+    );
+
+    const explanation = custom.explain(report);
+    expect(explanation.destination).toBe('mobile-beta');
+    expect(explanation.rule).toBe('rule 1');
+    expect(custom.explain(makeReport({ customMetadata: { build: 120 } })).rule).toBeUndefined();
+  });
+
+  it('matches global RegExp routes on every report', () => {
+    const custom = new RoutingAdapter({
+      fallback,
+      rules: [{ match: { route: /\/checkout/g }, destination: design }],
+    });
+    const report = makeReport({}, { app: { pathname: '/checkout' } });
+
+    expect(custom.explain(report).destination).toBe('design');
+    expect(custom.explain(report).destination).toBe('design');
+  });
+
+  it("distinguishes 'web' from 'react-native'", () => {
+    const web = new RoutingAdapter({
+      fallback,
+      rules: [{ match: { platform: 'web' }, destination: design }],
+    });
+    expect(web.explain(makeReport()).destination).toBe('design');
+    expect(web.explain(makeReport({}, { platform: { os: 'android' } })).destination).toBe('linear');
+  });
+
+  it('treats a throwing predicate as no match', () => {
+    const custom = new RoutingAdapter({
+      fallback,
+      rules: [{ match: { when: () => { throw new Error('boom'); } }, destination: design }],
+    });
+    expect(custom.explain(makeReport()).destination).toBe('linear');
+  });
+
+  it('submits to the routed destination', async () => {
+    const report = makeReport({ severity: 'critical', category: 'crash' });
+    await expect(router.createIssue(report)).resolves.toMatchObject({ id: 'oncall-1' });
+    expect(oncall.createIssue).toHaveBeenCalledWith(report);
+  });
+
+  it('attaches rule overrides as destinationOverrides', async () => {
+    const report = makeReport({}, { app: { pathname: '/checkout' } });
+    await router.createIssue(report);
+    expect(fallback.createIssue).toHaveBeenCalledWith({
+      ...report,
+      destinationOverrides: { teamId: 'payments' },
+    });
+  });
+
+  it('testConnection checks every distinct destination', async () => {
+    await expect(router.testConnection()).resolves.toBe(true);
+    expect(fallback.testConnection).toHaveBeenCalledTimes(1);
+    expect(oncall.testConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it('requestUrls combines every distinct destination', () => {
+    const withUrls = (name: string): DestinationAdapter => ({
+      ...makeAdapter(name),
+      requestUrls: () => [`https://${name}.example.com/`],
+    });
+    const linear = withUrls('linear');
+    const payments = withUrls('payments');
+    const adapter = new RoutingAdapter({
+      fallback: linear,
+      rules: [
+        { name: 'crashes', match: { category: 'crash' }, destination: payments },
+        { name: 'low', match: { severity: 'low' }, destination: linear },
+      ],
+    });
+    expect(adapter.requestUrls()).toEqual([
+      'https://linear.example.com/',
+      'https://payments.example.com/',
+    ]);
+  });
+});
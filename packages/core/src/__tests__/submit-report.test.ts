@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { submitReport } from '../submit-report.js';
+import { PluginRegistry } from '../plugin-registry.js';
+import type { CapturePlugin, DestinationAdapter } from '../types.js';
+
+function makeAdapter(): DestinationAdapter {
+  return {
+    name: 'mock',
+    uploadImage: vi.fn().mockResolvedValue('https://cdn.example.com/img.png'),
+    createIssue: vi
+      .fn()
+      .mockResolvedValue({ url: 'https://linear.app/1', id: 'ISS-1', success: true }),
+    testConnection: vi.fn().mockResolvedValue(true),
+  };
+}
+
+function makeCapture(): CapturePlugin {
+  return {
+    name: 'mock-capture',
+    platform: 'universal',
+    capture: vi.fn().mockResolvedValue({
+      imageData: 'data:image/png;base64,AAAA',
+      dimensions: { width: 10, height: 10 },
+      mimeType: 'image/png',
+    }),
+  };
+}
+
+describe('submitReport', () => {
+  it('submits through the destination with configured collectors', async () => {
+    const destination = makeAdapter();
+
+    const result = await submitReport(
+      { title: 'Checkout failed', category: 'crash' },
+      {
+        config: {
+          enabled: true,
+          destination,
+          contextCollectors: [
+            {
+              name: 'app',
+              platform: 'universal',
+              collect: vi.fn().mockResolvedValue({ app: { version: '2.0.0' } }),
+            },
+          ],
+        },
+      },
+    );
+
+    expect(result.success).toBe(true);
+    const report = vi.mocked(destination.createIssue).mock.calls[0]![0];
+    expect(report.category).toBe('crash');
+    expect(report.context.app.version).toBe('2.0.0');
+    expect(report.screenshot.annotated).toBe('');
+  });
+
+  it('uses the given capture plugin, or the plugins of a given registry', async () => {
+    const destination = makeAdapter();
+    const capture = makeCapture();
+
+    await submitReport(
+      { title: 'With screenshot' },
+      { config: { enabled: true, destination }, capture },
+    );
+    expect(capture.capture).toHaveBeenCalledTimes(1);
+
+    const registry = new PluginRegistry();
+    registry.registerCapture(capture);
+    await submitReport(
+      { title: 'Shared registry' },
+      { config: { enabled: true, destination }, registry, metadata: { source: 'test' } },
+    );
+
+    expect(capture.capture).toHaveBeenCalledTimes(2);
+    const report = vi.mocked(destination.createIssue).mock.calls[1]![0];
+    expect(report.customMetadata).toEqual({ source: 'test' });
+  });
+});
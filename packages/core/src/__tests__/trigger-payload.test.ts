@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeTriggerPayload } from '../trigger-payload.js';
+
+describe('normalizeTriggerPayload', () => {
+  it('keeps the known fields', () => {
+    const payload = {
+      title: 'Checkout fails',
+      description: 'Pay button spins forever',
+      severity: 'high',
+      category: 'ui',
+      metadata: { source: 'fab' },
+      skipAnnotation: true,
+      headless: true,
+    };
+    expect(normalizeTriggerPayload(payload)).toEqual(payload);
+  });
+
+  it('drops unknown and mistyped fields', () => {
+    expect(
+      normalizeTriggerPayload({
+        title: 42,
+        severity: 'urgent',
+        category: 'crash',
+        metadata: ['a'],
+        skipAnnotation: 'yes',
+        target: {},
+      }),
+    ).toEqual({ category: 'crash' });
+  });
+
+  it('returns undefined when nothing usable is left', () => {
+    expect(normalizeTriggerPayload(undefined)).toBeUndefined();
+    expect(normalizeTriggerPayload('title')).toBeUndefined();
+    expect(normalizeTriggerPayload({ type: 'click', clientX: 10 })).toBeUndefined();
+  });
+
+  it('copies the metadata bag', () => {
+    const metadata = { source: 'fab' };
+    const payload = normalizeTriggerPayload({ metadata });
+    expect(payload?.metadata).toEqual(metadata);
+    expect(payload?.metadata).not.toBe(metadata);
+  });
+});
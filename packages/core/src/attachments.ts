@@ -0,0 +1,117 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Attachments
+// Helpers for building typed report attachments and migrating the legacy
+// `customMetadata.attachments` shape into `BugReport.attachments`.
+// ---------------------------------------------------------------------------
+
+import type { Attachment, AttachmentKind, BugReport } from './types.js';
+import { base64ByteLength, dataUriMimeType } from './binary.js';
+
+/** Legacy attachment shape stored in `customMetadata.attachments`. */
+interface LegacyAttachment {
+  base64?: string;
+  mimeType?: string;
+  filename?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'text/plain': 'txt',
+  'application/json': 'json',
+};
+
+/** Maps a mime type to an attachment kind. */
+export function attachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'log';
+  return 'file';
+}
+
+/** File extension for a mime type, without the dot ('bin' when unknown). */
+export function attachmentExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? 'bin';
+}
+
+/** Mime type for a filename's extension ('application/octet-stream' when unknown). */
+export function attachmentMimeType(filename: string): string {
+  const ext = filename.toLowerCase().split('.').pop() ?? '';
+  if (ext === 'jpeg') return 'image/jpeg';
+  if (ext === 'log') return 'text/plain';
+  const match = Object.entries(EXTENSIONS).find(([, value]) => value === ext);
+  return match?.[0] ?? 'application/octet-stream';
+}
+
+/**
+ * Builds an {@link Attachment} from inline data or a URL. The mime type is
+ * read from a data URI when not given, and the size is computed from the
+ * base64 payload.
+ */
+export function createAttachment(input: {
+  data?: string;
+  url?: string;
+  mimeType?: string;
+  filename?: string;
+  kind?: AttachmentKind;
+}): Attachment {
+  const mimeType =
+    input.mimeType ?? dataUriMimeType(input.data) ?? 'application/octet-stream';
+  const kind = input.kind ?? attachmentKind(mimeType);
+  return {
+    kind,
+    mimeType,
+    filename: input.filename ?? `${kind}.${attachmentExtension(mimeType)}`,
+    size: input.data ? base64ByteLength(input.data) : 0,
+    ...(input.data ? { data: input.data } : {}),
+    ...(input.url ? { url: input.url } : {}),
+  };
+}
+
+/**
+ * Moves legacy `customMetadata.attachments` entries (`{ base64, mimeType,
+ * filename }`) into `report.attachments`. Reports without legacy entries are
+ * returned unchanged; otherwise a copy is returned.
+ */
+export function normalizeAttachments(report: BugReport): BugReport {
+  const legacy = report.customMetadata?.['attachments'];
+  if (!Array.isArray(legacy)) return report;
+
+  const migrated = (legacy as unknown[])
+    .filter((item): item is LegacyAttachment =>
+      typeof item === 'object' &&
+      item !== null &&
+      typeof (item as LegacyAttachment).base64 === 'string' &&
+      (item as LegacyAttachment).base64 !== '',
+    )
+    .map((item, index) => {
+      // Legacy entries were always images; PNG was the assumed default.
+      const mimeType = item.mimeType ?? dataUriMimeType(item.base64) ?? 'image/png';
+      return createAttachment({
+        data: item.base64,
+        mimeType,
+        filename:
+          item.filename ??
+          `attachment-${report.id}-${String(index + 1)}.${attachmentExtension(mimeType)}`,
+      });
+    });
+
+  const customMetadata = { ...report.customMetadata };
+  delete customMetadata['attachments'];
+  return {
+    ...report,
+    attachments: [...(report.attachments ?? []), ...migrated],
+    customMetadata,
+  };
+}
@@ -0,0 +1,94 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Binary helpers
+// Base64 / data URI / byte conversions shared by the adapters and platform
+// packages. Pure JS so they behave the same in browsers, Node and Hermes
+// (which has no Buffer and, on older versions, no atob/btoa).
+// ---------------------------------------------------------------------------
+
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Maps a char code to its 6-bit value; -1 for characters outside base64. */
+const LOOKUP: Int16Array = (() => {
+  const table = new Int16Array(128).fill(-1);
+  for (let i = 0; i < ALPHABET.length; i += 1) {
+    table[ALPHABET.charCodeAt(i)] = i;
+  }
+  // URL-safe variants decode to the same values.
+  table['-'.charCodeAt(0)] = 62;
+  table['_'.charCodeAt(0)] = 63;
+  return table;
+})();
+
+/** Returns the base64 payload of a data URI, or the input if it is raw base64. */
+export function stripDataUri(data: string): string {
+  if (!data.startsWith('data:')) return data;
+  const commaIndex = data.indexOf(',');
+  return commaIndex >= 0 ? data.substring(commaIndex + 1) : data;
+}
+
+/** Mime type declared by a data URI; undefined for raw base64. */
+export function dataUriMimeType(data: string | undefined): string | undefined {
+  const match = data ? /^data:([^;,]+)[;,]/.exec(data) : null;
+  return match?.[1];
+}
+
+/** Wraps raw base64 in a data URI; data URIs are returned unchanged. */
+export function toDataUri(data: string, mimeType: string): string {
+  return data.startsWith('data:') ? data : `data:${mimeType};base64,${data}`;
+}
+
+/** True for http(s) URLs, which adapters link to instead of decoding. */
+export function isRemoteUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/** Decoded size of a base64 string or data URI, without decoding it. */
+export function base64ByteLength(data: string): number {
+  const raw = stripDataUri(data);
+  const padding = raw.endsWith('==') ? 2 : raw.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((raw.length * 3) / 4) - padding);
+}
+
+/**
+ * Decodes base64 (or a base64 data URI) into bytes. Whitespace is ignored
+ * and URL-safe characters are accepted.
+ */
+export function base64ToBytes(data: string): Uint8Array<ArrayBuffer> {
+  const raw = stripDataUri(data);
+  const bytes = new Uint8Array(Math.ceil((raw.length * 3) / 4));
+
+  let length = 0;
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < raw.length; i += 1) {
+    const code = raw.charCodeAt(i);
+    if (code === 61) break; // '=' padding
+    const value = code < 128 ? (LOOKUP[code] ?? -1) : -1;
+    if (value < 0) continue;
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length] = (buffer >> bits) & 0xff;
+      length += 1;
+    }
+  }
+  return bytes.slice(0, length);
+}
+
+/** Encodes bytes as standard, padded base64. */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i] ?? 0;
+    const b = bytes[i + 1] ?? 0;
+    const c = bytes[i + 2] ?? 0;
+    const triple = (a << 16) | (b << 8) | c;
+    output += ALPHABET[(triple >> 18) & 63];
+    output += ALPHABET[(triple >> 12) & 63];
+    output += i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[triple & 63] : '=';
+  }
+  return output;
+}
@@ -0,0 +1,106 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Breadcrumbs
+// Bounded trail of what the user did before a report: clicks, navigation,
+// requests and anything the app records with `addBreadcrumb`.
+// ---------------------------------------------------------------------------
+
+import type {
+  Breadcrumb,
+  ContextCollector,
+  DeviceContext,
+  Platform,
+} from './types.js';
+
+/** A breadcrumb to record; the timestamp defaults to now. */
+export type BreadcrumbInput = Omit<Breadcrumb, 'timestamp'> & { timestamp?: string };
+
+export interface BreadcrumbBufferOptions {
+  /** Oldest breadcrumbs are dropped beyond this many (default: 100). */
+  maxSize?: number;
+}
+
+/** Longest message kept; longer ones are truncated. */
+const MAX_MESSAGE_LENGTH = 300;
+
+/**
+ * Fixed-size ring buffer of breadcrumbs. Platform trackers write to it and
+ * {@link BreadcrumbCollector} reads it when a report is captured.
+ */
+export class BreadcrumbBuffer {
+  readonly maxSize: number;
+
+  private entries: Breadcrumb[] = [];
+
+  constructor(options: BreadcrumbBufferOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? 100);
+  }
+
+  /** Records a breadcrumb and returns the stored entry. */
+  add(input: BreadcrumbInput): Breadcrumb {
+    const message =
+      input.message.length > MAX_MESSAGE_LENGTH
+        ? `${input.message.slice(0, MAX_MESSAGE_LENGTH - 1)}…`
+        : input.message;
+    const breadcrumb: Breadcrumb = {
+      type: input.type,
+      message,
+      ...(input.data ? { data: { ...input.data } } : {}),
+      timestamp: input.timestamp ?? new Date().toISOString(),
+    };
+    this.entries.push(breadcrumb);
+    if (this.entries.length > this.maxSize) {
+      this.entries.splice(0, this.entries.length - this.maxSize);
+    }
+    return breadcrumb;
+  }
+
+  /** All breadcrumbs, oldest first. */
+  getAll(): Breadcrumb[] {
+    return [...this.entries];
+  }
+
+  /** The most recent breadcrumb, optionally of one type. */
+  last(type?: Breadcrumb['type']): Breadcrumb | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (entry && (type === undefined || entry.type === type)) return entry;
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/** Buffer shared by {@link addBreadcrumb} and the providers' trackers. */
+export const defaultBreadcrumbs = new BreadcrumbBuffer();
+
+/**
+ * Records a breadcrumb in the default buffer. It is attached to the next
+ * report as `context.breadcrumbs`.
+ *
+ * @example
+ * ```ts
+ * addBreadcrumb({ type: 'custom', message: 'Applied coupon', data: { code } });
+ * ```
+ */
+export function addBreadcrumb(input: BreadcrumbInput): Breadcrumb {
+  return defaultBreadcrumbs.add(input);
+}
+
+/** ContextCollector that adds a buffer's breadcrumbs to the report context. */
+export class BreadcrumbCollector implements ContextCollector {
+  readonly name = 'breadcrumbs';
+  readonly platform: Platform = 'universal';
+
+  private readonly buffer: BreadcrumbBuffer;
+
+  constructor(buffer: BreadcrumbBuffer = defaultBreadcrumbs) {
+    this.buffer = buffer;
+  }
+
+  async collect(): Promise<Partial<DeviceContext>> {
+    return { breadcrumbs: this.buffer.getAll() };
+  }
+}
@@ -0,0 +1,166 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Consent (privacy.requireConsent)
+// ---------------------------------------------------------------------------
+
+import type { DeviceContext } from './types.js';
+import type { KeyValueStorage } from './storage.js';
+
+/** Storage key prefix; the user id (or `anonymous`) is appended. */
+export const DEFAULT_CONSENT_STORAGE_KEY = 'shakenbake:consent';
+
+/** Policy version used when none is configured. */
+export const DEFAULT_CONSENT_VERSION = '1';
+
+/**
+ * A user's recorded consent decision.
+ */
+export interface ConsentRecord {
+  granted: boolean;
+  /** Policy version the decision applies to. */
+  version: string;
+  /** ISO 8601 time of the decision. */
+  timestamp: string;
+  userId?: string;
+}
+
+/**
+ * Configuration options for the ConsentStore.
+ */
+export interface ConsentStoreConfig {
+  storage: KeyValueStorage;
+  /** Current policy version. Bumping it makes every user decide again. */
+  version?: string;
+  /** Decisions are remembered per user; omit for a single anonymous user. */
+  userId?: string;
+  /** Storage key prefix (default: `shakenbake:consent`). */
+  storageKey?: string;
+}
+
+/**
+ * Remembers consent decisions per user and policy version.
+ *
+ * A stored decision for an older version is treated as "not decided", so a
+ * new policy asks again.
+ */
+export class ConsentStore {
+  readonly version: string;
+
+  private readonly storage: KeyValueStorage;
+  private readonly userId?: string;
+  private readonly key: string;
+
+  constructor(config: ConsentStoreConfig) {
+    this.storage = config.storage;
+    this.version = config.version ?? DEFAULT_CONSENT_VERSION;
+    this.userId = config.userId;
+    this.key = `${config.storageKey ?? DEFAULT_CONSENT_STORAGE_KEY}:${config.userId ?? 'anonymous'}`;
+  }
+
+  /**
+   * Returns the decision for the current version, or null when the user has
+   * not decided yet (or decided on an older version).
+   */
+  async getDecision(): Promise<ConsentRecord | null> {
+    try {
+      const raw = await this.storage.getItem(this.key);
+      if (!raw) return null;
+      const record = JSON.parse(raw) as ConsentRecord;
+      if (typeof record.granted !== 'boolean' || record.version !== this.version) {
+        return null;
+      }
+      return record;
+    } catch {
+      // Unreadable storage: ask again rather than assume consent.
+      return null;
+    }
+  }
+
+  /** True only when consent was granted for the current version. */
+  async hasConsent(): Promise<boolean> {
+    return (await this.getDecision())?.granted === true;
+  }
+
+  grant(): Promise<ConsentRecord> {
+    return this.record(true);
+  }
+
+  deny(): Promise<ConsentRecord> {
+    return this.record(false);
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.removeItem(this.key);
+  }
+
+  private async record(granted: boolean): Promise<ConsentRecord> {
+    const record: ConsentRecord = {
+      granted,
+      version: this.version,
+      timestamp: new Date().toISOString(),
+      ...(this.userId !== undefined ? { userId: this.userId } : {}),
+    };
+    await this.storage.setItem(this.key, JSON.stringify(record));
+    return record;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Consent summary
+// ---------------------------------------------------------------------------
+
+/** A piece of data that will be sent with the report. */
+export interface ConsentSection {
+  key: string;
+  label: string;
+}
+
+const SECTION_LABELS: Record<keyof DeviceContext, string> = {
+  platform: 'Platform and browser/OS version',
+  device: 'Device model',
+  screen: 'Screen size',
+  network: 'Network status',
+  battery: 'Battery status',
+  locale: 'Language and time zone',
+  app: 'App version and current page',
+  accessibility: 'Accessibility settings',
+  performance: 'Performance metrics',
+  navigation: 'Navigation history',
+  console: 'Console logs and errors',
+  breadcrumbs: 'Recent clicks, page changes and requests',
+};
+
+/**
+ * Lists exactly what a report will contain: the screenshot, every non-empty
+ * context section (after redaction), and custom metadata when configured.
+ */
+export function describeConsentSections(
+  context: Partial<DeviceContext>,
+  options?: { customMetadata?: boolean },
+): ConsentSection[] {
+  const sections: ConsentSection[] = [
+    { key: 'screenshot', label: 'Screenshot of the current screen' },
+  ];
+  for (const [key, label] of Object.entries(SECTION_LABELS)) {
+    if (hasData(context[key as keyof DeviceContext])) {
+      sections.push({ key, label });
+    }
+  }
+  for (const key of Object.keys(context)) {
+    if (!(key in SECTION_LABELS) && hasData(context[key as keyof DeviceContext])) {
+      sections.push({ key, label: key });
+    }
+  }
+  if (options?.customMetadata) {
+    sections.push({ key: 'customMetadata', label: 'App-provided metadata' });
+  }
+  return sections;
+}
+
+function hasData(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).some(hasData);
+  }
+  return true;
+}
@@ -0,0 +1,302 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Console formatting
+// Turns console arguments into bounded strings for the web and React Native
+// console interceptors: printf-style substitution, safe serialization of
+// circular and huge values, and Error cause chains.
+// ---------------------------------------------------------------------------
+
+export interface ConsoleFormatOptions {
+  /** Nested objects deeper than this are shown as `[Object]` (default: 3). */
+  maxDepth?: number;
+  /** Only this many keys or items per object/array are shown (default: 50). */
+  maxKeys?: number;
+  /**
+   * Messages are truncated to this many characters (default: 2000). Objects
+   * are only walked until their output reaches it.
+   */
+  maxLength?: number;
+}
+
+/** `cause` chains longer than this are cut off. */
+const MAX_CAUSES = 5;
+
+interface ResolvedOptions {
+  maxDepth: number;
+  maxKeys: number;
+  maxLength: number;
+}
+
+function resolve(options: ConsoleFormatOptions | undefined): ResolvedOptions {
+  return {
+    maxDepth: options?.maxDepth ?? 3,
+    maxKeys: options?.maxKeys ?? 50,
+    maxLength: options?.maxLength ?? 2000,
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}… (${String(text.length)} chars)`
+    : text;
+}
+
+/** The `cause` of an error, if it has one. */
+function causeOf(error: Error): unknown {
+  return (error as { cause?: unknown }).cause;
+}
+
+/**
+ * `Name: message` of an error followed by one `Caused by:` line per error
+ * in its `cause` chain.
+ */
+export function formatError(error: Error, options?: ConsoleFormatOptions): string {
+  const resolved = resolve(options);
+  return truncate(errorText(error, resolved), resolved.maxLength);
+}
+
+/** Stack of an error including the stacks of its `cause` chain. */
+export function formatErrorStack(
+  error: Error,
+  options?: ConsoleFormatOptions,
+): string | undefined {
+  const resolved = resolve(options);
+  const stacks: string[] = [];
+  let current: unknown = error;
+  for (let i = 0; current instanceof Error && i <= MAX_CAUSES; i++) {
+    if (current.stack) stacks.push(i === 0 ? current.stack : `Caused by: ${current.stack}`);
+    current = causeOf(current);
+  }
+  return stacks.length > 0 ? truncate(stacks.join('\n'), resolved.maxLength) : undefined;
+}
+
+/**
+ * A value as a single bounded string. Strings are returned as they are;
+ * objects are JSON-like with circular references shown as `[Circular]`,
+ * deep nesting as `[Object]` / `[Array]` and long collections cut short.
+ * Never throws.
+ */
+export function serializeValue(value: unknown, options?: ConsoleFormatOptions): string {
+  const resolved = resolve(options);
+  return truncate(serialize(value, resolved), resolved.maxLength);
+}
+
+/**
+ * Formats console arguments the way browsers print them: a leading format
+ * string has `%s`, `%d`/`%i`, `%f`, `%o`/`%O`/`%j` and `%c` replaced by the
+ * following arguments, and the rest are appended separated by spaces.
+ */
+export function formatConsoleArgs(args: unknown[], options?: ConsoleFormatOptions): string {
+  const resolved = resolve(options);
+  const [first, ...rest] = args;
+  const parts: string[] = [];
+
+  if (typeof first === 'string' && first.includes('%')) {
+    let index = 0;
+    const formatted = first.replace(/%([sdifoOjc%])/g, (match, spec: string) => {
+      if (spec === '%') return '%';
+      if (index >= rest.length) return match;
+      const arg = rest[index++];
+      switch (spec) {
+        case 's':
+          return serialize(arg, resolved);
+        case 'd':
+        case 'i':
+          return formatNumber(arg, (text) => parseInt(text, 10));
+        case 'f':
+          return formatNumber(arg, parseFloat);
+        case 'c':
+          // CSS styling has no meaning outside the devtools console.
+          return '';
+        default:
+          return serialize(arg, resolved);
+      }
+    });
+    parts.push(formatted, ...rest.slice(index).map((arg) => serialize(arg, resolved)));
+  } else {
+    parts.push(...args.map((arg) => serialize(arg, resolved)));
+  }
+
+  return truncate(parts.join(' '), resolved.maxLength);
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// The helpers below leave truncating the final text to their callers.
+
+function errorText(error: Error, options: ResolvedOptions): string {
+  const lines = [`${error.name}: ${error.message}`];
+  let cause = causeOf(error);
+  for (let i = 0; cause !== undefined && i < MAX_CAUSES; i++) {
+    if (cause instanceof Error) {
+      lines.push(`Caused by: ${cause.name}: ${cause.message}`);
+      cause = causeOf(cause);
+    } else {
+      lines.push(`Caused by: ${serialize(cause, options)}`);
+      cause = undefined;
+    }
+  }
+  return lines.join('\n');
+}
+
+function serialize(value: unknown, options: ResolvedOptions): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return errorText(value, options);
+  try {
+    const plain = toPlain(value, options, 0, new WeakSet(), { remaining: options.maxLength });
+    const text = typeof plain === 'string' ? plain : JSON.stringify(plain);
+    return text ?? String(value);
+  } catch {
+    return '[Unserializable]';
+  }
+}
+
+function formatNumber(value: unknown, parse: (text: string) => number): string {
+  return typeof value === 'object' && value !== null ? 'NaN' : String(parse(String(value)));
+}
+
+/**
+ * Characters left before the serialized text reaches `maxLength`. Once it
+ * runs out, collections stop taking items, so a huge value is never walked
+ * (or stringified) in full only to be cut down afterwards.
+ */
+interface Budget {
+  remaining: number;
+}
+
+/** Marks the items left out once the budget ran out. */
+const OVER_BUDGET = '…';
+
+/** Converts a value into JSON-safe data within the depth and size limits. */
+function toPlain(
+  value: unknown,
+  options: ResolvedOptions,
+  depth: number,
+  seen: WeakSet<object>,
+  budget: Budget,
+): unknown {
+  const plain = toPlainValue(value, options, depth, seen, budget);
+  // Collections charge for their items as they take them.
+  if (plain === null || typeof plain !== 'object') {
+    budget.remaining -= typeof plain === 'string' ? plain.length + 2 : String(plain).length;
+  }
+  return plain;
+}
+
+function toPlainValue(
+  value: unknown,
+  options: ResolvedOptions,
+  depth: number,
+  seen: WeakSet<object>,
+  budget: Budget,
+): unknown {
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, Math.min(options.maxLength, Math.max(budget.remaining, 0)));
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'boolean':
+      return value;
+    case 'bigint':
+      return `${value.toString()}n`;
+    case 'undefined':
+      return 'undefined';
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function${value.name ? `: ${value.name}` : ''}]`;
+  }
+  if (value === null) return null;
+
+  const object = value as object;
+  if (object instanceof Error) return truncate(errorText(object, options), options.maxLength);
+  if (object instanceof Date) {
+    return Number.isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+  }
+  if (object instanceof RegExp) return object.toString();
+  if (isElement(object)) return describeElement(object);
+
+  if (seen.has(object)) return '[Circular]';
+  if (depth >= options.maxDepth) {
+    return Array.isArray(object) ? '[Array]' : `[${constructorName(object) ?? 'Object'}]`;
+  }
+
+  const toJSON = (object as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === 'function') {
+    // URL, Luxon/Moment dates and the like describe themselves.
+    const json: unknown = toJSON.call(object);
+    if (json !== object) return toPlain(json, options, depth + 1, seen, budget);
+  }
+
+  seen.add(object);
+  try {
+    if (Array.isArray(object) || object instanceof Set) {
+      const size = Array.isArray(object) ? object.length : object.size;
+      const shown: unknown[] = [];
+      budget.remaining -= 2;
+      for (const item of object as Iterable<unknown>) {
+        if (shown.length >= options.maxKeys) break;
+        if (budget.remaining <= 0) {
+          shown.push(OVER_BUDGET);
+          return shown;
+        }
+        budget.remaining -= 1;
+        shown.push(toPlain(item, options, depth + 1, seen, budget));
+      }
+      if (size > options.maxKeys) {
+        shown.push(`… ${String(size - options.maxKeys)} more`);
+      }
+      return shown;
+    }
+
+    const keys: unknown[] = object instanceof Map ? [...object.keys()] : Object.keys(object);
+    const read = (key: unknown): unknown =>
+      object instanceof Map ? object.get(key) : (object as Record<string, unknown>)[key as string];
+    const result: Record<string, unknown> = {};
+    budget.remaining -= 2;
+    for (const key of keys.slice(0, options.maxKeys)) {
+      if (budget.remaining <= 0) {
+        result[OVER_BUDGET] = OVER_BUDGET;
+        return result;
+      }
+      const name = String(key);
+      budget.remaining -= name.length + 4;
+      result[name] = toPlain(read(key), options, depth + 1, seen, budget);
+    }
+    if (keys.length > options.maxKeys) {
+      result['…'] = `${String(keys.length - options.maxKeys)} more`;
+    }
+    return result;
+  } finally {
+    // Only ancestors count as circular; siblings may share references.
+    seen.delete(object);
+  }
+}
+
+function constructorName(object: object): string | undefined {
+  const name = (object as { constructor?: { name?: unknown } }).constructor?.name;
+  return typeof name === 'string' && name !== 'Object' ? name : undefined;
+}
+
+interface ElementLike {
+  nodeType: number;
+  tagName: string;
+  id?: string;
+  className?: unknown;
+}
+
+function isElement(object: object): object is ElementLike {
+  const node = object as Partial<ElementLike>;
+  return node.nodeType === 1 && typeof node.tagName === 'string';
+}
+
+/** `<button#id.class>` for DOM elements, which are huge and circular. */
+function describeElement(element: ElementLike): string {
+  const id = element.id ? `#${element.id}` : '';
+  const classes =
+    typeof element.className === 'string' && element.className.trim()
+      ? `.${element.className.trim().split(/\s+/).join('.')}`
+      : '';
+  return `<${element.tagName.toLowerCase()}${id}${classes}>`;
+}
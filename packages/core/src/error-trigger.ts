@@ -0,0 +1,126 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Error trigger helpers
+// Platform-neutral part of the web and React Native ErrorTriggers: ignore
+// patterns, throttling, and turning an uncaught error into a crash payload.
+// ---------------------------------------------------------------------------
+
+import type { Severity, TriggerPayload } from './types.js';
+
+/**
+ * What an ErrorTrigger does with an uncaught error: `'prompt'` opens the
+ * report flow prefilled with the error, `'auto'` submits it headlessly.
+ */
+export type ErrorTriggerMode = 'prompt' | 'auto';
+
+export interface ErrorTriggerOptions {
+  /** Default: `'prompt'`. */
+  mode?: ErrorTriggerMode;
+  /** Minimum time between two error reports, in ms (default: 30000). */
+  throttleMs?: number;
+  /**
+   * Errors whose message matches are ignored. Strings match as substrings.
+   * Added to {@link DEFAULT_IGNORED_ERRORS}.
+   */
+  ignore?: Array<string | RegExp>;
+  /** Severity of the prefilled report (default: `'critical'`). */
+  severity?: Severity;
+}
+
+/** Browser noise that is never worth a crash report. */
+export const DEFAULT_IGNORED_ERRORS: RegExp[] = [
+  // Cross-origin script errors carry no message or stack.
+  /^Script error\.?$/,
+  /ResizeObserver loop/,
+];
+
+/** Longest title taken from an error message. */
+const MAX_TITLE_LENGTH = 200;
+
+/** Message and stack of any thrown value. */
+export function describeError(error: unknown): { message: string; stack?: string } {
+  if (error instanceof Error) {
+    return { message: error.message || error.name, stack: error.stack };
+  }
+  if (typeof error === 'object' && error !== null) {
+    const { message, stack } = error as { message?: unknown; stack?: unknown };
+    if (typeof message === 'string') {
+      return { message, stack: typeof stack === 'string' ? stack : undefined };
+    }
+  }
+  if (typeof error === 'string') return { message: error };
+  try {
+    return { message: JSON.stringify(error) ?? String(error) };
+  } catch {
+    return { message: String(error) };
+  }
+}
+
+/**
+ * Decides which uncaught errors become reports and builds their payload.
+ * Platform triggers feed every error they see through {@link toPayload} and
+ * call {@link markReported} once the session took the payload.
+ */
+export class ErrorReportGate {
+  readonly mode: ErrorTriggerMode;
+
+  private readonly throttleMs: number;
+  private readonly ignore: Array<string | RegExp>;
+  private readonly severity: Severity;
+  private readonly now: () => number;
+  private lastReportAt: number | null = null;
+
+  constructor(options: ErrorTriggerOptions = {}, now: () => number = Date.now) {
+    this.mode = options.mode ?? 'prompt';
+    this.throttleMs = options.throttleMs ?? 30_000;
+    this.ignore = [...DEFAULT_IGNORED_ERRORS, ...(options.ignore ?? [])];
+    this.severity = options.severity ?? 'critical';
+    this.now = now;
+  }
+
+  /**
+   * Returns the crash payload for an error, or null when it is ignored or
+   * another error was reported within the throttle window. `metadata`
+   * (e.g. where the error was caught) is attached to the payload.
+   */
+  toPayload(error: unknown, metadata?: Record<string, unknown>): TriggerPayload | null {
+    const { message, stack } = describeError(error);
+    if (this.isIgnored(message)) return null;
+
+    if (this.lastReportAt !== null && this.now() - this.lastReportAt < this.throttleMs) {
+      return null;
+    }
+
+    const firstLine = message.split('\n')[0]?.trim() || 'Uncaught error';
+    return {
+      title:
+        firstLine.length > MAX_TITLE_LENGTH
+          ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+          : firstLine,
+      description: stack ?? message,
+      severity: this.severity,
+      category: 'crash',
+      ...(metadata ? { metadata } : {}),
+      ...(this.mode === 'auto' ? { headless: true } : {}),
+    };
+  }
+
+  /**
+   * Starts the throttle window. Errors the session ignored (e.g. while a
+   * report flow was already open) must not call this, so they do not hold
+   * back the next one.
+   */
+  markReported(): void {
+    this.lastReportAt = this.now();
+  }
+
+  /** Forgets the last report so the next error is not throttled. */
+  reset(): void {
+    this.lastReportAt = null;
+  }
+
+  private isIgnored(message: string): boolean {
+    return this.ignore.some((pattern) =>
+      typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message),
+    );
+  }
+}
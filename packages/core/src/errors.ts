@@ -7,6 +7,7 @@ export type ErrorCode =
   | 'RATE_LIMITED'
   | 'UPLOAD_FAILED'
   | 'NETWORK_ERROR'
+  | 'CONSENT_REQUIRED'
   | 'UNKNOWN';
 
 /**
@@ -21,6 +22,8 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
     'Screenshot upload failed. The image will be embedded in the issue description as a fallback.',
   NETWORK_ERROR:
     "You're offline. Report saved locally -- it will be submitted when you reconnect.",
+  CONSENT_REQUIRED:
+    'Reports can only be sent after you agree to share diagnostic data.',
   UNKNOWN:
     'An unexpected error occurred while submitting the report.',
 };
@@ -34,6 +37,8 @@ const RETRYABLE_CODES: ReadonlySet<ErrorCode> = new Set<ErrorCode>([
 export interface ShakeNbakeErrorOptions {
   retryable?: boolean;
   originalError?: unknown;
+  /** Server-requested delay before retrying (e.g. from a `Retry-After` header). */
+  retryAfterMs?: number;
 }
 
 /**
@@ -43,6 +48,7 @@ export class ShakeNbakeError extends Error {
   readonly code: ErrorCode;
   readonly retryable: boolean;
   readonly originalError?: unknown;
+  readonly retryAfterMs?: number;
 
   constructor(
     message: string,
@@ -55,6 +61,7 @@ export class ShakeNbakeError extends Error {
     this.retryable =
       options?.retryable ?? ShakeNbakeError.isRetryable(code);
     this.originalError = options?.originalError;
+    this.retryAfterMs = options?.retryAfterMs;
 
     // Maintain proper prototype chain for instanceof checks
     Object.setPrototypeOf(this, ShakeNbakeError.prototype);
@@ -70,3 +77,23 @@ export class ShakeNbakeError extends Error {
     return ERROR_MESSAGES[code];
   }
 }
+
+/**
+ * Parses an HTTP `Retry-After` header value (delta-seconds or HTTP-date)
+ * into milliseconds. Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
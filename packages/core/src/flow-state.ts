@@ -0,0 +1,231 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Flow state machine
+//
+// Pure state machine for the bug-reporting flow, shared by the web and React
+// Native providers through ReportSession. Kept free of I/O so it can be
+// unit-tested on its own.
+// ---------------------------------------------------------------------------
+
+import type {
+  CaptureResult,
+  DeviceContext,
+  SubmitResult,
+  TriggerPayload,
+} from './types.js';
+import type { ConsentRecord } from './consent.js';
+
+/**
+ * States in the bug-reporting flow.
+ */
+export type FlowStep =
+  | 'idle'
+  | 'triggered'
+  | 'capturing'
+  | 'consent'
+  | 'annotating'
+  | 'form'
+  | 'submitting'
+  | 'success'
+  | 'error';
+
+/**
+ * Data carried through the flow.
+ */
+export interface FlowData {
+  /** Initial report data passed by the trigger that started the flow. */
+  payload?: TriggerPayload;
+  captureResult?: CaptureResult;
+  annotatedScreenshot?: string;
+  originalScreenshot?: string;
+  context?: Partial<DeviceContext>;
+  submitResult?: SubmitResult;
+  error?: string;
+  /** Whether the failed submission may be retried by hand. */
+  retryable?: boolean;
+  /** True when a failed submission was saved to the offline queue. */
+  queued?: boolean;
+  /** Progress label shown while submitting, e.g. "Retrying (2/3)...". */
+  submitStatus?: string;
+  /** Consent decision, when `privacy.requireConsent` is on. */
+  consent?: ConsentRecord;
+}
+
+/**
+ * Complete flow state.
+ */
+export interface FlowState {
+  step: FlowStep;
+  data: FlowData;
+}
+
+/**
+ * Actions that can transition the flow state.
+ */
+export type FlowAction =
+  | { type: 'TRIGGER'; payload?: TriggerPayload }
+  | { type: 'CAPTURE_START' }
+  | {
+      type: 'CAPTURE_DONE';
+      captureResult: CaptureResult;
+      context: Partial<DeviceContext>;
+      /** Ask for consent before annotating. */
+      needsConsent?: boolean;
+      /** A stored decision that already grants consent. */
+      consent?: ConsentRecord;
+    }
+  | { type: 'CAPTURE_ERROR'; error: string }
+  | { type: 'CONSENT_GRANTED'; consent: ConsentRecord }
+  | { type: 'CONSENT_DENIED' }
+  | { type: 'ANNOTATE_DONE'; annotatedScreenshot: string; originalScreenshot: string }
+  | { type: 'ANNOTATE_CANCEL' }
+  | { type: 'RE_ANNOTATE' }
+  | { type: 'SUBMIT_START' }
+  | { type: 'SUBMIT_STATUS'; status: string }
+  | { type: 'SUBMIT_DONE'; result: SubmitResult }
+  | { type: 'SUBMIT_ERROR'; error: string; retryable?: boolean }
+  | { type: 'SUBMIT_QUEUED'; error: string }
+  | { type: 'RETRY' }
+  | { type: 'RESET' };
+
+/**
+ * Creates the initial idle state.
+ */
+export function createFlowState(): FlowState {
+  return { step: 'idle', data: {} };
+}
+
+/**
+ * Pure reducer for the flow state machine.
+ *
+ * Returns a new FlowState given the current state and an action.
+ * Invalid transitions return the current state unchanged.
+ */
+export function flowReducer(state: FlowState, action: FlowAction): FlowState {
+  switch (action.type) {
+    case 'TRIGGER':
+      if (state.step !== 'idle') return state;
+      return { step: 'triggered', data: { payload: action.payload } };
+
+    case 'CAPTURE_START':
+      if (state.step !== 'triggered') return state;
+      return { step: 'capturing', data: { payload: state.data.payload } };
+
+    case 'CAPTURE_DONE': {
+      if (state.step !== 'capturing') return state;
+      const data: FlowData = {
+        payload: state.data.payload,
+        captureResult: action.captureResult,
+        context: action.context,
+        consent: action.consent,
+      };
+      if (action.needsConsent) return { step: 'consent', data };
+      return afterCapture(data);
+    }
+
+    case 'CAPTURE_ERROR':
+      if (state.step !== 'capturing') return state;
+      return {
+        step: 'error',
+        data: { error: action.error },
+      };
+
+    case 'CONSENT_GRANTED':
+      if (state.step !== 'consent') return state;
+      return afterCapture({ ...state.data, consent: action.consent });
+
+    case 'CONSENT_DENIED':
+      if (state.step !== 'consent') return state;
+      return createFlowState();
+
+    case 'ANNOTATE_DONE':
+      if (state.step !== 'annotating') return state;
+      return {
+        step: 'form',
+        data: {
+          ...state.data,
+          annotatedScreenshot: action.annotatedScreenshot,
+          originalScreenshot: action.originalScreenshot,
+        },
+      };
+
+    case 'ANNOTATE_CANCEL':
+      if (state.step !== 'annotating') return state;
+      return createFlowState();
+
+    case 'RE_ANNOTATE':
+      if (state.step !== 'form') return state;
+      return {
+        step: 'annotating',
+        data: {
+          payload: state.data.payload,
+          captureResult: state.data.captureResult,
+          context: state.data.context,
+          consent: state.data.consent,
+        },
+      };
+
+    case 'SUBMIT_START':
+      if (state.step !== 'form') return state;
+      return { step: 'submitting', data: { ...state.data, submitStatus: undefined } };
+
+    case 'SUBMIT_STATUS':
+      if (state.step !== 'submitting') return state;
+      return { step: 'submitting', data: { ...state.data, submitStatus: action.status } };
+
+    case 'SUBMIT_DONE':
+      if (state.step !== 'submitting') return state;
+      return {
+        step: 'success',
+        data: { ...state.data, submitResult: action.result },
+      };
+
+    case 'SUBMIT_ERROR':
+      if (state.step !== 'submitting') return state;
+      return {
+        step: 'error',
+        data: { ...state.data, error: action.error, retryable: action.retryable },
+      };
+
+    case 'SUBMIT_QUEUED':
+      if (state.step !== 'submitting') return state;
+      return {
+        step: 'error',
+        data: { ...state.data, error: action.error, queued: true },
+      };
+
+    case 'RETRY':
+      if (state.step !== 'error') return state;
+      // A queued report is resubmitted automatically; retrying by hand
+      // would create a duplicate issue.
+      if (state.data.queued) return createFlowState();
+      // Return to form if we have screenshot data, otherwise reset
+      if (state.data.annotatedScreenshot) {
+        return {
+          step: 'form',
+          data: { ...state.data, error: undefined, retryable: undefined },
+        };
+      }
+      return createFlowState();
+
+    case 'RESET':
+      return createFlowState();
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Annotation step, or the form with the screenshot as captured when the
+ * trigger asked to skip annotation.
+ */
+function afterCapture(data: FlowData): FlowState {
+  if (!data.payload?.skipAnnotation || !data.captureResult) {
+    return { step: 'annotating', data };
+  }
+  const screenshot = data.captureResult.imageData;
+  return {
+    step: 'form',
+    data: { ...data, annotatedScreenshot: screenshot, originalScreenshot: screenshot },
+  };
+}
@@ -0,0 +1,137 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Frustration detection
+// Platform-neutral part of the frustration trigger: counts rage clicks,
+// clicks on disabled controls and error bursts against their thresholds.
+// ---------------------------------------------------------------------------
+
+/** Patterns that suggest the user hit a problem. */
+export type FrustrationSignalType = 'rage-click' | 'disabled-click' | 'error-burst';
+
+/** A detected pattern, attached to the report as metadata. */
+export interface FrustrationSignal {
+  type: FrustrationSignalType;
+  /** Clicks or errors counted within `windowMs`. */
+  count: number;
+  windowMs: number;
+  /** ISO 8601 time the threshold was reached. */
+  detectedAt: string;
+  /** Clicked element, e.g. a CSS selector (clicks only). */
+  target?: string;
+  /** Latest error message (error bursts only). */
+  message?: string;
+}
+
+/** `count` events within `windowMs` raise a signal. */
+export interface FrustrationThreshold {
+  count?: number;
+  windowMs?: number;
+}
+
+export interface FrustrationOptions {
+  /** Rapid clicks on the same element (default: 4 within 1000 ms). `false` turns it off. */
+  rageClicks?: FrustrationThreshold | false;
+  /** Clicks on the same disabled control (default: 3 within 3000 ms). */
+  disabledClicks?: FrustrationThreshold | false;
+  /** `console.error` calls and uncaught errors (default: 3 within 5000 ms). */
+  errorBursts?: FrustrationThreshold | false;
+  /** Quiet time after a signal before the next one (default: 60000 ms). */
+  cooldownMs?: number;
+}
+
+const DEFAULT_THRESHOLDS: Record<FrustrationSignalType, Required<FrustrationThreshold>> = {
+  'rage-click': { count: 4, windowMs: 1000 },
+  'disabled-click': { count: 3, windowMs: 3000 },
+  'error-burst': { count: 3, windowMs: 5000 },
+};
+
+const MAX_MESSAGE_LENGTH = 200;
+
+/** Recent event times of one pattern, for one target. */
+interface Series {
+  target: string | undefined;
+  times: number[];
+}
+
+/**
+ * Counts user and error events and returns a {@link FrustrationSignal} once
+ * a pattern crosses its threshold. After a signal every pattern stays quiet
+ * for `cooldownMs`, so users are not nagged.
+ */
+export class FrustrationDetector {
+  private readonly thresholds: Partial<
+    Record<FrustrationSignalType, Required<FrustrationThreshold>>
+  > = {};
+  private readonly cooldownMs: number;
+
+  private series: Partial<Record<FrustrationSignalType, Series>> = {};
+  private quietUntil = 0;
+
+  constructor(options: FrustrationOptions = {}) {
+    const configured: Record<FrustrationSignalType, FrustrationThreshold | false | undefined> = {
+      'rage-click': options.rageClicks,
+      'disabled-click': options.disabledClicks,
+      'error-burst': options.errorBursts,
+    };
+    for (const type of Object.keys(configured) as FrustrationSignalType[]) {
+      const threshold = configured[type];
+      if (threshold === false) continue;
+      this.thresholds[type] = {
+        count: Math.max(2, threshold?.count ?? DEFAULT_THRESHOLDS[type].count),
+        windowMs: threshold?.windowMs ?? DEFAULT_THRESHOLDS[type].windowMs,
+      };
+    }
+    this.cooldownMs = options.cooldownMs ?? 60_000;
+  }
+
+  /** Records a click on `target`; disabled controls count separately. */
+  recordClick(target: string, disabled = false): FrustrationSignal | null {
+    return this.record(disabled ? 'disabled-click' : 'rage-click', target);
+  }
+
+  /** Records an error; any errors count towards a burst. */
+  recordError(message: string): FrustrationSignal | null {
+    const signal = this.record('error-burst', undefined);
+    if (!signal) return null;
+    const trimmed =
+      message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+    return { ...signal, message: trimmed };
+  }
+
+  /** Forgets all counted events and ends the cooldown. */
+  reset(): void {
+    this.series = {};
+    this.quietUntil = 0;
+  }
+
+  private record(
+    type: FrustrationSignalType,
+    target: string | undefined,
+  ): FrustrationSignal | null {
+    const threshold = this.thresholds[type];
+    if (!threshold) return null;
+
+    const now = Date.now();
+    if (now < this.quietUntil) return null;
+
+    // A click elsewhere starts a new series.
+    let series = this.series[type];
+    if (!series || series.target !== target) {
+      series = { target, times: [] };
+      this.series[type] = series;
+    }
+    series.times = series.times.filter((time) => now - time < threshold.windowMs);
+    series.times.push(now);
+    if (series.times.length < threshold.count) return null;
+
+    const signal: FrustrationSignal = {
+      type,
+      count: series.times.length,
+      windowMs: threshold.windowMs,
+      detectedAt: new Date(now).toISOString(),
+      ...(target !== undefined ? { target } : {}),
+    };
+    this.series = {};
+    this.quietUntil = now + this.cooldownMs;
+    return signal;
+  }
+}
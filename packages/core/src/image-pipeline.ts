@@ -0,0 +1,219 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Image pipeline
+// Fits screenshots into a byte/pixel budget before upload: downscales,
+// converts to JPEG/WebP with a quality search, and drops an original that is
+// identical to the annotated image. Encoding is delegated to a platform codec.
+// ---------------------------------------------------------------------------
+
+import type { BugReport } from './types.js';
+import { base64ByteLength, dataUriMimeType } from './binary.js';
+
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/**
+ * Platform image encoder (canvas on web, Skia on React Native).
+ * Images are passed as data URIs or raw base64 (assumed PNG).
+ */
+export interface ImageCodec {
+  getDimensions(image: string): Promise<{ width: number; height: number }>;
+  /**
+   * Re-encodes `image` at the given size. Returns a data URI; when the
+   * platform does not support `mimeType` it may return another format.
+   */
+  encode(
+    image: string,
+    options: {
+      width: number;
+      height: number;
+      mimeType: ImageMimeType;
+      /** 0..1, ignored for PNG. */
+      quality: number;
+    },
+  ): Promise<string>;
+}
+
+/** Limits applied to each screenshot. */
+export interface ImageBudget {
+  /** Maximum encoded size per image in bytes (default: 1 MB). */
+  maxBytes?: number;
+  /** Maximum width x height in pixels (default: 4 MP). */
+  maxPixels?: number;
+  /** Formats to try, in order of preference (default: WebP, then JPEG). */
+  formats?: ImageMimeType[];
+  /** Lowest quality the search may go down to (default: 0.5). */
+  minQuality?: number;
+  /** Quality tried first (default: 0.9). */
+  maxQuality?: number;
+  /** Drop the original when it equals the annotated image (default: true). */
+  skipIdenticalOriginal?: boolean;
+}
+
+/** An image after the budget was applied. */
+export interface ProcessedImage {
+  data: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  bytes: number;
+}
+
+const DEFAULT_MAX_BYTES = 1_000_000;
+const DEFAULT_MAX_PIXELS = 4_000_000;
+const DEFAULT_FORMATS: ImageMimeType[] = ['image/webp', 'image/jpeg'];
+const DEFAULT_MIN_QUALITY = 0.5;
+const DEFAULT_MAX_QUALITY = 0.9;
+
+/** Binary-search steps per format and size. */
+const QUALITY_STEPS = 5;
+/** Each extra attempt shrinks the image by this factor. */
+const DOWNSCALE_STEP = 0.75;
+const MAX_DOWNSCALES = 4;
+
+/**
+ * Fits screenshots into an {@link ImageBudget}.
+ *
+ * Images already within budget are kept untouched. Otherwise the image is
+ * downscaled to `maxPixels`, then each format is tried with a quality
+ * search; if nothing fits, the image is shrunk further and the search
+ * repeats. The smallest result is used when the budget cannot be met.
+ */
+export class ImagePipeline {
+  private readonly codec: ImageCodec;
+  private readonly maxBytes: number;
+  private readonly maxPixels: number;
+  private readonly formats: ImageMimeType[];
+  private readonly minQuality: number;
+  private readonly maxQuality: number;
+  private readonly skipIdenticalOriginal: boolean;
+
+  constructor(codec: ImageCodec, budget?: ImageBudget) {
+    this.codec = codec;
+    this.maxBytes = budget?.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxPixels = budget?.maxPixels ?? DEFAULT_MAX_PIXELS;
+    this.formats = budget?.formats ?? DEFAULT_FORMATS;
+    this.minQuality = budget?.minQuality ?? DEFAULT_MIN_QUALITY;
+    this.maxQuality = budget?.maxQuality ?? DEFAULT_MAX_QUALITY;
+    this.skipIdenticalOriginal = budget?.skipIdenticalOriginal ?? true;
+  }
+
+  /** Fits a single image into the budget. */
+  async process(image: string): Promise<ProcessedImage> {
+    const size = await this.codec.getDimensions(image);
+    const input: ProcessedImage = {
+      data: image,
+      ...size,
+      mimeType: dataUriMimeType(image) ?? 'image/png',
+      bytes: base64ByteLength(image),
+    };
+
+    const pixels = Math.max(1, size.width * size.height);
+    let scale = Math.min(1, Math.sqrt(this.maxPixels / pixels));
+    if (scale === 1 && input.bytes <= this.maxBytes) return input;
+
+    let best: ProcessedImage | null = null;
+    for (let attempt = 0; attempt < MAX_DOWNSCALES; attempt += 1) {
+      const width = Math.max(1, Math.round(size.width * scale));
+      const height = Math.max(1, Math.round(size.height * scale));
+      for (const format of this.formats) {
+        const result = await this.searchQuality(image, width, height, format);
+        if (!result) continue;
+        if (!best || result.bytes < best.bytes) best = result;
+        if (result.bytes <= this.maxBytes) return result;
+      }
+      scale *= DOWNSCALE_STEP;
+    }
+    return best && best.bytes < input.bytes ? best : input;
+  }
+
+  /**
+   * Applies the budget to a report's screenshots and records the final
+   * dimensions, format and sizes. If the codec fails, the screenshots are
+   * returned unchanged so the report can still be sent.
+   */
+  async processScreenshot(
+    screenshot: BugReport['screenshot'],
+  ): Promise<BugReport['screenshot']> {
+    // Reports sent without a screenshot have nothing to encode.
+    if (!screenshot.annotated) return screenshot;
+    try {
+      const annotated = await this.process(screenshot.annotated);
+
+      let original: ProcessedImage | null = null;
+      let originalSkipped =
+        this.skipIdenticalOriginal && screenshot.original === screenshot.annotated;
+      if (!originalSkipped && screenshot.original) {
+        original = await this.process(screenshot.original);
+        // Identical pixels encode identically at the same size and quality.
+        if (this.skipIdenticalOriginal && original.data === annotated.data) {
+          original = null;
+          originalSkipped = true;
+        }
+      }
+
+      return {
+        annotated: annotated.data,
+        original: original?.data ?? '',
+        dimensions: { width: annotated.width, height: annotated.height },
+        mimeType: annotated.mimeType,
+        sizes: { annotated: annotated.bytes, original: original?.bytes ?? 0 },
+        ...(originalSkipped ? { originalSkipped: true } : {}),
+      };
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        '[ImagePipeline] Could not process screenshots; sending them as-is:',
+        error,
+      );
+      return screenshot;
+    }
+  }
+
+  // ---- Internal ----
+
+  /**
+   * Highest quality of `format` that fits the budget at this size, or the
+   * lowest-quality encoding when none fits. Null when the platform cannot
+   * encode `format`.
+   */
+  private async searchQuality(
+    image: string,
+    width: number,
+    height: number,
+    format: ImageMimeType,
+  ): Promise<ProcessedImage | null> {
+    const encode = async (quality: number): Promise<ProcessedImage | null> => {
+      const data = await this.codec.encode(image, {
+        width,
+        height,
+        mimeType: format,
+        quality,
+      });
+      if (dataUriMimeType(data) !== format) return null;
+      return { data, width, height, mimeType: format, bytes: base64ByteLength(data) };
+    };
+
+    const first = await encode(this.maxQuality);
+    if (!first || first.bytes <= this.maxBytes || format === 'image/png') return first;
+
+    let low = this.minQuality;
+    let high = this.maxQuality;
+    let fitting: ProcessedImage | null = null;
+    let smallest = first;
+    for (let step = 0; step < QUALITY_STEPS; step += 1) {
+      const quality = (low + high) / 2;
+      const result = await encode(quality);
+      if (!result) return null;
+      if (result.bytes < smallest.bytes) smallest = result;
+      if (result.bytes <= this.maxBytes) {
+        fitting = result;
+        low = quality;
+      } else {
+        high = quality;
+      }
+    }
+    if (fitting) return fitting;
+
+    const lowest = await encode(this.minQuality);
+    return lowest && lowest.bytes < smallest.bytes ? lowest : smallest;
+  }
+}
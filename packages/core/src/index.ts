@@ -11,6 +11,7 @@ export type {
   DeviceInfo,
   ScreenInfo,
   NetworkInfo,
+  NetworkRequest,
   BatteryInfo,
   LocaleInfo,
   AppInfo,
@@ -18,16 +19,25 @@ export type {
   PerformanceInfo,
   NavigationInfo,
   ConsoleInfo,
+  Breadcrumb,
+  BreadcrumbType,
   DeviceContext,
   CaptureResult,
+  MaskStyle,
+  MaskedRegion,
   AudioData,
+  Attachment,
+  AttachmentKind,
   BugReport,
   ReportInput,
   SubmitResult,
+  DestinationResult,
   TriggerPlugin,
+  TriggerPayload,
   CapturePlugin,
   ContextCollector,
   DestinationAdapter,
+  ReportMiddleware,
   ShakeNbakeConfig,
 } from './types.js';
 
@@ -35,6 +45,7 @@ export type {
 export {
   ShakeNbakeError,
   ERROR_MESSAGES,
+  parseRetryAfter,
 } from './errors.js';
 export type {
   ErrorCode,
@@ -47,9 +58,172 @@ export { PluginRegistry } from './plugin-registry.js';
 // Report Builder
 export { ReportBuilder } from './report-builder.js';
 
+// Report Session
+export { ReportSession } from './report-session.js';
+export type {
+  ReportSessionOptions,
+  ReportSessionListener,
+  SubmitReportOptions,
+} from './report-session.js';
+export { submitReport } from './submit-report.js';
+export type { StandaloneSubmitOptions } from './submit-report.js';
+
+// Flow State Machine
+export { createFlowState, flowReducer } from './flow-state.js';
+export type {
+  FlowAction,
+  FlowData,
+  FlowState,
+  FlowStep,
+} from './flow-state.js';
+
+// Breadcrumbs
+export {
+  BreadcrumbBuffer,
+  BreadcrumbCollector,
+  addBreadcrumb,
+  defaultBreadcrumbs,
+} from './breadcrumbs.js';
+export type { BreadcrumbBufferOptions, BreadcrumbInput } from './breadcrumbs.js';
+
+// Network log
+export {
+  NetworkLog,
+  DEFAULT_REDACTED_HEADERS,
+  DEFAULT_REDACTED_PARAMS,
+  bodySize,
+  bodyText,
+  isFailedRequest,
+  parseRawHeaders,
+  redactHeaders,
+  redactUrl,
+} from './network-log.js';
+export type { NetworkLogOptions } from './network-log.js';
+export {
+  formatConsoleArgs,
+  formatError,
+  formatErrorStack,
+  serializeValue,
+} from './console-format.js';
+export type { ConsoleFormatOptions } from './console-format.js';
+
+// Trigger payloads
+export { normalizeTriggerPayload } from './trigger-payload.js';
+
+// Error Trigger helpers
+export {
+  ErrorReportGate,
+  describeError,
+  DEFAULT_IGNORED_ERRORS,
+} from './error-trigger.js';
+export type { ErrorTriggerMode, ErrorTriggerOptions } from './error-trigger.js';
+
+// Frustration Trigger helpers
+export { FrustrationDetector } from './frustration.js';
+export type {
+  FrustrationOptions,
+  FrustrationSignal,
+  FrustrationSignalType,
+  FrustrationThreshold,
+} from './frustration.js';
+
+// Middleware
+export { MiddlewarePipeline } from './middleware.js';
+
 // Mock Adapter (testing / development)
 export { MockAdapter } from './mock-adapter.js';
 export type { MockAdapterConfig } from './mock-adapter.js';
 
+// Retry / Backoff
+export { RetryingAdapter } from './retrying-adapter.js';
+export type { RetryOptions, RetryAttemptEvent } from './retrying-adapter.js';
+
+// Fan-out
+export { MultiDestinationAdapter } from './multi-destination-adapter.js';
+export type {
+  FanOutMode,
+  MultiDestinationOptions,
+} from './multi-destination-adapter.js';
+
+// Routing
+export { RoutingAdapter } from './routing-adapter.js';
+export type {
+  RoutePattern,
+  RouteMatch,
+  RoutingRule,
+  RoutingConfig,
+  RouteCheck,
+  RuleEvaluation,
+  RouteExplanation,
+} from './routing-adapter.js';
+
+// Storage
+export { MemoryStorage } from './storage.js';
+export type { KeyValueStorage } from './storage.js';
+
+// Offline Report Queue
+export { ReportQueue, DEFAULT_QUEUE_STORAGE_KEY } from './report-queue.js';
+export type {
+  QueuedReport,
+  ReportQueueConfig,
+  DrainResult,
+} from './report-queue.js';
+
+// Consent
+export {
+  ConsentStore,
+  describeConsentSections,
+  DEFAULT_CONSENT_STORAGE_KEY,
+  DEFAULT_CONSENT_VERSION,
+} from './consent.js';
+export type {
+  ConsentRecord,
+  ConsentStoreConfig,
+  ConsentSection,
+} from './consent.js';
+
+// Attachments
+export {
+  attachmentKind,
+  attachmentExtension,
+  attachmentMimeType,
+  createAttachment,
+  normalizeAttachments,
+} from './attachments.js';
+
+// Binary transport
+export {
+  base64ByteLength,
+  base64ToBytes,
+  bytesToBase64,
+  dataUriMimeType,
+  isRemoteUrl,
+  stripDataUri,
+  toDataUri,
+} from './binary.js';
+export {
+  encodeReportPayload,
+  decodeReportPayload,
+  resolvePart,
+  isPartRef,
+  reportPayloadToFormData,
+  reportPayloadFromFormData,
+  PART_REF_PREFIX,
+  MANIFEST_FIELD,
+} from './report-payload.js';
+export type { ReportPart, ReportPayload } from './report-payload.js';
+
+// Image pipeline
+export { ImagePipeline } from './image-pipeline.js';
+export type {
+  ImageBudget,
+  ImageCodec,
+  ImageMimeType,
+  ProcessedImage,
+} from './image-pipeline.js';
+
 // Privacy / Redaction
 export { redactContext } from './redact.js';
+export type { RedactRule } from './redact.js';
+export { PiiScrubber, PII_PLACEHOLDERS } from './pii.js';
+export type { PiiKind, PiiPattern, PiiScrubberOptions } from './pii.js';
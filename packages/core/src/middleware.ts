@@ -0,0 +1,69 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — MiddlewarePipeline
+// ---------------------------------------------------------------------------
+
+import type { BugReport, ReportMiddleware, SubmitResult } from './types.js';
+
+/**
+ * Runs ReportMiddleware hooks in order.
+ *
+ * Each hook is wrapped in a try/catch so a single failing middleware does
+ * not prevent the others from running: a throwing `beforeSubmit` leaves the
+ * report as it was, a throwing `beforeCollect` does not cancel the flow.
+ */
+export class MiddlewarePipeline {
+  private readonly middleware: ReportMiddleware[];
+
+  constructor(middleware?: ReportMiddleware[]) {
+    this.middleware = [...(middleware ?? [])];
+  }
+
+  /**
+   * Returns false when a middleware cancelled the flow.
+   */
+  async runBeforeCollect(): Promise<boolean> {
+    for (const mw of this.middleware) {
+      if (!mw.beforeCollect) continue;
+      try {
+        if ((await mw.beforeCollect()) === false) return false;
+      } catch (err) {
+        logFailure(mw, 'beforeCollect', err);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Passes the report through every `beforeSubmit` hook. Resolves to null
+   * when a middleware dropped the report.
+   */
+  async runBeforeSubmit(report: BugReport): Promise<BugReport | null> {
+    let current = report;
+    for (const mw of this.middleware) {
+      if (!mw.beforeSubmit) continue;
+      try {
+        const next = await mw.beforeSubmit(current);
+        if (next === null) return null;
+        if (next) current = next;
+      } catch (err) {
+        logFailure(mw, 'beforeSubmit', err);
+      }
+    }
+    return current;
+  }
+
+  async runAfterSubmit(report: BugReport, result: SubmitResult): Promise<void> {
+    for (const mw of this.middleware) {
+      if (!mw.afterSubmit) continue;
+      try {
+        await mw.afterSubmit(report, result);
+      } catch (err) {
+        logFailure(mw, 'afterSubmit', err);
+      }
+    }
+  }
+}
+
+function logFailure(mw: ReportMiddleware, hook: string, err: unknown): void {
+  console.error(`[MiddlewarePipeline] Middleware "${mw.name}" ${hook} failed:`, err);
+}
@@ -35,7 +35,7 @@ export class MockAdapter implements DestinationAdapter {
    * a fake URL on mock.shakenbake.dev.
    */
   async uploadImage(
-    imageData: Buffer | Blob,
+    imageData: Uint8Array | Blob,
     filename: string,
   ): Promise<string> {
     const size =
@@ -0,0 +1,192 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — MultiDestinationAdapter (fan-out to several adapters)
+// ---------------------------------------------------------------------------
+
+import type {
+  BugReport,
+  DestinationAdapter,
+  DestinationResult,
+  SubmitResult,
+} from './types.js';
+import type { ErrorCode } from './errors.js';
+import { ShakeNbakeError } from './errors.js';
+
+/**
+ * How a fan-out submission decides whether it succeeded.
+ *
+ * - `all`: every child must succeed (children run in parallel).
+ * - `first-success`: children are tried in order; the first success wins
+ *   and the remaining children are skipped.
+ * - `best-effort`: every child is tried in parallel; at least one must succeed.
+ */
+export type FanOutMode = 'all' | 'first-success' | 'best-effort';
+
+/**
+ * Options for the MultiDestinationAdapter.
+ */
+export interface MultiDestinationOptions {
+  /** Success semantics (default: 'all'). */
+  mode?: FanOutMode;
+  /** Adapter name reported to callers (default: 'multi'). */
+  name?: string;
+}
+
+/**
+ * Composite DestinationAdapter that sends one BugReport to several child
+ * adapters (e.g. Linear + a Slack webhook + a local archive).
+ *
+ * Each child's `createIssue` handles its own screenshot uploads, so every
+ * screenshot is uploaded once per child. Children that already succeeded for
+ * a report are remembered until the report settles, which means retrying a
+ * partially failed submission (via RetryingAdapter or the offline queue)
+ * only resubmits to the children that failed.
+ *
+ * The returned SubmitResult uses the URL/id of the first successful child
+ * (in adapter order) and lists every child's outcome in `destinations`.
+ */
+export class MultiDestinationAdapter implements DestinationAdapter {
+  readonly name: string;
+
+  private readonly adapters: DestinationAdapter[];
+  private readonly mode: FanOutMode;
+  /** Successful child results per report id, kept while a report is retryable. */
+  private readonly delivered = new Map<string, Map<number, SubmitResult>>();
+
+  constructor(adapters: DestinationAdapter[], options?: MultiDestinationOptions) {
+    if (adapters.length === 0) {
+      throw new ShakeNbakeError(
+        'MultiDestinationAdapter requires at least one adapter',
+        'UNKNOWN',
+      );
+    }
+    this.adapters = [...adapters];
+    this.mode = options?.mode ?? 'all';
+    this.name = options?.name ?? 'multi';
+  }
+
+  /**
+   * Uploads the image to the children in order and returns the URL from the
+   * first one that accepts it.
+   */
+  async uploadImage(imageData: Uint8Array | Blob, filename: string): Promise<string> {
+    let lastError: unknown;
+    for (const adapter of this.adapters) {
+      try {
+        return await adapter.uploadImage(imageData, filename);
+      } catch (error: unknown) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  async createIssue(report: BugReport): Promise<SubmitResult> {
+    const done = this.delivered.get(report.id) ?? new Map<number, SubmitResult>();
+    const failures = new Map<number, unknown>();
+
+    const submitTo = async (index: number): Promise<void> => {
+      const adapter = this.adapters[index]!;
+      try {
+        done.set(index, await adapter.createIssue(report));
+      } catch (error: unknown) {
+        failures.set(index, error);
+      }
+    };
+
+    if (this.mode === 'first-success') {
+      for (let i = 0; i < this.adapters.length && done.size === 0; i += 1) {
+        await submitTo(i);
+      }
+    } else {
+      await Promise.all(
+        this.adapters.map((_, i) => (done.has(i) ? undefined : submitTo(i))),
+      );
+    }
+
+    const destinations = this.adapters.map((adapter, i): DestinationResult => {
+      const result = done.get(i);
+      if (result) {
+        return { adapter: adapter.name, success: true, url: result.url, id: result.id };
+      }
+      const error = failures.get(i);
+      return {
+        adapter: adapter.name,
+        success: false,
+        ...(error !== undefined ? { error: messageOf(error) } : {}),
+      };
+    });
+
+    const succeeded = this.mode === 'all' ? failures.size === 0 : done.size > 0;
+    if (succeeded) {
+      this.delivered.delete(report.id);
+      const primary = destinations.find((d) => d.success)!;
+      return {
+        url: primary.url ?? '',
+        id: primary.id ?? '',
+        success: true,
+        destinations,
+      };
+    }
+
+    const error = aggregateError(destinations, [...failures.values()]);
+    if (error.retryable && done.size > 0) {
+      this.delivered.set(report.id, done);
+    } else {
+      this.delivered.delete(report.id);
+    }
+    throw error;
+  }
+
+  /**
+   * In `all` mode every child must be reachable; otherwise one is enough.
+   */
+  async testConnection(): Promise<boolean> {
+    const results = await Promise.all(
+      this.adapters.map((adapter) => adapter.testConnection().catch(() => false)),
+    );
+    return this.mode === 'all' ? results.every(Boolean) : results.some(Boolean);
+  }
+
+  requestUrls(): Array<string | RegExp> {
+    return this.adapters.flatMap((adapter) => adapter.requestUrls?.() ?? []);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Builds a single error describing every failed child. The aggregate is only
+ * retryable when every failure was, and reuses the shared code when all
+ * children failed the same way.
+ */
+function aggregateError(
+  destinations: DestinationResult[],
+  failures: unknown[],
+): ShakeNbakeError {
+  const codes = new Set<ErrorCode>(
+    failures.map((f) => (f instanceof ShakeNbakeError ? f.code : 'UNKNOWN')),
+  );
+  const code: ErrorCode = codes.size === 1 ? [...codes][0]! : 'UNKNOWN';
+  const retryable = failures.every(
+    (f) => f instanceof ShakeNbakeError && f.retryable,
+  );
+  const retryAfter = failures
+    .map((f) => (f instanceof ShakeNbakeError ? f.retryAfterMs : undefined))
+    .filter((ms): ms is number => ms !== undefined);
+  const message = destinations
+    .filter((d) => d.error !== undefined)
+    .map((d) => `${d.adapter}: ${d.error}`)
+    .join('; ');
+
+  return new ShakeNbakeError(`Failed to submit report (${message})`, code, {
+    retryable,
+    originalError: destinations,
+    retryAfterMs: retryAfter.length > 0 ? Math.max(...retryAfter) : undefined,
+  });
+}
@@ -0,0 +1,251 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Network log
+// Platform-neutral part of the web and React Native network interceptors:
+// ring buffer, ignore patterns, URL/header redaction and body truncation.
+// ---------------------------------------------------------------------------
+
+import type { DestinationAdapter, NetworkRequest } from './types.js';
+
+export interface NetworkLogOptions {
+  /** Oldest requests are dropped beyond this many (default: 50). */
+  maxRequests?: number;
+  /** Keep request and response bodies (default: false). */
+  captureBodies?: boolean;
+  /** Bodies are truncated to this many characters (default: 1000). */
+  maxBodyLength?: number;
+  /** Requests whose URL matches are not recorded. Strings match as substrings. */
+  ignoreUrls?: Array<string | RegExp>;
+  /** Extra query parameter names whose values are redacted. */
+  redactParams?: string[];
+  /** Keep request and response headers (default: false). */
+  captureHeaders?: boolean;
+  /** Extra header names whose values are redacted. */
+  redactHeaders?: string[];
+}
+
+/** Query parameters whose values never leave the device. Matched case-insensitively. */
+export const DEFAULT_REDACTED_PARAMS: string[] = [
+  'key',
+  'apikey',
+  'api_key',
+  'auth',
+  'authorization',
+  'code',
+  'sig',
+  'session',
+  'sessionid',
+  'x-amz-credential',
+];
+
+/** Headers whose values never leave the device. Matched case-insensitively. */
+export const DEFAULT_REDACTED_HEADERS: string[] = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+/** Parameter and header names containing any of these are always redacted. */
+const SENSITIVE_NAME_PARTS = ['token', 'secret', 'password', 'signature'];
+
+const REDACTED = '[REDACTED]';
+
+function sensitiveNameMatcher(defaults: string[], extra: string[]): (name: string) => boolean {
+  const names = new Set([...defaults, ...extra].map((name) => name.toLowerCase()));
+  return (name) => {
+    const lower = name.toLowerCase();
+    return names.has(lower) || SENSITIVE_NAME_PARTS.some((part) => lower.includes(part));
+  };
+}
+
+/**
+ * Removes credentials (`user:pass@`) and the values of sensitive query
+ * parameters from a URL. Relative URLs and fragments are kept as they are.
+ */
+export function redactUrl(url: string, extraParams: string[] = []): string {
+  const isSensitive = sensitiveNameMatcher(DEFAULT_REDACTED_PARAMS, extraParams);
+
+  const withoutCredentials = url.replace(/^([a-z][a-z\d+.-]*:\/\/)[^/?#@]*@/i, '$1');
+
+  const hashIndex = withoutCredentials.indexOf('#');
+  const beforeHash = hashIndex === -1 ? withoutCredentials : withoutCredentials.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : withoutCredentials.slice(hashIndex);
+  const queryIndex = beforeHash.indexOf('?');
+  if (queryIndex === -1) return withoutCredentials;
+
+  const query = beforeHash
+    .slice(queryIndex + 1)
+    .split('&')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      const name = eq === -1 ? pair : pair.slice(0, eq);
+      let decoded = name;
+      try {
+        decoded = decodeURIComponent(name);
+      } catch {
+        // Malformed escape — match on the raw name.
+      }
+      return eq !== -1 && isSensitive(decoded) ? `${name}=${REDACTED}` : pair;
+    })
+    .join('&');
+
+  return `${beforeHash.slice(0, queryIndex)}?${query}${hash}`;
+}
+
+/** Copy of `headers` with the values of sensitive headers redacted. */
+export function redactHeaders(
+  headers: Record<string, string>,
+  extraHeaders: string[] = [],
+): Record<string, string> {
+  const isSensitive = sensitiveNameMatcher(DEFAULT_REDACTED_HEADERS, extraHeaders);
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = isSensitive(name) ? REDACTED : value;
+  }
+  return result;
+}
+
+/**
+ * Parses the `getAllResponseHeaders()` string of an XMLHttpRequest into a
+ * record with lower-case names.
+ */
+export function parseRawHeaders(raw: string | null | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of (raw ?? '').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/** Size of a request/response body in bytes, when it can be known cheaply. */
+export function bodySize(body: unknown): number | undefined {
+  if (typeof body === 'string') {
+    return typeof TextEncoder === 'function'
+      ? new TextEncoder().encode(body).length
+      : body.length;
+  }
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  if (ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof Blob === 'function' && body instanceof Blob) return body.size;
+  if (typeof URLSearchParams === 'function' && body instanceof URLSearchParams) {
+    return bodySize(body.toString());
+  }
+  return undefined;
+}
+
+/** A body as text, when it is text. Binary and form bodies return undefined. */
+export function bodyText(body: unknown): string | undefined {
+  if (typeof body === 'string') return body;
+  if (typeof URLSearchParams === 'function' && body instanceof URLSearchParams) {
+    return body.toString();
+  }
+  return undefined;
+}
+
+/** True for requests that got no response or an HTTP error status. */
+export function isFailedRequest(request: NetworkRequest): boolean {
+  return request.status === undefined || request.status === 0 || request.status >= 400;
+}
+
+/**
+ * Bounded log of HTTP requests. Platform interceptors {@link add} every
+ * request they see; URLs are redacted and bodies truncated (or dropped
+ * unless `captureBodies` is on) before anything is stored.
+ */
+export class NetworkLog {
+  readonly maxRequests: number;
+  readonly captureBodies: boolean;
+  readonly captureHeaders: boolean;
+  readonly maxBodyLength: number;
+
+  private readonly ignoreUrls: Array<string | RegExp>;
+  private readonly redactParams: string[];
+  private readonly redactHeaderNames: string[];
+  private readonly destination: DestinationAdapter | undefined;
+  private entries: NetworkRequest[] = [];
+
+  /**
+   * @param destination Requests to its {@link DestinationAdapter.requestUrls}
+   *   are never recorded.
+   */
+  constructor(options: NetworkLogOptions = {}, destination?: DestinationAdapter) {
+    this.maxRequests = Math.max(1, options.maxRequests ?? 50);
+    this.captureBodies = options.captureBodies ?? false;
+    this.maxBodyLength = options.maxBodyLength ?? 1000;
+    this.ignoreUrls = options.ignoreUrls ?? [];
+    this.redactParams = options.redactParams ?? [];
+    this.captureHeaders = options.captureHeaders ?? false;
+    this.redactHeaderNames = options.redactHeaders ?? [];
+    this.destination = destination;
+  }
+
+  /** Whether requests to `url` are recorded at all. */
+  shouldRecord(url: string): boolean {
+    const ignored = [...this.ignoreUrls, ...(this.destination?.requestUrls?.() ?? [])];
+    return !ignored.some((pattern) => {
+      if (typeof pattern === 'string') return url.includes(pattern);
+      pattern.lastIndex = 0;
+      return pattern.test(url);
+    });
+  }
+
+  /**
+   * Records a request and returns the stored entry, or null when its URL is
+   * ignored. Headers are dropped unless `captureHeaders` is on, and
+   * sensitive header values are redacted. With `partialResponseBody`, the
+   * response body was only read in part (see {@link maxBodyLength}), so its
+   * full length is unknown.
+   */
+  add(
+    request: NetworkRequest,
+    options: { partialResponseBody?: boolean } = {},
+  ): NetworkRequest | null {
+    if (!this.shouldRecord(request.url)) return null;
+
+    const entry: NetworkRequest = { ...request, url: redactUrl(request.url, this.redactParams) };
+    delete entry.requestBody;
+    delete entry.responseBody;
+    delete entry.requestHeaders;
+    delete entry.responseHeaders;
+    if (this.captureHeaders) {
+      if (request.requestHeaders) {
+        entry.requestHeaders = redactHeaders(request.requestHeaders, this.redactHeaderNames);
+      }
+      if (request.responseHeaders) {
+        entry.responseHeaders = redactHeaders(request.responseHeaders, this.redactHeaderNames);
+      }
+    }
+    if (this.captureBodies) {
+      if (request.requestBody !== undefined) entry.requestBody = this.truncate(request.requestBody);
+      if (request.responseBody !== undefined) {
+        entry.responseBody = options.partialResponseBody
+          ? `${request.responseBody.slice(0, this.maxBodyLength)}… (truncated)`
+          : this.truncate(request.responseBody);
+      }
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxRequests) {
+      this.entries.splice(0, this.entries.length - this.maxRequests);
+    }
+    return entry;
+  }
+
+  /** All recorded requests, oldest first. */
+  getAll(): NetworkRequest[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private truncate(body: string): string {
+    return body.length > this.maxBodyLength
+      ? `${body.slice(0, this.maxBodyLength)}… (${String(body.length)} chars)`
+      : body;
+  }
+}
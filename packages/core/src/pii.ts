@@ -0,0 +1,251 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — PII scrubbing
+// Finds personal data in free text (console output, stack traces, URLs,
+// descriptions, metadata) and replaces it with typed placeholders.
+// ---------------------------------------------------------------------------
+
+import type { BugReport, DeviceContext } from './types.js';
+
+/** Built-in kinds of personal data the scrubber detects. */
+export type PiiKind =
+  | 'email'
+  | 'phone'
+  | 'jwt'
+  | 'token'
+  | 'credit-card'
+  | 'ip';
+
+/** A user-supplied pattern, replaced with `[NAME]` (upper-cased). */
+export interface PiiPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface PiiScrubberOptions {
+  /** Built-in detectors to run (default: all). */
+  kinds?: PiiKind[];
+  /** Extra patterns, applied before the built-in ones. */
+  customPatterns?: PiiPattern[];
+}
+
+/** Placeholder text for each built-in kind. */
+export const PII_PLACEHOLDERS: Record<PiiKind, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  jwt: '[JWT]',
+  token: '[TOKEN]',
+  'credit-card': '[CREDIT_CARD]',
+  ip: '[IP]',
+};
+
+const ALL_KINDS: PiiKind[] = ['jwt', 'token', 'email', 'credit-card', 'ip', 'phone'];
+
+const JWT_RE = /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g;
+const AUTH_HEADER_RE = /\b(Bearer|Basic|Token)(\s+)[A-Za-z0-9._~+/-]+=*/gi;
+const SECRET_PARAM_RE =
+  /([?&;](?:access_token|id_token|refresh_token|token|api_key|apikey|password|secret|session|signature|sig)=)[^&#\s]+/gi;
+const EMAIL_RE = /[A-Z0-9._%+-]+(?:@|%40)[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const CARD_RE = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Unseparated digit runs count as cards only with an issuer prefix and length,
+// so millisecond timestamps and numeric IDs that happen to pass Luhn survive.
+const CARD_ISSUER_RE = new RegExp(
+  `^(?:${[
+    '4\\d{12}(?:\\d{3}){0,2}', // Visa
+    '5[1-5]\\d{14}|2(?:22[1-9]|2[3-9]\\d|[3-6]\\d\\d|7[01]\\d|720)\\d{12}', // Mastercard
+    '3[47]\\d{13}', // American Express
+    '3(?:0[0-5]\\d|[68]\\d\\d)\\d{11,16}', // Diners Club
+    '35\\d{14,17}', // JCB
+    '6(?:011\\d{12,15}|4[4-9]\\d{13,16}|5\\d{14,17})', // Discover
+    '62\\d{14,17}', // UnionPay
+  ].join('|')})$`,
+);
+const IPV4_RE =
+  /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g;
+const IPV6_RE =
+  /\b(?:[0-9A-F]{1,4}:){7}[0-9A-F]{1,4}\b|\b(?:[0-9A-F]{1,4}:){1,6}:(?:[0-9A-F]{1,4}:){0,5}[0-9A-F]{1,4}\b/gi;
+// The leading group stands in for a lookbehind (not available on every JS engine).
+const PHONE_RE =
+  /(^|[^\w+.\-/])(\+?\d{1,3}[\s.-]?)?(\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,5}){1,4}(?![\w.-]?\d)/g;
+const ISO_DATE_RE = /\d{4}-\d{2}-\d{2}/;
+
+/** Large base64 blobs and data URIs (screenshots, attachments) are left alone. */
+const BINARY_RE = /^[A-Za-z0-9+/=\r\n]+$/;
+
+/**
+ * Content-aware PII scrubber.
+ *
+ * Detects emails (including URL-encoded), phone numbers, JWTs, bearer/basic
+ * tokens and secret query parameters, Luhn-valid credit-card numbers, IPv4/
+ * IPv6 addresses and custom patterns, replacing each match with a typed
+ * placeholder such as `[EMAIL]`.
+ */
+export class PiiScrubber {
+  private readonly kinds: ReadonlySet<PiiKind>;
+  private readonly customPatterns: PiiPattern[];
+
+  constructor(options?: PiiScrubberOptions) {
+    this.kinds = new Set(options?.kinds ?? ALL_KINDS);
+    this.customPatterns = (options?.customPatterns ?? []).map((p) => ({
+      name: p.name,
+      pattern: p.pattern.global
+        ? p.pattern
+        : new RegExp(p.pattern.source, `${p.pattern.flags}g`),
+    }));
+  }
+
+  /** Scrubs a single string. */
+  scrubText(text: string): string {
+    if (text.length === 0 || isBinary(text)) return text;
+
+    let out = text;
+    for (const { name, pattern } of this.customPatterns) {
+      out = out.replace(pattern, `[${name.toUpperCase()}]`);
+    }
+    if (this.kinds.has('jwt')) {
+      out = out.replace(JWT_RE, PII_PLACEHOLDERS.jwt);
+    }
+    if (this.kinds.has('token')) {
+      out = out
+        .replace(AUTH_HEADER_RE, `$1$2${PII_PLACEHOLDERS.token}`)
+        .replace(SECRET_PARAM_RE, `$1${PII_PLACEHOLDERS.token}`);
+    }
+    if (this.kinds.has('email')) {
+      out = out.replace(EMAIL_RE, PII_PLACEHOLDERS.email);
+    }
+    if (this.kinds.has('credit-card')) {
+      out = out.replace(CARD_RE, (match) =>
+        isCardNumber(match) ? PII_PLACEHOLDERS['credit-card'] : match,
+      );
+    }
+    if (this.kinds.has('ip')) {
+      out = out
+        .replace(IPV4_RE, PII_PLACEHOLDERS.ip)
+        .replace(IPV6_RE, PII_PLACEHOLDERS.ip);
+    }
+    if (this.kinds.has('phone')) {
+      out = out.replace(PHONE_RE, (match, prefix: string) => {
+        const candidate = match.slice(prefix.length);
+        return looksLikePhone(candidate)
+          ? `${prefix}${PII_PLACEHOLDERS.phone}`
+          : match;
+      });
+    }
+    return out;
+  }
+
+  /**
+   * Deep-scrubs every string inside a value (objects, arrays, primitives).
+   * Keys are kept as-is. Returns a new value; the input is not mutated.
+   */
+  scrub<T>(value: T): T {
+    return this.walk(value, new WeakSet()) as T;
+  }
+
+  /**
+   * Scrubs the free-text parts of a context: app URLs/titles, navigation
+   * routes and params, and console messages/stack traces. Structured device
+   * data (screen size, OS version, ...) is left untouched.
+   */
+  scrubContext(context: Partial<DeviceContext>): Partial<DeviceContext> {
+    const result: Partial<DeviceContext> = { ...context };
+    if (context.app) {
+      const { url, referrer, pathname, title } = context.app;
+      result.app = {
+        ...context.app,
+        ...(url !== undefined ? { url: this.scrubText(url) } : {}),
+        ...(referrer !== undefined ? { referrer: this.scrubText(referrer) } : {}),
+        ...(pathname !== undefined ? { pathname: this.scrubText(pathname) } : {}),
+        ...(title !== undefined ? { title: this.scrubText(title) } : {}),
+      };
+    }
+    if (context.navigation) result.navigation = this.scrub(context.navigation);
+    if (context.network?.requests) {
+      result.network = { ...context.network, requests: this.scrub(context.network.requests) };
+    }
+    if (context.console) result.console = this.scrub(context.console);
+    if (context.breadcrumbs) result.breadcrumbs = this.scrub(context.breadcrumbs);
+    return result;
+  }
+
+  /**
+   * Scrubs a whole report: title, description, context and customMetadata.
+   * Screenshots and audio are not inspected.
+   */
+  scrubReport(report: BugReport): BugReport {
+    return {
+      ...report,
+      title: this.scrubText(report.title),
+      description: this.scrubText(report.description),
+      context: this.scrubContext(report.context) as DeviceContext,
+      ...(report.customMetadata
+        ? { customMetadata: this.scrub(report.customMetadata) }
+        : {}),
+    };
+  }
+
+  // ---- Internal ----
+
+  /**
+   * `ancestors` holds the objects on the current path only, so a cycle is
+   * cut while an object shared by two branches is scrubbed in both.
+   */
+  private walk(value: unknown, ancestors: WeakSet<object>): unknown {
+    if (typeof value === 'string') return this.scrubText(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (ancestors.has(value)) return undefined;
+    ancestors.add(value);
+
+    let out: unknown;
+    if (Array.isArray(value)) {
+      out = value.map((item) => this.walk(item, ancestors));
+    } else {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        copy[key] = this.walk(item, ancestors);
+      }
+      out = copy;
+    }
+    ancestors.delete(value);
+    return out;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isBinary(text: string): boolean {
+  if (text.startsWith('data:')) return true;
+  return text.length > 1024 && BINARY_RE.test(text);
+}
+
+/** A Luhn-valid number written in groups, or with a known issuer prefix. */
+function isCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (!luhnValid(digits)) return false;
+  return digits.length !== match.length || CARD_ISSUER_RE.test(digits);
+}
+
+/** Luhn checksum for 13-19 digit card numbers. */
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i -= 1) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+function looksLikePhone(candidate: string): boolean {
+  if (ISO_DATE_RE.test(candidate)) return false;
+  const digits = candidate.replace(/\D/g, '').length;
+  const min = candidate.startsWith('+') ? 8 : 10;
+  return digits >= min && digits <= 15;
+}
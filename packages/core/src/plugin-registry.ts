@@ -4,6 +4,7 @@
 
 import type {
   TriggerPlugin,
+  TriggerPayload,
   CapturePlugin,
   ContextCollector,
   DeviceContext,
@@ -34,7 +35,9 @@ export class PluginRegistry {
     return Array.from(this.triggerMap.values());
   }
 
-  async activateTriggers(onTrigger: () => void): Promise<void> {
+  async activateTriggers(
+    onTrigger: (payload?: TriggerPayload) => boolean | void,
+  ): Promise<void> {
     for (const trigger of this.triggerMap.values()) {
       try {
         await trigger.activate(onTrigger);
@@ -1,23 +1,41 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/core — Context redaction utility
-// Removes fields from a DeviceContext partial based on dot-path patterns.
+// Removes or masks fields of a DeviceContext partial based on path patterns.
 // ---------------------------------------------------------------------------
 
 import type { DeviceContext } from './types.js';
 
 /**
- * Redact fields from a context object based on dot-path patterns.
+ * A redaction rule: a path pattern (the field is removed), or a path with a
+ * `mask` that replaces the value while keeping the key.
+ */
+export type RedactRule = string | { path: string; mask: string };
+
+type PathToken =
+  | { type: 'key'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'any' }
+  | { type: 'deep' };
+
+type Action = { type: 'delete' } | { type: 'mask'; mask: string };
+
+/**
+ * Redact fields from a context object based on path patterns.
  *
  * Supported patterns:
- * - `"app.url"` — removes the `url` key from the `app` section
  * - `"console"` — removes the entire `console` section
- * - `"network.*"` — removes all keys in the `network` section
+ * - `"app.url"`, `"navigation.routeParams.token"` — removes a field at any depth
+ * - `"network.*"` — `*` matches every key (or array item) at one level
+ * - `"**.token"` — `**` matches any number of levels, including none
+ * - `"console.recentLogs[*].message"`, `"navigation.navigationHistory[0]"` —
+ *   array wildcards and indices
+ * - `{ path: "app.url", mask: "***" }` — replaces the value, keeping the key
  *
  * Returns a new object; the original is not mutated.
  */
 export function redactContext(
   context: Partial<DeviceContext>,
-  fields: string[],
+  fields: RedactRule[],
 ): Partial<DeviceContext> {
   if (!fields.length) return context;
 
@@ -25,24 +43,130 @@ export function redactContext(
   const result = JSON.parse(JSON.stringify(context)) as Record<string, unknown>;
 
   for (const field of fields) {
-    const parts = field.split('.');
-
-    if (parts.length === 1) {
-      // Top-level key: e.g. "console" — delete entire section.
-      delete result[parts[0]!];
-    } else if (parts.length === 2 && parts[1] === '*') {
-      // Wildcard: e.g. "network.*" — replace section with empty object.
-      if (parts[0]! in result) {
-        result[parts[0]!] = {};
-      }
-    } else if (parts.length === 2) {
-      // Nested key: e.g. "app.url" — delete specific field.
-      const section = result[parts[0]!];
-      if (section && typeof section === 'object' && !Array.isArray(section)) {
-        delete (section as Record<string, unknown>)[parts[1]!];
-      }
+    const path = typeof field === 'string' ? field : field.path;
+    const action: Action =
+      typeof field === 'string'
+        ? { type: 'delete' }
+        : { type: 'mask', mask: field.mask };
+    const tokens = parsePath(path);
+    if (tokens.length > 0) {
+      apply(result, tokens, 0, action);
     }
   }
 
   return result as Partial<DeviceContext>;
 }
+
+// ---------------------------------------------------------------------------
+// Path parsing
+// ---------------------------------------------------------------------------
+
+function parsePath(path: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  for (const segment of path.split('.')) {
+    // Split "recentLogs[*][0]" into "recentLogs", "[*]", "[0]".
+    const match = /^([^[\]]*)((?:\[[^\]]*\])*)$/.exec(segment);
+    if (!match) return [];
+    const [, key, brackets] = match;
+
+    if (key === '**') tokens.push({ type: 'deep' });
+    else if (key === '*') tokens.push({ type: 'any' });
+    else if (key) tokens.push({ type: 'key', name: key });
+
+    for (const [, inner] of brackets!.matchAll(/\[([^\]]*)\]/g)) {
+      if (inner === '*') tokens.push({ type: 'any' });
+      else if (/^\d+$/.test(inner!)) tokens.push({ type: 'index', index: Number(inner) });
+      else return [];
+    }
+  }
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Path application
+// ---------------------------------------------------------------------------
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Keys of `node` matched by a single (non-deep) token. */
+function matchingKeys(node: Container, token: PathToken): string[] {
+  const keys = Object.keys(node);
+  switch (token.type) {
+    case 'any':
+      return keys;
+    case 'key':
+      return keys.includes(token.name) ? [token.name] : [];
+    case 'index':
+      return Array.isArray(node) && token.index < node.length
+        ? [String(token.index)]
+        : [];
+    default:
+      return [];
+  }
+}
+
+function apply(node: Container, tokens: PathToken[], i: number, action: Action): void {
+  const token = tokens[i]!;
+  const isLast = i === tokens.length - 1;
+
+  if (token.type === 'deep') {
+    if (isLast) {
+      // "a.**" — everything below `a`.
+      applyToAll(node, action);
+      return;
+    }
+    // Zero levels: continue with the rest of the pattern here...
+    apply(node, tokens, i + 1, action);
+    // ...or descend one level and stay on `**`.
+    for (const key of Object.keys(node)) {
+      const child = (node as Record<string, unknown>)[key];
+      if (isContainer(child)) apply(child, tokens, i, action);
+    }
+    return;
+  }
+
+  const keys = matchingKeys(node, token);
+  if (isLast) {
+    applyAction(node, keys, action);
+    return;
+  }
+  for (const key of keys) {
+    const child = (node as Record<string, unknown>)[key];
+    if (isContainer(child)) apply(child, tokens, i + 1, action);
+  }
+}
+
+function applyAction(node: Container, keys: string[], action: Action): void {
+  if (action.type === 'mask') {
+    for (const key of keys) {
+      (node as Record<string, unknown>)[key] = action.mask;
+    }
+    return;
+  }
+  if (Array.isArray(node)) {
+    // Remove from the end so earlier indices stay valid.
+    const indices = keys.map(Number).sort((a, b) => b - a);
+    for (const index of indices) node.splice(index, 1);
+    return;
+  }
+  for (const key of keys) {
+    delete node[key];
+  }
+}
+
+/** Deletes every child of `node`, or masks every leaf beneath it. */
+function applyToAll(node: Container, action: Action): void {
+  if (action.type === 'delete') {
+    applyAction(node, Object.keys(node), action);
+    return;
+  }
+  for (const key of Object.keys(node)) {
+    const child = (node as Record<string, unknown>)[key];
+    if (isContainer(child)) applyToAll(child, action);
+    else (node as Record<string, unknown>)[key] = action.mask;
+  }
+}
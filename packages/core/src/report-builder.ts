@@ -82,13 +82,16 @@ export class ReportBuilder {
       performance: { ...base.performance, ...partial.performance },
       navigation: { ...base.navigation, ...partial.navigation },
       console: { ...base.console, ...partial.console },
+      ...(partial.breadcrumbs ? { breadcrumbs: partial.breadcrumbs } : {}),
     };
   }
 
   /**
    * Builds a full BugReport from user-provided input and collected context.
-   * Generates a UUID via crypto.randomUUID (with Math.random fallback for
-   * older runtimes) and an ISO 8601 timestamp.
+   * The screenshot is optional: without one, `screenshot.annotated` and
+   * `screenshot.original` are empty strings. Generates a UUID via
+   * crypto.randomUUID (with Math.random fallback for older runtimes) and an
+   * ISO 8601 timestamp.
    */
   build(input: ReportInput, context: DeviceContext): BugReport {
     if (!input.title.trim()) {
@@ -97,12 +100,6 @@ export class ReportBuilder {
         'UNKNOWN',
       );
     }
-    if (!input.annotatedScreenshot) {
-      throw new ShakeNbakeError(
-        'An annotated screenshot is required.',
-        'UNKNOWN',
-      );
-    }
 
     let id: string;
     try {
@@ -120,8 +117,8 @@ export class ReportBuilder {
       severity: input.severity,
       category: input.category,
       screenshot: {
-        annotated: input.annotatedScreenshot,
-        original: input.originalScreenshot,
+        annotated: input.annotatedScreenshot ?? '',
+        original: input.originalScreenshot ?? '',
         dimensions: { width: 0, height: 0 }, // Overwritten by caller if known
       },
       context,
@@ -135,6 +132,10 @@ export class ReportBuilder {
       };
     }
 
+    if (input.attachments && input.attachments.length > 0) {
+      report.attachments = [...input.attachments];
+    }
+
     return report;
   }
 
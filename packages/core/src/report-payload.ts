@@ -0,0 +1,209 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Report payload
+// Splits a BugReport into a JSON manifest plus binary parts so screenshots,
+// audio and attachments travel as bytes (e.g. multipart/form-data) instead
+// of base64 strings inside one JSON body.
+// ---------------------------------------------------------------------------
+
+import type { BugReport } from './types.js';
+import { attachmentExtension, normalizeAttachments } from './attachments.js';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  dataUriMimeType,
+  isRemoteUrl,
+} from './binary.js';
+import { ShakeNbakeError } from './errors.js';
+
+/** A binary file referenced from the manifest. */
+export interface ReportPart {
+  /** Unique within the payload; also the multipart field name. */
+  name: string;
+  filename: string;
+  mimeType: string;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * A report ready for transport. `manifest` is the report with every inline
+ * binary replaced by a `part:<name>` reference; URLs and empty values are
+ * kept as they are.
+ */
+export interface ReportPayload {
+  manifest: BugReport;
+  parts: ReportPart[];
+}
+
+/** Prefix of manifest values that point at a {@link ReportPart}. */
+export const PART_REF_PREFIX = 'part:';
+
+/** Multipart field holding the JSON manifest. */
+export const MANIFEST_FIELD = 'manifest';
+
+/** True when a manifest value references a part. */
+export function isPartRef(value: string | undefined): value is string {
+  return typeof value === 'string' && value.startsWith(PART_REF_PREFIX);
+}
+
+/**
+ * Converts a report into a manifest and binary parts. Each base64 value is
+ * decoded exactly once here. Legacy `customMetadata.attachments` are
+ * migrated first.
+ */
+export function encodeReportPayload(report: BugReport): ReportPayload {
+  const source = normalizeAttachments(report);
+  const parts: ReportPart[] = [];
+
+  const extract = (
+    value: string,
+    name: string,
+    mimeType: string,
+    filename: string,
+  ): string => {
+    if (!value || isRemoteUrl(value) || isPartRef(value)) return value;
+    parts.push({ name, filename, mimeType, data: base64ToBytes(value) });
+    return `${PART_REF_PREFIX}${name}`;
+  };
+
+  const screenshotType = (image: string): string =>
+    dataUriMimeType(image) ?? source.screenshot.mimeType ?? 'image/png';
+  const { annotated, original } = source.screenshot;
+
+  const manifest: BugReport = {
+    ...source,
+    screenshot: {
+      ...source.screenshot,
+      annotated: extract(
+        annotated,
+        'screenshot-annotated',
+        screenshotType(annotated),
+        `screenshot-annotated-${source.id}.${attachmentExtension(screenshotType(annotated))}`,
+      ),
+      original: extract(
+        original,
+        'screenshot-original',
+        screenshotType(original),
+        `screenshot-original-${source.id}.${attachmentExtension(screenshotType(original))}`,
+      ),
+    },
+  };
+
+  if (source.audio) {
+    const { mimeType } = source.audio;
+    manifest.audio = {
+      ...source.audio,
+      data: extract(
+        source.audio.data,
+        'audio',
+        mimeType,
+        `audio-${source.id}.${attachmentExtension(mimeType)}`,
+      ),
+    };
+  }
+
+  if (source.attachments) {
+    manifest.attachments = source.attachments.map((attachment, index) => {
+      if (!attachment.data) return attachment;
+      const filename = attachment.filename.includes('.')
+        ? attachment.filename
+        : `${attachment.filename}.${attachmentExtension(attachment.mimeType)}`;
+      return {
+        ...attachment,
+        data: extract(
+          attachment.data,
+          `attachment-${String(index + 1)}`,
+          attachment.mimeType,
+          filename,
+        ),
+      };
+    });
+  }
+
+  return { manifest, parts };
+}
+
+/** Finds the part a manifest value refers to. */
+export function resolvePart(
+  payload: ReportPayload,
+  value: string | undefined,
+): ReportPart | undefined {
+  if (!isPartRef(value)) return undefined;
+  const name = value.substring(PART_REF_PREFIX.length);
+  return payload.parts.find((part) => part.name === name);
+}
+
+/**
+ * Rebuilds a plain BugReport with base64 data URIs, for adapters that only
+ * understand the inline form.
+ */
+export function decodeReportPayload(payload: ReportPayload): BugReport {
+  const inline = (value: string): string => {
+    const part = resolvePart(payload, value);
+    return part ? `data:${part.mimeType};base64,${bytesToBase64(part.data)}` : value;
+  };
+
+  const { manifest } = payload;
+  return {
+    ...manifest,
+    screenshot: {
+      ...manifest.screenshot,
+      annotated: inline(manifest.screenshot.annotated),
+      original: inline(manifest.screenshot.original),
+    },
+    ...(manifest.audio
+      ? { audio: { ...manifest.audio, data: inline(manifest.audio.data) } }
+      : {}),
+    ...(manifest.attachments
+      ? {
+          attachments: manifest.attachments.map((attachment) =>
+            attachment.data ? { ...attachment, data: inline(attachment.data) } : attachment,
+          ),
+        }
+      : {}),
+  };
+}
+
+/** Serialises a payload as multipart form data: the manifest plus one file per part. */
+export function reportPayloadToFormData(payload: ReportPayload): FormData {
+  const formData = new FormData();
+  formData.append(MANIFEST_FIELD, JSON.stringify(payload.manifest));
+  for (const part of payload.parts) {
+    formData.append(part.name, new Blob([part.data], { type: part.mimeType }), part.filename);
+  }
+  return formData;
+}
+
+/**
+ * Parses multipart form data produced by {@link reportPayloadToFormData},
+ * e.g. `await reportPayloadFromFormData(await request.formData())` in a
+ * server route.
+ *
+ * @throws {ShakeNbakeError} when the manifest is missing or not valid JSON
+ */
+export async function reportPayloadFromFormData(
+  formData: FormData,
+): Promise<ReportPayload> {
+  const rawManifest = formData.get(MANIFEST_FIELD);
+  let manifest: BugReport;
+  try {
+    const text = typeof rawManifest === 'string' ? rawManifest : await rawManifest?.text();
+    if (!text) throw new Error('Missing manifest field');
+    manifest = JSON.parse(text) as BugReport;
+  } catch (error) {
+    throw new ShakeNbakeError('Invalid report payload manifest', 'UNKNOWN', {
+      originalError: error,
+    });
+  }
+
+  const parts: ReportPart[] = [];
+  for (const [name, value] of formData.entries()) {
+    if (name === MANIFEST_FIELD || typeof value === 'string') continue;
+    parts.push({
+      name,
+      filename: value.name,
+      mimeType: value.type || 'application/octet-stream',
+      data: new Uint8Array(await value.arrayBuffer()),
+    });
+  }
+  return { manifest, parts };
+}
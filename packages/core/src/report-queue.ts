@@ -0,0 +1,220 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — ReportQueue (offline persistence + resubmission)
+// ---------------------------------------------------------------------------
+
+import type { BugReport, DestinationAdapter, SubmitResult } from './types.js';
+import type { KeyValueStorage } from './storage.js';
+import { ShakeNbakeError } from './errors.js';
+
+/** Storage key used when none is configured. */
+export const DEFAULT_QUEUE_STORAGE_KEY = 'shakenbake:report-queue';
+
+/**
+ * A report waiting to be (re)submitted.
+ */
+export interface QueuedReport {
+  report: BugReport;
+  enqueuedAt: string; // ISO 8601
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * Configuration options for the ReportQueue.
+ */
+export interface ReportQueueConfig {
+  /** Where queued reports are persisted between sessions. */
+  storage: KeyValueStorage;
+  /** Storage key for the serialized queue (default: `shakenbake:report-queue`). */
+  storageKey?: string;
+  /** Maximum number of queued reports; the oldest are dropped first (default: 20). */
+  maxSize?: number;
+  /** Drain attempts before a report is given up on (default: 10). */
+  maxAttempts?: number;
+}
+
+/**
+ * Outcome of a single {@link ReportQueue.drain} pass.
+ */
+export interface DrainResult {
+  /** Reports that were created successfully, keyed by report id. */
+  submitted: Array<{ reportId: string; result: SubmitResult }>;
+  /** Reports removed because they failed permanently or ran out of attempts. */
+  dropped: Array<{ reportId: string; error: string }>;
+  /** Number of reports still queued after this pass. */
+  remaining: number;
+}
+
+/**
+ * Persists reports that could not be submitted because of a retryable
+ * failure (offline, rate limited) and resubmits them later.
+ *
+ * Reports are keyed by `BugReport.id`, so enqueueing the same report twice
+ * is a no-op, and only one drain pass runs at a time — a report is never
+ * sent twice by overlapping drains.
+ */
+export class ReportQueue {
+  private readonly adapter: DestinationAdapter;
+  private readonly storage: KeyValueStorage;
+  private readonly storageKey: string;
+  private readonly maxSize: number;
+  private readonly maxAttempts: number;
+
+  private entries: QueuedReport[] | null = null;
+  private draining: Promise<DrainResult> | null = null;
+
+  constructor(adapter: DestinationAdapter, config: ReportQueueConfig) {
+    this.adapter = adapter;
+    this.storage = config.storage;
+    this.storageKey = config.storageKey ?? DEFAULT_QUEUE_STORAGE_KEY;
+    this.maxSize = config.maxSize ?? 20;
+    this.maxAttempts = config.maxAttempts ?? 10;
+  }
+
+  /**
+   * Returns true when a submission error should be queued rather than
+   * surfaced as a hard failure.
+   */
+  static isQueueable(error: unknown): boolean {
+    return error instanceof ShakeNbakeError && error.retryable;
+  }
+
+  /**
+   * Adds a report to the queue. Returns `false` if a report with the same id
+   * is already queued.
+   */
+  async enqueue(report: BugReport, error?: unknown): Promise<boolean> {
+    const entries = await this.load();
+    if (entries.some((e) => e.report.id === report.id)) {
+      return false;
+    }
+
+    entries.push({
+      report,
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+      lastError: error !== undefined ? errorMessage(error) : undefined,
+    });
+
+    // Trim the oldest entries when the queue overflows.
+    while (entries.length > this.maxSize) {
+      entries.shift();
+    }
+
+    await this.persist();
+    return true;
+  }
+
+  /** Returns a shallow copy of all queued reports (oldest first). */
+  async getPending(): Promise<QueuedReport[]> {
+    return [...(await this.load())];
+  }
+
+  /** Number of reports currently queued. */
+  async size(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  /** Removes a single report from the queue. */
+  async remove(reportId: string): Promise<void> {
+    const entries = await this.load();
+    const index = entries.findIndex((e) => e.report.id === reportId);
+    if (index === -1) return;
+    entries.splice(index, 1);
+    await this.persist();
+  }
+
+  /** Removes every queued report. */
+  async clear(): Promise<void> {
+    this.entries = [];
+    await this.storage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Attempts to submit every queued report, oldest first.
+   *
+   * - Success removes the report from the queue.
+   * - A retryable failure keeps it and stops the pass (we are most likely
+   *   still offline, so hammering the remaining reports is pointless).
+   * - A non-retryable failure, or running out of attempts, drops it.
+   *
+   * Concurrent calls share the pass that is already in flight.
+   */
+  drain(): Promise<DrainResult> {
+    if (!this.draining) {
+      this.draining = this.runDrain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  // ---- Internal ----
+
+  private async runDrain(): Promise<DrainResult> {
+    const entries = await this.load();
+    const result: DrainResult = { submitted: [], dropped: [], remaining: 0 };
+
+    for (const entry of [...entries]) {
+      const reportId = entry.report.id;
+      try {
+        const submitResult = await this.adapter.createIssue(entry.report);
+        this.removeEntry(reportId);
+        result.submitted.push({ reportId, result: submitResult });
+        await this.persist();
+      } catch (error: unknown) {
+        entry.attempts += 1;
+        entry.lastError = errorMessage(error);
+
+        if (ReportQueue.isQueueable(error) && entry.attempts < this.maxAttempts) {
+          await this.persist();
+          break;
+        }
+
+        this.removeEntry(reportId);
+        result.dropped.push({ reportId, error: entry.lastError });
+        await this.persist();
+      }
+    }
+
+    result.remaining = entries.length;
+    return result;
+  }
+
+  private removeEntry(reportId: string): void {
+    const entries = this.entries ?? [];
+    const index = entries.findIndex((e) => e.report.id === reportId);
+    if (index !== -1) entries.splice(index, 1);
+  }
+
+  private async load(): Promise<QueuedReport[]> {
+    if (this.entries) return this.entries;
+
+    let parsed: unknown = [];
+    try {
+      const raw = await this.storage.getItem(this.storageKey);
+      parsed = raw ? JSON.parse(raw) : [];
+    } catch {
+      // Corrupt or unreadable storage — start with an empty queue.
+      parsed = [];
+    }
+
+    this.entries = Array.isArray(parsed)
+      ? (parsed as QueuedReport[]).filter((e) => Boolean(e?.report?.id))
+      : [];
+    return this.entries;
+  }
+
+  private async persist(): Promise<void> {
+    const entries = this.entries ?? [];
+    if (entries.length === 0) {
+      await this.storage.removeItem(this.storageKey);
+      return;
+    }
+    await this.storage.setItem(this.storageKey, JSON.stringify(entries));
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
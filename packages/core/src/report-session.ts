@@ -0,0 +1,608 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — ReportSession
+// Framework-agnostic orchestrator for the bug-report flow: drives the flow
+// state machine, runs capture and context collection, builds the report,
+// applies privacy and middleware, and submits it. Providers render its state.
+// ---------------------------------------------------------------------------
+
+import type {
+  BugReport,
+  CaptureResult,
+  DeviceContext,
+  DestinationAdapter,
+  ReportInput,
+  ShakeNbakeConfig,
+  SubmitResult,
+  TriggerPayload,
+} from './types.js';
+import type { KeyValueStorage } from './storage.js';
+import type { ImageCodec } from './image-pipeline.js';
+import type { DrainResult } from './report-queue.js';
+import type { FlowAction, FlowState } from './flow-state.js';
+import type { ConsentRecord } from './consent.js';
+import { createFlowState, flowReducer } from './flow-state.js';
+import { PluginRegistry } from './plugin-registry.js';
+import { ReportBuilder } from './report-builder.js';
+import { MiddlewarePipeline } from './middleware.js';
+import { RetryingAdapter } from './retrying-adapter.js';
+import { ReportQueue } from './report-queue.js';
+import { ConsentStore } from './consent.js';
+import { ImagePipeline } from './image-pipeline.js';
+import { PiiScrubber } from './pii.js';
+import { MemoryStorage } from './storage.js';
+import { normalizeAttachments } from './attachments.js';
+import { redactContext } from './redact.js';
+import { normalizeTriggerPayload } from './trigger-payload.js';
+import { ShakeNbakeError } from './errors.js';
+
+export interface ReportSessionOptions {
+  config: ShakeNbakeConfig;
+  /**
+   * Registry holding the platform's triggers, capture plugin and collectors.
+   * A new, empty registry is created when omitted.
+   */
+  registry?: PluginRegistry;
+  /** Encoder for `config.imageBudget`; without one screenshots are sent as captured. */
+  imageCodec?: ImageCodec;
+  /**
+   * Storage for the offline queue and consent decisions when the config
+   * does not name one (default: in-memory).
+   */
+  storage?: KeyValueStorage;
+  /** Fail the capture after this many milliseconds (default: no limit). */
+  captureTimeoutMs?: number;
+  /** Continue with empty context after this many milliseconds (default: no limit). */
+  contextTimeoutMs?: number;
+}
+
+/** Options for {@link ReportSession.submitReport}. */
+export interface SubmitReportOptions {
+  /**
+   * Capture a screenshot with the registered CapturePlugin when the input
+   * has none (default: true). A failed capture is skipped.
+   */
+  screenshot?: boolean;
+  /** Extra metadata merged into the report's `customMetadata`. */
+  metadata?: Record<string, unknown>;
+}
+
+export type ReportSessionListener = (state: FlowState) => void;
+
+/**
+ * Runs one bug-report flow at a time and notifies listeners of every state
+ * change. UI layers call the step methods (`trigger`, `finishAnnotation`,
+ * `submit`, ...) and render whatever `getState()` returns.
+ *
+ * @example
+ * ```ts
+ * const session = new ReportSession({ config });
+ * session.registry.registerCapture(myCapture);
+ * const unsubscribe = session.subscribe(render);
+ * await session.start();
+ * ```
+ */
+export class ReportSession {
+  readonly config: ShakeNbakeConfig;
+  readonly registry: PluginRegistry;
+  /** Offline queue for failed submissions; null when `offlineQueue.enabled` is false. */
+  readonly queue: ReportQueue | null;
+  /** Consent store; null unless `privacy.requireConsent` is set. */
+  readonly consentStore: ConsentStore | null;
+  /** Scrubber for `privacy.stripPersonalData`, shared with context collectors. */
+  readonly piiScrubber: PiiScrubber | undefined;
+
+  private readonly builder: ReportBuilder;
+  private readonly middleware: MiddlewarePipeline;
+  private readonly imagePipeline: ImagePipeline | undefined;
+  private readonly captureTimeoutMs: number | undefined;
+  private readonly contextTimeoutMs: number | undefined;
+  private readonly listeners = new Set<ReportSessionListener>();
+  private readonly sendingListeners = new Set<(sending: boolean) => void>();
+  private state: FlowState = createFlowState();
+  /** Submissions and queue drains in progress. */
+  private sendCount = 0;
+  /** Incremented on reset/stop so a capture still in flight is discarded. */
+  private captureRun = 0;
+
+  constructor(options: ReportSessionOptions) {
+    const { config } = options;
+    this.config = config;
+    this.registry = options.registry ?? new PluginRegistry();
+    this.captureTimeoutMs = options.captureTimeoutMs;
+    this.contextTimeoutMs = options.contextTimeoutMs;
+
+    const storage = options.storage ?? new MemoryStorage();
+
+    this.builder = new ReportBuilder(this.registry, this.wrapDestination(config));
+    this.middleware = new MiddlewarePipeline(config.middleware);
+    this.piiScrubber = config.privacy?.stripPersonalData
+      ? new PiiScrubber({ customPatterns: config.privacy.piiPatterns })
+      : undefined;
+    this.imagePipeline =
+      options.imageCodec && config.imageBudget !== false
+        ? new ImagePipeline(options.imageCodec, config.imageBudget)
+        : undefined;
+
+    // The queue keeps using the raw destination: it has its own retry cadence.
+    this.queue =
+      config.offlineQueue?.enabled === false
+        ? null
+        : new ReportQueue(config.destination, {
+            storage: config.offlineQueue?.storage ?? storage,
+            maxSize: config.offlineQueue?.maxSize,
+          });
+
+    this.consentStore = config.privacy?.requireConsent
+      ? new ConsentStore({
+          storage: config.privacy.consent?.storage ?? storage,
+          version: config.privacy.consent?.version,
+          userId: config.privacy.consent?.userId,
+        })
+      : null;
+  }
+
+  // ---- State ----
+
+  getState(): FlowState {
+    return this.state;
+  }
+
+  /** Registers a listener for state changes. Returns an unsubscribe function. */
+  subscribe(listener: ReportSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a report is being submitted or the offline queue drained, from
+   * the UI flow or not (headless reports, auto-submitting triggers).
+   */
+  isSending(): boolean {
+    return this.sendCount > 0;
+  }
+
+  /**
+   * Registers a listener called synchronously when sending starts and when
+   * it ends, so network capture can skip the SDK's own uploads. Returns an
+   * unsubscribe function.
+   */
+  onSendingChange(listener: (sending: boolean) => void): () => void {
+    this.sendingListeners.add(listener);
+    return () => {
+      this.sendingListeners.delete(listener);
+    };
+  }
+
+  // ---- Lifecycle ----
+
+  /** Activates the registered triggers; each firing starts a flow. */
+  async start(): Promise<void> {
+    if (!this.config.enabled) return;
+    await this.registry.activateTriggers((payload) => this.trigger(payload));
+  }
+
+  /** Deactivates triggers and abandons a capture in progress. */
+  stop(): void {
+    this.captureRun += 1;
+    this.registry.deactivateTriggers();
+  }
+
+  /** Resubmits queued reports. Never rejects; resolves null without a queue. */
+  async drainQueue(): Promise<DrainResult | null> {
+    const { queue } = this;
+    if (!queue) return null;
+    return this.whileSending(() => queue.drain()).catch(() => null);
+  }
+
+  // ---- Flow steps ----
+
+  /**
+   * Starts a flow when enabled and idle: capture, collect context, then
+   * consent or annotation. The payload prefills the form, its metadata is
+   * added to the report, and `skipAnnotation` goes straight to the form.
+   * A `headless` payload is submitted with {@link submitReport} instead;
+   * failures are left to the offline queue. Returns false when the trigger
+   * was ignored.
+   */
+  trigger(payload?: TriggerPayload): boolean {
+    if (!this.config.enabled) return false;
+    const initial = normalizeTriggerPayload(payload);
+    if (initial?.headless) {
+      const { title, description, severity, category, metadata } = initial;
+      void this.submitReport({ title, description, severity, category }, { metadata })
+        .catch(() => undefined);
+      return true;
+    }
+    if (this.state.step !== 'idle') return false;
+    this.dispatch({ type: 'TRIGGER', payload: initial });
+    void this.capture();
+    return true;
+  }
+
+  /** Records consent and moves on to annotation. */
+  async grantConsent(): Promise<void> {
+    if (this.state.step !== 'consent') return;
+    if (!this.consentStore) {
+      this.reset();
+      return;
+    }
+    try {
+      const consent = await this.consentStore.grant();
+      this.dispatch({ type: 'CONSENT_GRANTED', consent });
+    } catch {
+      this.dispatch({ type: 'CONSENT_DENIED' });
+    }
+  }
+
+  /** Records a refusal and closes the flow. The next report asks again. */
+  async denyConsent(): Promise<void> {
+    if (this.state.step !== 'consent') return;
+    try {
+      await this.consentStore?.deny();
+    } finally {
+      this.dispatch({ type: 'CONSENT_DENIED' });
+    }
+  }
+
+  finishAnnotation(annotatedScreenshot: string, originalScreenshot: string): void {
+    this.dispatch({ type: 'ANNOTATE_DONE', annotatedScreenshot, originalScreenshot });
+  }
+
+  reAnnotate(): void {
+    this.dispatch({ type: 'RE_ANNOTATE' });
+  }
+
+  /** Returns from an error to the form when there is something to resend. */
+  retry(): void {
+    this.dispatch({ type: 'RETRY' });
+  }
+
+  /** Closes the flow from any step. */
+  reset(): void {
+    this.captureRun += 1;
+    this.dispatch({ type: 'RESET' });
+  }
+
+  /**
+   * Builds and submits a report from the form input and the captured data.
+   * Queueable failures are saved to the offline queue. Rejects with the
+   * submit error so the form can show it too.
+   */
+  async submit(input: ReportInput): Promise<SubmitResult> {
+    this.dispatch({ type: 'SUBMIT_START' });
+    const { captureResult, context, consent, payload } = this.state.data;
+
+    const delivery = await this.deliver(input, {
+      captureResult,
+      context,
+      consent,
+      metadata: payload?.metadata,
+    });
+    switch (delivery.status) {
+      case 'sent':
+        this.dispatch({ type: 'SUBMIT_DONE', result: delivery.result });
+        return delivery.result;
+      case 'dropped':
+        // Dropped by middleware: close the flow without creating an issue.
+        this.reset();
+        return { ...DROPPED };
+      case 'queued':
+        this.dispatch({
+          type: 'SUBMIT_QUEUED',
+          error: ShakeNbakeError.messageForCode('NETWORK_ERROR'),
+        });
+        throw delivery.error;
+      case 'failed':
+        this.dispatch({
+          type: 'SUBMIT_ERROR',
+          error:
+            delivery.error instanceof Error
+              ? delivery.error.message
+              : 'Failed to submit report',
+          retryable: delivery.error instanceof ShakeNbakeError && delivery.error.retryable,
+        });
+        throw delivery.error;
+    }
+  }
+
+  /**
+   * Files a report from code, without annotation or the form, e.g. from an
+   * error boundary or a support chat. The UI flow is left untouched.
+   *
+   * Missing fields default to an untitled medium-severity bug. Context is
+   * collected and the same privacy, middleware and offline-queue handling as
+   * {@link submit} applies. When `privacy.requireConsent` is on, a stored
+   * grant is required since there is no prompt.
+   *
+   * @throws {ShakeNbakeError} `CONSENT_REQUIRED` without stored consent, or the submit error
+   */
+  async submitReport(
+    input: Partial<ReportInput> = {},
+    options: SubmitReportOptions = {},
+  ): Promise<SubmitResult> {
+    if (!(await this.middleware.runBeforeCollect())) return { ...DROPPED };
+
+    const wantsScreenshot =
+      (options.screenshot ?? true) &&
+      !input.annotatedScreenshot &&
+      this.registry.getCapture() !== undefined;
+
+    const [captureResult, context, consent] = await Promise.all([
+      // A report without a screenshot beats no report at all.
+      wantsScreenshot
+        ? withTimeout(this.builder.startCapture(), this.captureTimeoutMs, () => undefined)
+            .catch(() => undefined)
+        : undefined,
+      withTimeout(this.builder.collectContext(), this.contextTimeoutMs, () =>
+        withDefaults(undefined),
+      ),
+      this.consentStore?.getDecision(),
+    ]);
+
+    const delivery = await this.deliver(
+      {
+        title: 'Bug report',
+        description: '',
+        severity: 'medium',
+        category: 'bug',
+        ...input,
+        annotatedScreenshot: input.annotatedScreenshot ?? captureResult?.imageData,
+        originalScreenshot:
+          input.originalScreenshot ?? input.annotatedScreenshot ?? captureResult?.imageData,
+      },
+      {
+        captureResult,
+        context,
+        consent: consent?.granted ? consent : undefined,
+        metadata: options.metadata,
+      },
+    );
+    switch (delivery.status) {
+      case 'sent':
+        return delivery.result;
+      case 'dropped':
+        return { ...DROPPED };
+      default:
+        throw delivery.error;
+    }
+  }
+
+  // ---- Internal ----
+
+  private dispatch(action: FlowAction): void {
+    const next = flowReducer(this.state, action);
+    if (next === this.state) return;
+    this.state = next;
+    for (const listener of this.listeners) listener(next);
+  }
+
+  /** Runs `work` with {@link isSending} true, notifying listeners on the edges. */
+  private async whileSending<T>(work: () => Promise<T>): Promise<T> {
+    this.sendCount += 1;
+    if (this.sendCount === 1) this.notifySending(true);
+    try {
+      return await work();
+    } finally {
+      this.sendCount -= 1;
+      if (this.sendCount === 0) this.notifySending(false);
+    }
+  }
+
+  private notifySending(sending: boolean): void {
+    for (const listener of this.sendingListeners) listener(sending);
+  }
+
+  private deliver(input: ReportInput, sources: ReportSources): Promise<Delivery> {
+    return this.whileSending(() => this.buildAndSend(input, sources));
+  }
+
+  /**
+   * Builds, processes and submits one report. Order: build, metadata
+   * (custom, masked regions, consent), image budget, PII scrubbing, context
+   * redaction, `beforeSubmit` middleware, submit, `afterSubmit`.
+   */
+  private async buildAndSend(input: ReportInput, sources: ReportSources): Promise<Delivery> {
+    let report: BugReport | undefined;
+    try {
+      if (this.config.privacy?.requireConsent && !sources.consent?.granted) {
+        throw new ShakeNbakeError(
+          ShakeNbakeError.messageForCode('CONSENT_REQUIRED'),
+          'CONSENT_REQUIRED',
+        );
+      }
+
+      report = this.builder.build(input, withDefaults(sources.context));
+      if (sources.captureResult && report.screenshot.annotated) {
+        report.screenshot.dimensions = sources.captureResult.dimensions;
+      }
+
+      if (this.config.customMetadata) {
+        report.customMetadata = this.config.customMetadata();
+      }
+      report = normalizeAttachments(report);
+
+      if (sources.metadata) {
+        report.customMetadata = { ...report.customMetadata, ...sources.metadata };
+      }
+      const maskedRegions = sources.captureResult?.maskedRegions;
+      if (maskedRegions) {
+        report.customMetadata = { ...report.customMetadata, maskedRegions };
+      }
+      if (sources.consent) {
+        report.customMetadata = {
+          ...report.customMetadata,
+          consent: {
+            granted: sources.consent.granted,
+            version: sources.consent.version,
+            timestamp: sources.consent.timestamp,
+          },
+        };
+      }
+
+      if (this.imagePipeline) {
+        report.screenshot = await this.imagePipeline.processScreenshot(report.screenshot);
+      }
+
+      // Scrub before middleware so hooks can still add data on purpose.
+      if (this.piiScrubber) report = this.piiScrubber.scrubReport(report);
+
+      // Redact the merged context too, so fields contributed by custom
+      // collectors never leave the device either.
+      const redactFields = this.config.privacy?.redactFields;
+      if (redactFields && redactFields.length > 0) {
+        report = {
+          ...report,
+          context: redactContext(report.context, redactFields) as DeviceContext,
+        };
+      }
+
+      const processed = await this.middleware.runBeforeSubmit(report);
+      if (!processed) return { status: 'dropped' };
+      report = processed;
+
+      const result = await this.builder.submit(report);
+      void this.middleware.runAfterSubmit(report, result);
+      return { status: 'sent', result };
+    } catch (error: unknown) {
+      if (report && this.queue && ReportQueue.isQueueable(error)) {
+        // If persisting fails, fall through to the regular error path.
+        const queued = await this.queue.enqueue(report, error).then(
+          () => true,
+          () => false,
+        );
+        if (queued) return { status: 'queued', error };
+      }
+      return { status: 'failed', error };
+    }
+  }
+
+  private async capture(): Promise<void> {
+    const run = (this.captureRun += 1);
+    const isCurrent = (): boolean => run === this.captureRun;
+
+    // Middleware may veto the report before anything is collected.
+    if (!(await this.middleware.runBeforeCollect())) {
+      if (isCurrent()) this.reset();
+      return;
+    }
+    if (!isCurrent()) return;
+    this.dispatch({ type: 'CAPTURE_START' });
+
+    try {
+      const [captureResult, context] = await Promise.all([
+        withTimeout(this.builder.startCapture(), this.captureTimeoutMs, () => {
+          throw new Error(
+            `Screenshot capture timed out after ${String(Math.round((this.captureTimeoutMs ?? 0) / 1000))}s`,
+          );
+        }),
+        withTimeout(this.builder.collectContext(), this.contextTimeoutMs, () =>
+          withDefaults(undefined),
+        ),
+      ]);
+
+      // Ask for consent unless the user already agreed to this version.
+      const decision = this.consentStore ? await this.consentStore.getDecision() : null;
+      if (!isCurrent()) return;
+
+      this.dispatch({
+        type: 'CAPTURE_DONE',
+        captureResult,
+        context,
+        needsConsent: this.consentStore !== null && !decision?.granted,
+        consent: decision?.granted ? decision : undefined,
+      });
+    } catch (error: unknown) {
+      if (!isCurrent()) return;
+      this.dispatch({
+        type: 'CAPTURE_ERROR',
+        error: error instanceof Error ? error.message : 'Screenshot capture failed',
+      });
+    }
+  }
+
+  /** Wraps the destination with retry/backoff and reports retries as submit status. */
+  private wrapDestination(config: ShakeNbakeConfig): DestinationAdapter {
+    const retry = config.retry;
+    if (!retry) return config.destination;
+    return new RetryingAdapter(config.destination, {
+      ...retry,
+      onAttempt: (event) => {
+        if (event.operation === 'createIssue' && event.attempt > 1) {
+          this.dispatch({
+            type: 'SUBMIT_STATUS',
+            status: `Retrying (${event.attempt}/${event.maxAttempts})...`,
+          });
+        }
+        retry.onAttempt?.(event);
+      },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Data a report is built from besides the user's input. */
+interface ReportSources {
+  captureResult?: CaptureResult;
+  context?: Partial<DeviceContext>;
+  consent?: ConsentRecord;
+  metadata?: Record<string, unknown>;
+}
+
+/** Outcome of {@link ReportSession.deliver}. */
+type Delivery =
+  | { status: 'sent'; result: SubmitResult }
+  | { status: 'dropped' }
+  | { status: 'queued'; error: unknown }
+  | { status: 'failed'; error: unknown };
+
+/** Result returned when middleware drops a report. */
+const DROPPED: SubmitResult = { url: '', id: '', success: false };
+
+/** Fills missing context sections with empty defaults. */
+function withDefaults(context: Partial<DeviceContext> | undefined): DeviceContext {
+  return {
+    platform: { os: 'unknown' },
+    device: {},
+    screen: { width: 0, height: 0 },
+    network: {},
+    battery: {},
+    locale: {},
+    app: {},
+    accessibility: {},
+    performance: {},
+    navigation: {},
+    console: {},
+    ...context,
+  };
+}
+
+/** Settles with `onTimeout()` when `promise` takes longer than `ms`. */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number | undefined,
+  onTimeout: () => T,
+): Promise<T> {
+  if (ms === undefined) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((resolve, reject) => {
+        timer = setTimeout(() => {
+          try {
+            resolve(onTimeout());
+          } catch (error) {
+            reject(error);
+          }
+        }, ms);
+      }),
+    ]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
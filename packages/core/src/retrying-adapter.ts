@@ -0,0 +1,159 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — RetryingAdapter (exponential backoff wrapper)
+// ---------------------------------------------------------------------------
+
+import type { BugReport, DestinationAdapter, SubmitResult } from './types.js';
+import { ShakeNbakeError } from './errors.js';
+
+/**
+ * Emitted before every attempt of a wrapped operation.
+ */
+export interface RetryAttemptEvent {
+  operation: 'uploadImage' | 'createIssue';
+  /** 1-based number of the attempt about to be made. */
+  attempt: number;
+  maxAttempts: number;
+  /** How long we waited before this attempt (0 for the first one). */
+  delayMs: number;
+  /** The error that caused this retry (undefined for the first attempt). */
+  lastError?: unknown;
+}
+
+/**
+ * Retry policy for the RetryingAdapter.
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3). */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each retry (default: 500). */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default: 8000). */
+  maxDelayMs?: number;
+  /** Give up once this much time has passed since the first attempt (default: 30000). */
+  maxElapsedMs?: number;
+  /** Randomize delays ("full jitter") to avoid thundering herds (default: true). */
+  jitter?: boolean;
+  /** Called before every attempt, e.g. to show "Retrying (2/5)…". */
+  onAttempt?: (event: RetryAttemptEvent) => void;
+}
+
+/**
+ * DestinationAdapter decorator that retries `uploadImage` and `createIssue`
+ * when the wrapped adapter throws a retryable ShakeNbakeError
+ * (NETWORK_ERROR, RATE_LIMITED).
+ *
+ * Backoff is exponential with optional full jitter. A `retryAfterMs` on the
+ * error (set by adapters from a `Retry-After` header) takes precedence over
+ * the computed delay. Non-retryable errors are rethrown immediately.
+ */
+export class RetryingAdapter implements DestinationAdapter {
+  readonly name: string;
+
+  private readonly adapter: DestinationAdapter;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxElapsedMs: number;
+  private readonly jitter: boolean;
+  private readonly onAttempt?: (event: RetryAttemptEvent) => void;
+
+  constructor(adapter: DestinationAdapter, options?: RetryOptions) {
+    this.adapter = adapter;
+    this.name = adapter.name;
+    this.maxAttempts = Math.max(1, options?.maxAttempts ?? 3);
+    this.baseDelayMs = options?.baseDelayMs ?? 500;
+    this.maxDelayMs = options?.maxDelayMs ?? 8000;
+    this.maxElapsedMs = options?.maxElapsedMs ?? 30000;
+    this.jitter = options?.jitter ?? true;
+    this.onAttempt = options?.onAttempt;
+  }
+
+  uploadImage(imageData: Uint8Array | Blob, filename: string): Promise<string> {
+    return this.withRetry('uploadImage', () =>
+      this.adapter.uploadImage(imageData, filename),
+    );
+  }
+
+  createIssue(report: BugReport): Promise<SubmitResult> {
+    return this.withRetry('createIssue', () => this.adapter.createIssue(report));
+  }
+
+  testConnection(): Promise<boolean> {
+    return this.adapter.testConnection();
+  }
+
+  requestUrls(): Array<string | RegExp> {
+    return this.adapter.requestUrls?.() ?? [];
+  }
+
+  /**
+   * Computes the backoff before the given (1-based) attempt, honoring a
+   * server-provided `retryAfterMs` when present.
+   */
+  delayFor(attempt: number, lastError?: unknown): number {
+    if (
+      lastError instanceof ShakeNbakeError &&
+      lastError.retryAfterMs !== undefined
+    ) {
+      return lastError.retryAfterMs;
+    }
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** Math.max(0, attempt - 2),
+    );
+    return this.jitter ? Math.round(Math.random() * exponential) : exponential;
+  }
+
+  // ---- Internal ----
+
+  private async withRetry<T>(
+    operation: RetryAttemptEvent['operation'],
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt += 1) {
+      let delayMs = 0;
+      if (attempt > 1) {
+        delayMs = this.delayFor(attempt, lastError);
+        // Out of time budget: surface the last failure instead of waiting.
+        if (Date.now() - startedAt + delayMs > this.maxElapsedMs) {
+          break;
+        }
+        await sleep(delayMs);
+      }
+
+      this.emit({
+        operation,
+        attempt,
+        maxAttempts: this.maxAttempts,
+        delayMs,
+        lastError,
+      });
+
+      try {
+        return await fn();
+      } catch (error: unknown) {
+        lastError = error;
+        if (!(error instanceof ShakeNbakeError) || !error.retryable) {
+          throw error;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private emit(event: RetryAttemptEvent): void {
+    try {
+      this.onAttempt?.(event);
+    } catch {
+      // A throwing listener must not break the submission.
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,300 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — RoutingAdapter (rule-based destination routing)
+// ---------------------------------------------------------------------------
+
+import type {
+  BugReport,
+  Category,
+  DestinationAdapter,
+  Severity,
+  SubmitResult,
+} from './types.js';
+
+/** A route pattern: strings are path prefixes, RegExps are tested as-is. */
+export type RoutePattern = string | RegExp;
+
+/**
+ * Conditions a report must satisfy for a rule to match. Every field that is
+ * set must match (logical AND); array values match any of their entries.
+ */
+export interface RouteMatch {
+  severity?: Severity | Severity[];
+  category?: Category | Category[];
+  /**
+   * Matched against `context.app.pathname` and
+   * `context.navigation.currentRoute`. `'/checkout'` matches `/checkout` and
+   * `/checkout/pay`, but not `/checkouts`.
+   */
+  route?: RoutePattern | RoutePattern[];
+  /**
+   * `'web'`, `'react-native'`, or an OS name from `context.platform.os`
+   * (case-insensitive, e.g. `'ios'`, `'android'`, `'macOS'`).
+   */
+  platform?: string | string[];
+  /**
+   * Expected `customMetadata` values keyed by (dot-separated) path. Functions
+   * are called as predicates; other values are compared with `===`.
+   */
+  customMetadata?: Record<string, unknown>;
+  /** Escape hatch for anything the declarative fields cannot express. */
+  when?: (report: BugReport) => boolean;
+}
+
+/**
+ * A routing rule. Rules are evaluated in order and the first match wins.
+ */
+export interface RoutingRule {
+  /** Label used by `explain()` (default: `rule <n>`). */
+  name?: string;
+  match: RouteMatch;
+  /** Destination for matching reports (default: the fallback destination). */
+  destination?: DestinationAdapter;
+  /**
+   * Adapter-specific settings attached to the report as
+   * `destinationOverrides` (e.g. `{ teamId }` for the LinearAdapter).
+   */
+  overrides?: Record<string, unknown>;
+}
+
+/**
+ * Configuration for the RoutingAdapter.
+ */
+export interface RoutingConfig {
+  rules: RoutingRule[];
+  /** Destination used when no rule matches (or a rule only sets overrides). */
+  fallback: DestinationAdapter;
+  /** Adapter name reported to callers (default: 'router'). */
+  name?: string;
+}
+
+/** Result of a single condition check inside a rule. */
+export interface RouteCheck {
+  field: keyof RouteMatch;
+  passed: boolean;
+  /** The report value the condition was evaluated against. */
+  actual: unknown;
+}
+
+/** Evaluation of one rule against a report. */
+export interface RuleEvaluation {
+  rule: string;
+  matched: boolean;
+  checks: RouteCheck[];
+}
+
+/** Dry-run result describing where a report would be sent and why. */
+export interface RouteExplanation {
+  /** Name of the adapter the report would be sent to. */
+  destination: string;
+  /** Name of the winning rule, or undefined when the fallback is used. */
+  rule?: string;
+  overrides?: Record<string, unknown>;
+  /** Every rule, in order, with its individual checks. */
+  evaluations: RuleEvaluation[];
+}
+
+/**
+ * DestinationAdapter that picks a child adapter per report using declarative
+ * rules, e.g. critical crashes to the on-call team, `ui` reports to the
+ * design project, and anything under `/checkout` to payments.
+ *
+ * Use `explain()` to see how a report would be routed without submitting it.
+ */
+export class RoutingAdapter implements DestinationAdapter {
+  readonly name: string;
+
+  private readonly rules: RoutingRule[];
+  private readonly fallback: DestinationAdapter;
+
+  constructor(config: RoutingConfig) {
+    this.rules = [...config.rules];
+    this.fallback = config.fallback;
+    this.name = config.name ?? 'router';
+  }
+
+  /**
+   * Uploads go to the fallback destination; per-report uploads happen inside
+   * the routed adapter's `createIssue`.
+   */
+  uploadImage(imageData: Uint8Array | Blob, filename: string): Promise<string> {
+    return this.fallback.uploadImage(imageData, filename);
+  }
+
+  async createIssue(report: BugReport): Promise<SubmitResult> {
+    const rule = this.rules.find((r) => evaluateRule(r, report, 0).matched);
+    const destination = rule?.destination ?? this.fallback;
+    if (!rule?.overrides) {
+      return destination.createIssue(report);
+    }
+    return destination.createIssue({
+      ...report,
+      destinationOverrides: { ...report.destinationOverrides, ...rule.overrides },
+    });
+  }
+
+  /**
+   * Resolves to true only if every distinct destination is reachable.
+   */
+  async testConnection(): Promise<boolean> {
+    const results = await Promise.all(
+      this.destinations().map((adapter) => adapter.testConnection().catch(() => false)),
+    );
+    return results.every(Boolean);
+  }
+
+  requestUrls(): Array<string | RegExp> {
+    return this.destinations().flatMap((adapter) => adapter.requestUrls?.() ?? []);
+  }
+
+  /** The fallback and every rule's destination, once each. */
+  private destinations(): DestinationAdapter[] {
+    const adapters = new Set<DestinationAdapter>([this.fallback]);
+    for (const rule of this.rules) {
+      if (rule.destination) adapters.add(rule.destination);
+    }
+    return [...adapters];
+  }
+
+  /**
+   * Dry run: evaluates every rule against the report and returns where it
+   * would be sent, without calling any adapter.
+   */
+  explain(report: BugReport): RouteExplanation {
+    const evaluations = this.rules.map((rule, index) =>
+      evaluateRule(rule, report, index),
+    );
+    const winner = evaluations.findIndex((e) => e.matched);
+    const rule = winner >= 0 ? this.rules[winner] : undefined;
+
+    return {
+      destination: (rule?.destination ?? this.fallback).name,
+      rule: winner >= 0 ? evaluations[winner]!.rule : undefined,
+      overrides: rule?.overrides,
+      evaluations,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function evaluateRule(
+  rule: RoutingRule,
+  report: BugReport,
+  index: number,
+): RuleEvaluation {
+  const { match } = rule;
+  const checks: RouteCheck[] = [];
+
+  if (match.severity !== undefined) {
+    checks.push({
+      field: 'severity',
+      passed: toArray(match.severity).includes(report.severity),
+      actual: report.severity,
+    });
+  }
+
+  if (match.category !== undefined) {
+    checks.push({
+      field: 'category',
+      passed: toArray(match.category).includes(report.category),
+      actual: report.category,
+    });
+  }
+
+  if (match.route !== undefined) {
+    const routes = [
+      report.context.app?.pathname,
+      report.context.navigation?.currentRoute,
+    ].filter((r): r is string => typeof r === 'string');
+    const patterns = toArray(match.route);
+    checks.push({
+      field: 'route',
+      passed: routes.some((r) => patterns.some((p) => matchesRoute(p, r))),
+      actual: routes,
+    });
+  }
+
+  if (match.platform !== undefined) {
+    const platforms = platformsOf(report);
+    const wanted = toArray(match.platform).map((p) => p.toLowerCase());
+    checks.push({
+      field: 'platform',
+      passed: wanted.some((p) => platforms.includes(p)),
+      actual: platforms,
+    });
+  }
+
+  if (match.customMetadata !== undefined) {
+    const actual: Record<string, unknown> = {};
+    let passed = true;
+    for (const [path, expected] of Object.entries(match.customMetadata)) {
+      const value = getPath(report.customMetadata, path);
+      actual[path] = value;
+      const ok =
+        typeof expected === 'function'
+          ? safePredicate(() => (expected as (v: unknown) => unknown)(value))
+          : value === expected;
+      if (!ok) passed = false;
+    }
+    checks.push({ field: 'customMetadata', passed, actual });
+  }
+
+  if (match.when !== undefined) {
+    const when = match.when;
+    checks.push({
+      field: 'when',
+      passed: safePredicate(() => when(report)),
+      actual: undefined,
+    });
+  }
+
+  return {
+    rule: rule.name ?? `rule ${String(index + 1)}`,
+    matched: checks.every((c) => c.passed),
+    checks,
+  };
+}
+
+function matchesRoute(pattern: RoutePattern, route: string): boolean {
+  if (pattern instanceof RegExp) {
+    // A `g` or `y` flag makes test() start at lastIndex from the previous call.
+    pattern.lastIndex = 0;
+    return pattern.test(route);
+  }
+  if (route === pattern) return true;
+  const prefix = pattern.endsWith('/') ? pattern : `${pattern}/`;
+  return route.startsWith(prefix);
+}
+
+/** Platform identifiers a report can be matched against. */
+function platformsOf(report: BugReport): string[] {
+  const platform = report.context.platform;
+  const isWeb = Boolean(platform?.userAgent || platform?.browser);
+  const values = [isWeb ? 'web' : 'react-native'];
+  if (platform?.os) values.push(platform.os.toLowerCase());
+  return values;
+}
+
+function getPath(source: Record<string, unknown> | undefined, path: string): unknown {
+  let current: unknown = source;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** A throwing predicate counts as "no match" instead of breaking submission. */
+function safePredicate(fn: () => unknown): boolean {
+  try {
+    return Boolean(fn());
+  } catch {
+    return false;
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
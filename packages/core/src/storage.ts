@@ -0,0 +1,36 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Pluggable key-value storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Minimal async key-value store used for anything the SDK persists on the
+ * device (e.g. the offline report queue).
+ *
+ * The shape intentionally mirrors React Native's AsyncStorage so it can be
+ * passed in directly; the web SDK ships an IndexedDB-backed implementation.
+ */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * In-memory KeyValueStorage. Nothing survives a reload, which makes it the
+ * right default for tests and the fallback when no persistent store exists.
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
@@ -0,0 +1,53 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — submitReport
+// Headless report submission for code paths outside a provider, e.g. a
+// server-side error handler, a CLI or a test harness.
+// ---------------------------------------------------------------------------
+
+import type { CapturePlugin, ReportInput, SubmitResult } from './types.js';
+import type { ReportSessionOptions, SubmitReportOptions } from './report-session.js';
+import { ReportSession } from './report-session.js';
+import { PluginRegistry } from './plugin-registry.js';
+
+export interface StandaloneSubmitOptions
+  extends ReportSessionOptions,
+    SubmitReportOptions {
+  /** Takes the screenshot when no `registry` is given. */
+  capture?: CapturePlugin;
+}
+
+/**
+ * Files one report without any UI. Runs `config.contextCollectors`, the
+ * privacy settings and middleware, then submits through
+ * `config.destination`.
+ *
+ * Pass a `registry` to reuse already registered plugins; otherwise a new one
+ * is built from `capture` and `config.contextCollectors`. Inside a provider,
+ * prefer `useShakeNbake().submitReport`, which shares the provider's plugins.
+ *
+ * @example
+ * ```ts
+ * await submitReport(
+ *   { title: 'Checkout failed', category: 'crash', description: error.stack },
+ *   { config: { enabled: true, destination }, metadata: { orderId } },
+ * );
+ * ```
+ */
+export async function submitReport(
+  input: Partial<ReportInput>,
+  options: StandaloneSubmitOptions,
+): Promise<SubmitResult> {
+  const { capture, screenshot, metadata, ...sessionOptions } = options;
+
+  let registry = sessionOptions.registry;
+  if (!registry) {
+    registry = new PluginRegistry();
+    if (capture) registry.registerCapture(capture);
+    for (const collector of options.config.contextCollectors ?? []) {
+      registry.registerCollector(collector);
+    }
+  }
+
+  const session = new ReportSession({ ...sessionOptions, registry });
+  return session.submitReport(input, { screenshot, metadata });
+}
@@ -0,0 +1,37 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/core — Trigger payloads
+// Validation for the data triggers pass to `onTrigger`.
+// ---------------------------------------------------------------------------
+
+import type { Category, Severity, TriggerPayload } from './types.js';
+
+const SEVERITIES: readonly Severity[] = ['low', 'medium', 'high', 'critical'];
+const CATEGORIES: readonly Category[] = ['bug', 'ui', 'crash', 'performance', 'other'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keeps only the known, well-typed fields of a trigger payload. Anything
+ * else (e.g. a click event passed by `onClick={trigger}`) is dropped, and
+ * undefined is returned when nothing usable is left.
+ */
+export function normalizeTriggerPayload(value: unknown): TriggerPayload | undefined {
+  if (!isRecord(value)) return undefined;
+
+  const payload: TriggerPayload = {};
+  if (typeof value['title'] === 'string') payload.title = value['title'];
+  if (typeof value['description'] === 'string') payload.description = value['description'];
+  if (SEVERITIES.includes(value['severity'] as Severity)) {
+    payload.severity = value['severity'] as Severity;
+  }
+  if (CATEGORIES.includes(value['category'] as Category)) {
+    payload.category = value['category'] as Category;
+  }
+  if (isRecord(value['metadata'])) payload.metadata = { ...value['metadata'] };
+  if (value['skipAnnotation'] === true) payload.skipAnnotation = true;
+  if (value['headless'] === true) payload.headless = true;
+
+  return Object.keys(payload).length > 0 ? payload : undefined;
+}
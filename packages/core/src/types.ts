@@ -2,6 +2,14 @@
 // @shakenbake/core — Shared TypeScript types and plugin interfaces
 // ---------------------------------------------------------------------------
 
+import type { KeyValueStorage } from './storage.js';
+import type { RetryOptions } from './retrying-adapter.js';
+import type { PiiPattern } from './pii.js';
+import type { RedactRule } from './redact.js';
+import type { ImageBudget } from './image-pipeline.js';
+import type { NetworkLogOptions } from './network-log.js';
+import type { FrustrationOptions } from './frustration.js';
+
 // ---- Severity & Category Enums ----
 
 export type Severity = 'low' | 'medium' | 'high' | 'critical';
@@ -58,6 +66,31 @@ export interface NetworkInfo {
   downlink?: number;
   rtt?: number;
   saveData?: boolean;
+  /** Recent HTTP requests, oldest first (opt-in, see `networkCapture`). */
+  requests?: NetworkRequest[];
+}
+
+/** One HTTP request recorded by a network interceptor. */
+export interface NetworkRequest {
+  initiator: 'fetch' | 'xhr';
+  method: string;
+  /** With credentials and sensitive query parameters redacted. */
+  url: string;
+  /** Absent when the request failed without a response. */
+  status?: number;
+  /** Why the request failed without a response, e.g. `'Network error'`. */
+  error?: string;
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  /** Bytes, when known. */
+  requestSize?: number;
+  responseSize?: number;
+  /** Only recorded with `networkCapture.captureHeaders`; sensitive values redacted. */
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  /** Truncated bodies; only recorded with `networkCapture.captureBodies`. */
+  requestBody?: string;
+  responseBody?: string;
 }
 
 export interface BatteryInfo {
@@ -122,13 +155,33 @@ export interface NavigationInfo {
 }
 
 export interface ConsoleInfo {
-  recentLogs?: Array<{ level: string; message: string; timestamp: string }>;
+  /** `count` is set when the same message repeated; `timestamp` is the latest. */
+  recentLogs?: Array<{ level: string; message: string; timestamp: string; count?: number }>;
   recentErrors?: Array<{
     message: string;
     stack?: string;
     timestamp: string;
+    count?: number;
   }>;
-  unhandledRejections?: Array<{ reason: string; timestamp: string }>;
+  unhandledRejections?: Array<{ reason: string; timestamp: string; count?: number }>;
+}
+
+/** Built-in breadcrumb kinds; `'custom'` is for app code. */
+export type BreadcrumbType =
+  | 'click'
+  | 'input'
+  | 'navigation'
+  | 'http'
+  | 'touch'
+  | 'app-state'
+  | 'custom';
+
+/** One step of the user's trail before the report. */
+export interface Breadcrumb {
+  type: BreadcrumbType;
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string; // ISO 8601
 }
 
 // ---- Aggregate Device Context ----
@@ -145,6 +198,8 @@ export interface DeviceContext {
   performance: PerformanceInfo;
   navigation: NavigationInfo;
   console: ConsoleInfo;
+  /** Oldest first; see `addBreadcrumb`. */
+  breadcrumbs?: Breadcrumb[];
 }
 
 // ---- Screenshot & Audio ----
@@ -153,6 +208,21 @@ export interface CaptureResult {
   imageData: string; // Base64-encoded image
   dimensions: { width: number; height: number };
   mimeType: string;
+  /** Areas hidden before the screenshot left the capture plugin. */
+  maskedRegions?: MaskedRegion[];
+}
+
+/** How sensitive areas of a screenshot are hidden. */
+export type MaskStyle = 'black' | 'blur';
+
+/** An area of the screenshot that was masked, in image pixels. */
+export interface MaskedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** The selector (web) or source (native) that caused the mask. */
+  selector: string;
 }
 
 export interface AudioData {
@@ -164,6 +234,11 @@ export interface AudioData {
 
 // ---- Bug Report ----
 
+/**
+ * A report as held in memory and in the offline queue. Binaries stay base64
+ * here so the report remains JSON; adapters send them as bytes via
+ * `encodeReportPayload` (see docs/adr/ADR-003-binary-report-transport.md).
+ */
 export interface BugReport {
   id: string; // UUID generated client-side
   timestamp: string; // ISO 8601
@@ -172,13 +247,23 @@ export interface BugReport {
   severity: Severity;
   category: Category;
   screenshot: {
-    annotated: string; // Base64 or URL of annotated image
-    original: string; // Base64 or URL of original (un-annotated)
+    annotated: string; // Base64 or URL of annotated image; '' when the report has no screenshot
+    original: string; // Base64 or URL of original (un-annotated); '' when skipped
     dimensions: { width: number; height: number };
+    /** Encoded format after the image budget was applied. */
+    mimeType?: string;
+    /** Encoded sizes in bytes after the image budget was applied. */
+    sizes?: { annotated: number; original: number };
+    /** True when the original was dropped because it matched the annotated image. */
+    originalSkipped?: boolean;
   };
   audio?: AudioData;
+  /** Extra files (photos, recordings, logs) attached by the reporter or the app. */
+  attachments?: Attachment[];
   context: DeviceContext;
   customMetadata?: Record<string, unknown>;
+  /** Adapter-specific settings chosen by routing rules (e.g. a Linear teamId). */
+  destinationOverrides?: Record<string, unknown>;
 }
 
 // ---- Report Input (user-provided fields before build) ----
@@ -188,9 +273,27 @@ export interface ReportInput {
   description: string;
   severity: Severity;
   category: Category;
-  annotatedScreenshot: string; // Base64
-  originalScreenshot: string; // Base64
+  annotatedScreenshot?: string; // Base64; omitted for reports without a screenshot
+  originalScreenshot?: string; // Base64
   audio?: string; // Base64
+  attachments?: Attachment[];
+}
+
+// ---- Attachments ----
+
+export type AttachmentKind = 'image' | 'video' | 'audio' | 'log' | 'file';
+
+/** A file attached to a report, either inline (`data`) or by reference (`url`). */
+export interface Attachment {
+  kind: AttachmentKind;
+  mimeType: string;
+  filename: string;
+  /** Decoded size in bytes; 0 when unknown (e.g. URL-only attachments). */
+  size: number;
+  /** Base64 or data URI. */
+  data?: string;
+  /** Already-hosted file; adapters link to it instead of uploading. */
+  url?: string;
 }
 
 // ---- Submit Result ----
@@ -199,14 +302,48 @@ export interface SubmitResult {
   url: string;
   id: string;
   success: boolean;
+  /** Per-destination outcomes when a report was fanned out to several adapters. */
+  destinations?: DestinationResult[];
+}
+
+/** Outcome of submitting a report to one child of a MultiDestinationAdapter. */
+export interface DestinationResult {
+  /** Name of the child adapter. */
+  adapter: string;
+  success: boolean;
+  url?: string;
+  id?: string;
+  /** Error message when the child failed. */
+  error?: string;
 }
 
 // ---- Plugin Interfaces ----
 
+/**
+ * Initial report data a trigger passes when it fires, e.g. the error
+ * message and stack for a crash. The fields prefill the report form.
+ */
+export interface TriggerPayload {
+  title?: string;
+  description?: string;
+  severity?: Severity;
+  category?: Category;
+  /** Merged into the report's `customMetadata`, e.g. why the trigger fired. */
+  metadata?: Record<string, unknown>;
+  /** Go from capture straight to the form; the screenshot is sent as captured. */
+  skipAnnotation?: boolean;
+  /** Submit straight away with `submitReport` instead of opening the flow. */
+  headless?: boolean;
+}
+
 export interface TriggerPlugin {
   name: string;
   platform: Platform;
-  activate(onTrigger: () => void): void | Promise<void>;
+  /**
+   * `onTrigger` returns false when the request was dropped, e.g. because a
+   * report flow is already open.
+   */
+  activate(onTrigger: (payload?: TriggerPayload) => boolean | void): void | Promise<void>;
   deactivate(): void;
 }
 
@@ -225,11 +362,36 @@ export interface ContextCollector {
 export interface DestinationAdapter {
   name: string;
   uploadImage(
-    imageData: Buffer | Blob,
+    imageData: Uint8Array | Blob,
     filename: string,
   ): Promise<string>;
   createIssue(report: BugReport): Promise<SubmitResult>;
   testConnection(): Promise<boolean>;
+  /**
+   * URLs the adapter sends reports and uploads to. Network capture skips
+   * matching requests so the SDK's own traffic stays out of reports. Strings
+   * match as substrings; the list may grow, e.g. with signed upload URLs.
+   */
+  requestUrls?(): Array<string | RegExp>;
+}
+
+/**
+ * Hooks into the report flow. Middleware runs in registration order and a
+ * failing middleware is skipped without affecting the others.
+ */
+export interface ReportMiddleware {
+  name: string;
+  /** Runs before screenshot capture and context collection. Return `false` to cancel the flow. */
+  beforeCollect?(): boolean | void | Promise<boolean | void>;
+  /**
+   * Runs before `destination.createIssue`. Return a (new) report to rewrite it,
+   * `null` to drop it, or nothing to keep it unchanged.
+   */
+  beforeSubmit?(
+    report: BugReport,
+  ): BugReport | null | void | Promise<BugReport | null | void>;
+  /** Runs after a successful submission, e.g. for analytics or notifications. */
+  afterSubmit?(report: BugReport, result: SubmitResult): void | Promise<void>;
 }
 
 // ---- Configuration ----
@@ -240,19 +402,103 @@ export interface ShakeNbakeConfig {
   triggers?: TriggerPlugin[];
   contextCollectors?: ContextCollector[];
   customMetadata?: () => Record<string, unknown>;
+  /** Ordered hooks that can enrich, rewrite or drop reports. */
+  middleware?: ReportMiddleware[];
   ui?: {
     theme?: 'light' | 'dark' | 'auto';
     accentColor?: string;
     position?: 'bottom-right' | 'bottom-left';
     showFAB?: boolean;
+    /** Web floating button; see `FABTrigger`. */
+    fab?: {
+      /** Diameter in px (default: 56). */
+      size?: number;
+      /** SVG or HTML markup for the icon (default: a bug). */
+      icon?: string;
+      /** Drag to either side; the position is remembered (default: true). */
+      draggable?: boolean;
+      /** Long-press hides the button for the browser session (default: true). */
+      hideOnLongPress?: boolean;
+    };
+    /** Web keyboard shortcut; see `KeyboardTrigger` for the shortcut syntax. */
+    keyboard?: {
+      /** Register the keyboard trigger (default: true). */
+      enabled?: boolean;
+      /** e.g. `"mod+shift+b"`, a sequence like `"g b"`, or several alternatives. */
+      shortcut?: string | string[];
+      /** Also react while an input or editable element has focus (default: false). */
+      allowInEditable?: boolean;
+      /** Maximum pause between the keys of a sequence in ms (default: 1000). */
+      sequenceTimeoutMs?: number;
+    };
   };
   audio?: {
     enabled: boolean;
     maxDurationMs: number;
   };
   privacy?: {
-    redactFields?: string[];
+    /** Paths to remove or mask in the collected context (see `redactContext`). */
+    redactFields?: RedactRule[];
+    /** Ask the user before any report data is sent. */
     requireConsent?: boolean;
+    consent?: {
+      /** Policy version; bump it to ask every user again (default: '1'). */
+      version?: string;
+      /** Where decisions are remembered (platform default when omitted). */
+      storage?: KeyValueStorage;
+      /** Remember decisions per user. */
+      userId?: string;
+    };
+    /** Replace emails, phone numbers, tokens, card numbers and IPs with placeholders. */
     stripPersonalData?: boolean;
+    /** Extra patterns scrubbed when `stripPersonalData` is on. */
+    piiPatterns?: PiiPattern[];
+    /**
+     * Extra selectors whose elements are hidden in screenshots. Password
+     * fields, `[data-shakenbake-mask]` and `[autocomplete^=cc-]` are always
+     * masked unless `maskDefaults` is false.
+     */
+    maskSelectors?: string[];
+    /** Set to false to skip the default mask selectors. */
+    maskDefaults?: boolean;
+    /** How masked areas are hidden (default: 'black'). */
+    maskStyle?: MaskStyle;
+  };
+  /**
+   * Byte/pixel budget for screenshots, applied before submission. On by
+   * default; set to false to send screenshots exactly as captured.
+   */
+  imageBudget?: ImageBudget | false;
+  /** Retry retryable submission failures with backoff before giving up. */
+  retry?: RetryOptions;
+  offlineQueue?: {
+    /** Queue reports that fail with a retryable error (default: true). */
+    enabled?: boolean;
+    /** Override the platform default store (IndexedDB on web, AsyncStorage on RN). */
+    storage?: KeyValueStorage;
+    maxSize?: number;
+  };
+  /**
+   * Record recent HTTP requests in `context.network.requests`. Off by
+   * default; bodies are only kept with `captureBodies`.
+   */
+  networkCapture?: NetworkLogOptions & {
+    enabled?: boolean;
+  };
+  /** Automatic user-interaction trails (clicks, navigation, requests...). */
+  breadcrumbs?: {
+    /** Record breadcrumbs and attach them to reports (default: true). */
+    enabled?: boolean;
+  };
+  /**
+   * Offer a report when the user seems stuck: rage clicks, clicks on
+   * disabled controls, bursts of errors. Off by default; web only.
+   */
+  frustration?: FrustrationOptions & {
+    enabled?: boolean;
+    /** Toast text (default: "Having trouble?"). */
+    message?: string;
+    /** Toast button label (default: "Report it"). */
+    actionLabel?: string;
   };
 }
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { MockInstance } from 'vitest';
-import { ShakeNbakeError } from '@shakenbake/core';
+import { ShakeNbakeError, encodeReportPayload } from '@shakenbake/core';
 import type { BugReport } from '@shakenbake/core';
 import { LinearAdapter } from '../adapter.js';
 import type { LinearConfig } from '../types.js';
@@ -328,6 +328,37 @@ describe('LinearAdapter', () => {
       expect(desc).toContain('https://assets.linear.app/asset-2');
     });
 
+    it('skips an empty original and names uploads after the encoded format', async () => {
+      // Annotated screenshot only: fileUpload + PUT, then issueCreate.
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(1)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(issueCreateData()));
+
+      const adapter = new LinearAdapter(makeConfig());
+      const result = await adapter.createIssue(
+        makeReport({
+          screenshot: {
+            annotated: 'data:image/webp;base64,aW1hZ2VkYXRh',
+            original: '',
+            dimensions: { width: 1080, height: 1920 },
+            originalSkipped: true,
+          },
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const upload = getCallBody(fetchMock.mock.calls, 0) as {
+        variables: { filename: string; contentType: string };
+      };
+      expect(upload.variables.filename).toBe('screenshot-annotated-report-001.webp');
+      expect(upload.variables.contentType).toBe('image/webp');
+      const body = getCallBody(fetchMock.mock.calls, 2) as {
+        variables: { input: { description: string } };
+      };
+      expect(body.variables.input.description).not.toContain('![Original screenshot]');
+    });
+
     it('includes device context in markdown', async () => {
       mockSuccessfulIssueCreation();
       const adapter = new LinearAdapter(makeConfig());
@@ -431,6 +462,50 @@ describe('LinearAdapter', () => {
       ]);
     });
 
+    it('applies destinationOverrides from routing rules', async () => {
+      mockSuccessfulIssueCreation();
+      const adapter = new LinearAdapter(
+        makeConfig({ defaultLabelIds: ['label-default'], projectId: 'proj-1' }),
+      );
+      await adapter.createIssue(
+        makeReport({
+          severity: 'low',
+          destinationOverrides: {
+            teamId: 'payments',
+            projectId: 'proj-payments',
+            labelIds: ['label-checkout'],
+            assigneeId: 'user-oncall',
+            priority: 1,
+          },
+        }),
+      );
+
+      const body = getCallBody(fetchMock.mock.calls, 4) as {
+        variables: { input: Record<string, unknown> };
+      };
+      expect(body.variables.input).toMatchObject({
+        teamId: 'payments',
+        projectId: 'proj-payments',
+        labelIds: ['label-default', 'label-checkout'],
+        assigneeId: 'user-oncall',
+        priority: 1,
+      });
+    });
+
+    it('ignores destinationOverrides with unexpected types', async () => {
+      mockSuccessfulIssueCreation();
+      const adapter = new LinearAdapter(makeConfig({ teamId: 'my-team' }));
+      await adapter.createIssue(
+        makeReport({ destinationOverrides: { teamId: 42, priority: 9 } }),
+      );
+
+      const body = getCallBody(fetchMock.mock.calls, 4) as {
+        variables: { input: { teamId: string; priority: number } };
+      };
+      expect(body.variables.input.teamId).toBe('my-team');
+      expect(body.variables.input.priority).toBe(2);
+    });
+
     it('throws ShakeNbakeError on auth failure (401)', async () => {
       // All uploads fail with 401 — both screenshots fail so adapter throws UPLOAD_FAILED
       // before reaching the issueCreate mutation where AUTH_FAILED would surface.
@@ -525,6 +600,139 @@ describe('LinearAdapter', () => {
       expect(desc).toContain('The submit button is broken');
       expect(desc).toContain('https://assets.linear.app/asset-3');
     });
+
+    it('uploads typed attachments and links hosted ones', async () => {
+      // Screenshots, then the log (the hosted video is not uploaded).
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(1)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(2)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(3)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(issueCreateData()));
+
+      const adapter = new LinearAdapter(makeConfig());
+      await adapter.createIssue(
+        makeReport({
+          attachments: [
+            { kind: 'log', mimeType: 'text/plain', filename: 'console', size: 3, data: 'bG9n' },
+            {
+              kind: 'video',
+              mimeType: 'video/mp4',
+              filename: 'session.mp4',
+              size: 0,
+              url: 'https://cdn.example.com/session.mp4',
+            },
+          ],
+        }),
+      );
+
+      const upload = getCallBody(fetchMock.mock.calls, 4) as {
+        variables: { filename: string; contentType: string };
+      };
+      expect(upload.variables.filename).toBe('console.txt');
+      expect(upload.variables.contentType).toBe('text/plain');
+
+      const desc = (
+        getCallBody(fetchMock.mock.calls, 6) as {
+          variables: { input: { description: string } };
+        }
+      ).variables.input.description;
+      expect(desc).toContain('## Additional Attachments');
+      expect(desc).toContain('[console](https://assets.linear.app/asset-3)');
+      expect(desc).toContain('[session.mp4](https://cdn.example.com/session.mp4)');
+      expect(desc).not.toContain('![session.mp4]');
+    });
+
+    it('uploads payload parts as bytes', async () => {
+      mockSuccessfulIssueCreation();
+      const payload = encodeReportPayload(makeReport());
+      const annotated = payload.parts[0]!;
+
+      const adapter = new LinearAdapter(makeConfig());
+      const result = await adapter.createIssueFromPayload(payload);
+
+      expect(result.success).toBe(true);
+      const upload = getCallBody(fetchMock.mock.calls, 0) as {
+        variables: { filename: string; size: number };
+      };
+      expect(upload.variables.filename).toBe('screenshot-annotated-report-001.png');
+      expect(upload.variables.size).toBe(annotated.data.byteLength);
+      const put = fetchMock.mock.calls[1] as [string, RequestInit];
+      const body = put[1].body as Blob;
+      expect(new Uint8Array(await body.arrayBuffer())).toEqual(annotated.data);
+    });
+
+    it('creates reports without a screenshot quietly', async () => {
+      fetchMock.mockResolvedValueOnce(graphqlResponse(issueCreateData()));
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const adapter = new LinearAdapter(makeConfig());
+      const result = await adapter.createIssue(
+        makeReport({
+          screenshot: { annotated: '', original: '', dimensions: { width: 0, height: 0 } },
+        }),
+      );
+
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('links screenshots that are already hosted', async () => {
+      fetchMock.mockResolvedValueOnce(graphqlResponse(issueCreateData()));
+
+      const adapter = new LinearAdapter(makeConfig());
+      await adapter.createIssue(
+        makeReport({
+          screenshot: {
+            annotated: 'https://cdn.example.com/shot.png',
+            original: '',
+            dimensions: { width: 1080, height: 1920 },
+          },
+        }),
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const body = getCallBody(fetchMock.mock.calls, 0) as {
+        variables: { input: { description: string } };
+      };
+      expect(body.variables.input.description).toContain(
+        '![Annotated screenshot](https://cdn.example.com/shot.png)',
+      );
+    });
+
+    it('migrates legacy customMetadata.attachments', async () => {
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(1)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(2)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(3)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+      fetchMock.mockResolvedValueOnce(graphqlResponse(issueCreateData()));
+
+      const adapter = new LinearAdapter(makeConfig());
+      await adapter.createIssue(
+        makeReport({
+          customMetadata: {
+            attachments: [{ base64: 'cGhvdG8=', mimeType: 'image/jpeg' }],
+          },
+        }),
+      );
+
+      const upload = getCallBody(fetchMock.mock.calls, 4) as {
+        variables: { filename: string; contentType: string };
+      };
+      expect(upload.variables.filename).toBe('attachment-report-001-1.jpg');
+      expect(upload.variables.contentType).toBe('image/jpeg');
+      const desc = (
+        getCallBody(fetchMock.mock.calls, 6) as {
+          variables: { input: { description: string } };
+        }
+      ).variables.input.description;
+      expect(desc).toContain('![attachment-report-001-1.jpg](https://assets.linear.app/asset-3)');
+    });
   });
 
   // == uploadImage ==
@@ -542,6 +750,20 @@ describe('LinearAdapter', () => {
       expect(url).toBe('https://assets.linear.app/asset-1');
     });
 
+    it('exposes the API and signed upload URLs as request URLs', async () => {
+      fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(1)));
+      fetchMock.mockResolvedValueOnce(putResponse());
+
+      const adapter = new LinearAdapter(makeConfig());
+      expect(adapter.requestUrls()).toEqual(['https://api.linear.app/graphql']);
+
+      await adapter.uploadImage(Buffer.from('data'), 'screenshot.png');
+      expect(adapter.requestUrls()).toEqual([
+        'https://api.linear.app/graphql',
+        'https://uploads.linear.app/upload-1',
+      ]);
+    });
+
     it('sends correct content type for PNG files', async () => {
       fetchMock.mockResolvedValueOnce(graphqlResponse(fileUploadData(1)));
       fetchMock.mockResolvedValueOnce(putResponse());
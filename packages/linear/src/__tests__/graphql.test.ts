@@ -83,6 +83,19 @@ describe('linearFetch', () => {
     }
   });
 
+  it('includes Retry-After in RATE_LIMITED errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('Too Many Requests', {
+        status: 429,
+        headers: { 'Retry-After': '10' },
+      }),
+    );
+
+    await expect(
+      linearFetch('key', 'https://api.linear.app/graphql', VIEWER_QUERY),
+    ).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfterMs: 10000 });
+  });
+
   it('throws RATE_LIMITED on HTTP 429', async () => {
     fetchMock.mockResolvedValueOnce(new Response('Too Many Requests', { status: 429 }));
 
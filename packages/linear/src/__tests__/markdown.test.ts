@@ -60,6 +60,11 @@ describe('buildIssueDescription', () => {
     expect(md).toContain('![Original screenshot](https://img.linear.app/original.png)');
   });
 
+  it('omits the screenshots section when the report has none', () => {
+    const md = buildIssueDescription(makeReport());
+    expect(md).not.toContain('### Screenshots');
+  });
+
   it('includes audio link when provided', () => {
     const md = buildIssueDescription(
       makeReport(),
@@ -126,12 +131,106 @@ describe('buildIssueDescription', () => {
     expect(md).toContain('at eval (app.js:10)');
   });
 
+  it('notes how often a console error repeated', () => {
+    const report = makeReport();
+    report.context.console = {
+      recentErrors: [
+        { message: 'Failed to fetch', timestamp: '2026-02-20T11:55:00Z', count: 4 },
+      ],
+    };
+    const md = buildIssueDescription(report);
+    expect(md).toContain('_2026-02-20T11:55:00Z_ (repeated 4 times)');
+  });
+
   it('omits console errors section when no errors', () => {
     const report = makeReport();
     const md = buildIssueDescription(report);
     expect(md).not.toContain('### Console Errors');
   });
 
+  it('renders breadcrumbs as a timeline', () => {
+    const report = makeReport();
+    report.context.breadcrumbs = [
+      { type: 'navigation', message: 'Navigated to /cart', timestamp: '2026-02-20T11:59:40.000Z' },
+      { type: 'click', message: 'Clicked `button`\n"Pay"', timestamp: '2026-02-20T11:59:55.000Z' },
+    ];
+    const md = buildIssueDescription(report);
+
+    expect(md).toContain('### Timeline (last 20)');
+    expect(md).toContain('- `11:59:40` **navigation** Navigated to /cart');
+    expect(md).toContain(`- \`11:59:55\` **click** Clicked 'button' "Pay"`);
+  });
+
+  it('limits the timeline to the last 20 breadcrumbs', () => {
+    const report = makeReport();
+    report.context.breadcrumbs = Array.from({ length: 25 }, (_, i) => ({
+      type: 'custom' as const,
+      message: `step-${String(i)}.`,
+      timestamp: '2026-02-20T11:59:00.000Z',
+    }));
+    const md = buildIssueDescription(report);
+
+    expect(md).not.toContain('step-4.');
+    expect(md).toContain('step-5.');
+    expect(md).toContain('step-24.');
+  });
+
+  it('omits the timeline when there are no breadcrumbs', () => {
+    expect(buildIssueDescription(makeReport())).not.toContain('### Timeline');
+  });
+
+  it('renders failed network requests as a table', () => {
+    const report = makeReport();
+    report.context.network.requests = [
+      {
+        initiator: 'fetch',
+        method: 'GET',
+        url: '/api/items',
+        status: 200,
+        startedAt: '2026-02-20T11:59:10.000Z',
+        durationMs: 80,
+      },
+      {
+        initiator: 'xhr',
+        method: 'POST',
+        url: '/api/search?q=a|b',
+        status: 500,
+        startedAt: '2026-02-20T11:59:20.000Z',
+        durationMs: 312,
+      },
+      {
+        initiator: 'fetch',
+        method: 'GET',
+        url: '/api/cart',
+        error: 'Network error',
+        startedAt: '2026-02-20T11:59:30.000Z',
+        durationMs: 5,
+      },
+    ];
+    const md = buildIssueDescription(report);
+
+    expect(md).toContain('### Recent Failed Requests (last 10)');
+    expect(md).toContain('| Time | Method | URL | Status | Duration |');
+    expect(md).toContain('| `11:59:20` | POST | /api/search?q=a\\|b | 500 | 312 ms |');
+    expect(md).toContain('| `11:59:30` | GET | /api/cart | Network error | 5 ms |');
+    expect(md).not.toContain('/api/items');
+  });
+
+  it('omits the failed requests table when every request succeeded', () => {
+    const report = makeReport();
+    report.context.network.requests = [
+      {
+        initiator: 'fetch',
+        method: 'GET',
+        url: '/api/items',
+        status: 204,
+        startedAt: '2026-02-20T11:59:10.000Z',
+        durationMs: 80,
+      },
+    ];
+    expect(buildIssueDescription(report)).not.toContain('Failed Requests');
+  });
+
   it('gracefully handles missing context fields', () => {
     const report = makeReport({
       context: {
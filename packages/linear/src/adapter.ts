@@ -3,12 +3,19 @@
 // ---------------------------------------------------------------------------
 
 import type {
+  Attachment,
   DestinationAdapter,
   BugReport,
+  ReportPayload,
   SubmitResult,
 } from '@shakenbake/core';
-import { ShakeNbakeError } from '@shakenbake/core';
-import type { LinearConfig } from './types.js';
+import {
+  ShakeNbakeError,
+  encodeReportPayload,
+  isRemoteUrl,
+  resolvePart,
+} from '@shakenbake/core';
+import type { LinearConfig, LinearOverrides } from './types.js';
 import {
   DEFAULT_SEVERITY_MAPPING,
   DEFAULT_API_URL,
@@ -25,6 +32,9 @@ import type {
 } from './graphql.js';
 import { buildIssueDescription } from './markdown.js';
 
+/** Signed upload URLs remembered for {@link LinearAdapter.requestUrls}. */
+const MAX_REMEMBERED_UPLOAD_URLS = 20;
+
 /**
  * Linear destination adapter.
  *
@@ -38,6 +48,8 @@ export class LinearAdapter implements DestinationAdapter {
   private readonly config: LinearConfig;
   private readonly apiUrl: string;
   private readonly severityMapping: Record<string, number>;
+  /** Recent signed upload URLs (without query), for {@link requestUrls}. */
+  private readonly uploadUrls: string[] = [];
 
   constructor(config: LinearConfig) {
     const normalizedApiKey = config.apiKey.trim();
@@ -79,6 +91,14 @@ export class LinearAdapter implements DestinationAdapter {
     }
   }
 
+  /**
+   * The GraphQL endpoint plus the signed storage URLs of recent uploads,
+   * which live on hosts that are only known once Linear hands them out.
+   */
+  requestUrls(): string[] {
+    return [this.apiUrl, ...this.uploadUrls];
+  }
+
   /**
    * Upload an image to Linear via the two-step file upload flow:
    * 1. Call fileUpload mutation to get a signed upload URL and asset URL
@@ -88,7 +108,7 @@ export class LinearAdapter implements DestinationAdapter {
    * @throws {ShakeNbakeError} with code UPLOAD_FAILED on failure
    */
   async uploadImage(
-    imageData: Buffer | Blob,
+    imageData: Uint8Array | Blob,
     filename: string,
   ): Promise<string> {
     const size =
@@ -111,6 +131,7 @@ export class LinearAdapter implements DestinationAdapter {
       uploadUrl = result.uploadUrl;
       assetUrl = result.assetUrl;
       uploadHeaders = result.headers;
+      this.rememberUploadUrl(uploadUrl);
     } catch (error: unknown) {
       if (error instanceof ShakeNbakeError) {
         throw error;
@@ -175,6 +196,20 @@ export class LinearAdapter implements DestinationAdapter {
     return assetUrl;
   }
 
+  /**
+   * Uploads the part a manifest value refers to and returns its asset URL.
+   * Remote URLs are returned as-is; missing values resolve to undefined.
+   */
+  private async uploadPart(
+    payload: ReportPayload,
+    value: string | undefined,
+  ): Promise<string | undefined> {
+    if (value && isRemoteUrl(value)) return value;
+    const part = resolvePart(payload, value);
+    if (!part) return undefined;
+    return this.uploadImage(part.data, part.filename);
+  }
+
   /**
    * Detect the content type from a filename extension.
    */
@@ -187,30 +222,44 @@ export class LinearAdapter implements DestinationAdapter {
     if (lower.endsWith('.webm')) return 'audio/webm';
     if (lower.endsWith('.m4a')) return 'audio/m4a';
     if (lower.endsWith('.svg')) return 'image/svg+xml';
+    if (lower.endsWith('.mp4')) return 'video/mp4';
+    if (lower.endsWith('.mov')) return 'video/quicktime';
+    if (lower.endsWith('.txt') || lower.endsWith('.log')) return 'text/plain';
+    if (lower.endsWith('.json')) return 'application/json';
     return 'application/octet-stream';
   }
 
   /**
    * Create a Linear issue from a BugReport.
    *
-   * Uploads screenshots, builds a markdown description, and creates the issue
-   * via the issueCreate GraphQL mutation.
+   * Splits the report into binary parts, uploads them, builds a markdown
+   * description, and creates the issue via the issueCreate GraphQL mutation.
    *
    * @throws {ShakeNbakeError} with appropriate code on failure
    */
   async createIssue(report: BugReport): Promise<SubmitResult> {
+    return this.createIssueFromPayload(encodeReportPayload(report));
+  }
+
+  /**
+   * Create a Linear issue from a report already split into a manifest and
+   * binary parts (e.g. parsed from a ProxyAdapter multipart request), so the
+   * files are uploaded without another base64 round-trip.
+   *
+   * @throws {ShakeNbakeError} with appropriate code on failure
+   */
+  async createIssueFromPayload(payload: ReportPayload): Promise<SubmitResult> {
+    const report = payload.manifest;
+
     // Upload screenshots
     let annotatedUrl: string | undefined;
     let originalUrl: string | undefined;
     let audioUrl: string | undefined;
-    const attachmentUrls: string[] = [];
+    const attachmentLinks: Array<{ attachment: Attachment; url: string }> = [];
     const screenshotUploadErrors: string[] = [];
 
     try {
-      annotatedUrl = await this.uploadImage(
-        base64ToBuffer(report.screenshot.annotated),
-        `screenshot-annotated-${report.id}.png`,
-      );
+      annotatedUrl = await this.uploadPart(payload, report.screenshot.annotated);
     } catch (error: unknown) {
       const msg = error instanceof Error ? error.message : String(error);
       screenshotUploadErrors.push(`annotated: ${msg}`);
@@ -219,24 +268,25 @@ export class LinearAdapter implements DestinationAdapter {
       annotatedUrl = undefined;
     }
 
-    try {
-      originalUrl = await this.uploadImage(
-        base64ToBuffer(report.screenshot.original),
-        `screenshot-original-${report.id}.png`,
-      );
-    } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      screenshotUploadErrors.push(`original: ${msg}`);
-      // eslint-disable-next-line no-console
-      console.error('[ShakeNbake][LinearAdapter] Original screenshot upload failed:', error);
-      originalUrl = undefined;
+    // The original is empty when the image pipeline skipped it as identical.
+    if (report.screenshot.original) {
+      try {
+        originalUrl = await this.uploadPart(payload, report.screenshot.original);
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : String(error);
+        screenshotUploadErrors.push(`original: ${msg}`);
+        // eslint-disable-next-line no-console
+        console.error('[ShakeNbake][LinearAdapter] Original screenshot upload failed:', error);
+        originalUrl = undefined;
+      }
     }
 
-    if (!annotatedUrl && !originalUrl) {
+    // Reports without a screenshot have nothing to upload and nothing to warn about.
+    if (!annotatedUrl && !originalUrl && screenshotUploadErrors.length > 0) {
       // Keep issue reporting alive even when attachment upload is unavailable in this runtime.
       // eslint-disable-next-line no-console
       console.warn(
-        '[ShakeNbake][LinearAdapter] Both screenshot uploads failed; proceeding without screenshots:',
+        '[ShakeNbake][LinearAdapter] Screenshot uploads failed; proceeding without screenshots:',
         screenshotUploadErrors.join(' | '),
       );
     }
@@ -244,50 +294,23 @@ export class LinearAdapter implements DestinationAdapter {
     // Upload audio if present
     if (report.audio?.data) {
       try {
-        const ext = report.audio.mimeType.includes('webm') ? 'webm' : 'm4a';
-        audioUrl = await this.uploadImage(
-          base64ToBuffer(report.audio.data),
-          `audio-${report.id}.${ext}`,
-        );
+        audioUrl = await this.uploadPart(payload, report.audio.data);
       } catch {
         audioUrl = undefined;
       }
     }
 
-    // Upload optional user-selected attachments carried in customMetadata.
-    const extraAttachments = Array.isArray(report.customMetadata?.attachments)
-      ? (report.customMetadata?.attachments as Array<{
-          base64?: string;
-          mimeType?: string;
-          filename?: string;
-        }>)
-      : [];
-    if (extraAttachments.length > 0) {
-      for (let i = 0; i < extraAttachments.length; i += 1) {
-        const attachment = extraAttachments[i];
-        if (!attachment?.base64) continue;
-        try {
-          const mimeType = attachment.mimeType || 'image/png';
-          const fallbackExt = mimeType.includes('jpeg')
-            ? 'jpg'
-            : mimeType.includes('webp')
-              ? 'webp'
-              : 'png';
-          const filename =
-            attachment.filename ||
-            `attachment-${report.id}-${String(i + 1)}.${fallbackExt}`;
-          const uploadedUrl = await this.uploadImage(
-            base64ToBuffer(attachment.base64),
-            filename,
-          );
-          attachmentUrls.push(uploadedUrl);
-        } catch (error) {
-          // eslint-disable-next-line no-console
-          console.error(
-            '[ShakeNbake][LinearAdapter] Extra attachment upload failed:',
-            error,
-          );
-        }
+    // Upload report attachments; hosted ones are linked as-is.
+    for (const attachment of report.attachments ?? []) {
+      try {
+        const url = await this.uploadPart(payload, attachment.url ?? attachment.data);
+        if (url) attachmentLinks.push({ attachment, url });
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error(
+          '[ShakeNbake][LinearAdapter] Extra attachment upload failed:',
+          error,
+        );
       }
     }
 
@@ -303,36 +326,48 @@ export class LinearAdapter implements DestinationAdapter {
       description += `\n\n## Screenshot Upload Status\n\nScreenshot upload failed in client runtime. Errors:\n- ${screenshotUploadErrors.join('\n- ')}`;
     }
 
-    if (attachmentUrls.length > 0) {
-      const attachmentsMd = attachmentUrls
-        .map((url, index) => `![Attachment ${String(index + 1)}](${url})`)
+    if (attachmentLinks.length > 0) {
+      const attachmentsMd = attachmentLinks
+        .map(({ attachment, url }) =>
+          attachment.kind === 'image'
+            ? `![${attachment.filename}](${url})`
+            : `[${attachment.filename}](${url})`,
+        )
         .join('\n');
       description += `\n\n## Additional Attachments\n\n${attachmentsMd}`;
     }
 
+    // Routing rules may redirect the issue to another team/project.
+    const overrides = readOverrides(report.destinationOverrides);
+
     // Determine priority
-    const priority = this.resolvePriority(report.severity);
+    const priority = overrides.priority ?? this.resolvePriority(report.severity);
 
     // Build label IDs
-    const labelIds = this.resolveLabelIds(report.category);
+    const labelIds = [
+      ...this.resolveLabelIds(report.category),
+      ...(overrides.labelIds ?? []),
+    ];
 
     // Build input
     const input: Record<string, unknown> = {
       title: report.title,
       description,
-      teamId: this.config.teamId,
+      teamId: overrides.teamId ?? this.config.teamId,
     };
 
-    if (this.config.projectId) {
-      input['projectId'] = this.config.projectId;
+    const projectId = overrides.projectId ?? this.config.projectId;
+    if (projectId) {
+      input['projectId'] = projectId;
     }
 
     if (labelIds.length > 0) {
       input['labelIds'] = labelIds;
     }
 
-    if (this.config.defaultAssigneeId) {
-      input['assigneeId'] = this.config.defaultAssigneeId;
+    const assigneeId = overrides.assigneeId ?? this.config.defaultAssigneeId;
+    if (assigneeId) {
+      input['assigneeId'] = assigneeId;
     }
 
     if (priority !== undefined) {
@@ -422,17 +457,36 @@ export class LinearAdapter implements DestinationAdapter {
 
     return ids;
   }
+
+  /** Keeps the last few signed upload URLs, without their query string. */
+  private rememberUploadUrl(uploadUrl: string): void {
+    const [base = uploadUrl] = uploadUrl.split('?');
+    this.uploadUrls.push(base);
+    if (this.uploadUrls.length > MAX_REMEMBERED_UPLOAD_URLS) this.uploadUrls.shift();
+  }
 }
 
 /**
- * Convert a base64-encoded string to a Buffer.
- * Strips the data URI prefix if present.
+ * Pick the Linear-specific keys out of `BugReport.destinationOverrides`,
+ * ignoring anything with an unexpected type.
  */
-function base64ToBuffer(base64: string): Buffer {
-  // Remove data URI prefix if present (e.g., "data:image/png;base64,")
-  const commaIndex = base64.indexOf(',');
-  const raw = commaIndex >= 0 ? base64.substring(commaIndex + 1) : base64;
-  return Buffer.from(raw, 'base64');
+function readOverrides(raw: Record<string, unknown> | undefined): LinearOverrides {
+  if (!raw) return {};
+  const overrides: LinearOverrides = {};
+  const nonEmpty = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+  if (nonEmpty(raw['teamId'])) overrides.teamId = raw['teamId'].trim();
+  if (nonEmpty(raw['projectId'])) overrides.projectId = raw['projectId'].trim();
+  if (nonEmpty(raw['assigneeId'])) overrides.assigneeId = raw['assigneeId'];
+  if (Array.isArray(raw['labelIds'])) {
+    overrides.labelIds = raw['labelIds'].filter(nonEmpty);
+  }
+  const priority = raw['priority'];
+  if (priority === 0 || priority === 1 || priority === 2 || priority === 3 || priority === 4) {
+    overrides.priority = priority;
+  }
+  return overrides;
 }
 
 type UploadBodyCandidate = {
@@ -441,7 +495,7 @@ type UploadBodyCandidate = {
 };
 
 function buildUploadBodyCandidates(
-  imageData: Buffer | Blob,
+  imageData: Uint8Array | Blob,
   contentType: string,
 ): UploadBodyCandidate[] {
   if (imageData instanceof Blob) {
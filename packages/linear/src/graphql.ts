@@ -2,7 +2,7 @@
 // @shakenbake/linear — GraphQL queries, mutations, and fetch wrapper
 // ---------------------------------------------------------------------------
 
-import { ShakeNbakeError } from '@shakenbake/core';
+import { ShakeNbakeError, parseRetryAfter } from '@shakenbake/core';
 
 // ---- GraphQL Queries & Mutations ----
 
@@ -171,7 +171,10 @@ export async function linearFetch<T = unknown>(
     throw new ShakeNbakeError(
       'Linear API rate limit exceeded',
       'RATE_LIMITED',
-      { retryable: true },
+      {
+        retryable: true,
+        retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After')),
+      },
     );
   }
 
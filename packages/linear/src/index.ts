@@ -6,7 +6,7 @@
 export { LinearAdapter } from './adapter.js';
 
 // Types
-export type { LinearConfig } from './types.js';
+export type { LinearConfig, LinearOverrides } from './types.js';
 export { DEFAULT_SEVERITY_MAPPING, DEFAULT_API_URL } from './types.js';
 
 // GraphQL (exported for advanced use / testing)
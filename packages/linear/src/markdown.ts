@@ -14,6 +14,7 @@ import type {
   AppInfo,
   NavigationInfo,
 } from '@shakenbake/core';
+import { isFailedRequest } from '@shakenbake/core';
 
 /**
  * Build a formatted Markdown description for a Linear issue from a BugReport.
@@ -42,9 +43,11 @@ export function buildIssueDescription(
     sections.push('');
   }
 
-  // Screenshots
-  sections.push('### Screenshots');
-  sections.push('');
+  // Screenshots (headless reports may have none)
+  if (screenshotUrl || originalScreenshotUrl) {
+    sections.push('### Screenshots');
+    sections.push('');
+  }
 
   if (screenshotUrl) {
     sections.push('**Annotated:**');
@@ -75,6 +78,26 @@ export function buildIssueDescription(
     sections.push('');
   }
 
+  // Breadcrumb timeline
+  const timeline = buildTimeline(report.context);
+  if (timeline) {
+    sections.push(`### Timeline (last ${String(MAX_TIMELINE_ENTRIES)})`);
+    sections.push('');
+    sections.push(timeline);
+    sections.push('');
+  }
+
+  // Failed network requests
+  const failedRequests = buildFailedRequests(report.context);
+  if (failedRequests) {
+    sections.push(`### Recent Failed Requests (last ${String(MAX_FAILED_REQUESTS)})`);
+    sections.push('');
+    sections.push('| Time | Method | URL | Status | Duration |');
+    sections.push('|---|---|---|---|---|');
+    sections.push(failedRequests);
+    sections.push('');
+  }
+
   // Console errors
   const consoleErrors = buildConsoleErrors(report.context);
   if (consoleErrors) {
@@ -176,6 +199,65 @@ function buildContextTable(context: DeviceContext | Partial<DeviceContext> | und
   return rows.join('\n');
 }
 
+/** Most recent breadcrumbs shown in the timeline. */
+const MAX_TIMELINE_ENTRIES = 20;
+
+/**
+ * Build a Markdown list of the most recent breadcrumbs, oldest first.
+ */
+function buildTimeline(context: DeviceContext | Partial<DeviceContext> | undefined): string | null {
+  const breadcrumbs = context?.breadcrumbs;
+  if (!breadcrumbs || breadcrumbs.length === 0) {
+    return null;
+  }
+
+  return breadcrumbs
+    .slice(-MAX_TIMELINE_ENTRIES)
+    .map((crumb) => {
+      // HH:MM:SS of the ISO timestamp; the date is in the report header.
+      const time = crumb.timestamp.slice(11, 19) || crumb.timestamp;
+      const message = crumb.message.replace(/\s+/g, ' ').replace(/`/g, "'");
+      return `- \`${time}\` **${crumb.type}** ${message}`;
+    })
+    .join('\n');
+}
+
+/** Most recent failed requests shown in the table. */
+const MAX_FAILED_REQUESTS = 10;
+
+/**
+ * Build Markdown table rows for the most recent failed network requests.
+ */
+function buildFailedRequests(
+  context: DeviceContext | Partial<DeviceContext> | undefined,
+): string | null {
+  const failed = (context?.network?.requests ?? []).filter(isFailedRequest);
+  if (failed.length === 0) {
+    return null;
+  }
+
+  return failed
+    .slice(-MAX_FAILED_REQUESTS)
+    .map((request) => {
+      const time = request.startedAt.slice(11, 19) || request.startedAt;
+      const status = request.status ? String(request.status) : (request.error ?? 'failed');
+      const cells = [
+        `\`${time}\``,
+        request.method,
+        escapeCell(request.url),
+        escapeCell(status),
+        `${String(request.durationMs)} ms`,
+      ];
+      return `| ${cells.join(' | ')} |`;
+    })
+    .join('\n');
+}
+
+/** Keeps a value from breaking out of its table cell. */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+}
+
 /**
  * Build a Markdown section for console errors (last 5).
  */
@@ -192,7 +274,8 @@ function buildConsoleErrors(context: DeviceContext | Partial<DeviceContext> | un
       lines.push(err.stack);
     }
     lines.push(`\`\`\``);
-    lines.push(`_${err.timestamp}_`);
+    const repeated = err.count && err.count > 1 ? ` (repeated ${String(err.count)} times)` : '';
+    lines.push(`_${err.timestamp}_${repeated}`);
     return lines.join('\n');
   });
 
@@ -45,6 +45,23 @@ export interface LinearConfig {
   apiUrl?: string;
 }
 
+/**
+ * Per-report overrides read from `BugReport.destinationOverrides`
+ * (e.g. set by a RoutingAdapter rule). Unknown keys are ignored.
+ */
+export interface LinearOverrides {
+  /** Create the issue in this team instead of `config.teamId`. */
+  teamId?: string;
+  /** Assign the issue to this project instead of `config.projectId`. */
+  projectId?: string;
+  /** Extra label IDs, added to the configured ones. */
+  labelIds?: string[];
+  /** Assignee instead of `config.defaultAssigneeId`. */
+  assigneeId?: string;
+  /** Priority instead of the severity mapping. */
+  priority?: 0 | 1 | 2 | 3 | 4;
+}
+
 /**
  * Default severity-to-priority mapping.
  * Linear priority: 0=none, 1=urgent, 2=high, 3=medium, 4=low
@@ -1,13 +1,13 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/react-native — ShakeNbakeProvider
 //
-// Top-level React context provider that wraps the host app and manages the
-// entire bug-reporting lifecycle:
-//   idle -> triggered -> capturing -> annotating -> form -> submitting -> success/error -> idle
+// Top-level React context provider that wraps the host app and renders the
+// bug-reporting lifecycle driven by a core ReportSession:
+//   idle -> triggered -> capturing -> [consent] -> annotating -> form -> submitting -> success/error -> idle
 //
-// On mount it registers the default plugins (ShakeTrigger, ViewShotCapture,
-// DeviceContextCollector), activates triggers, and wraps children in a
-// capturable View for react-native-view-shot.
+// It registers the default plugins (ShakeTrigger, ViewShotCapture,
+// DeviceContextCollector) on the session, starts it on mount, and wraps
+// children in a capturable View for react-native-view-shot.
 //
 // Since `react-native` is a peer dependency, all RN components are loaded
 // dynamically at runtime using the established pattern.
@@ -20,24 +20,36 @@ import React, {
   useMemo,
   useRef,
   useState,
+  useSyncExternalStore,
 } from 'react';
 
 import type {
   ShakeNbakeConfig,
   ReportInput,
+  SubmitReportOptions,
   SubmitResult,
-  DeviceContext,
-  CaptureResult,
+  TriggerPayload,
+} from '@shakenbake/core';
+import {
+  BreadcrumbCollector,
+  describeConsentSections,
+  redactContext,
+  ReportSession,
 } from '@shakenbake/core';
-import { PluginRegistry, ReportBuilder } from '@shakenbake/core';
 
 import { ShakeTrigger } from './triggers/shake.js';
 import { ViewShotCapture } from './capture/screenshot.js';
+import { PrivateViewRegistry } from './capture/masking.js';
+import { SkiaImageCodec } from './capture/image-codec.js';
 import { DeviceContextCollector } from './context/collectors.js';
+import { BreadcrumbTracker } from './context/breadcrumbs.js';
+import { NetworkInterceptor } from './context/network-interceptor.js';
+import { ConsoleInterceptor } from './context/console-interceptor.js';
+import { RNAsyncStorage } from './storage/async-storage.js';
 import { DrawingCanvas } from './annotate/DrawingCanvas.js';
 import { ReportForm } from './ui/ReportForm.js';
-import type { FlowStep } from './ui/state-machine.js';
-import { createFlowState, flowReducer } from './ui/state-machine.js';
+import { PrivateViewContext } from './ui/ShakeNbakePrivate.js';
+import { BreadcrumbContext } from './ui/ShakeNbakeTrack.js';
 import type { UseShakeNbakeResult } from './hooks/useShakeNbake.js';
 
 // ---------------------------------------------------------------------------
@@ -79,20 +91,6 @@ export interface ShakeNbakeProviderProps {
   children: React.ReactNode;
 }
 
-const EMPTY_DEVICE_CONTEXT: DeviceContext = {
-  platform: { os: 'unknown' },
-  device: {},
-  screen: { width: 0, height: 0 },
-  network: {},
-  battery: {},
-  locale: {},
-  app: {},
-  accessibility: {},
-  performance: {},
-  navigation: {},
-  console: {},
-};
-
 // ---------------------------------------------------------------------------
 // ShakeNbakeProvider component
 // ---------------------------------------------------------------------------
@@ -100,11 +98,14 @@ const EMPTY_DEVICE_CONTEXT: DeviceContext = {
 /**
  * Wraps the host app and manages the bug-reporting flow.
  *
- * 1. On mount: creates PluginRegistry, registers ShakeTrigger + ViewShotCapture +
- *    DeviceContextCollector, activates triggers.
- * 2. On trigger: captures screenshot, opens annotation canvas, then report form.
- * 3. On submit: builds BugReport and submits via the DestinationAdapter.
- * 4. On unmount: deactivates all triggers.
+ * 1. Creates a ReportSession and registers ShakeTrigger + ViewShotCapture +
+ *    DeviceContextCollector + BreadcrumbCollector + ConsoleInterceptor (and
+ *    the NetworkInterceptor with `networkCapture`) on it; starts the session,
+ *    the breadcrumb tracker and the interceptors on mount.
+ * 2. On trigger: the session captures a screenshot; the provider shows the
+ *    annotation canvas, then the report form.
+ * 3. On submit: the session builds the BugReport and submits it.
+ * 4. On unmount: stops the session, deactivating all triggers.
  *
  * @example
  * ```tsx
@@ -137,41 +138,51 @@ export function ShakeNbakeProvider(
     };
   }, []);
 
-  // ---- Plugin system ----
-  const registryRef = useRef<PluginRegistry | null>(null);
-  const builderRef = useRef<ReportBuilder | null>(null);
-  const capturePluginRef = useRef<ViewShotCapture | null>(null);
+  // ---- Session: owns the flow, capture, context, build and submit ----
   const viewRef = useRef<unknown>(null);
-
-  // ---- Flow state ----
-  const [flowState, setFlowState] = useState(createFlowState);
-
-  const dispatch = useCallback(
-    (action: Parameters<typeof flowReducer>[1]) => {
-      setFlowState((prev) => flowReducer(prev, action));
-    },
-    [],
-  );
-
-  // ---- Initialize plugins on mount ----
-  useEffect(() => {
-    if (!config.enabled) return;
-
-    const registry = new PluginRegistry();
-    const capturePlugin = new ViewShotCapture();
-    capturePluginRef.current = capturePlugin;
+  const privateViews = useMemo(() => new PrivateViewRegistry(), []);
+
+  const {
+    session,
+    capturePlugin,
+    breadcrumbTracker,
+    consoleInterceptor,
+    networkInterceptor,
+  } = useMemo(() => {
+    const s = new ReportSession({
+      config,
+      imageCodec: new SkiaImageCodec(),
+      storage: new RNAsyncStorage(),
+      captureTimeoutMs: 12000,
+      contextTimeoutMs: 4000,
+    });
+    const { registry } = s;
+    const capture = new ViewShotCapture();
+    capture.setPrivateViews(privateViews);
 
     // Register defaults
     if (config.enableShakeTrigger !== false) {
-      const shakeTrigger = new ShakeTrigger();
-      registry.registerTrigger(shakeTrigger);
+      registry.registerTrigger(new ShakeTrigger());
     }
-    registry.registerCapture(capturePlugin);
+    registry.registerCapture(capture);
     registry.registerCollector(
       new DeviceContextCollector({
         redactFields: config.privacy?.redactFields,
+        piiScrubber: s.piiScrubber,
       }),
     );
+    const breadcrumbsEnabled = config.breadcrumbs?.enabled !== false;
+    if (breadcrumbsEnabled) {
+      registry.registerCollector(new BreadcrumbCollector());
+    }
+    const consoleLog = new ConsoleInterceptor();
+    registry.registerCollector(consoleLog);
+    const network = config.networkCapture?.enabled
+      ? new NetworkInterceptor({ ...config.networkCapture, destination: config.destination })
+      : null;
+    if (network) {
+      registry.registerCollector(network);
+    }
 
     // Register additional triggers from config
     if (config.triggers) {
@@ -187,221 +198,196 @@ export function ShakeNbakeProvider(
       }
     }
 
-    const builder = new ReportBuilder(registry, config.destination);
-    registryRef.current = registry;
-    builderRef.current = builder;
-
-    return () => {
-      registry.deactivateTriggers();
-      registry.clear();
-      registryRef.current = null;
-      builderRef.current = null;
+    return {
+      session: s,
+      capturePlugin: capture,
+      breadcrumbTracker: breadcrumbsEnabled ? new BreadcrumbTracker() : null,
+      consoleInterceptor: consoleLog,
+      networkInterceptor: network,
     };
-  }, [config]);
+  }, [config, privateViews]);
 
-  // ---- Trigger handler ----
-  const handleTrigger = useCallback(() => {
-    if (!config.enabled) return;
-    setFlowState((prev) => {
-      if (prev.step !== 'idle') return prev;
-      return flowReducer(prev, { type: 'TRIGGER' });
-    });
-  }, [config.enabled]);
+  // ---- Flow state ----
+  const subscribe = useCallback(
+    (listener: () => void) => session.subscribe(listener),
+    [session],
+  );
+  const getSnapshot = useCallback(() => session.getState(), [session]);
+  const flowState = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
-  // ---- Activate triggers with the handler ----
+  // ---- Activate triggers and the offline queue on mount ----
   useEffect(() => {
-    let cancelled = false;
+    if (!config.enabled) return;
 
-    const activateAll = async () => {
-      const registry = registryRef.current;
-      if (!registry || cancelled) return;
-      await registry.activateTriggers(handleTrigger);
-    };
+    // Installed before the triggers so the ErrorTrigger wraps its global
+    // error handler and is unwrapped first on cleanup.
+    consoleInterceptor.install();
+    void session.start();
+    void breadcrumbTracker?.install();
+    networkInterceptor?.install();
 
-    if (config.enabled) {
-      activateAll();
+    // Offline queue: resubmit anything left over from a previous session,
+    // then again whenever connectivity comes back.
+    let unsubscribeNetInfo: (() => void) | null = null;
+    let cancelled = false;
+    if (session.queue) {
+      void session.drainQueue();
+
+      void (async () => {
+        try {
+          const mod = await import('@react-native-community/netinfo');
+          const NetInfo = mod.default ?? mod;
+          if (cancelled || typeof NetInfo.addEventListener !== 'function') return;
+          unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+            if (state.isConnected) {
+              void session.drainQueue();
+            }
+          });
+        } catch {
+          // netinfo not installed — queued reports drain on next app start.
+        }
+      })();
     }
 
     return () => {
       cancelled = true;
-      registryRef.current?.deactivateTriggers();
+      unsubscribeNetInfo?.();
+      session.stop();
+      consoleInterceptor.uninstall();
+      breadcrumbTracker?.uninstall();
+      networkInterceptor?.uninstall();
     };
-  }, [config.enabled, handleTrigger]);
+  }, [session, breadcrumbTracker, consoleInterceptor, networkInterceptor, config.enabled]);
 
-  // ---- Set capture ref when viewRef becomes available ----
+  // ---- Keep the SDK's own uploads out of the network log ----
+  // Sending also happens while idle: headless reports, auto-submitting
+  // triggers and queue drains.
+  const step = flowState.step;
   useEffect(() => {
-    if (capturePluginRef.current && viewRef.current) {
-      capturePluginRef.current.setRef(
-        viewRef as React.RefObject<unknown>,
-      );
-    }
-  });
+    if (!networkInterceptor) return;
+    const sync = () => networkInterceptor.setPaused(step !== 'idle' || session.isSending());
+    sync();
+    return session.onSendingChange(sync);
+  }, [networkInterceptor, session, step]);
 
-  // ---- Auto-capture when triggered ----
+  // ---- Set capture ref when viewRef becomes available ----
   useEffect(() => {
-    if (flowState.step !== 'triggered') return;
-
-    let captureTimer: ReturnType<typeof setTimeout> | null = null;
-    let contextTimer: ReturnType<typeof setTimeout> | null = null;
-
-    async function captureAndCollect(): Promise<void> {
-      dispatch({ type: 'CAPTURE_START' });
-
-      try {
-        const builder = builderRef.current;
-        if (!builder) {
-          dispatch({ type: 'CAPTURE_ERROR', error: 'ReportBuilder not initialized' });
-          return;
-        }
-
-        const captureWithTimeout = Promise.race([
-          builder.startCapture(),
-          new Promise<never>((_, reject) => {
-            captureTimer = setTimeout(() => {
-              reject(new Error('Screenshot capture timed out after 12s'));
-            }, 12000);
-          }),
-        ]);
-
-        const contextWithFallback = Promise.race([
-          builder.collectContext(),
-          new Promise<Partial<DeviceContext>>((resolve) => {
-            contextTimer = setTimeout(() => resolve(EMPTY_DEVICE_CONTEXT), 4000);
-          }),
-        ]);
-
-        const [captureResult, context] = await Promise.all([
-          captureWithTimeout,
-          contextWithFallback,
-        ]);
-
-        dispatch({
-          type: 'CAPTURE_DONE',
-          captureResult,
-          context,
-        });
-      } catch (err) {
-        dispatch({
-          type: 'CAPTURE_ERROR',
-          error: err instanceof Error ? err.message : 'Capture failed',
-        });
-      } finally {
-        if (captureTimer) clearTimeout(captureTimer);
-        if (contextTimer) clearTimeout(contextTimer);
-      }
+    if (viewRef.current) {
+      capturePlugin.setRef(viewRef as React.RefObject<unknown>);
     }
+  });
 
-    void captureAndCollect();
-  }, [flowState.step, dispatch]);
+  // ---- Handlers ----
+  const handleTrigger = useCallback(
+    (payload?: TriggerPayload) => session.trigger(payload),
+    [session],
+  );
+  const handleSubmitReport = useCallback(
+    (input?: Partial<ReportInput>, options?: SubmitReportOptions) =>
+      session.submitReport(input, options),
+    [session],
+  );
 
-  // ---- Annotation done handler ----
   const handleAnnotationDone = useCallback(
     (annotatedBase64: string, originalBase64: string) => {
-      dispatch({
-        type: 'ANNOTATE_DONE',
-        annotatedScreenshot: annotatedBase64,
-        originalScreenshot: originalBase64,
-      });
+      session.finishAnnotation(annotatedBase64, originalBase64);
     },
-    [dispatch],
+    [session],
   );
 
-  const handleAnnotationCancel = useCallback(() => {
-    dispatch({ type: 'ANNOTATE_CANCEL' });
-  }, [dispatch]);
+  const handleReAnnotate = useCallback(() => session.reAnnotate(), [session]);
 
-  const handleReAnnotate = useCallback(() => {
-    dispatch({ type: 'RE_ANNOTATE' });
-  }, [dispatch]);
-
-  // ---- Form submit handler ----
   const handleFormSubmit = useCallback(
-    async (
-      input: ReportInput & {
-        attachments?: Array<{ base64: string; mimeType?: string; filename?: string }>;
-      },
-    ): Promise<SubmitResult> => {
-      dispatch({ type: 'SUBMIT_START' });
-
-      try {
-        const builder = builderRef.current;
-        if (!builder) {
-          throw new Error('ReportBuilder not initialized');
-        }
-
-        const context = (flowState.data.context ?? EMPTY_DEVICE_CONTEXT) as DeviceContext;
-        const report = builder.build(input, context);
-        if (input.attachments && input.attachments.length > 0) {
-          report.customMetadata = {
-            ...(report.customMetadata ?? {}),
-            attachments: input.attachments,
-          };
-        }
-
-        // Attach custom metadata if configured
-        if (config.customMetadata) {
-          report.customMetadata = config.customMetadata();
-        }
-
-        // Set proper dimensions
-        if (flowState.data.captureResult) {
-          report.screenshot.dimensions = flowState.data.captureResult.dimensions;
-        }
+    (input: ReportInput): Promise<SubmitResult> => session.submit(input),
+    [session],
+  );
 
-        const result = await builder.submit(report);
+  const handleReset = useCallback(() => session.reset(), [session]);
+  const handleAnnotationCancel = handleReset;
+  const handleFormCancel = handleReset;
+  const handleSuccessDismiss = handleReset;
 
-        dispatch({ type: 'SUBMIT_DONE', result });
-        return result;
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : 'Submit failed';
-        dispatch({ type: 'SUBMIT_ERROR', error: errorMsg });
-        throw err;
-      }
-    },
-    [dispatch, flowState.data, config],
-  );
+  // ---- Consent prompt ----
+  useEffect(() => {
+    if (flowState.step !== 'consent' || !rn) return;
 
-  // ---- Form cancel handler ----
-  const handleFormCancel = useCallback(() => {
-    dispatch({ type: 'RESET' });
-  }, [dispatch]);
+    const store = session.consentStore;
+    if (!store) {
+      session.reset();
+      return;
+    }
 
-  // ---- Handle success dismiss ----
-  const handleSuccessDismiss = useCallback(() => {
-    dispatch({ type: 'RESET' });
-  }, [dispatch]);
+    const sections = describeConsentSections(
+      redactContext(flowState.data.context ?? {}, config.privacy?.redactFields ?? []),
+      { customMetadata: Boolean(config.customMetadata) },
+    );
+    rn.Alert.alert(
+      'Share diagnostic data?',
+      [
+        'Your bug report will include:',
+        ...sections.map((section) => `• ${section.label}`),
+        '',
+        `Policy version ${store.version}`,
+      ].join('\n'),
+      [
+        {
+          text: "Don't Send",
+          style: 'cancel',
+          // The denial is remembered, but the next report asks again.
+          onPress: () => void session.denyConsent(),
+        },
+        {
+          text: 'I Agree',
+          onPress: () => void session.grantConsent(),
+        },
+      ],
+    );
+  }, [flowState.step, flowState.data, rn, session, config]);
 
   // ---- Handle error ----
   useEffect(() => {
     if (flowState.step !== 'error' || !rn) return;
 
     const errorMsg = flowState.data.error ?? 'An unexpected error occurred';
-    const hasFormData = Boolean(flowState.data.annotatedScreenshot);
+    const hasFormData =
+      Boolean(flowState.data.annotatedScreenshot) && !flowState.data.queued;
 
     rn.Alert.alert(
-      'Error',
+      flowState.data.queued ? 'Saved Offline' : 'Error',
       errorMsg,
       [
         ...(hasFormData
-          ? [{ text: 'Retry', onPress: () => dispatch({ type: 'RETRY' }) }]
+          ? [{ text: 'Retry', onPress: () => session.retry() }]
           : []),
         {
           text: 'Dismiss',
           style: 'cancel',
-          onPress: () => dispatch({ type: 'RESET' }),
+          onPress: () => session.reset(),
         },
       ],
     );
-  }, [flowState.step, flowState.data, rn, dispatch]);
+  }, [flowState.step, flowState.data, rn, session]);
 
   // ---- Handle success alert ----
   useEffect(() => {
     if (flowState.step !== 'success' || !rn) return;
 
     const result = flowState.data.submitResult;
+    let message = result?.url
+      ? `Issue created: ${result.url}`
+      : 'Your bug report has been submitted.';
+    if (result?.destinations && result.destinations.length > 1) {
+      message = result.destinations
+        .map((d) =>
+          d.success
+            ? `${d.adapter}: ${d.url ?? 'submitted'}`
+            : `${d.adapter}: ${d.error ?? 'skipped'}`,
+        )
+        .join('\n');
+    }
     rn.Alert.alert(
       'Report Submitted',
-      result?.url ? `Issue created: ${result.url}` : 'Your bug report has been submitted.',
+      message,
       [{ text: 'OK', onPress: handleSuccessDismiss }],
     );
   }, [flowState.step, flowState.data, rn, handleSuccessDismiss]);
@@ -418,11 +404,12 @@ export function ShakeNbakeProvider(
   const contextValue = useMemo<UseShakeNbakeResult>(
     () => ({
       trigger: handleTrigger,
+      submitReport: handleSubmitReport,
       isOpen: flowState.step !== 'idle',
       currentStep: flowState.step,
       config,
     }),
-    [handleTrigger, flowState.step, config],
+    [handleTrigger, handleSubmitReport, flowState.step, config],
   );
 
   // ---- Render ----
@@ -460,13 +447,15 @@ export function ShakeNbakeProvider(
         width: 0,
         height: 0,
       },
-      context: (flowState.data.context ?? EMPTY_DEVICE_CONTEXT) as DeviceContext,
+      context: flowState.data.context ?? {},
       onSubmit: handleFormSubmit,
       onCancel: handleFormCancel,
       onReAnnotate: handleReAnnotate,
       pickImages: config.ui?.pickImages,
       theme,
       accentColor: config.ui?.accentColor,
+      submitStatus: flowState.data.submitStatus,
+      initialValues: flowState.data.payload,
     });
   }
 
@@ -493,7 +482,15 @@ export function ShakeNbakeProvider(
   return React.createElement(
     ShakeNbakeContext.Provider,
     { value: contextValue },
-    wrapperElement,
-    overlayContainer,
+    React.createElement(
+      PrivateViewContext.Provider,
+      { value: privateViews },
+      React.createElement(
+        BreadcrumbContext.Provider,
+        { value: breadcrumbTracker },
+        wrapperElement,
+        overlayContainer,
+      ),
+    ),
   );
 }
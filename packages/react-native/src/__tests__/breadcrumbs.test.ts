@@ -0,0 +1,108 @@
+// ---------------------------------------------------------------------------
+// Tests for BreadcrumbTracker and recordNavigationState
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BreadcrumbBuffer } from '@shakenbake/core';
+
+const mockRemove = vi.fn();
+let appStateListener: ((state: string) => void) | null = null;
+
+vi.mock('react-native', () => ({
+  AppState: {
+    currentState: 'active',
+    addEventListener: vi.fn((_type: string, listener: (state: string) => void) => {
+      appStateListener = listener;
+      return { remove: mockRemove };
+    }),
+  },
+}));
+
+import { BreadcrumbTracker, recordNavigationState } from '../context/breadcrumbs.js';
+
+describe('BreadcrumbTracker', () => {
+  let buffer: BreadcrumbBuffer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    appStateListener = null;
+    buffer = new BreadcrumbBuffer();
+  });
+
+  it('records AppState changes', async () => {
+    const tracker = new BreadcrumbTracker({ buffer });
+    await tracker.install();
+
+    appStateListener!('background');
+    appStateListener!('background');
+    appStateListener!('active');
+
+    expect(buffer.getAll()).toEqual([
+      expect.objectContaining({
+        type: 'app-state',
+        message: 'App became background',
+        data: { from: 'active', to: 'background' },
+      }),
+      expect.objectContaining({ data: { from: 'background', to: 'active' } }),
+    ]);
+  });
+
+  it('removes the AppState listener on uninstall', async () => {
+    const tracker = new BreadcrumbTracker({ buffer });
+    await tracker.install();
+    tracker.uninstall();
+
+    expect(mockRemove).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips AppState when disabled', async () => {
+    const tracker = new BreadcrumbTracker({ buffer, appState: false });
+    await tracker.install();
+
+    expect(appStateListener).toBeNull();
+  });
+
+  it('records touches on tracked views', () => {
+    const tracker = new BreadcrumbTracker({ buffer });
+    tracker.recordTouch('checkout-button', { step: 2 });
+
+    expect(buffer.last()).toMatchObject({
+      type: 'touch',
+      message: 'Tapped checkout-button',
+      data: { step: 2, name: 'checkout-button' },
+    });
+  });
+});
+
+describe('recordNavigationState', () => {
+  it('records the deepest focused route once per change', () => {
+    const buffer = new BreadcrumbBuffer();
+    const tabs = (index: number) => ({
+      index: 0,
+      routes: [
+        {
+          name: 'Main',
+          state: { index, routes: [{ name: 'Home' }, { name: 'Cart' }] },
+        },
+      ],
+    });
+
+    recordNavigationState(tabs(0), buffer);
+    recordNavigationState(tabs(1), buffer);
+    recordNavigationState(tabs(1), buffer);
+
+    expect(buffer.getAll()).toEqual([
+      expect.objectContaining({ type: 'navigation', data: { to: 'Home' } }),
+      expect.objectContaining({ message: 'Navigated to Cart', data: { from: 'Home', to: 'Cart' } }),
+    ]);
+  });
+
+  it('treats the last route as focused when index is missing', () => {
+    const buffer = new BreadcrumbBuffer();
+    recordNavigationState({ routes: [{ name: 'Home' }, { name: 'Details' }] }, buffer);
+    recordNavigationState(undefined, buffer);
+
+    expect(buffer.getAll()).toHaveLength(1);
+    expect(buffer.last()?.data).toEqual({ to: 'Details' });
+  });
+});
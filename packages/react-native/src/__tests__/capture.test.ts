@@ -36,7 +36,38 @@ vi.mock('react-native', () => ({
   },
 }));
 
+// Mock Skia (used to black out private views)
+const mockDrawRect = vi.fn();
+const mockMakeImageFromEncoded = vi.fn(() => ({
+  width: () => 1170,
+  height: () => 2532,
+  encodeToBase64: () => 'unused',
+}));
+
+vi.mock('@shopify/react-native-skia', () => ({
+  Skia: {
+    Data: { fromBase64: vi.fn((b64: string) => ({ b64 })) },
+    Image: { MakeImageFromEncoded: mockMakeImageFromEncoded },
+    Surface: {
+      MakeOffscreen: vi.fn(() => ({
+        getCanvas: () => ({ drawImage: vi.fn(), drawRect: mockDrawRect }),
+        flush: vi.fn(),
+        makeImageSnapshot: () => ({ encodeToBase64: () => 'masked-base64' }),
+      })),
+    },
+    Paint: () => ({ setColor: vi.fn() }),
+    Color: (c: string) => c,
+    XYWHRect: (x: number, y: number, width: number, height: number) => ({
+      x,
+      y,
+      width,
+      height,
+    }),
+  },
+}));
+
 import { ViewShotCapture } from '../capture/screenshot.js';
+import { PrivateViewRegistry } from '../capture/masking.js';
 
 describe('ViewShotCapture', () => {
   let capture: ViewShotCapture;
@@ -106,4 +137,75 @@ describe('ViewShotCapture', () => {
       expect((err as ShakeNbakeError).code).toBe('UPLOAD_FAILED');
     }
   });
+
+  describe('private views', () => {
+    function measurable(x: number, y: number, width: number, height: number) {
+      return {
+        current: {
+          measureInWindow: (cb: (x: number, y: number, w: number, h: number) => void) =>
+            cb(x, y, width, height),
+        },
+      };
+    }
+
+    it('blacks out private views in image pixels relative to the root view', async () => {
+      const registry = new PrivateViewRegistry();
+      // Scrolled so the view sits 100pt below the top of the window.
+      registry.register(measurable(20, 100, 200, 40), 'card-number');
+      // Scrolled off-screen: skipped.
+      registry.register(measurable(20, 2000, 200, 40));
+
+      capture.setRef(measurable(0, 0, 390, 844));
+      capture.setPrivateViews(registry);
+      const result = await capture.capture();
+
+      expect(result.imageData).toBe('masked-base64');
+      expect(result.maskedRegions).toEqual([
+        { x: 60, y: 300, width: 600, height: 120, selector: 'card-number' },
+      ]);
+      expect(mockDrawRect).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not mask views rendered outside the root, such as in a Modal', async () => {
+      const registry = new PrivateViewRegistry();
+      const inModal = measurable(20, 100, 200, 40);
+      registry.register({
+        current: {
+          ...inModal.current,
+          measureLayout: (_root: unknown, _onSuccess: unknown, onFail: () => void) => onFail(),
+        },
+      });
+
+      capture.setRef(measurable(0, 0, 390, 844));
+      capture.setPrivateViews(registry);
+      const result = await capture.capture();
+
+      expect(result.imageData).toBe('base64-image-data');
+      expect(result.maskedRegions).toBeUndefined();
+    });
+
+    it('leaves the screenshot alone when no private view is mounted', async () => {
+      const registry = new PrivateViewRegistry();
+      registry.register({ current: null });
+
+      capture.setRef(mockRef);
+      capture.setPrivateViews(registry);
+      const result = await capture.capture();
+
+      expect(result.imageData).toBe('base64-image-data');
+      expect(result.maskedRegions).toBeUndefined();
+      expect(mockMakeImageFromEncoded).not.toHaveBeenCalled();
+    });
+
+    it('fails instead of returning an unmasked screenshot', async () => {
+      mockMakeImageFromEncoded.mockReturnValueOnce(null as never);
+      const registry = new PrivateViewRegistry();
+      registry.register(measurable(0, 0, 100, 100));
+
+      capture.setRef(mockRef);
+      capture.setPrivateViews(registry);
+
+      await expect(capture.capture()).rejects.toThrow('Could not mask private views');
+    });
+  });
 });
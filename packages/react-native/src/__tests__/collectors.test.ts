@@ -88,6 +88,7 @@ vi.mock('@react-native-community/netinfo', () => ({
   },
 }));
 
+import { PiiScrubber } from '@shakenbake/core';
 import { DeviceContextCollector } from '../context/collectors.js';
 
 describe('DeviceContextCollector', () => {
@@ -158,6 +159,17 @@ describe('DeviceContextCollector', () => {
     expect(context.accessibility?.fontScale).toBe(1);
   });
 
+  it('passes collected context through the piiScrubber when provided', async () => {
+    const piiScrubber = new PiiScrubber();
+    const scrubSpy = vi.spyOn(piiScrubber, 'scrubContext');
+    const scrubbing = new DeviceContextCollector({ piiScrubber });
+
+    const context = await scrubbing.collect();
+
+    expect(scrubSpy).toHaveBeenCalledTimes(1);
+    expect(context).toEqual(scrubSpy.mock.results[0]?.value);
+  });
+
   it('returns all expected top-level keys', async () => {
     const context = await collector.collect();
 
@@ -0,0 +1,174 @@
+// ---------------------------------------------------------------------------
+// Tests for the React Native ConsoleInterceptor
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConsoleInterceptor } from '../context/console-interceptor.js';
+
+type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+interface TrackerOptions {
+  onUnhandled: (id: number, rejection: unknown) => void;
+  onHandled: (id: number) => void;
+}
+
+const globals = globalThis as {
+  ErrorUtils?: unknown;
+  HermesInternal?: unknown;
+  __DEV__?: boolean;
+};
+
+describe('ConsoleInterceptor', () => {
+  let interceptor: ConsoleInterceptor;
+  let globalHandler: GlobalErrorHandler;
+  let previousHandler: ReturnType<typeof vi.fn>;
+  let tracker: TrackerOptions | null;
+
+  beforeEach(() => {
+    // Silence the real console; the interceptor wraps these mocks.
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    previousHandler = vi.fn();
+    globalHandler = previousHandler;
+    globals.ErrorUtils = {
+      getGlobalHandler: () => globalHandler,
+      setGlobalHandler: (handler: GlobalErrorHandler) => {
+        globalHandler = handler;
+      },
+    };
+
+    tracker = null;
+    globals.HermesInternal = {
+      enablePromiseRejectionTracker: (options: TrackerOptions) => {
+        tracker = options;
+      },
+    };
+  });
+
+  afterEach(() => {
+    interceptor?.uninstall();
+    vi.restoreAllMocks();
+    delete globals.ErrorUtils;
+    delete globals.HermesInternal;
+    delete globals.__DEV__;
+  });
+
+  it('records console output and forwards it', () => {
+    const original = console.info;
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+
+    console.log('hello', { a: 1 });
+    console.info('info');
+    console.debug('debug');
+    console.warn('careful');
+    console.error(new Error('boom'));
+
+    const { logs, errors } = interceptor.getEntries();
+    expect(logs.map((e) => [e.level, e.message])).toEqual([
+      ['log', 'hello {"a":1}'],
+      ['info', 'info'],
+      ['debug', 'debug'],
+      ['warn', 'careful'],
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.message).toBe('Error: boom');
+    expect(errors[0]!.stack).toContain('boom');
+    expect(original).toHaveBeenCalledWith('info');
+  });
+
+  it('keeps the buffers bounded', () => {
+    interceptor = new ConsoleInterceptor({ maxLogs: 2, maxErrors: 1 });
+    interceptor.install();
+
+    console.log('a');
+    console.log('b');
+    console.log('c');
+    console.error('x');
+    console.error('y');
+
+    const { logs, errors } = interceptor.getEntries();
+    expect(logs.map((e) => e.message)).toEqual(['b', 'c']);
+    expect(errors.map((e) => e.message)).toEqual(['y']);
+  });
+
+  it('records global errors and chains to the previous handler', () => {
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+    const error = new TypeError('undefined is not a function');
+
+    globalHandler(error, true);
+
+    expect(previousHandler).toHaveBeenCalledWith(error, true);
+    expect(interceptor.getEntries().errors[0]).toMatchObject({
+      level: 'fatal',
+      message: 'TypeError: undefined is not a function',
+    });
+  });
+
+  it('records unhandled rejections and drops ones handled later', () => {
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+
+    tracker!.onUnhandled(1, new Error('late'));
+    tracker!.onUnhandled(2, 'plain reason');
+    tracker!.onHandled(1);
+
+    expect(interceptor.getEntries().rejections.map((e) => e.message)).toEqual([
+      'plain reason',
+    ]);
+  });
+
+  it('repeats the unhandled rejection warning in development', () => {
+    globals.__DEV__ = true;
+    const warn = console.warn;
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+
+    tracker!.onUnhandled(3, new Error('oops'));
+
+    expect(warn).toHaveBeenCalledWith('Possible Unhandled Promise Rejection (id: 3):\noops');
+  });
+
+  it('exposes the entries as console context', async () => {
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+    console.warn('w');
+    console.error('e');
+    tracker!.onUnhandled(1, 'r');
+
+    expect(interceptor.name).toBe('console');
+    expect(interceptor.platform).toBe('react-native');
+    const { console: info } = await interceptor.collect();
+    expect(info?.recentLogs).toMatchObject([{ level: 'warn', message: 'w' }]);
+    expect(info?.recentErrors).toMatchObject([{ message: 'e' }]);
+    expect(info?.unhandledRejections).toMatchObject([{ reason: 'r' }]);
+  });
+
+  it('restores console and the global handler on uninstall', () => {
+    const original = console.error;
+    interceptor = new ConsoleInterceptor();
+    interceptor.install();
+    expect(console.error).not.toBe(original);
+
+    interceptor.uninstall();
+    console.error('after');
+    tracker!.onUnhandled(1, 'after');
+
+    expect(console.error).toBe(original);
+    expect(globalHandler).toBe(previousHandler);
+    expect(interceptor.getEntries()).toEqual({ logs: [], errors: [], rejections: [] });
+  });
+
+  it('skips global errors and rejections when disabled', () => {
+    interceptor = new ConsoleInterceptor({ globalErrors: false, promiseRejections: false });
+    interceptor.install();
+
+    expect(globalHandler).toBe(previousHandler);
+    expect(tracker).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// Tests for SkiaImageCodec
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect, vi } from 'vitest';
+
+const mockDrawImageRect = vi.fn();
+const mockEncodeToBase64 = vi.fn(() => 'ENCODED');
+const mockMakeImageFromEncoded = vi.fn(() => ({
+  width: () => 1170,
+  height: () => 2532,
+  encodeToBase64: vi.fn(),
+}));
+
+vi.mock('@shopify/react-native-skia', () => ({
+  Skia: {
+    Data: { fromBase64: vi.fn((b64: string) => ({ b64 })) },
+    Image: { MakeImageFromEncoded: mockMakeImageFromEncoded },
+    Surface: {
+      MakeOffscreen: vi.fn(() => ({
+        getCanvas: () => ({ drawImageRect: mockDrawImageRect }),
+        flush: vi.fn(),
+        makeImageSnapshot: () => ({ encodeToBase64: mockEncodeToBase64 }),
+      })),
+    },
+    Paint: () => ({}),
+    XYWHRect: (x: number, y: number, width: number, height: number) => ({
+      x,
+      y,
+      width,
+      height,
+    }),
+  },
+}));
+
+import { SkiaImageCodec } from '../capture/image-codec.js';
+
+describe('SkiaImageCodec', () => {
+  it('reads dimensions from the decoded image', async () => {
+    const codec = new SkiaImageCodec();
+    expect(await codec.getDimensions('cmF3')).toEqual({ width: 1170, height: 2532 });
+  });
+
+  it('scales and encodes to the requested format as a data URI', async () => {
+    const codec = new SkiaImageCodec();
+    const result = await codec.encode('data:image/png;base64,cmF3', {
+      width: 585,
+      height: 1266,
+      mimeType: 'image/jpeg',
+      quality: 0.8,
+    });
+
+    expect(result).toBe('data:image/jpeg;base64,ENCODED');
+    expect(mockDrawImageRect).toHaveBeenCalledWith(
+      expect.anything(),
+      { x: 0, y: 0, width: 1170, height: 2532 },
+      { x: 0, y: 0, width: 585, height: 1266 },
+      expect.anything(),
+    );
+    // Skia ImageFormat.JPEG, quality 0-100.
+    expect(mockEncodeToBase64).toHaveBeenCalledWith(3, 80);
+  });
+
+  it('decodes the same image only once across encodes', async () => {
+    mockMakeImageFromEncoded.mockClear();
+    const codec = new SkiaImageCodec();
+    const options = { width: 10, height: 10, mimeType: 'image/webp' as const, quality: 0.5 };
+    await codec.encode('cmF3', options);
+    await codec.encode('cmF3', options);
+    expect(mockMakeImageFromEncoded).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,95 @@
+// ---------------------------------------------------------------------------
+// Tests for private view masking helpers
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect, vi } from 'vitest';
+import { PrivateViewRegistry, measureView, toImageRegions } from '../capture/masking.js';
+
+describe('PrivateViewRegistry', () => {
+  it('measures registered views and skips unmounted or empty ones', async () => {
+    const registry = new PrivateViewRegistry();
+    registry.register({ current: { measureInWindow: (cb) => cb(1, 2, 3, 4) } }, 'a');
+    registry.register({ current: null }, 'unmounted');
+    registry.register({ current: { measureInWindow: (cb) => cb(0, 0, 0, 0) } }, 'collapsed');
+
+    expect(await registry.measure()).toEqual([
+      { x: 1, y: 2, width: 3, height: 4, label: 'a' },
+    ]);
+  });
+
+  it('unregisters views', async () => {
+    const registry = new PrivateViewRegistry();
+    const unregister = registry.register({
+      current: { measureInWindow: (cb) => cb(0, 0, 10, 10) },
+    });
+    expect(registry.size).toBe(1);
+
+    unregister();
+    expect(registry.size).toBe(0);
+    expect(await registry.measure()).toEqual([]);
+  });
+
+  it('skips views that are not inside the root, such as Modal content', async () => {
+    const root = { measureInWindow: () => undefined };
+    const registry = new PrivateViewRegistry();
+    registry.register(
+      {
+        current: {
+          measureInWindow: (cb) => cb(0, 0, 10, 10),
+          measureLayout: (_root, onSuccess) => onSuccess(0, 0, 10, 10),
+        },
+      },
+      'inside',
+    );
+    registry.register(
+      {
+        current: {
+          measureInWindow: (cb) => cb(0, 0, 20, 20),
+          measureLayout: (_root, _onSuccess, onFail) => onFail(),
+        },
+      },
+      'modal',
+    );
+
+    expect(await registry.measure(root)).toEqual([
+      { x: 0, y: 0, width: 10, height: 10, label: 'inside' },
+    ]);
+  });
+});
+
+describe('measureView', () => {
+  it('rejects when measureInWindow never calls back', async () => {
+    vi.useFakeTimers();
+    const pending = measureView({ measureInWindow: () => undefined });
+    const assertion = expect(pending).rejects.toThrow('timed out');
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    vi.useRealTimers();
+  });
+});
+
+describe('toImageRegions', () => {
+  const image = { width: 780, height: 1688 };
+
+  it('offsets by the root view and scales to image pixels', () => {
+    const root = { x: 0, y: 24, width: 390, height: 844 };
+    expect(
+      toImageRegions([{ x: 10, y: 34, width: 100, height: 20, label: 'p' }], root, image),
+    ).toEqual([{ x: 20, y: 20, width: 200, height: 40, selector: 'p' }]);
+  });
+
+  it('clips partially visible views and drops off-screen ones', () => {
+    const root = { x: 0, y: 0, width: 390, height: 844 };
+    const regions = toImageRegions(
+      [
+        { x: -50, y: 800, width: 100, height: 100, label: 'edge' },
+        { x: 0, y: -200, width: 100, height: 100, label: 'above' },
+      ],
+      root,
+      image,
+    );
+    expect(regions).toEqual([
+      { x: 0, y: 1600, width: 100, height: 88, selector: 'edge' },
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+// ---------------------------------------------------------------------------
+// Tests for the React Native NetworkInterceptor
+// ---------------------------------------------------------------------------
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockAdapter } from '@shakenbake/core';
+import type { DestinationAdapter } from '@shakenbake/core';
+import { NetworkInterceptor } from '../context/network-interceptor.js';
+
+interface NextResponse {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+  timedOut?: boolean;
+}
+
+/**
+ * Minimal stand-in for React Native's XMLHttpRequest. Completes on the next
+ * microtask and, like RN's `setReadyState(DONE)`, dispatches readystatechange
+ * first, then load, error, abort or timeout, then loadend.
+ */
+class FakeXhr extends EventTarget {
+  static next: NextResponse = { status: 200 };
+  /** Older React Native versions do not dispatch loadend. */
+  static emitsLoadEnd = true;
+
+  readyState = 0;
+  status = 0;
+  responseType = '';
+  response: unknown = '';
+  responseText = '';
+  private headers: Record<string, string> = {};
+  private aborted = false;
+
+  open(_method: string, _url: string): void {
+    this.readyState = 1;
+  }
+
+  setRequestHeader(_name: string, _value: string): void {}
+
+  send(_body?: unknown): void {
+    const { status, body = '', headers = {}, timedOut = false } = FakeXhr.next;
+    queueMicrotask(() => {
+      if (this.aborted) return;
+      this.status = timedOut ? 0 : status;
+      this.response = body;
+      this.responseText = body;
+      this.headers = headers;
+      this.complete(timedOut ? 'timeout' : status ? 'load' : 'error');
+    });
+  }
+
+  abort(): void {
+    this.aborted = true;
+    this.complete('abort');
+  }
+
+  private complete(event: 'load' | 'error' | 'abort' | 'timeout'): void {
+    this.readyState = 4;
+    this.dispatchEvent(new Event('readystatechange'));
+    this.dispatchEvent(new Event(event));
+    if (FakeXhr.emitsLoadEnd) this.dispatchEvent(new Event('loadend'));
+  }
+
+  getResponseHeader(name: string): string | null {
+    return this.headers[name] ?? null;
+  }
+
+  getAllResponseHeaders(): string {
+    return Object.entries(this.headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\r\n');
+  }
+}
+
+const globals = globalThis as { XMLHttpRequest?: unknown };
+
+function sendXhr(
+  method: string,
+  url: string,
+  body?: string,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const xhr = new FakeXhr();
+  const done = new Promise<void>((resolve) => {
+    xhr.addEventListener('readystatechange', () => {
+      if (xhr.readyState === 4) resolve();
+    });
+  });
+  xhr.open(method, url);
+  for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+  xhr.send(body);
+  return done;
+}
+
+describe('NetworkInterceptor', () => {
+  let interceptor: NetworkInterceptor;
+  let originalXhr: unknown;
+  let originalOpen: FakeXhr['open'];
+  let originalSend: FakeXhr['send'];
+
+  beforeEach(() => {
+    originalXhr = globals.XMLHttpRequest;
+    originalOpen = FakeXhr.prototype.open;
+    originalSend = FakeXhr.prototype.send;
+    globals.XMLHttpRequest = FakeXhr;
+    FakeXhr.next = { status: 200 };
+    FakeXhr.emitsLoadEnd = true;
+  });
+
+  afterEach(() => {
+    interceptor?.uninstall();
+    globals.XMLHttpRequest = originalXhr;
+  });
+
+  it('records requests with status, timing and sizes', async () => {
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+    FakeXhr.next = {
+      status: 201,
+      body: '{"id":1}',
+      headers: { 'content-type': 'application/json' },
+    };
+
+    await sendXhr('post', 'https://api.example.com/items?page=2', 'payload');
+
+    const [entry] = interceptor.getEntries();
+    expect(entry).toMatchObject({
+      initiator: 'xhr',
+      method: 'POST',
+      url: 'https://api.example.com/items?page=2',
+      status: 201,
+      requestSize: 7,
+      responseSize: 8,
+    });
+    expect(entry!.durationMs).toBeGreaterThanOrEqual(0);
+    expect(entry!.requestBody).toBeUndefined();
+    expect(entry!.responseBody).toBeUndefined();
+  });
+
+  it('records failed and aborted requests', async () => {
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+
+    FakeXhr.next = { status: 0 };
+    await sendXhr('GET', 'https://api.example.com/offline');
+
+    const xhr = new FakeXhr();
+    xhr.open('GET', 'https://api.example.com/slow');
+    xhr.send();
+    xhr.abort();
+
+    FakeXhr.next = { status: 200, timedOut: true };
+    await sendXhr('GET', 'https://api.example.com/stuck');
+
+    expect(interceptor.getEntries()).toMatchObject([
+      { url: 'https://api.example.com/offline', error: 'Network error' },
+      { url: 'https://api.example.com/slow', error: 'Aborted' },
+      { url: 'https://api.example.com/stuck', error: 'Timed out' },
+    ]);
+  });
+
+  it('labels aborted requests on React Native versions without loadend', async () => {
+    FakeXhr.emitsLoadEnd = false;
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+
+    const xhr = new FakeXhr();
+    xhr.open('GET', 'https://api.example.com/slow');
+    xhr.send();
+    xhr.abort();
+    expect(interceptor.getEntries()).toEqual([]);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(interceptor.getEntries()).toMatchObject([
+      { url: 'https://api.example.com/slow', error: 'Aborted' },
+    ]);
+  });
+
+  it('keeps bodies and redacted headers only when enabled', async () => {
+    interceptor = new NetworkInterceptor({ captureBodies: true, captureHeaders: true });
+    interceptor.install();
+    FakeXhr.next = {
+      status: 200,
+      body: 'ok',
+      headers: { 'content-type': 'text/plain', 'Set-Cookie': 'sid=1' },
+    };
+
+    await sendXhr('POST', 'https://api.example.com/login', 'hello', {
+      Authorization: 'Bearer abc',
+      'X-Client': 'app',
+    });
+
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      requestBody: 'hello',
+      responseBody: 'ok',
+      requestHeaders: { authorization: '[REDACTED]', 'x-client': 'app' },
+      responseHeaders: { 'content-type': 'text/plain', 'set-cookie': '[REDACTED]' },
+    });
+  });
+
+  it('redacts sensitive query parameters', async () => {
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+
+    await sendXhr('GET', 'https://api.example.com/me?access_token=abc&lang=en');
+
+    expect(interceptor.getEntries()[0]!.url).toBe(
+      'https://api.example.com/me?access_token=[REDACTED]&lang=en',
+    );
+  });
+
+  it('skips the destination traffic, ignored URLs and requests while paused', async () => {
+    const destination: DestinationAdapter = Object.assign(new MockAdapter(), {
+      requestUrls: () => [
+        'https://api.linear.app/graphql',
+        'https://storage.example.com/signed/abc',
+      ],
+    });
+    interceptor = new NetworkInterceptor({ ignoreUrls: ['/analytics'], destination });
+    interceptor.install();
+
+    await sendXhr('POST', 'https://api.linear.app/graphql');
+    await sendXhr('PUT', 'https://storage.example.com/signed/abc?signature=x');
+    await sendXhr('POST', 'https://example.com/analytics');
+    interceptor.setPaused(true);
+    await sendXhr('GET', 'https://api.example.com/while-open');
+    interceptor.setPaused(false);
+    await sendXhr('GET', 'https://api.example.com/after');
+
+    expect(interceptor.getEntries().map((entry) => entry.url)).toEqual([
+      'https://api.example.com/after',
+    ]);
+  });
+
+  it('keeps only the most recent requests', async () => {
+    interceptor = new NetworkInterceptor({ maxRequests: 2 });
+    interceptor.install();
+
+    for (const path of ['a', 'b', 'c']) {
+      await sendXhr('GET', `https://api.example.com/${path}`);
+    }
+
+    expect(interceptor.getEntries().map((entry) => entry.url)).toEqual([
+      'https://api.example.com/b',
+      'https://api.example.com/c',
+    ]);
+  });
+
+  it('exposes the requests as network context', async () => {
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+    await sendXhr('GET', 'https://api.example.com/a');
+
+    expect(interceptor.name).toBe('network');
+    expect(interceptor.platform).toBe('react-native');
+    const context = await interceptor.collect();
+    expect(context.network?.requests).toHaveLength(1);
+  });
+
+  it('restores the original methods on uninstall', () => {
+    interceptor = new NetworkInterceptor();
+    interceptor.install();
+    expect(FakeXhr.prototype.send).not.toBe(originalSend);
+
+    interceptor.uninstall();
+
+    expect(FakeXhr.prototype.open).toBe(originalOpen);
+    expect(FakeXhr.prototype.send).toBe(originalSend);
+  });
+});
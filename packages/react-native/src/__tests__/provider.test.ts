@@ -184,6 +184,52 @@ describe('flowReducer', () => {
     expect(next.data.context).toBe(context);
   });
 
+  // ---- Consent ----
+
+  it('CAPTURE_DONE with needsConsent transitions capturing -> consent', () => {
+    const state: FlowState = { step: 'capturing', data: {} };
+    const next = flowReducer(state, {
+      type: 'CAPTURE_DONE',
+      captureResult: {
+        imageData: 'base64',
+        dimensions: { width: 390, height: 844 },
+        mimeType: 'image/png',
+      },
+      context: {},
+      needsConsent: true,
+    });
+    expect(next.step).toBe('consent');
+  });
+
+  it('CONSENT_GRANTED transitions consent -> annotating and keeps the record', () => {
+    const state: FlowState = { step: 'consent', data: { context: {} } };
+    const consent = { granted: true, version: '2', timestamp: '2026-01-01T00:00:00Z' };
+    const next = flowReducer(state, { type: 'CONSENT_GRANTED', consent });
+    expect(next.step).toBe('annotating');
+    expect(next.data.consent).toBe(consent);
+    expect(next.data.context).toEqual({});
+
+    // The record survives re-annotation.
+    const form: FlowState = { step: 'form', data: next.data };
+    expect(flowReducer(form, { type: 'RE_ANNOTATE' }).data.consent).toBe(consent);
+  });
+
+  it('CONSENT_DENIED transitions consent -> idle', () => {
+    const state: FlowState = { step: 'consent', data: { context: {} } };
+    const next = flowReducer(state, { type: 'CONSENT_DENIED' });
+    expect(next.step).toBe('idle');
+    expect(next.data).toEqual({});
+  });
+
+  it('CONSENT_GRANTED outside the consent step is a no-op', () => {
+    const state: FlowState = { step: 'annotating', data: {} };
+    const next = flowReducer(state, {
+      type: 'CONSENT_GRANTED',
+      consent: { granted: true, version: '1', timestamp: 't' },
+    });
+    expect(next).toBe(state);
+  });
+
   // ---- CAPTURE_ERROR ----
 
   it('CAPTURE_ERROR transitions capturing -> error', () => {
@@ -301,6 +347,53 @@ describe('flowReducer', () => {
     expect(next.data.annotatedScreenshot).toBe('a');
   });
 
+  // ---- SUBMIT_STATUS ----
+
+  it('SUBMIT_STATUS updates the progress label while submitting', () => {
+    const state: FlowState = {
+      step: 'submitting',
+      data: { annotatedScreenshot: 'a', originalScreenshot: 'b' },
+    };
+    const next = flowReducer(state, {
+      type: 'SUBMIT_STATUS',
+      status: 'Retrying (2/3)...',
+    });
+    expect(next.step).toBe('submitting');
+    expect(next.data.submitStatus).toBe('Retrying (2/3)...');
+  });
+
+  it('SUBMIT_STATUS is ignored outside of submitting', () => {
+    const state: FlowState = { step: 'form', data: {} };
+    const next = flowReducer(state, { type: 'SUBMIT_STATUS', status: 'x' });
+    expect(next).toBe(state);
+  });
+
+  // ---- SUBMIT_QUEUED ----
+
+  it('SUBMIT_QUEUED transitions submitting -> error and marks the report queued', () => {
+    const state: FlowState = {
+      step: 'submitting',
+      data: { annotatedScreenshot: 'a', originalScreenshot: 'b' },
+    };
+    const next = flowReducer(state, {
+      type: 'SUBMIT_QUEUED',
+      error: 'Saved offline',
+    });
+    expect(next.step).toBe('error');
+    expect(next.data.error).toBe('Saved offline');
+    expect(next.data.queued).toBe(true);
+  });
+
+  it('RETRY after SUBMIT_QUEUED resets instead of resubmitting', () => {
+    const state: FlowState = {
+      step: 'error',
+      data: { annotatedScreenshot: 'a', originalScreenshot: 'b', queued: true },
+    };
+    const next = flowReducer(state, { type: 'RETRY' });
+    expect(next.step).toBe('idle');
+    expect(next.data).toEqual({});
+  });
+
   // ---- RETRY ----
 
   it('RETRY from error with form data goes back to form', () => {
@@ -479,6 +572,7 @@ describe('UseShakeNbakeResult type shape', () => {
   it('compiles with correct shape', () => {
     const mockResult: UseShakeNbakeResult = {
       trigger: vi.fn(),
+      submitReport: vi.fn().mockResolvedValue({ url: '', id: '', success: true }),
       isOpen: false,
       currentStep: 'idle',
       config: {
@@ -493,6 +587,7 @@ describe('UseShakeNbakeResult type shape', () => {
     };
 
     expect(typeof mockResult.trigger).toBe('function');
+    expect(typeof mockResult.submitReport).toBe('function');
     expect(mockResult.isOpen).toBe(false);
     expect(mockResult.currentStep).toBe('idle');
     expect(mockResult.config.enabled).toBe(true);
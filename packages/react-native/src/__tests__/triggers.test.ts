@@ -87,3 +87,92 @@ describe('ShakeTrigger', () => {
     warnSpy.mockRestore();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Tests for ErrorTrigger
+// ---------------------------------------------------------------------------
+
+import { ErrorTrigger } from '../triggers/error.js';
+
+describe('ErrorTrigger', () => {
+  type Handler = (error: unknown, isFatal?: boolean) => void;
+  let currentHandler: Handler | undefined;
+  const originalHandler = vi.fn<Handler>();
+
+  beforeEach(() => {
+    currentHandler = originalHandler;
+    originalHandler.mockClear();
+    (globalThis as Record<string, unknown>)['ErrorUtils'] = {
+      getGlobalHandler: () => currentHandler,
+      setGlobalHandler: (handler: Handler) => {
+        currentHandler = handler;
+      },
+    };
+  });
+
+  it('reports uncaught errors as crashes and chains the previous handler', () => {
+    const trigger = new ErrorTrigger();
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    const error = new TypeError('undefined is not a function');
+    currentHandler!(error, true);
+
+    expect(onTrigger).toHaveBeenCalledWith({
+      title: 'undefined is not a function',
+      description: error.stack,
+      severity: 'critical',
+      category: 'crash',
+      metadata: { errorSource: 'global-handler', isFatal: true },
+    });
+    expect(originalHandler).toHaveBeenCalledWith(error, true);
+  });
+
+  it('throttles, ignores patterns and marks auto mode as headless', () => {
+    const trigger = new ErrorTrigger({ mode: 'auto', ignore: ['Network request failed'] });
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    currentHandler!(new Error('Network request failed'));
+    currentHandler!(new Error('first'));
+    currentHandler!(new Error('second'));
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(onTrigger.mock.calls[0]![0]).toMatchObject({ title: 'first', headless: true });
+    expect(originalHandler).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not throttle after an error the session ignored', () => {
+    const trigger = new ErrorTrigger();
+    const onTrigger = vi.fn().mockReturnValueOnce(false).mockReturnValue(true);
+    trigger.activate(onTrigger);
+
+    currentHandler!(new Error('while the form was open'));
+    currentHandler!(new Error('after it closed'));
+    currentHandler!(new Error('throttled'));
+
+    expect(onTrigger).toHaveBeenCalledTimes(2);
+    expect(onTrigger.mock.calls[1]![0]).toMatchObject({ title: 'after it closed' });
+  });
+
+  it('restores the previous handler on deactivate', () => {
+    const trigger = new ErrorTrigger();
+    trigger.activate(vi.fn());
+    expect(currentHandler).not.toBe(originalHandler);
+
+    trigger.deactivate();
+    expect(currentHandler).toBe(originalHandler);
+  });
+
+  it('does nothing without ErrorUtils', () => {
+    delete (globalThis as Record<string, unknown>)['ErrorUtils'];
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const trigger = new ErrorTrigger();
+    trigger.activate(vi.fn());
+    trigger.deactivate();
+
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
@@ -19,6 +19,8 @@ import React, {
   useMemo,
 } from 'react';
 
+import { stripDataUri } from '@shakenbake/core';
+
 import type { DrawingCanvasProps, DrawingOperation, Point } from './types.js';
 import { DRAWING_COLORS, STROKE_WIDTHS } from './types.js';
 import type { DrawingColor, StrokeSize, DrawingTool } from './types.js';
@@ -427,9 +429,7 @@ export function DrawingCanvas(props: DrawingCanvasProps): React.ReactNode {
   useEffect(() => {
     if (!skia || !screenshot) return;
     try {
-      // Strip data-uri prefix if present (e.g. "data:image/png;base64,...")
-      const commaIndex = screenshot.indexOf(',');
-      const rawBase64 = commaIndex >= 0 ? screenshot.substring(commaIndex + 1) : screenshot;
+      const rawBase64 = stripDataUri(screenshot);
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const skiaAny = skia as any;
@@ -508,8 +508,7 @@ export function DrawingCanvas(props: DrawingCanvasProps): React.ReactNode {
         result: 'base64',
       });
       if (typeof raw !== 'string' || raw.length === 0) return null;
-      const commaIndex = raw.indexOf(',');
-      return commaIndex >= 0 ? raw.substring(commaIndex + 1) : raw;
+      return stripDataUri(raw);
     } catch (err) {
       // eslint-disable-next-line no-console
       console.error('[ShakeNbake] DrawingCanvas: view-shot fallback failed', err);
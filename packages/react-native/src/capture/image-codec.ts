@@ -0,0 +1,116 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — SkiaImageCodec
+// ImageCodec for the core ImagePipeline, backed by @shopify/react-native-skia.
+// ---------------------------------------------------------------------------
+
+import type { ImageCodec, ImageMimeType } from '@shakenbake/core';
+import { stripDataUri } from '@shakenbake/core';
+
+// Minimal Skia shapes — kept local so the file compiles without Skia installed.
+
+interface SkiaImage {
+  width(): number;
+  height(): number;
+  encodeToBase64(format?: number, quality?: number): string;
+}
+
+interface SkiaSurface {
+  getCanvas(): {
+    drawImageRect(
+      image: SkiaImage,
+      src: unknown,
+      dest: unknown,
+      paint: unknown,
+    ): void;
+  };
+  flush?(): void;
+  makeImageSnapshot(): SkiaImage;
+}
+
+interface SkiaModule {
+  Skia: {
+    Data: { fromBase64(base64: string): unknown };
+    Image: { MakeImageFromEncoded(data: unknown): SkiaImage | null };
+    Surface: {
+      MakeOffscreen?(width: number, height: number): SkiaSurface | null;
+      Make?(width: number, height: number): SkiaSurface | null;
+    };
+    Paint(): unknown;
+    XYWHRect(x: number, y: number, width: number, height: number): unknown;
+  };
+}
+
+/** Skia's `ImageFormat` enum values. */
+const SKIA_FORMATS: Record<ImageMimeType, number> = {
+  'image/jpeg': 3,
+  'image/png': 4,
+  'image/webp': 6,
+};
+
+/**
+ * Decodes and re-encodes screenshots with Skia. The module is a peer
+ * dependency loaded at runtime; without it every call rejects and the
+ * pipeline sends screenshots unchanged.
+ */
+export class SkiaImageCodec implements ImageCodec {
+  private lastSource: string | null = null;
+  private lastImage: SkiaImage | null = null;
+
+  async getDimensions(image: string): Promise<{ width: number; height: number }> {
+    const decoded = await this.decode(image);
+    return { width: decoded.width(), height: decoded.height() };
+  }
+
+  async encode(
+    image: string,
+    options: {
+      width: number;
+      height: number;
+      mimeType: ImageMimeType;
+      quality: number;
+    },
+  ): Promise<string> {
+    const { Skia } = await loadSkia();
+    const decoded = await this.decode(image);
+
+    const surface =
+      Skia.Surface.MakeOffscreen?.(options.width, options.height) ??
+      Skia.Surface.Make?.(options.width, options.height) ??
+      null;
+    if (!surface) throw new Error('Could not create an offscreen Skia surface');
+
+    surface.getCanvas().drawImageRect(
+      decoded,
+      Skia.XYWHRect(0, 0, decoded.width(), decoded.height()),
+      Skia.XYWHRect(0, 0, options.width, options.height),
+      Skia.Paint(),
+    );
+    surface.flush?.();
+
+    const base64 = surface
+      .makeImageSnapshot()
+      .encodeToBase64(
+        SKIA_FORMATS[options.mimeType],
+        Math.round(options.quality * 100),
+      );
+    return `data:${options.mimeType};base64,${base64}`;
+  }
+
+  private async decode(image: string): Promise<SkiaImage> {
+    if (this.lastSource === image && this.lastImage) return this.lastImage;
+
+    const { Skia } = await loadSkia();
+    const decoded = Skia.Image.MakeImageFromEncoded(
+      Skia.Data.fromBase64(stripDataUri(image)),
+    );
+    if (!decoded) throw new Error('Could not decode image');
+
+    this.lastSource = image;
+    this.lastImage = decoded;
+    return decoded;
+  }
+}
+
+async function loadSkia(): Promise<SkiaModule> {
+  return (await import('@shopify/react-native-skia')) as unknown as SkiaModule;
+}
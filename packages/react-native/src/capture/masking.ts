@@ -0,0 +1,249 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — Private view masking
+//
+// Tracks views wrapped in <ShakeNbakePrivate> and blacks out their on-screen
+// rectangles on a captured screenshot using Skia.
+// ---------------------------------------------------------------------------
+
+import type { MaskedRegion } from '@shakenbake/core';
+import { stripDataUri } from '@shakenbake/core';
+
+/** A native view that can report its position relative to the window. */
+export interface MeasurableView {
+  measureInWindow(
+    callback: (x: number, y: number, width: number, height: number) => void,
+  ): void;
+  /** Fails when `relativeTo` is not an ancestor of this view. */
+  measureLayout?(
+    relativeTo: MeasurableView,
+    onSuccess: (x: number, y: number, width: number, height: number) => void,
+    onFail: () => void,
+  ): void;
+}
+
+/** A rectangle in window coordinates (points). */
+export interface WindowRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PrivateViewEntry {
+  ref: { current: MeasurableView | null };
+  label: string;
+}
+
+/** How long a single `measureInWindow` call may take before capture fails. */
+const MEASURE_TIMEOUT_MS = 1000;
+
+/**
+ * Registry of private views, shared by the provider, every
+ * `<ShakeNbakePrivate>` and the capture plugin.
+ *
+ * Views are measured with `measureInWindow` at capture time rather than on
+ * layout, so the rectangles reflect the current scroll position of any
+ * enclosing ScrollView/FlatList. A `Modal` is a separate native window that
+ * the root screenshot does not contain, so views inside one are skipped.
+ */
+export class PrivateViewRegistry {
+  private readonly entries = new Set<PrivateViewEntry>();
+
+  /** Registers a view; returns a function that unregisters it. */
+  register(
+    ref: { current: MeasurableView | null },
+    label = 'ShakeNbakePrivate',
+  ): () => void {
+    const entry: PrivateViewEntry = { ref, label };
+    this.entries.add(entry);
+    return () => {
+      this.entries.delete(entry);
+    };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Measures every mounted private view. Throws when a view cannot be
+   * measured, so a screenshot is never taken without its masks. With a
+   * `root`, views outside it (e.g. in a Modal) are left out: their window
+   * coordinates would mask an unrelated area of the root screenshot.
+   */
+  async measure(root?: MeasurableView | null): Promise<Array<WindowRect & { label: string }>> {
+    const rects = await Promise.all(
+      [...this.entries].map(async ({ ref, label }) => {
+        const view = ref.current;
+        // Not mounted (yet): nothing on screen to hide.
+        if (!view) return null;
+        if (root && !(await isInside(view, root))) return null;
+        const rect = await measureView(view);
+        return { ...rect, label };
+      }),
+    );
+    return rects.filter(
+      (rect): rect is WindowRect & { label: string } =>
+        rect !== null && rect.width > 0 && rect.height > 0,
+    );
+  }
+}
+
+/** Measures a view in window coordinates. */
+export function measureView(view: MeasurableView): Promise<WindowRect> {
+  return new Promise<WindowRect>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error('measureInWindow timed out')),
+      MEASURE_TIMEOUT_MS,
+    );
+    try {
+      view.measureInWindow((x, y, width, height) => {
+        clearTimeout(timer);
+        resolve({ x, y, width, height });
+      });
+    } catch (err) {
+      clearTimeout(timer);
+      reject(err);
+    }
+  });
+}
+
+/**
+ * Whether `view` is a descendant of `root`. `measureLayout` fails for views
+ * outside it; views that cannot tell are assumed inside.
+ */
+function isInside(view: MeasurableView, root: MeasurableView): Promise<boolean> {
+  if (typeof view.measureLayout !== 'function') return Promise.resolve(true);
+  return new Promise<boolean>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error('measureLayout timed out')),
+      MEASURE_TIMEOUT_MS,
+    );
+    const settle = (inside: boolean): void => {
+      clearTimeout(timer);
+      resolve(inside);
+    };
+    try {
+      view.measureLayout!(root, () => settle(true), () => settle(false));
+    } catch (err) {
+      clearTimeout(timer);
+      reject(err);
+    }
+  });
+}
+
+/**
+ * Converts window rectangles into image pixels relative to the captured
+ * root view, clipping them to the image and dropping those off-screen.
+ */
+export function toImageRegions(
+  rects: Array<WindowRect & { label: string }>,
+  root: WindowRect,
+  image: { width: number; height: number },
+): MaskedRegion[] {
+  if (root.width <= 0 || root.height <= 0) return [];
+  const sx = image.width / root.width;
+  const sy = image.height / root.height;
+
+  const regions: MaskedRegion[] = [];
+  for (const rect of rects) {
+    const left = Math.max(0, Math.floor((rect.x - root.x) * sx));
+    const top = Math.max(0, Math.floor((rect.y - root.y) * sy));
+    const right = Math.min(image.width, Math.ceil((rect.x - root.x + rect.width) * sx));
+    const bottom = Math.min(image.height, Math.ceil((rect.y - root.y + rect.height) * sy));
+    if (right <= left || bottom <= top) continue;
+    regions.push({
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      selector: rect.label,
+    });
+  }
+  return regions;
+}
+
+// ---------------------------------------------------------------------------
+// Skia drawing
+// ---------------------------------------------------------------------------
+
+// Minimal Skia shapes — kept local so the file compiles without Skia installed.
+
+interface SkiaImage {
+  width(): number;
+  height(): number;
+  encodeToBase64(format?: unknown, quality?: number): string;
+}
+
+interface SkiaCanvas {
+  drawImage(image: SkiaImage, x: number, y: number): void;
+  drawRect(rect: unknown, paint: unknown): void;
+}
+
+interface SkiaSurface {
+  getCanvas(): SkiaCanvas;
+  flush?(): void;
+  makeImageSnapshot(): SkiaImage;
+}
+
+interface SkiaApi {
+  Data: { fromBase64(base64: string): unknown };
+  Image: { MakeImageFromEncoded(data: unknown): SkiaImage | null };
+  Surface: {
+    MakeOffscreen?(width: number, height: number): SkiaSurface | null;
+    Make?(width: number, height: number): SkiaSurface | null;
+  };
+  Paint(): { setColor(color: unknown): void };
+  Color(color: string): unknown;
+  XYWHRect(x: number, y: number, width: number, height: number): unknown;
+}
+
+/**
+ * Blacks out private views on a base64 PNG screenshot.
+ *
+ * @param base64 - The captured image (raw base64 or data URI).
+ * @param rects - Private view rectangles in window coordinates.
+ * @param root - The captured root view, in window coordinates.
+ */
+export async function maskScreenshot(
+  base64: string,
+  rects: Array<WindowRect & { label: string }>,
+  root: WindowRect,
+): Promise<{ imageData: string; maskedRegions: MaskedRegion[] }> {
+  const mod = (await import('@shopify/react-native-skia')) as unknown as {
+    Skia: SkiaApi;
+  };
+  const Skia = mod.Skia;
+
+  const image = Skia.Image.MakeImageFromEncoded(
+    Skia.Data.fromBase64(stripDataUri(base64)),
+  );
+  if (!image) throw new Error('Could not decode screenshot');
+
+  const size = { width: image.width(), height: image.height() };
+  const maskedRegions = toImageRegions(rects, root, size);
+  if (maskedRegions.length === 0) return { imageData: base64, maskedRegions };
+
+  const surface =
+    Skia.Surface.MakeOffscreen?.(size.width, size.height) ??
+    Skia.Surface.Make?.(size.width, size.height) ??
+    null;
+  if (!surface) throw new Error('Could not create an offscreen Skia surface');
+
+  const canvas = surface.getCanvas();
+  canvas.drawImage(image, 0, 0);
+  const paint = Skia.Paint();
+  paint.setColor(Skia.Color('black'));
+  for (const region of maskedRegions) {
+    canvas.drawRect(
+      Skia.XYWHRect(region.x, region.y, region.width, region.height),
+      paint,
+    );
+  }
+  surface.flush?.();
+
+  return {
+    imageData: surface.makeImageSnapshot().encodeToBase64(),
+    maskedRegions,
+  };
+}
@@ -1,11 +1,14 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/react-native — ViewShotCapture plugin
 // Captures a screenshot of the app using react-native-view-shot.
+// Views wrapped in <ShakeNbakePrivate> are blacked out before it is returned.
 // ---------------------------------------------------------------------------
 
 import type { CapturePlugin, CaptureResult, Platform } from '@shakenbake/core';
 import { ShakeNbakeError } from '@shakenbake/core';
 import type { RefObject } from 'react';
+import { maskScreenshot, measureView } from './masking.js';
+import type { MeasurableView, PrivateViewRegistry, WindowRect } from './masking.js';
 
 /**
  * Minimal interface for the react-native-view-shot captureRef function.
@@ -53,6 +56,7 @@ export class ViewShotCapture implements CapturePlugin {
   readonly platform: Platform = 'react-native';
 
   private viewRef: RefObject<unknown> | null;
+  private privateViews: PrivateViewRegistry | null = null;
 
   constructor(viewRef?: RefObject<unknown>) {
     this.viewRef = viewRef ?? null;
@@ -67,6 +71,15 @@ export class ViewShotCapture implements CapturePlugin {
     this.viewRef = ref;
   }
 
+  /**
+   * Set the registry of `<ShakeNbakePrivate>` views to black out. When any
+   * are mounted, Skia is required; without it capture fails rather than
+   * returning an unmasked screenshot.
+   */
+  setPrivateViews(registry: PrivateViewRegistry): void {
+    this.privateViews = registry;
+  }
+
   async capture(): Promise<CaptureResult> {
     // --- resolve captureRef function ---
     // Try require() first (works in monorepo/dev-client runtime where Metro
@@ -128,8 +141,34 @@ export class ViewShotCapture implements CapturePlugin {
       );
     }
 
+    // Measure private views right before capturing so the rectangles match
+    // the current scroll position.
+    let privateRects: Awaited<ReturnType<PrivateViewRegistry['measure']>> = [];
+    let rootRect: WindowRect = { x: 0, y: 0, ...dimensions };
+    try {
+      if (this.privateViews && this.privateViews.size > 0) {
+        const root = this.viewRef.current as Partial<MeasurableView> | null;
+        const measurable = typeof root?.measureInWindow === 'function';
+        privateRects = await this.privateViews.measure(
+          measurable ? (root as MeasurableView) : null,
+        );
+        // The root view may not start at the window origin (status bar,
+        // navigation chrome), so masks are placed relative to it.
+        if (privateRects.length > 0 && measurable) {
+          rootRect = await measureView(root as MeasurableView);
+        }
+      }
+    } catch (err) {
+      throw new ShakeNbakeError(
+        '[ViewShotCapture] Could not measure private views; screenshot not taken.',
+        'UPLOAD_FAILED',
+        { originalError: err },
+      );
+    }
+
+    let base64: string;
     try {
-      const base64 = await Promise.race([
+      base64 = await Promise.race([
         captureRef(this.viewRef, {
           format: 'png',
           quality: 1,
@@ -140,15 +179,6 @@ export class ViewShotCapture implements CapturePlugin {
           setTimeout(() => reject(new Error('captureRef timeout after 8s')), 8000),
         ),
       ]);
-
-      return {
-        imageData: base64,
-        dimensions: {
-          width: dimensions.width,
-          height: dimensions.height,
-        },
-        mimeType: 'image/png',
-      };
     } catch (err) {
       throw new ShakeNbakeError(
         '[ViewShotCapture] Screenshot capture failed.',
@@ -156,5 +186,32 @@ export class ViewShotCapture implements CapturePlugin {
         { originalError: err },
       );
     }
+
+    const result: CaptureResult = {
+      imageData: base64,
+      dimensions: {
+        width: dimensions.width,
+        height: dimensions.height,
+      },
+      mimeType: 'image/png',
+    };
+    if (privateRects.length === 0) return result;
+
+    try {
+      const masked = await maskScreenshot(base64, privateRects, rootRect);
+      result.imageData = masked.imageData;
+      if (masked.maskedRegions.length > 0) {
+        result.maskedRegions = masked.maskedRegions;
+      }
+      return result;
+    } catch (err) {
+      // Never hand out a screenshot with private views visible.
+      throw new ShakeNbakeError(
+        '[ViewShotCapture] Could not mask private views. ' +
+          'Install @shopify/react-native-skia: npx expo install @shopify/react-native-skia',
+        'UPLOAD_FAILED',
+        { originalError: err },
+      );
+    }
   }
 }
@@ -0,0 +1,143 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — Breadcrumbs
+// Records touches on tracked views, navigation and AppState changes so
+// reports show what the user did before the bug.
+// ---------------------------------------------------------------------------
+
+import type { BreadcrumbBuffer } from '@shakenbake/core';
+import { defaultBreadcrumbs } from '@shakenbake/core';
+
+/** Configuration for the breadcrumb tracker. */
+export interface BreadcrumbTrackerOptions {
+  /** Where breadcrumbs are recorded (default: the shared core buffer). */
+  buffer?: BreadcrumbBuffer;
+  /** Record foreground/background changes (default: true). */
+  appState?: boolean;
+}
+
+/**
+ * Minimal navigation state shape shared by React Navigation and Expo
+ * Router. Defined locally to avoid depending on either.
+ */
+export interface NavigationStateLike {
+  index?: number;
+  routes: Array<{ name: string; state?: NavigationStateLike }>;
+}
+
+interface AppStateModule {
+  currentState?: string;
+  addEventListener(
+    type: 'change',
+    listener: (state: string) => void,
+  ): { remove(): void };
+}
+
+/**
+ * Records the user's trail in a {@link BreadcrumbBuffer}. The provider
+ * installs one and hands it to `<ShakeNbakeTrack>` views.
+ *
+ * Call {@link install} to begin listening for AppState changes and
+ * {@link uninstall} to stop.
+ */
+export class BreadcrumbTracker {
+  private readonly buffer: BreadcrumbBuffer;
+  private readonly trackAppState: boolean;
+
+  private subscription: { remove(): void } | null = null;
+  private appState: string | undefined;
+  private installed = false;
+
+  constructor(options: BreadcrumbTrackerOptions = {}) {
+    this.buffer = options.buffer ?? defaultBreadcrumbs;
+    this.trackAppState = options.appState !== false;
+  }
+
+  /** Begin recording AppState changes. */
+  async install(): Promise<void> {
+    if (this.installed) return;
+    this.installed = true;
+    if (!this.trackAppState) return;
+
+    let AppState: AppStateModule | undefined;
+    try {
+      const mod = (await import('react-native')) as unknown as { AppState?: AppStateModule };
+      AppState = mod.AppState;
+    } catch {
+      // react-native not available — only touches and navigation are recorded.
+    }
+    // Uninstalled while the import was pending, or no AppState.
+    if (!this.installed || typeof AppState?.addEventListener !== 'function') return;
+
+    this.appState = AppState.currentState;
+    this.subscription = AppState.addEventListener('change', (next) => {
+      if (next === this.appState) return;
+      const from = this.appState;
+      this.appState = next;
+      this.buffer.add({
+        type: 'app-state',
+        message: `App became ${next}`,
+        data: { ...(from ? { from } : {}), to: next },
+      });
+    });
+  }
+
+  /** Stop recording AppState changes. */
+  uninstall(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+    this.installed = false;
+  }
+
+  /** Records a touch on a tracked view. */
+  recordTouch(name: string, data?: Record<string, unknown>): void {
+    this.buffer.add({
+      type: 'touch',
+      message: `Tapped ${name}`,
+      data: { ...data, name },
+    });
+  }
+
+  /** Records a navigation state change; see {@link recordNavigationState}. */
+  recordNavigation(state: NavigationStateLike | undefined): void {
+    recordNavigationState(state, this.buffer);
+  }
+}
+
+/**
+ * Records the focused route of a navigation state as a breadcrumb when it
+ * changed. Route params are left out; they often carry ids or personal data.
+ *
+ * @example
+ * ```tsx
+ * <NavigationContainer onStateChange={(state) => recordNavigationState(state)}>
+ * ```
+ */
+export function recordNavigationState(
+  state: NavigationStateLike | undefined,
+  buffer: BreadcrumbBuffer = defaultBreadcrumbs,
+): void {
+  const to = focusedRouteName(state);
+  if (!to) return;
+
+  const from = buffer.last('navigation')?.data?.['to'];
+  if (from === to) return;
+
+  buffer.add({
+    type: 'navigation',
+    message: `Navigated to ${to}`,
+    data: { ...(typeof from === 'string' ? { from } : {}), to },
+  });
+}
+
+/** Name of the deepest focused route, e.g. the active tab inside a stack. */
+function focusedRouteName(state: NavigationStateLike | undefined): string | undefined {
+  let current = state;
+  let name: string | undefined;
+  while (current && current.routes.length > 0) {
+    const route = current.routes[current.index ?? current.routes.length - 1];
+    if (!route) break;
+    name = route.name;
+    current = route.state;
+  }
+  return name;
+}
@@ -24,6 +24,7 @@ import type {
   Platform,
 } from '@shakenbake/core';
 import { redactContext } from '@shakenbake/core';
+import type { PiiScrubber, RedactRule } from '@shakenbake/core';
 
 // ---------------------------------------------------------------------------
 // Helper: safely dynamic-import a module; returns undefined on failure.
@@ -294,20 +295,28 @@ async function collectLocale(): Promise<LocaleInfo> {
 /** Options for configuring the device context collector. */
 export interface DeviceContextCollectorOptions {
   /**
-   * Dot-path patterns of fields to redact from collected context.
-   * E.g. `["device.deviceName", "locale"]` removes the device name and entire locale section.
+   * Path patterns of fields to redact from collected context.
+   * E.g. `["device.deviceName", "locale"]` removes the device name and entire locale section;
+   * `{ path: "device.deviceName", mask: "***" }` masks it instead.
    */
-  redactFields?: string[];
+  redactFields?: RedactRule[];
+  /**
+   * When provided, personal data in app/navigation fields is replaced with
+   * placeholders (see `privacy.stripPersonalData`).
+   */
+  piiScrubber?: PiiScrubber;
 }
 
 export class DeviceContextCollector implements ContextCollector {
   readonly name = 'device';
   readonly platform: Platform = 'react-native';
 
-  private readonly redactFields: string[];
+  private readonly redactFields: RedactRule[];
+  private readonly piiScrubber?: PiiScrubber;
 
   constructor(options?: DeviceContextCollectorOptions) {
     this.redactFields = options?.redactFields ?? [];
+    this.piiScrubber = options?.piiScrubber;
   }
 
   async collect(): Promise<Partial<DeviceContext>> {
@@ -363,10 +372,14 @@ export class DeviceContextCollector implements ContextCollector {
       accessibility,
     };
 
+    const scrubbed = this.piiScrubber
+      ? this.piiScrubber.scrubContext(context)
+      : context;
+
     if (this.redactFields.length > 0) {
-      return redactContext(context, this.redactFields);
+      return redactContext(scrubbed, this.redactFields);
     }
 
-    return context;
+    return scrubbed;
   }
 }
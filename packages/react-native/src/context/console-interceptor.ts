@@ -0,0 +1,289 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — ConsoleInterceptor
+// Ring buffers of recent console output, uncaught JS errors and unhandled
+// promise rejections, exposed as a context collector.
+// ---------------------------------------------------------------------------
+
+import type {
+  ConsoleInfo,
+  ContextCollector,
+  DeviceContext,
+  Platform,
+} from '@shakenbake/core';
+import { formatConsoleArgs, formatErrorStack, serializeValue } from '@shakenbake/core';
+
+/** A single captured console entry. */
+export interface ConsoleEntry {
+  level: string;
+  message: string;
+  timestamp: string;
+  stack?: string;
+}
+
+/** Configuration for the console interceptor. */
+export interface ConsoleInterceptorConfig {
+  /** Maximum number of log/info/warn/debug entries to retain. Default: `50`. */
+  maxLogs?: number;
+  /** Maximum number of error and rejection entries to retain. Default: `20`. */
+  maxErrors?: number;
+  /** Record uncaught errors from `ErrorUtils`. Default: `true`. */
+  globalErrors?: boolean;
+  /** Record unhandled promise rejections (Hermes only). Default: `true`. */
+  promiseRejections?: boolean;
+}
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'debug' | 'error';
+
+const CONSOLE_METHODS: ConsoleMethod[] = ['log', 'info', 'warn', 'debug', 'error'];
+
+/** React Native's global error handler signature. */
+type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+/** Minimal shape of the `ErrorUtils` global installed by React Native. */
+interface ErrorUtilsLike {
+  getGlobalHandler(): GlobalErrorHandler | undefined;
+  setGlobalHandler(handler: GlobalErrorHandler): void;
+}
+
+/** Minimal shape of Hermes' promise rejection tracker. */
+interface HermesInternalLike {
+  enablePromiseRejectionTracker?(options: {
+    allRejections: boolean;
+    onUnhandled: (id: number, rejection: unknown) => void;
+    onHandled: (id: number) => void;
+  }): void;
+}
+
+function getErrorUtils(): ErrorUtilsLike | undefined {
+  const errorUtils = (globalThis as { ErrorUtils?: ErrorUtilsLike }).ErrorUtils;
+  return typeof errorUtils?.setGlobalHandler === 'function' ? errorUtils : undefined;
+}
+
+function getHermesInternal(): HermesInternalLike | undefined {
+  return (globalThis as { HermesInternal?: HermesInternalLike }).HermesInternal;
+}
+
+function isDev(): boolean {
+  return (globalThis as { __DEV__?: boolean }).__DEV__ === true;
+}
+
+/**
+ * Intercepts `console.log`, `info`, `warn`, `debug` and `error`, uncaught
+ * errors passed to the `ErrorUtils` global handler and, on Hermes, unhandled
+ * promise rejections. Entries are kept in fixed-size ring buffers and
+ * collected as the `console` section of the report.
+ *
+ * The previous global error handler is always called afterwards, so the red
+ * box and other crash reporters keep working. Hermes allows only one
+ * rejection tracker, so this one replaces React Native's and repeats its
+ * "Possible Unhandled Promise Rejection" warning in development.
+ *
+ * Call {@link install} to begin intercepting and {@link uninstall} to restore
+ * the original console methods and global handler.
+ */
+export class ConsoleInterceptor implements ContextCollector {
+  readonly name = 'console';
+  readonly platform: Platform = 'react-native';
+
+  private readonly maxLogs: number;
+  private readonly maxErrors: number;
+  private readonly globalErrors: boolean;
+  private readonly promiseRejections: boolean;
+
+  private logs: ConsoleEntry[] = [];
+  private errors: ConsoleEntry[] = [];
+  private rejections: ConsoleEntry[] = [];
+  /** Unhandled rejections by Hermes id, so late handling can drop them. */
+  private pendingRejections = new Map<number, ConsoleEntry>();
+
+  private originals: Partial<Record<ConsoleMethod, (...args: unknown[]) => void>> = {};
+  private wrapped: Partial<Record<ConsoleMethod, (...args: unknown[]) => void>> = {};
+  private errorHandler: GlobalErrorHandler | null = null;
+  private previousErrorHandler: GlobalErrorHandler | undefined;
+  private rejectionTrackerEnabled = false;
+
+  private installed = false;
+
+  constructor(config?: ConsoleInterceptorConfig) {
+    this.maxLogs = config?.maxLogs ?? 50;
+    this.maxErrors = config?.maxErrors ?? 20;
+    this.globalErrors = config?.globalErrors !== false;
+    this.promiseRejections = config?.promiseRejections !== false;
+  }
+
+  /** Begin intercepting console output, global errors and rejections. */
+  install(): void {
+    if (this.installed) return;
+    this.installed = true;
+
+    for (const method of CONSOLE_METHODS) {
+      const original = console[method] as (...args: unknown[]) => void;
+      if (typeof original !== 'function') continue;
+      const wrapper = (...args: unknown[]) => {
+        if (method === 'error') {
+          this.push(this.errors, this.maxErrors, toEntry('error', args));
+        } else {
+          this.push(this.logs, this.maxLogs, toEntry(method, args));
+        }
+        original.apply(console, args);
+      };
+      this.originals[method] = original;
+      this.wrapped[method] = wrapper;
+      console[method] = wrapper;
+    }
+
+    if (this.globalErrors) this.installErrorHandler();
+    if (this.promiseRejections) this.installRejectionTracker();
+  }
+
+  /** Stop intercepting and restore the original console methods and handler. */
+  uninstall(): void {
+    if (!this.installed) return;
+
+    // Leave anything another library wrapped after us alone.
+    for (const method of CONSOLE_METHODS) {
+      const original = this.originals[method];
+      if (original && console[method] === this.wrapped[method]) console[method] = original;
+    }
+    this.originals = {};
+    this.wrapped = {};
+
+    const errorUtils = getErrorUtils();
+    if (
+      errorUtils &&
+      this.errorHandler &&
+      this.previousErrorHandler &&
+      errorUtils.getGlobalHandler() === this.errorHandler
+    ) {
+      errorUtils.setGlobalHandler(this.previousErrorHandler);
+    }
+    this.errorHandler = null;
+    this.previousErrorHandler = undefined;
+
+    // The Hermes tracker cannot be removed; its callbacks stop recording.
+    this.installed = false;
+  }
+
+  /** Return all captured entries (logs + errors + rejections). */
+  getEntries(): {
+    logs: ConsoleEntry[];
+    errors: ConsoleEntry[];
+    rejections: ConsoleEntry[];
+  } {
+    return {
+      logs: [...this.logs],
+      errors: [...this.errors],
+      rejections: [...this.rejections],
+    };
+  }
+
+  /** Clear all captured entries. */
+  clear(): void {
+    this.logs = [];
+    this.errors = [];
+    this.rejections = [];
+    this.pendingRejections.clear();
+  }
+
+  async collect(): Promise<Partial<DeviceContext>> {
+    const info: ConsoleInfo = {
+      recentLogs: this.logs.map(({ level, message, timestamp }) => ({
+        level,
+        message,
+        timestamp,
+      })),
+      recentErrors: this.errors.map(({ message, stack, timestamp }) => ({
+        message,
+        ...(stack ? { stack } : {}),
+        timestamp,
+      })),
+      unhandledRejections: this.rejections.map(({ message, timestamp }) => ({
+        reason: message,
+        timestamp,
+      })),
+    };
+    return { console: info };
+  }
+
+  // ---- Internal helpers ----
+
+  private installErrorHandler(): void {
+    const errorUtils = getErrorUtils();
+    if (!errorUtils) return;
+
+    const previous = errorUtils.getGlobalHandler();
+    const handler: GlobalErrorHandler = (error, isFatal) => {
+      if (this.installed) {
+        const entry = toEntry(isFatal ? 'fatal' : 'error', [error]);
+        this.push(this.errors, this.maxErrors, entry);
+      }
+      previous?.(error, isFatal);
+    };
+
+    this.previousErrorHandler = previous;
+    this.errorHandler = handler;
+    errorUtils.setGlobalHandler(handler);
+  }
+
+  private installRejectionTracker(): void {
+    // Enabled once per interceptor; see uninstall().
+    if (this.rejectionTrackerEnabled) return;
+    const hermes = getHermesInternal();
+    if (typeof hermes?.enablePromiseRejectionTracker !== 'function') return;
+
+    hermes.enablePromiseRejectionTracker({
+      allRejections: true,
+      onUnhandled: (id, rejection) => {
+        if (this.installed) {
+          const entry = toEntry('unhandledrejection', [rejection]);
+          this.push(this.rejections, this.maxErrors, entry);
+          this.pendingRejections.set(id, entry);
+        }
+        if (isDev()) {
+          const message =
+            rejection instanceof Error ? rejection.message : serializeValue(rejection);
+          console.warn(`Possible Unhandled Promise Rejection (id: ${String(id)}):\n${message}`);
+        }
+      },
+      onHandled: (id) => {
+        const entry = this.pendingRejections.get(id);
+        if (!entry) return;
+        this.pendingRejections.delete(id);
+        this.rejections = this.rejections.filter((e) => e !== entry);
+      },
+    });
+    this.rejectionTrackerEnabled = true;
+  }
+
+  private push(buffer: ConsoleEntry[], maxSize: number, entry: ConsoleEntry): void {
+    buffer.push(entry);
+    // Trim the oldest entry when the buffer overflows.
+    while (buffer.length > maxSize) {
+      const dropped = buffer.shift();
+      if (buffer === this.rejections) {
+        for (const [id, pending] of this.pendingRejections) {
+          if (pending === dropped) this.pendingRejections.delete(id);
+        }
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds an entry from console arguments, formatted like the web SDK's; the
+ * first Error supplies the stack.
+ */
+function toEntry(level: string, args: unknown[]): ConsoleEntry {
+  const error = args.find((arg): arg is Error => arg instanceof Error);
+  const stack = error ? formatErrorStack(error) : undefined;
+  return {
+    level,
+    message: formatConsoleArgs(args),
+    timestamp: new Date().toISOString(),
+    ...(stack ? { stack } : {}),
+  };
+}
@@ -0,0 +1,247 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — NetworkInterceptor
+// Ring buffer of recent XMLHttpRequest calls (React Native's `fetch` is
+// built on XHR), exposed as a context collector.
+// ---------------------------------------------------------------------------
+
+import type {
+  ContextCollector,
+  DestinationAdapter,
+  DeviceContext,
+  NetworkLogOptions,
+  NetworkRequest,
+  Platform,
+} from '@shakenbake/core';
+import { NetworkLog, bodySize, bodyText, parseRawHeaders } from '@shakenbake/core';
+
+/** Configuration for the network interceptor. */
+export interface NetworkInterceptorConfig extends NetworkLogOptions {
+  /** Requests to this destination's {@link DestinationAdapter.requestUrls} are not recorded. */
+  destination?: DestinationAdapter;
+}
+
+/** Response content types whose bodies are kept with `captureBodies`. */
+const TEXT_CONTENT_TYPE =
+  /^(text\/|application\/(json|xml|x-www-form-urlencoded|[\w.+-]+\+(json|xml)))/i;
+
+/** Minimal shape of React Native's XMLHttpRequest used here. */
+interface XhrLike {
+  readyState: number;
+  status: number;
+  responseType: string;
+  response: unknown;
+  responseText?: string;
+  addEventListener(type: string, listener: () => void): void;
+  getResponseHeader(name: string): string | null;
+  getAllResponseHeaders(): string | null;
+}
+
+interface XhrPrototype {
+  open(this: XhrLike, ...args: unknown[]): void;
+  send(this: XhrLike, body?: unknown): void;
+  setRequestHeader(this: XhrLike, name: string, value: string): void;
+}
+
+interface RequestInfo {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+}
+
+function getXhrPrototype(): XhrPrototype | undefined {
+  const Xhr = (globalThis as { XMLHttpRequest?: { prototype: XhrPrototype } }).XMLHttpRequest;
+  return typeof Xhr?.prototype?.send === 'function' ? Xhr.prototype : undefined;
+}
+
+/**
+ * Patches `XMLHttpRequest` to record method, URL, status, timings, sizes
+ * and (opt-in) headers and bodies of every request in a bounded
+ * {@link NetworkLog}. URLs and headers are redacted before they are stored,
+ * and the SDK's own uploads are never recorded.
+ *
+ * Register it as a context collector to add `network.requests` to reports.
+ * Call {@link install} to begin intercepting and {@link uninstall} to restore
+ * the original methods.
+ */
+export class NetworkInterceptor implements ContextCollector {
+  readonly name = 'network';
+  readonly platform: Platform = 'react-native';
+
+  private readonly log: NetworkLog;
+
+  private originals: XhrPrototype | null = null;
+  private wrapped: XhrPrototype | null = null;
+  private paused = false;
+
+  constructor(config: NetworkInterceptorConfig = {}) {
+    this.log = new NetworkLog(config, config.destination);
+  }
+
+  /** Begin intercepting XMLHttpRequest. */
+  install(): void {
+    if (this.originals) return;
+    const proto = getXhrPrototype();
+    if (!proto) return;
+
+    const originals: XhrPrototype = {
+      open: proto.open,
+      send: proto.send,
+      setRequestHeader: proto.setRequestHeader,
+    };
+    const requests = new WeakMap<XhrLike, RequestInfo>();
+    const log = this.log;
+    const shouldRecord = (url: string) => !this.paused && log.shouldRecord(url);
+
+    const wrapped: XhrPrototype = {
+      open(...args) {
+        requests.set(this, { method: String(args[0]), url: String(args[1]), headers: {} });
+        return originals.open.apply(this, args);
+      },
+
+      setRequestHeader(name, value) {
+        const info = requests.get(this);
+        if (info && log.captureHeaders) info.headers[name.toLowerCase()] = value;
+        return originals.setRequestHeader.call(this, name, value);
+      },
+
+      send(body) {
+        const info = requests.get(this);
+        if (info && shouldRecord(info.url)) {
+          track(this, info, body, log);
+        }
+        return originals.send.call(this, body);
+      },
+    };
+
+    proto.open = wrapped.open;
+    proto.send = wrapped.send;
+    proto.setRequestHeader = wrapped.setRequestHeader;
+    this.originals = originals;
+    this.wrapped = wrapped;
+  }
+
+  /** Stop intercepting and restore the original methods. */
+  uninstall(): void {
+    const proto = getXhrPrototype();
+    if (proto && this.originals && this.wrapped) {
+      // Leave methods another library wrapped after us alone.
+      if (proto.open === this.wrapped.open) proto.open = this.originals.open;
+      if (proto.send === this.wrapped.send) proto.send = this.originals.send;
+      if (proto.setRequestHeader === this.wrapped.setRequestHeader) {
+        proto.setRequestHeader = this.originals.setRequestHeader;
+      }
+    }
+    this.originals = null;
+    this.wrapped = null;
+  }
+
+  /**
+   * Pauses or resumes recording. The provider pauses while the report UI is
+   * open so uploads to other destinations are not logged either.
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /** Return all recorded requests, oldest first. */
+  getEntries(): NetworkRequest[] {
+    return this.log.getAll();
+  }
+
+  /** Clear all recorded requests. */
+  clear(): void {
+    this.log.clear();
+  }
+
+  async collect(): Promise<Partial<DeviceContext>> {
+    return { network: { requests: this.log.getAll() } };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Records `xhr` in `log` once it completes. */
+function track(xhr: XhrLike, info: RequestInfo, body: unknown, log: NetworkLog): void {
+  const startedAt = new Date().toISOString();
+  const start = Date.now();
+  const requestSize = bodySize(body);
+  const requestBody = bodyText(body);
+  let error = 'Network error';
+  let done = false;
+
+  xhr.addEventListener('abort', () => {
+    error = 'Aborted';
+  });
+  xhr.addEventListener('timeout', () => {
+    error = 'Timed out';
+  });
+
+  const finish = (): void => {
+    if (done) return;
+    done = true;
+
+    const entry: NetworkRequest = {
+      initiator: 'xhr',
+      method: info.method.toUpperCase(),
+      url: info.url,
+      startedAt,
+      durationMs: Date.now() - start,
+      ...(requestSize !== undefined ? { requestSize } : {}),
+      ...(requestBody !== undefined ? { requestBody } : {}),
+      ...(log.captureHeaders ? { requestHeaders: info.headers } : {}),
+    };
+
+    if (!xhr.status) {
+      log.add({ ...entry, error });
+      return;
+    }
+
+    const text = responseText(xhr);
+    const responseSize =
+      contentLength(xhr.getResponseHeader('content-length')) ??
+      bodySize(text ?? xhr.response);
+    log.add({
+      ...entry,
+      status: xhr.status,
+      ...(responseSize !== undefined ? { responseSize } : {}),
+      ...(text !== undefined ? { responseBody: text } : {}),
+      ...(log.captureHeaders
+        ? { responseHeaders: parseRawHeaders(xhr.getAllResponseHeaders()) }
+        : {}),
+    });
+  };
+
+  // Like the XHR spec, React Native dispatches readystatechange for DONE
+  // before abort and timeout, so the entry is written on loadend, which
+  // follows them. readystatechange is the fallback for versions without
+  // loadend, deferred until the events of the same DONE step have run.
+  xhr.addEventListener('loadend', finish);
+  xhr.addEventListener('readystatechange', () => {
+    if (xhr.readyState === 4) setTimeout(finish, 0);
+  });
+}
+
+function contentLength(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+  const length = Number(header);
+  return Number.isFinite(length) && length >= 0 ? length : undefined;
+}
+
+/** The response as text, for text and JSON responses only. */
+function responseText(xhr: XhrLike): string | undefined {
+  const contentType = xhr.getResponseHeader('content-type');
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) return undefined;
+  try {
+    if (xhr.responseType === '' || xhr.responseType === 'text') {
+      return xhr.responseText ?? (typeof xhr.response === 'string' ? xhr.response : undefined);
+    }
+    if (xhr.responseType === 'json' && xhr.response != null) {
+      return JSON.stringify(xhr.response);
+    }
+  } catch {
+    // responseText throws for other response types.
+  }
+  return undefined;
+}
@@ -6,7 +6,13 @@
 
 import { useContext } from 'react';
 
-import type { ShakeNbakeConfig } from '@shakenbake/core';
+import type {
+  ReportInput,
+  ShakeNbakeConfig,
+  SubmitReportOptions,
+  SubmitResult,
+  TriggerPayload,
+} from '@shakenbake/core';
 
 import { ShakeNbakeContext } from '../ShakeNbakeProvider.js';
 import type { FlowStep } from '../ui/state-machine.js';
@@ -15,8 +21,19 @@ import type { FlowStep } from '../ui/state-machine.js';
  * Return type for the useShakeNbake hook.
  */
 export interface UseShakeNbakeResult {
-  /** Programmatically trigger the bug-reporting flow. */
-  trigger: () => void;
+  /**
+   * Programmatically trigger the bug-reporting flow. The payload prefills
+   * the form and can add metadata or skip annotation.
+   */
+  trigger: (payload?: TriggerPayload) => void;
+  /**
+   * File a report from code without annotation or the form. Missing fields
+   * get defaults; a screenshot is captured unless `options.screenshot` is false.
+   */
+  submitReport: (
+    input?: Partial<ReportInput>,
+    options?: SubmitReportOptions,
+  ) => Promise<SubmitResult>;
   /** Whether the reporting flow is currently open (not idle). */
   isOpen: boolean;
   /** The current step in the reporting flow. */
@@ -32,8 +49,10 @@ export interface UseShakeNbakeResult {
  *
  * @example
  * ```tsx
- * const { trigger, isOpen } = useShakeNbake();
+ * const { trigger, isOpen, submitReport } = useShakeNbake();
  * // trigger() opens the bug-reporting flow programmatically
+ * // trigger({ category: 'ui', skipAnnotation: true }) opens it prefilled
+ * // submitReport({ title: 'Crash' }) files a report without any UI
  * ```
  */
 export function useShakeNbake(): UseShakeNbakeResult {
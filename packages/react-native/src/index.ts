@@ -6,12 +6,35 @@
 
 // ---- Plugins ----
 export { ShakeTrigger } from './triggers/shake.js';
+export { ErrorTrigger } from './triggers/error.js';
 export { ViewShotCapture } from './capture/screenshot.js';
+export { PrivateViewRegistry } from './capture/masking.js';
+export { SkiaImageCodec } from './capture/image-codec.js';
+export type { MeasurableView, WindowRect } from './capture/masking.js';
 export { DeviceContextCollector } from './context/collectors.js';
+export { BreadcrumbTracker, recordNavigationState } from './context/breadcrumbs.js';
+export { ConsoleInterceptor } from './context/console-interceptor.js';
+export type {
+  ConsoleEntry,
+  ConsoleInterceptorConfig,
+} from './context/console-interceptor.js';
+export { NetworkInterceptor } from './context/network-interceptor.js';
+export type { NetworkInterceptorConfig } from './context/network-interceptor.js';
+export type {
+  BreadcrumbTrackerOptions,
+  NavigationStateLike,
+} from './context/breadcrumbs.js';
+
+// ---- Storage ----
+export { RNAsyncStorage } from './storage/async-storage.js';
 
 // ---- Provider & Hook ----
 export { ShakeNbakeProvider, ShakeNbakeContext } from './ShakeNbakeProvider.js';
 export type { ShakeNbakeProviderProps } from './ShakeNbakeProvider.js';
+export { ShakeNbakePrivate } from './ui/ShakeNbakePrivate.js';
+export type { ShakeNbakePrivateProps } from './ui/ShakeNbakePrivate.js';
+export { ShakeNbakeTrack } from './ui/ShakeNbakeTrack.js';
+export type { ShakeNbakeTrackProps } from './ui/ShakeNbakeTrack.js';
 export { useShakeNbake } from './hooks/useShakeNbake.js';
 export type { UseShakeNbakeResult } from './hooks/useShakeNbake.js';
 
@@ -273,16 +273,27 @@ declare module 'expo-screen-orientation' {
 }
 
 declare module '@react-native-community/netinfo' {
+  interface NetInfoState {
+    type: string;
+    isConnected: boolean | null;
+    isInternetReachable: boolean | null;
+  }
   const NetInfo: {
-    fetch(): Promise<{
-      type: string;
-      isConnected: boolean | null;
-      isInternetReachable: boolean | null;
-    }>;
+    fetch(): Promise<NetInfoState>;
+    addEventListener(listener: (state: NetInfoState) => void): () => void;
   };
   export default NetInfo;
 }
 
+declare module '@react-native-async-storage/async-storage' {
+  const AsyncStorage: {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+  };
+  export default AsyncStorage;
+}
+
 // ---------------------------------------------------------------------------
 // @shopify/react-native-skia — Skia 2.x ambient declarations
 // ---------------------------------------------------------------------------
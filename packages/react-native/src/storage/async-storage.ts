@@ -0,0 +1,54 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — RNAsyncStorage
+// KeyValueStorage backed by @react-native-async-storage/async-storage.
+// ---------------------------------------------------------------------------
+
+import type { KeyValueStorage } from '@shakenbake/core';
+import { MemoryStorage } from '@shakenbake/core';
+
+/**
+ * Persistent {@link KeyValueStorage} for React Native.
+ *
+ * `@react-native-async-storage/async-storage` is an **optional peer
+ * dependency** loaded lazily on first use. When it is not installed the
+ * storage silently falls back to memory, so queued reports only survive
+ * until the app is restarted.
+ */
+export class RNAsyncStorage implements KeyValueStorage {
+  private backend: Promise<KeyValueStorage> | null = null;
+
+  async getItem(key: string): Promise<string | null> {
+    return (await this.resolve()).getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await (await this.resolve()).setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await (await this.resolve()).removeItem(key);
+  }
+
+  private resolve(): Promise<KeyValueStorage> {
+    if (!this.backend) {
+      this.backend = (async (): Promise<KeyValueStorage> => {
+        try {
+          const mod = await import('@react-native-async-storage/async-storage');
+          const AsyncStorage = (mod.default ?? mod) as KeyValueStorage;
+          if (typeof AsyncStorage.getItem === 'function') {
+            return AsyncStorage;
+          }
+        } catch {
+          // Not installed — fall through to the in-memory store.
+        }
+        // eslint-disable-next-line no-console
+        console.warn(
+          '[ShakeNbake] @react-native-async-storage/async-storage not installed; ' +
+            'offline reports will not survive an app restart.',
+        );
+        return new MemoryStorage();
+      })();
+    }
+    return this.backend;
+  }
+}
@@ -0,0 +1,93 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — ErrorTrigger plugin
+// Opens (or auto-submits) a crash report for uncaught JS errors via
+// ErrorUtils.setGlobalHandler.
+// ---------------------------------------------------------------------------
+
+import type {
+  ErrorTriggerOptions,
+  Platform,
+  TriggerPayload,
+  TriggerPlugin,
+} from '@shakenbake/core';
+import { ErrorReportGate } from '@shakenbake/core';
+
+/** React Native's global error handler signature. */
+type GlobalErrorHandler = (error: unknown, isFatal?: boolean) => void;
+
+/**
+ * Minimal shape of the `ErrorUtils` global installed by React Native.
+ * Defined locally to avoid depending on react-native types.
+ */
+interface ErrorUtilsLike {
+  getGlobalHandler(): GlobalErrorHandler | undefined;
+  setGlobalHandler(handler: GlobalErrorHandler): void;
+}
+
+function getErrorUtils(): ErrorUtilsLike | undefined {
+  const errorUtils = (globalThis as { ErrorUtils?: ErrorUtilsLike }).ErrorUtils;
+  return typeof errorUtils?.setGlobalHandler === 'function' ? errorUtils : undefined;
+}
+
+/**
+ * TriggerPlugin that fires for uncaught JS errors.
+ *
+ * Wraps the current `ErrorUtils` global handler: the error is turned into a
+ * crash payload (`category: 'crash'`, message as title, stack as
+ * description, `metadata.isFatal` as reported) and then passed on to the previous handler, so the red box
+ * and crash reporting of other tools keep working. Fatal errors usually end
+ * the app right after, so `mode: 'auto'` with the offline queue is the
+ * safer choice in release builds.
+ */
+export class ErrorTrigger implements TriggerPlugin {
+  readonly name = 'error';
+  readonly platform: Platform = 'react-native';
+
+  private readonly gate: ErrorReportGate;
+  private handler: GlobalErrorHandler | null = null;
+  private previousHandler: GlobalErrorHandler | undefined;
+
+  constructor(options?: ErrorTriggerOptions) {
+    this.gate = new ErrorReportGate(options);
+  }
+
+  activate(onTrigger: (payload?: TriggerPayload) => boolean | void): void {
+    this.deactivate();
+
+    const errorUtils = getErrorUtils();
+    if (!errorUtils) {
+      // eslint-disable-next-line no-console
+      console.warn('[ErrorTrigger] ErrorUtils is not available; error trigger disabled');
+      return;
+    }
+
+    const previous = errorUtils.getGlobalHandler();
+    const handler: GlobalErrorHandler = (error, isFatal) => {
+      try {
+        const payload = this.gate.toPayload(error, {
+          errorSource: 'global-handler',
+          isFatal: isFatal === true,
+        });
+        if (payload && onTrigger(payload) !== false) this.gate.markReported();
+      } catch {
+        // Never let reporting get in the way of the original handler.
+      }
+      previous?.(error, isFatal);
+    };
+
+    this.previousHandler = previous;
+    this.handler = handler;
+    errorUtils.setGlobalHandler(handler);
+  }
+
+  deactivate(): void {
+    if (!this.handler) return;
+    const errorUtils = getErrorUtils();
+    // Only restore when nobody wrapped our handler in the meantime.
+    if (errorUtils && errorUtils.getGlobalHandler() === this.handler && this.previousHandler) {
+      errorUtils.setGlobalHandler(this.previousHandler);
+    }
+    this.handler = null;
+    this.previousHandler = undefined;
+  }
+}
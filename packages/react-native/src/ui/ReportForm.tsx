@@ -12,12 +12,15 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 
 import type {
+  Attachment,
   Severity,
   Category,
   ReportInput,
   SubmitResult,
   DeviceContext,
+  TriggerPayload,
 } from '@shakenbake/core';
+import { createAttachment, toDataUri } from '@shakenbake/core';
 
 import { validateTitle, isFormValid } from './form-validation.js';
 
@@ -58,11 +61,7 @@ export interface ReportFormProps {
   /** Collected device context (read-only display) */
   context: Partial<DeviceContext>;
   /** Called when the user submits the form */
-  onSubmit: (
-    input: ReportInput & {
-      attachments?: Array<{ base64: string; mimeType?: string; filename?: string }>;
-    },
-  ) => Promise<SubmitResult>;
+  onSubmit: (input: ReportInput) => Promise<SubmitResult>;
   /** Called when the user cancels */
   onCancel: () => void;
   /** Called when the user wants to re-annotate the screenshot */
@@ -73,6 +72,10 @@ export interface ReportFormProps {
   theme?: 'light' | 'dark';
   /** Accent color for primary buttons */
   accentColor?: string;
+  /** Overrides the submitting label (e.g. "Retrying (2/3)...") */
+  submitStatus?: string;
+  /** Prefilled fields from the trigger that opened the flow */
+  initialValues?: TriggerPayload;
 }
 
 // ---------------------------------------------------------------------------
@@ -193,6 +196,8 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
     pickImages,
     theme = 'dark',
     accentColor,
+    submitStatus,
+    initialValues,
   } = props;
 
   // ---- Module loading ----
@@ -219,15 +224,13 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
   }, []);
 
   // ---- Form state ----
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [severity, setSeverity] = useState<Severity>('medium');
-  const [category, setCategory] = useState<Category>('bug');
+  const [title, setTitle] = useState(initialValues?.title ?? '');
+  const [description, setDescription] = useState(initialValues?.description ?? '');
+  const [severity, setSeverity] = useState<Severity>(initialValues?.severity ?? 'medium');
+  const [category, setCategory] = useState<Category>(initialValues?.category ?? 'bug');
   const [titleError, setTitleError] = useState<string | null>(null);
   const [contextExpanded, setContextExpanded] = useState(false);
-  const [attachments, setAttachments] = useState<
-    Array<{ base64: string; mimeType?: string; filename?: string }>
-  >([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
 
   // ---- Submission state ----
   const [submitting, setSubmitting] = useState(false);
@@ -256,9 +259,7 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
     setSubmitError(null);
 
     try {
-      const input: ReportInput & {
-        attachments?: Array<{ base64: string; mimeType?: string; filename?: string }>;
-      } = {
+      const input: ReportInput = {
         title: title.trim(),
         description: description.trim(),
         severity,
@@ -292,7 +293,16 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
     try {
       const picked = await pickImages();
       if (!picked || picked.length === 0) return;
-      const sanitized = picked.filter((item) => Boolean(item?.base64));
+      const sanitized = picked
+        .filter((item) => Boolean(item?.base64))
+        .map((item) =>
+          createAttachment({
+            data: item.base64,
+            // Host pickers return images; PNG when the type is not reported.
+            mimeType: item.mimeType ?? 'image/png',
+            filename: item.filename,
+          }),
+        );
       if (sanitized.length === 0) return;
       setAttachments((prev) => [...prev, ...sanitized].slice(0, 3));
     } catch (err) {
@@ -769,9 +779,7 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
                   React.createElement(Image, {
                     key: `attachment-${String(index)}`,
                     style: styles.attachmentThumb,
-                    source: {
-                      uri: `data:${item.mimeType || 'image/png'};base64,${item.base64}`,
-                    },
+                    source: { uri: toDataUri(item.data ?? '', item.mimeType) },
                     resizeMode: 'cover',
                   }),
                 ),
@@ -945,7 +953,7 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
             React.createElement(
               Text,
               { style: styles.submitButtonText },
-              submitting ? 'Submitting...' : 'Submit Report',
+              submitting ? (submitStatus ?? 'Submitting...') : 'Submit Report',
             ),
           ),
         ),
@@ -963,7 +971,7 @@ export function ReportForm(props: ReportFormProps): React.ReactNode {
             React.createElement(
               Text,
               { style: styles.loadingText },
-              'Submitting report...',
+              submitStatus ?? 'Submitting report...',
             ),
           )
         : null,
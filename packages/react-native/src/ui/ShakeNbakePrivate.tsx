@@ -0,0 +1,85 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — ShakeNbakePrivate
+//
+// Wrap sensitive UI (card numbers, balances, personal data) in
+// <ShakeNbakePrivate> and it is blacked out in bug-report screenshots.
+// ---------------------------------------------------------------------------
+
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+import type { MeasurableView, PrivateViewRegistry } from '../capture/masking.js';
+
+/**
+ * Registry of private views for the current provider. Null outside a
+ * ShakeNbakeProvider, in which case `<ShakeNbakePrivate>` is a plain View.
+ */
+export const PrivateViewContext = createContext<PrivateViewRegistry | null>(null);
+
+interface RNModule {
+  View: React.ComponentType<Record<string, unknown>>;
+}
+
+export interface ShakeNbakePrivateProps {
+  children?: React.ReactNode;
+  style?: Record<string, unknown> | Array<Record<string, unknown>>;
+  /** Recorded with the masked region in the report metadata. */
+  label?: string;
+  testID?: string;
+}
+
+/**
+ * Marks its children as private: their on-screen area is blacked out on the
+ * captured screenshot before the annotation step.
+ *
+ * Works inside ScrollViews (positions are measured at capture time). Views
+ * inside a Modal are not part of the screenshot and are skipped.
+ *
+ * @example
+ * ```tsx
+ * <ShakeNbakePrivate label="card-number">
+ *   <Text>{card.number}</Text>
+ * </ShakeNbakePrivate>
+ * ```
+ */
+export function ShakeNbakePrivate(props: ShakeNbakePrivateProps): React.ReactNode {
+  const { children, style, label, testID } = props;
+  const registry = useContext(PrivateViewContext);
+  const viewRef = useRef<MeasurableView | null>(null);
+
+  // ---- Module loading ----
+  const [rn, setRn] = useState<RNModule | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load(): Promise<void> {
+      try {
+        const mod = await import('react-native');
+        if (!cancelled) setRn(mod as unknown as RNModule);
+      } catch {
+        // react-native not available — children render unwrapped
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // ---- Registration ----
+  useEffect(() => {
+    if (!registry || !rn) return;
+    return registry.register(viewRef, label);
+  }, [registry, rn, label]);
+
+  if (!rn) {
+    return React.createElement(React.Fragment, null, children);
+  }
+
+  // collapsable={false} keeps the View in the native hierarchy on Android,
+  // otherwise it could be flattened away and never measured.
+  return React.createElement(
+    rn.View,
+    { ref: viewRef, style, collapsable: false, testID },
+    children,
+  );
+}
@@ -0,0 +1,82 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/react-native — ShakeNbakeTrack
+//
+// Wrap buttons and other touch targets in <ShakeNbakeTrack name="..."> and
+// taps on them are recorded as breadcrumbs for the next bug report.
+// ---------------------------------------------------------------------------
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import type { BreadcrumbTracker } from '../context/breadcrumbs.js';
+
+/**
+ * Breadcrumb tracker of the current provider. Null outside a
+ * ShakeNbakeProvider or with breadcrumbs disabled, in which case
+ * `<ShakeNbakeTrack>` records nothing.
+ */
+export const BreadcrumbContext = createContext<BreadcrumbTracker | null>(null);
+
+interface RNModule {
+  View: React.ComponentType<Record<string, unknown>>;
+}
+
+export interface ShakeNbakeTrackProps {
+  /** Shown in the breadcrumb, e.g. `"checkout-button"`. */
+  name: string;
+  /** Extra data recorded with every tap. Avoid personal data. */
+  data?: Record<string, unknown>;
+  children?: React.ReactNode;
+  style?: Record<string, unknown> | Array<Record<string, unknown>>;
+  testID?: string;
+}
+
+/**
+ * Records a `touch` breadcrumb whenever a touch on its children ends.
+ * Children keep handling the touch as usual.
+ *
+ * @example
+ * ```tsx
+ * <ShakeNbakeTrack name="checkout-button">
+ *   <Button title="Pay" onPress={pay} />
+ * </ShakeNbakeTrack>
+ * ```
+ */
+export function ShakeNbakeTrack(props: ShakeNbakeTrackProps): React.ReactNode {
+  const { name, data, children, style, testID } = props;
+  const tracker = useContext(BreadcrumbContext);
+
+  // ---- Module loading ----
+  const [rn, setRn] = useState<RNModule | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load(): Promise<void> {
+      try {
+        const mod = await import('react-native');
+        if (!cancelled) setRn(mod as unknown as RNModule);
+      } catch {
+        // react-native not available — children render unwrapped
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleTouchEnd = useCallback(() => {
+    tracker?.recordTouch(name, data);
+  }, [tracker, name, data]);
+
+  if (!rn) {
+    return React.createElement(React.Fragment, null, children);
+  }
+
+  // onTouchEnd does not take part in the responder system, so children
+  // still receive presses.
+  return React.createElement(
+    rn.View,
+    { style, testID, onTouchEnd: handleTouchEnd },
+    children,
+  );
+}
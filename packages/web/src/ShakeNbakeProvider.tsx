@@ -1,7 +1,8 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/web — ShakeNbakeProvider
-// Top-level React context provider that orchestrates the full bug-report flow:
-//   idle -> triggered -> capturing -> annotating -> form -> submitting -> success/error -> idle
+// Top-level React context provider that renders the bug-report flow driven
+// by a core ReportSession:
+//   idle -> triggered -> capturing -> [consent] -> annotating -> form -> submitting -> success/error -> idle
 // ---------------------------------------------------------------------------
 
 'use client';
@@ -11,48 +12,51 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
-  useRef,
-  useState,
+  useSyncExternalStore,
 } from 'react';
 import type { ReactNode } from 'react';
 import type {
+  FlowStep,
   ShakeNbakeConfig,
-  CaptureResult,
-  DeviceContext,
   ReportInput,
+  SubmitReportOptions,
   SubmitResult,
-  BugReport,
+  TriggerPayload,
+} from '@shakenbake/core';
+import {
+  BreadcrumbCollector,
+  describeConsentSections,
+  MemoryStorage,
+  redactContext,
+  ReportSession,
 } from '@shakenbake/core';
-import { PluginRegistry, ShakeNbakeError } from '@shakenbake/core';
 
 import { KeyboardTrigger } from './triggers/keyboard.js';
 import { FABTrigger } from './triggers/fab.js';
+import { FrustrationTrigger } from './triggers/frustration.js';
 import { Html2CanvasCapture } from './capture/screenshot.js';
+import { CanvasImageCodec } from './capture/image-codec.js';
 import { BrowserContextCollector } from './context/collectors.js';
 import { ConsoleInterceptor } from './context/console-interceptor.js';
+import { BreadcrumbTracker } from './context/breadcrumbs.js';
+import { NetworkInterceptor } from './context/network-interceptor.js';
+import { IndexedDBStorage } from './storage/indexeddb.js';
 import { DrawingCanvas } from './annotate/DrawingCanvas.js';
 import { ReportForm } from './ui/ReportForm.js';
+import { ConsentPrompt } from './ui/ConsentPrompt.js';
 
-// ---------------------------------------------------------------------------
-// State machine types
-// ---------------------------------------------------------------------------
-
-export type FlowStep =
-  | 'idle'
-  | 'triggered'
-  | 'capturing'
-  | 'annotating'
-  | 'form'
-  | 'submitting'
-  | 'success'
-  | 'error';
+export type { FlowStep } from '@shakenbake/core';
 
 // ---------------------------------------------------------------------------
 // Context value
 // ---------------------------------------------------------------------------
 
 export interface ShakeNbakeContextValue {
-  trigger: () => void;
+  trigger: (payload?: TriggerPayload) => void;
+  submitReport: (
+    input?: Partial<ReportInput>,
+    options?: SubmitReportOptions,
+  ) => Promise<SubmitResult>;
   isOpen: boolean;
   currentStep: FlowStep;
   config: ShakeNbakeConfig;
@@ -77,75 +81,76 @@ export function ShakeNbakeProvider({
   config,
   children,
 }: ShakeNbakeProviderProps): React.JSX.Element {
-  // -- State --
-  const [step, setStep] = useState<FlowStep>('idle');
-  const [captureResult, setCaptureResult] = useState<CaptureResult | null>(null);
-  const [annotatedScreenshot, setAnnotatedScreenshot] = useState<string>('');
-  const [originalScreenshot, setOriginalScreenshot] = useState<string>('');
-  const [deviceContext, setDeviceContext] = useState<Partial<DeviceContext>>({});
-  const [submitResult, setSubmitResult] = useState<SubmitResult | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string>('');
-  const [errorRetryable, setErrorRetryable] = useState<boolean>(false);
-
-  // -- Refs for plugin instances (survive re-renders) --
-  const registryRef = useRef<PluginRegistry | null>(null);
-  const consoleInterceptorRef = useRef<ConsoleInterceptor | null>(null);
-
-  // Resolve theme: 'auto' maps to OS preference; default to 'dark'.
-  const resolvedTheme = useMemo((): 'light' | 'dark' => {
-    const uiTheme = config.ui?.theme;
-    if (uiTheme === 'light') return 'light';
-    if (uiTheme === 'dark') return 'dark';
-    // auto or undefined: try to match OS preference
-    if (uiTheme === 'auto' && typeof window !== 'undefined') {
-      return window.matchMedia('(prefers-color-scheme: light)').matches
-        ? 'light'
-        : 'dark';
+  // -- Session: owns the flow, capture, context, build and submit --
+  const {
+    session,
+    consoleInterceptor,
+    networkInterceptor,
+    breadcrumbTracker,
+    frustrationTrigger,
+    fabTrigger,
+  } = useMemo(() => {
+    const s = new ReportSession({
+      config,
+      imageCodec: new CanvasImageCodec(),
+      storage: IndexedDBStorage.isSupported()
+        ? new IndexedDBStorage()
+        : new MemoryStorage(),
+    });
+    const interceptor = new ConsoleInterceptor();
+    const network = config.networkCapture?.enabled
+      ? new NetworkInterceptor({ ...config.networkCapture, destination: config.destination })
+      : null;
+    const breadcrumbsEnabled = config.breadcrumbs?.enabled !== false;
+    const tracker = breadcrumbsEnabled
+      ? new BreadcrumbTracker({ destination: config.destination })
+      : null;
+    const { registry } = s;
+
+    // Register keyboard trigger unless turned off.
+    const keyboard = config.ui?.keyboard;
+    if (keyboard?.enabled !== false) {
+      registry.registerTrigger(new KeyboardTrigger(keyboard));
     }
-    return 'dark';
-  }, [config.ui?.theme]);
-
-  const accentColor = config.ui?.accentColor ?? '#6366f1';
-
-  // -- Trigger callback (stable ref) --
-  const triggerFlow = useCallback(() => {
-    if (!config.enabled) return;
-    if (step !== 'idle') return; // already in progress
-    setStep('triggered');
-  }, [config.enabled, step]);
-
-  // -- Setup / teardown --
-  useEffect(() => {
-    if (!config.enabled) return;
-
-    const registry = new PluginRegistry();
-    registryRef.current = registry;
-
-    // Register keyboard trigger (always).
-    registry.registerTrigger(new KeyboardTrigger());
 
     // Register FAB trigger if configured.
-    if (config.ui?.showFAB) {
-      registry.registerTrigger(
-        new FABTrigger({ position: config.ui.position ?? 'bottom-right' }),
-      );
-    }
+    const fab = config.ui?.showFAB
+      ? new FABTrigger({
+          ...config.ui.fab,
+          position: config.ui.position ?? 'bottom-right',
+          accentColor: config.ui.accentColor,
+        })
+      : null;
+    if (fab) registry.registerTrigger(fab);
+
+    // Offer a report after rage clicks and error bursts, if opted in.
+    const frustration = config.frustration?.enabled
+      ? new FrustrationTrigger(config.frustration)
+      : null;
+    if (frustration) registry.registerTrigger(frustration);
 
     // Register capture plugin.
-    registry.registerCapture(new Html2CanvasCapture());
-
-    // Register console interceptor + context collector.
-    const consoleInterceptor = new ConsoleInterceptor();
-    consoleInterceptorRef.current = consoleInterceptor;
-    consoleInterceptor.install();
+    registry.registerCapture(
+      new Html2CanvasCapture({
+        maskSelectors: config.privacy?.maskSelectors,
+        maskDefaults: config.privacy?.maskDefaults,
+        maskStyle: config.privacy?.maskStyle,
+      }),
+    );
 
     registry.registerCollector(
       new BrowserContextCollector({
-        consoleInterceptor,
+        consoleInterceptor: interceptor,
+        networkInterceptor: network ?? undefined,
         redactFields: config.privacy?.redactFields,
+        piiScrubber: s.piiScrubber,
       }),
     );
 
+    if (breadcrumbsEnabled) {
+      registry.registerCollector(new BreadcrumbCollector());
+    }
+
     // Register any additional user-provided triggers.
     if (config.triggers) {
       for (const trigger of config.triggers) {
@@ -160,212 +165,207 @@ export function ShakeNbakeProvider({
       }
     }
 
-    // Activate triggers — the callback will set step to 'triggered'.
-    let cancelled = false;
-
-    const activateAll = async () => {
-      if (cancelled) return;
-      await registry.activateTriggers(() => {
-        setStep((current) => {
-          if (current !== 'idle') return current;
-          return 'triggered';
-        });
-      });
+    return {
+      session: s,
+      consoleInterceptor: interceptor,
+      networkInterceptor: network,
+      breadcrumbTracker: tracker,
+      frustrationTrigger: frustration,
+      fabTrigger: fab,
     };
+  }, [config]);
 
-    activateAll();
-
-    return () => {
-      cancelled = true;
-      registry.deactivateTriggers();
-      consoleInterceptor.uninstall();
-      registry.clear();
-      registryRef.current = null;
-      consoleInterceptorRef.current = null;
-    };
-  }, [config]); // eslint-disable-line react-hooks/exhaustive-deps
+  const subscribe = useCallback(
+    (listener: () => void) => session.subscribe(listener),
+    [session],
+  );
+  const getSnapshot = useCallback(() => session.getState(), [session]);
+  const { step, data } = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const captureResult = data.captureResult;
+  const deviceContext = data.context ?? {};
+  const annotatedScreenshot = data.annotatedScreenshot ?? '';
+  const originalScreenshot = data.originalScreenshot ?? '';
+  const submitResult = data.submitResult;
+  const submitStatus = data.submitStatus;
+  const errorMessage = data.error ?? '';
+  const errorRetryable = data.retryable === true;
+  const reportQueued = data.queued === true;
 
-  // -- Triggered -> Capturing --
-  useEffect(() => {
-    if (step !== 'triggered') return;
+  // Resolve theme: 'auto' maps to OS preference; default to 'dark'.
+  const resolvedTheme = useMemo((): 'light' | 'dark' => {
+    const uiTheme = config.ui?.theme;
+    if (uiTheme === 'light') return 'light';
+    if (uiTheme === 'dark') return 'dark';
+    // auto or undefined: try to match OS preference
+    if (uiTheme === 'auto' && typeof window !== 'undefined') {
+      return window.matchMedia('(prefers-color-scheme: light)').matches
+        ? 'light'
+        : 'dark';
+    }
+    return 'dark';
+  }, [config.ui?.theme]);
 
-    let cancelled = false;
+  const accentColor = config.ui?.accentColor ?? '#6366f1';
 
-    const doCapture = async () => {
-      setStep('capturing');
+  // Shows the number of reports waiting in the offline queue on the FAB.
+  const refreshFabBadge = useCallback(() => {
+    if (!fabTrigger || !session.queue) return;
+    session.queue.size().then(
+      (count) => fabTrigger.setBadgeCount(count),
+      () => {},
+    );
+  }, [fabTrigger, session]);
 
-      const registry = registryRef.current;
-      const capture = registry?.getCapture();
-      if (!capture) {
-        setErrorMessage('No capture plugin registered.');
-        setStep('error');
-        return;
-      }
+  // -- Setup / teardown --
+  useEffect(() => {
+    if (!config.enabled) return;
 
-      try {
-        // Collect context in parallel with capture.
-        const [result, ctx] = await Promise.all([
-          capture.capture(),
-          registry!.collectContext(),
-        ]);
-
-        if (cancelled) return;
-
-        setCaptureResult(result);
-        setDeviceContext(ctx);
-        setStep('annotating');
-      } catch (err: unknown) {
-        if (cancelled) return;
-        setErrorMessage(
-          err instanceof Error ? err.message : 'Screenshot capture failed',
-        );
-        setStep('error');
-      }
+    consoleInterceptor.install();
+    networkInterceptor?.install();
+    breadcrumbTracker?.install();
+    void session.start();
+
+    // Offline queue: resubmit anything left over from a previous session,
+    // then again whenever the browser comes back online.
+    const handleOnline = () => {
+      void session.drainQueue().then(refreshFabBadge);
     };
+    if (session.queue) {
+      window.addEventListener('online', handleOnline);
+      if (navigator.onLine !== false) handleOnline();
+    }
 
-    void doCapture();
     return () => {
-      cancelled = true;
+      window.removeEventListener('online', handleOnline);
+      session.stop();
+      // Unwrap in reverse install order so each restores the function it wrapped.
+      breadcrumbTracker?.uninstall();
+      networkInterceptor?.uninstall();
+      consoleInterceptor.uninstall();
     };
-  }, [step]);
+  }, [
+    session,
+    consoleInterceptor,
+    networkInterceptor,
+    breadcrumbTracker,
+    refreshFabBadge,
+    config.enabled,
+  ]);
+
+  // -- Keep the SDK's own UI and uploads out of the trail and network log --
+  useEffect(() => {
+    breadcrumbTracker?.setPaused(step !== 'idle');
+    frustrationTrigger?.setPaused(step !== 'idle');
+  }, [breadcrumbTracker, frustrationTrigger, step]);
+
+  // Sending also happens while idle: headless reports, auto-submitting
+  // triggers and queue drains.
+  useEffect(() => {
+    if (!networkInterceptor && !breadcrumbTracker) return;
+    const sync = () => {
+      networkInterceptor?.setPaused(step !== 'idle' || session.isSending());
+      breadcrumbTracker?.setFetchPaused(session.isSending());
+    };
+    sync();
+    return session.onSendingChange(sync);
+  }, [session, networkInterceptor, breadcrumbTracker, step]);
+
+  // -- FAB badge: unsent reports; pulse once a report is sent --
+  useEffect(() => {
+    refreshFabBadge();
+  }, [refreshFabBadge, step]);
+
+  useEffect(() => {
+    if (step === 'success') fabTrigger?.notifySubmitted();
+  }, [fabTrigger, step]);
 
   // -- Success auto-dismiss after 3 seconds --
   useEffect(() => {
     if (step !== 'success') return;
 
     const timer = setTimeout(() => {
-      resetFlow();
+      session.reset();
     }, 3000);
 
     return () => clearTimeout(timer);
-  }, [step]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  // -- Flow reset --
-  const resetFlow = useCallback(() => {
-    setStep('idle');
-    setCaptureResult(null);
-    setAnnotatedScreenshot('');
-    setOriginalScreenshot('');
-    setDeviceContext({});
-    setSubmitResult(null);
-    setErrorMessage('');
-    setErrorRetryable(false);
-  }, []);
-
-  // -- DrawingCanvas handlers --
+  }, [step, session]);
+
+  // -- Handlers --
+  const triggerFlow = useCallback(
+    (payload?: TriggerPayload) => session.trigger(payload),
+    [session],
+  );
+  const submitReport = useCallback(
+    (input?: Partial<ReportInput>, options?: SubmitReportOptions) =>
+      // A headless report may land in the offline queue.
+      session.submitReport(input, options).finally(refreshFabBadge),
+    [session, refreshFabBadge],
+  );
+  const resetFlow = useCallback(() => session.reset(), [session]);
+
+  const handleConsentAccept = useCallback(
+    () => session.grantConsent(),
+    [session],
+  );
+
+  // The denial is remembered, but the next report asks again.
+  const handleConsentDecline = useCallback(
+    () => session.denyConsent(),
+    [session],
+  );
+
   const handleAnnotationDone = useCallback(
     (annotated: string, original: string) => {
-      setAnnotatedScreenshot(annotated);
-      setOriginalScreenshot(original);
-      setStep('form');
+      session.finishAnnotation(annotated, original);
     },
-    [],
+    [session],
   );
 
-  const handleAnnotationCancel = useCallback(() => {
-    resetFlow();
-  }, [resetFlow]);
-
-  // -- ReportForm handlers --
   const handleFormSubmit = useCallback(
-    async (input: ReportInput): Promise<SubmitResult> => {
-      setStep('submitting');
-
-      try {
-        // Build minimal BugReport for the adapter.
-        const report: BugReport = {
-          id: generateId(),
-          timestamp: new Date().toISOString(),
-          title: input.title,
-          description: input.description,
-          severity: input.severity,
-          category: input.category,
-          screenshot: {
-            annotated: input.annotatedScreenshot,
-            original: input.originalScreenshot,
-            dimensions: captureResult?.dimensions ?? { width: 0, height: 0 },
-          },
-          context: {
-            platform: { os: 'unknown' },
-            device: {},
-            screen: { width: 0, height: 0 },
-            network: {},
-            battery: {},
-            locale: {},
-            app: {},
-            accessibility: {},
-            performance: {},
-            navigation: {},
-            console: {},
-            ...deviceContext,
-          } as DeviceContext,
-          customMetadata: config.customMetadata?.(),
-        };
-
-        // Create issue. The DestinationAdapter.createIssue() handles
-        // screenshot uploads internally (e.g., LinearAdapter uploads then creates).
-        const result = await config.destination.createIssue(report);
-        setSubmitResult(result);
-        setStep('success');
-        return result;
-      } catch (err: unknown) {
-        if (err instanceof ShakeNbakeError) {
-          setErrorMessage(err.message);
-          setErrorRetryable(err.retryable);
-        } else {
-          setErrorMessage(
-            err instanceof Error ? err.message : 'Failed to submit report',
-          );
-          setErrorRetryable(false);
-        }
-        setStep('error');
-        throw err; // Re-throw so the form can also display the error
-      }
-    },
-    [captureResult, deviceContext, config],
+    (input: ReportInput): Promise<SubmitResult> => session.submit(input),
+    [session],
   );
 
-  const handleFormCancel = useCallback(() => {
-    resetFlow();
-  }, [resetFlow]);
+  const handleReAnnotate = useCallback(() => session.reAnnotate(), [session]);
+  const handleErrorRetry = useCallback(() => session.retry(), [session]);
 
-  const handleReAnnotate = useCallback(() => {
-    setStep('annotating');
-  }, []);
-
-  // -- Error handlers --
-  const handleErrorRetry = useCallback(() => {
-    if (annotatedScreenshot) {
-      setStep('form');
-    } else {
-      resetFlow();
-    }
-  }, [annotatedScreenshot, resetFlow]);
-
-  const handleErrorDismiss = useCallback(() => {
-    resetFlow();
-  }, [resetFlow]);
-
-  // -- Success click to dismiss early --
-  const handleSuccessDismiss = useCallback(() => {
-    resetFlow();
-  }, [resetFlow]);
+  const handleAnnotationCancel = resetFlow;
+  const handleFormCancel = resetFlow;
+  const handleErrorDismiss = resetFlow;
+  const handleSuccessDismiss = resetFlow;
 
   // -- Context value --
   const contextValue = useMemo<ShakeNbakeContextValue>(
     () => ({
       trigger: triggerFlow,
+      submitReport,
       isOpen: step !== 'idle',
       currentStep: step,
       config,
     }),
-    [triggerFlow, step, config],
+    [triggerFlow, submitReport, step, config],
   );
 
   return (
     <ShakeNbakeContext.Provider value={contextValue}>
       {children}
 
+      {/* Consent overlay */}
+      {step === 'consent' && (
+        <ConsentPrompt
+          sections={describeConsentSections(
+            redactContext(deviceContext, config.privacy?.redactFields ?? []),
+            { customMetadata: Boolean(config.customMetadata) },
+          )}
+          version={session.consentStore?.version ?? ''}
+          onAccept={() => void handleConsentAccept()}
+          onDecline={() => void handleConsentDecline()}
+          theme={resolvedTheme}
+          accentColor={accentColor}
+        />
+      )}
+
       {/* Annotating overlay */}
       {step === 'annotating' && captureResult && (
         <DrawingCanvas
@@ -390,6 +390,8 @@ export function ShakeNbakeProvider({
           onReAnnotate={handleReAnnotate}
           theme={resolvedTheme}
           accentColor={accentColor}
+          submitStatus={submitStatus}
+          initialValues={data.payload}
         />
       )}
 
@@ -442,17 +444,54 @@ export function ShakeNbakeProvider({
             >
               Your bug report has been created successfully.
             </p>
-            {submitResult?.url && (
-              <a
-                href={submitResult.url}
-                target="_blank"
-                rel="noopener noreferrer"
-                style={{ color: accentColor, fontSize: '14px' }}
-                onClick={(e) => e.stopPropagation()}
-                data-testid="shakenbake-success-link"
+            {submitResult?.destinations && submitResult.destinations.length > 1 ? (
+              <ul
+                style={{
+                  listStyle: 'none',
+                  padding: 0,
+                  margin: 0,
+                  fontSize: '14px',
+                  textAlign: 'left',
+                }}
+                data-testid="shakenbake-success-destinations"
               >
-                View issue
-              </a>
+                {submitResult.destinations.map((destination, index) => (
+                  <li key={`${destination.adapter}-${index}`} style={{ margin: '4px 0' }}>
+                    {destination.success && destination.url ? (
+                      <a
+                        href={destination.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        style={{ color: accentColor }}
+                        onClick={(e) => e.stopPropagation()}
+                        data-testid="shakenbake-success-link"
+                      >
+                        View in {destination.adapter}
+                      </a>
+                    ) : (
+                      <span style={{ color: resolvedTheme === 'dark' ? '#aaa' : '#666' }}>
+                        {destination.adapter}:{' '}
+                        {destination.success
+                          ? 'submitted'
+                          : (destination.error ?? 'skipped')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              submitResult?.url && (
+                <a
+                  href={submitResult.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ color: accentColor, fontSize: '14px' }}
+                  onClick={(e) => e.stopPropagation()}
+                  data-testid="shakenbake-success-link"
+                >
+                  View issue
+                </a>
+              )
             )}
             <p
               style={{
@@ -508,7 +547,7 @@ export function ShakeNbakeProvider({
               {'!'}
             </div>
             <h2 style={{ fontSize: '18px', fontWeight: 600, margin: '0 0 8px 0' }}>
-              Something went wrong
+              {reportQueued ? 'Report Saved Offline' : 'Something went wrong'}
             </h2>
             <p
               style={{
@@ -568,20 +607,3 @@ export function ShakeNbakeProvider({
     </ShakeNbakeContext.Provider>
   );
 }
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function generateId(): string {
-  try {
-    return crypto.randomUUID();
-  } catch {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-      const r = (Math.random() * 16) | 0;
-      const v = c === 'x' ? r : (r & 0x3) | 0x8;
-      return v.toString(16);
-    });
-  }
-}
-
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BreadcrumbBuffer, MockAdapter } from '@shakenbake/core';
+import { BreadcrumbTracker } from '../context/breadcrumbs.js';
+
+describe('BreadcrumbTracker', () => {
+  let buffer: BreadcrumbBuffer;
+  let tracker: BreadcrumbTracker;
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = window.fetch;
+    buffer = new BreadcrumbBuffer();
+  });
+
+  afterEach(() => {
+    tracker.uninstall();
+    window.fetch = originalFetch;
+    document.body.innerHTML = '';
+    history.replaceState(null, '', '/');
+  });
+
+  function install(options = {}): void {
+    tracker = new BreadcrumbTracker({ buffer, ...options });
+    tracker.install();
+  }
+
+  it('records clicks with a selector and the element text', () => {
+    install();
+    document.body.innerHTML =
+      '<form id="checkout"><button type="button" class="btn primary"><span>Pay now</span></button></form>';
+
+    document.querySelector('span')!.click();
+
+    expect(buffer.last()).toMatchObject({
+      type: 'click',
+      message: 'Clicked form#checkout > button.btn.primary "Pay now"',
+      data: { selector: 'form#checkout > button.btn.primary', text: 'Pay now' },
+    });
+  });
+
+  it('keeps masked text and ignored elements out of the trail', () => {
+    install();
+    document.body.innerHTML =
+      '<div data-shakenbake-mask><button>4242 4242</button></div>' +
+      '<div data-shakenbake-ignore><button id="sdk">Send</button></div>';
+
+    document.querySelector('[data-shakenbake-mask] button')!.dispatchEvent(
+      new MouseEvent('click', { bubbles: true }),
+    );
+    document.getElementById('sdk')!.click();
+
+    expect(buffer.getAll()).toHaveLength(1);
+    expect(buffer.last()?.data).toEqual({ selector: 'div > button' });
+  });
+
+  it('leaves masked descendants out of the recorded text', () => {
+    install();
+    document.body.innerHTML =
+      '<button id="pay">Pay <span data-shakenbake-mask>4111 1111 1111 1111</span> now</button>';
+
+    document.getElementById('pay')!.click();
+
+    expect(buffer.last()).toMatchObject({
+      message: 'Clicked button#pay "Pay now"',
+      data: { selector: 'button#pay', text: 'Pay now' },
+    });
+    expect(JSON.stringify(buffer.getAll())).not.toContain('4111');
+  });
+
+  it('records input focus without the value', () => {
+    install();
+    document.body.innerHTML = '<input id="email" name="email" type="email" value="a@b.co">';
+
+    document.getElementById('email')!.focus();
+
+    const breadcrumb = buffer.last();
+    expect(breadcrumb).toMatchObject({
+      type: 'input',
+      message: 'Focused input#email',
+      data: { selector: 'input#email', inputType: 'email', name: 'email' },
+    });
+    expect(JSON.stringify(breadcrumb)).not.toContain('a@b.co');
+  });
+
+  it('records route changes without query strings', () => {
+    install();
+
+    history.pushState(null, '', '/cart?token=secret');
+    history.replaceState(null, '', '/cart?token=secret');
+    history.pushState(null, '', '/checkout#pay');
+
+    expect(buffer.getAll()).toEqual([
+      expect.objectContaining({ type: 'navigation', data: { from: '/', to: '/cart' } }),
+      expect.objectContaining({ message: 'Navigated to /checkout#pay' }),
+    ]);
+  });
+
+  it('records fetch calls with status and duration', async () => {
+    window.fetch = vi.fn().mockResolvedValue({ status: 404 } as Response);
+    install();
+
+    await window.fetch('https://api.example.com/items?page=2', { method: 'post' });
+
+    expect(buffer.last()).toMatchObject({
+      type: 'http',
+      message: 'POST https://api.example.com/items → 404',
+      data: { method: 'POST', url: 'https://api.example.com/items', status: 404 },
+    });
+  });
+
+  it('records failed fetch calls and rethrows', async () => {
+    window.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    install();
+
+    await expect(window.fetch('/api/items')).rejects.toThrow('Failed to fetch');
+    expect(buffer.last()).toMatchObject({
+      message: 'GET /api/items failed',
+      data: { error: 'Failed to fetch' },
+    });
+  });
+
+  it('records nothing while paused', async () => {
+    window.fetch = vi.fn().mockResolvedValue({ status: 200 } as Response);
+    install();
+    tracker.setPaused(true);
+    document.body.innerHTML = '<button>Send</button>';
+
+    document.querySelector('button')!.click();
+    await window.fetch('/upload');
+
+    expect(buffer.getAll()).toEqual([]);
+  });
+
+  it("skips the destination's own requests", async () => {
+    window.fetch = vi.fn().mockResolvedValue({ status: 200 } as Response);
+    const destination = new MockAdapter();
+    install({
+      destination: Object.assign(destination, {
+        requestUrls: () => ['https://api.linear.app/graphql', /uploads\.linear\.app/],
+      }),
+    });
+
+    await window.fetch('https://api.linear.app/graphql', { method: 'POST' });
+    await window.fetch('https://uploads.linear.app/abc?signature=x', { method: 'PUT' });
+    await window.fetch('/api/items');
+
+    expect(buffer.getAll().map((b) => b.data?.['url'])).toEqual(['/api/items']);
+  });
+
+  it('keeps clicks but not fetch calls while fetch is paused', async () => {
+    window.fetch = vi.fn().mockResolvedValue({ status: 200 } as Response);
+    install();
+    tracker.setFetchPaused(true);
+    document.body.innerHTML = '<button>Save</button>';
+
+    document.querySelector('button')!.click();
+    await window.fetch('/queue-drain');
+
+    expect(buffer.getAll().map((b) => b.type)).toEqual(['click']);
+  });
+
+  it('restores fetch and history on uninstall', () => {
+    const fetchMock = vi.fn();
+    window.fetch = fetchMock;
+    const pushState = history.pushState;
+    install();
+
+    expect(window.fetch).not.toBe(fetchMock);
+    tracker.uninstall();
+
+    expect(window.fetch).toBe(fetchMock);
+    expect(history.pushState).toBe(pushState);
+  });
+
+  it('respects disabled sources', () => {
+    install({ clicks: false, navigation: false });
+    document.body.innerHTML = '<button>Go</button>';
+
+    document.querySelector('button')!.click();
+    history.pushState(null, '', '/elsewhere');
+
+    expect(buffer.getAll()).toEqual([]);
+  });
+});
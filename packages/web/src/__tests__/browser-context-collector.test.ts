@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { BrowserContextCollector } from '../context/collectors.js';
 import { ConsoleInterceptor } from '../context/console-interceptor.js';
+import { NetworkInterceptor } from '../context/network-interceptor.js';
+import { PiiScrubber } from '@shakenbake/core';
 
 /**
  * jsdom does not implement `window.matchMedia`.  We provide a minimal stub
@@ -87,6 +89,26 @@ describe('BrowserContextCollector', () => {
     expect(typeof ctx.network!.online).toBe('boolean');
   });
 
+  it('network context includes requests when a network interceptor is provided', async () => {
+    const originalFetch = window.fetch;
+    window.fetch = vi.fn().mockResolvedValue(new Response('', { status: 503 }));
+    const interceptor = new NetworkInterceptor();
+    interceptor.install();
+    await window.fetch('/api/orders?email=jane@example.com');
+    interceptor.uninstall();
+    window.fetch = originalFetch;
+
+    const collector = new BrowserContextCollector({
+      networkInterceptor: interceptor,
+      piiScrubber: new PiiScrubber(),
+    });
+    const ctx = await collector.collect();
+
+    expect(ctx.network!.requests).toEqual([
+      expect.objectContaining({ url: '/api/orders?email=[EMAIL]', status: 503 }),
+    ]);
+  });
+
   it('locale context contains timezone', async () => {
     const collector = new BrowserContextCollector();
     const ctx = await collector.collect();
@@ -148,6 +170,24 @@ describe('BrowserContextCollector', () => {
     expect(ctx.console!.recentErrors!.length).toBeGreaterThanOrEqual(1);
   });
 
+  it('scrubs personal data from console output when a piiScrubber is provided', async () => {
+    const interceptor = new ConsoleInterceptor();
+    interceptor.install();
+    console.error('login failed for jane@example.com');
+
+    const collector = new BrowserContextCollector({
+      consoleInterceptor: interceptor,
+      piiScrubber: new PiiScrubber(),
+    });
+    const ctx = await collector.collect();
+
+    interceptor.uninstall();
+
+    const messages = ctx.console!.recentErrors!.map((e) => e.message);
+    expect(messages).toContain('login failed for [EMAIL]');
+    expect(messages.join(' ')).not.toContain('jane@example.com');
+  });
+
   it('does not throw even if a sub-collector fails', async () => {
     // Override navigator.languages to throw, simulating a broken API.
     const originalLanguages = Object.getOwnPropertyDescriptor(
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { ConsentPrompt } from '../ui/ConsentPrompt.js';
+import type { ConsentPromptProps } from '../ui/ConsentPrompt.js';
+import { describeConsentSections } from '@shakenbake/core';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function renderPrompt(
+  overrides?: Partial<ConsentPromptProps>,
+): { container: HTMLDivElement; root: ReturnType<typeof createRoot> } {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  const props: ConsentPromptProps = {
+    sections: describeConsentSections({
+      platform: { os: 'macOS' },
+      console: { recentLogs: [{ level: 'log', message: 'hi', timestamp: 't' }] },
+    }),
+    version: '3',
+    onAccept: vi.fn(),
+    onDecline: vi.fn(),
+    ...overrides,
+  };
+
+  act(() => {
+    root.render(createElement(ConsentPrompt, props));
+  });
+
+  return { container, root };
+}
+
+function queryBody(selector: string): HTMLElement | null {
+  return document.body.querySelector(selector);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ConsentPrompt', () => {
+  let container: HTMLDivElement;
+  let root: ReturnType<typeof createRoot>;
+
+  afterEach(() => {
+    act(() => {
+      root.unmount();
+    });
+    container.remove();
+  });
+
+  it('lists exactly the sections that will be sent', () => {
+    ({ container, root } = renderPrompt());
+
+    const items = Array.from(
+      document.body.querySelectorAll('[data-testid="shakenbake-consent-sections"] li'),
+    ).map((li) => li.getAttribute('data-section'));
+
+    expect(items).toEqual(['screenshot', 'platform', 'console']);
+    expect(queryBody('[data-testid="shakenbake-consent-overlay"]')!.textContent).toContain(
+      'Policy version 3',
+    );
+  });
+
+  it('calls onAccept and onDecline', () => {
+    const onAccept = vi.fn();
+    const onDecline = vi.fn();
+    ({ container, root } = renderPrompt({ onAccept, onDecline }));
+
+    act(() => {
+      queryBody('[data-testid="shakenbake-consent-accept"]')!.click();
+    });
+    act(() => {
+      queryBody('[data-testid="shakenbake-consent-decline"]')!.click();
+    });
+
+    expect(onAccept).toHaveBeenCalledTimes(1);
+    expect(onDecline).toHaveBeenCalledTimes(1);
+  });
+});
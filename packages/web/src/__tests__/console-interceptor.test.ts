@@ -8,11 +8,19 @@ describe('ConsoleInterceptor', () => {
   let origLog: typeof console.log;
   let origWarn: typeof console.warn;
   let origError: typeof console.error;
+  let origInfo: typeof console.info;
+  let origDebug: typeof console.debug;
+  let origTrace: typeof console.trace;
+  let origAssert: typeof console.assert;
 
   beforeEach(() => {
     origLog = console.log;
     origWarn = console.warn;
     origError = console.error;
+    origInfo = console.info;
+    origDebug = console.debug;
+    origTrace = console.trace;
+    origAssert = console.assert;
     interceptor = new ConsoleInterceptor();
   });
 
@@ -22,6 +30,10 @@ describe('ConsoleInterceptor', () => {
     console.log = origLog;
     console.warn = origWarn;
     console.error = origError;
+    console.info = origInfo;
+    console.debug = origDebug;
+    console.trace = origTrace;
+    console.assert = origAssert;
   });
 
   it('install intercepts console.log', () => {
@@ -125,6 +137,17 @@ describe('ConsoleInterceptor', () => {
     expect(console.log).toBe(originalLog);
   });
 
+  it('uninstall leaves methods wrapped by someone else in place', () => {
+    const originalWarn = console.warn;
+    interceptor.install();
+    const laterWrapper = vi.fn();
+    console.error = laterWrapper;
+
+    interceptor.uninstall();
+    expect(console.error).toBe(laterWrapper);
+    expect(console.warn).toBe(originalWarn);
+  });
+
   it('uninstall is safe to call when not installed', () => {
     expect(() => interceptor.uninstall()).not.toThrow();
   });
@@ -155,4 +178,148 @@ describe('ConsoleInterceptor', () => {
     const entries2 = interceptor.getEntries();
     expect(entries2.logs.length).toBe(1);
   });
+
+  it('intercepts info, debug and trace', () => {
+    console.info = vi.fn();
+    console.debug = vi.fn();
+    console.trace = vi.fn();
+    interceptor.install();
+
+    console.info('i');
+    console.debug('d');
+    console.trace('t');
+
+    const { logs } = interceptor.getEntries();
+    expect(logs.map((e) => e.level)).toEqual(['info', 'debug', 'trace']);
+    expect(logs[2]?.stack).toBeDefined();
+  });
+
+  it('records failed assertions only', () => {
+    const assertSpy = vi.fn();
+    console.assert = assertSpy;
+    interceptor.install();
+
+    console.assert(true, 'fine');
+    console.assert(false, 'cart total is %d', -1);
+    console.assert(false);
+
+    expect(interceptor.getEntries().errors.map((e) => e.message)).toEqual([
+      'Assertion failed: cart total is -1',
+      'Assertion failed',
+    ]);
+    expect(assertSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps error stacks and cause chains', () => {
+    console.error = vi.fn();
+    interceptor.install();
+    const error = new Error('Checkout failed', { cause: new TypeError('bad total') });
+
+    console.error('Payment:', error);
+
+    const [entry] = interceptor.getEntries().errors;
+    expect(entry?.message).toBe(
+      'Payment: Error: Checkout failed\nCaused by: TypeError: bad total',
+    );
+    expect(entry?.stack).toContain('Caused by: TypeError: bad total');
+  });
+
+  it('substitutes format specifiers', () => {
+    console.log = vi.fn();
+    interceptor.install();
+
+    console.log('%s logged in %d times', 'ada', 3);
+
+    expect(interceptor.getEntries().logs[0]?.message).toBe('ada logged in 3 times');
+  });
+
+  it('survives circular and huge values', () => {
+    console.log = vi.fn();
+    interceptor = new ConsoleInterceptor({ format: { maxLength: 50 } });
+    interceptor.install();
+    const circular: Record<string, unknown> = {};
+    circular['self'] = circular;
+
+    console.log(circular);
+    console.log('x'.repeat(100));
+
+    const { logs } = interceptor.getEntries();
+    expect(logs[0]?.message).toBe('{"self":"[Circular]"}');
+    expect(logs[1]?.message).toBe(`${'x'.repeat(50)}… (100 chars)`);
+  });
+
+  it('collapses repeated messages with a count', () => {
+    console.warn = vi.fn();
+    interceptor.install();
+
+    console.warn('retrying');
+    console.warn('retrying');
+    console.warn('retrying');
+    console.warn('gave up');
+
+    const { logs } = interceptor.getEntries();
+    expect(logs.map((e) => [e.message, e.count])).toEqual([
+      ['retrying', 3],
+      ['gave up', undefined],
+    ]);
+  });
+
+  it('records uncaught errors', () => {
+    interceptor.install();
+    const error = new RangeError('Invalid array length');
+
+    window.dispatchEvent(new ErrorEvent('error', { error, message: error.message }));
+    window.dispatchEvent(
+      new ErrorEvent('error', {
+        message: 'Script error.',
+        filename: 'https://cdn.example.com/app.js',
+        lineno: 3,
+        colno: 7,
+      }),
+    );
+
+    expect(interceptor.getEntries().errors).toMatchObject([
+      { level: 'uncaught', message: 'RangeError: Invalid array length' },
+      {
+        level: 'uncaught',
+        message: 'Script error.',
+        stack: '    at https://cdn.example.com/app.js:3:7',
+      },
+    ]);
+  });
+
+  it('records resources that fail to load', () => {
+    interceptor.install();
+    const img = document.createElement('img');
+    img.src = 'https://cdn.example.com/logo.png?token=abc';
+    document.body.appendChild(img);
+
+    img.dispatchEvent(new Event('error'));
+    img.remove();
+
+    expect(interceptor.getEntries().errors).toMatchObject([
+      {
+        level: 'resource',
+        message: 'Failed to load <img> https://cdn.example.com/logo.png?token=[REDACTED]',
+      },
+    ]);
+  });
+
+  it('skips error events when disabled', () => {
+    interceptor = new ConsoleInterceptor({ captureErrors: false, captureResourceErrors: false });
+    interceptor.install();
+
+    window.dispatchEvent(new ErrorEvent('error', { message: 'ignored' }));
+
+    expect(interceptor.getEntries().errors).toEqual([]);
+  });
+
+  it('uninstall stops listening for error events', () => {
+    interceptor.install();
+    interceptor.uninstall();
+
+    window.dispatchEvent(new ErrorEvent('error', { message: 'after' }));
+
+    expect(interceptor.getEntries().errors).toEqual([]);
+  });
 });
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorTrigger } from '../triggers/error.js';
+
+function rejection(reason: unknown): Event {
+  // jsdom has no PromiseRejectionEvent constructor.
+  return Object.assign(new Event('unhandledrejection'), { reason });
+}
+
+describe('ErrorTrigger', () => {
+  let trigger: ErrorTrigger;
+
+  beforeEach(() => {
+    trigger = new ErrorTrigger({ throttleMs: 0 });
+  });
+
+  afterEach(() => {
+    trigger.deactivate();
+  });
+
+  it('has correct name and platform', () => {
+    expect(trigger.name).toBe('error');
+    expect(trigger.platform).toBe('web');
+  });
+
+  it('fires a crash payload for uncaught errors', () => {
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    const error = new Error('Cannot read properties of undefined');
+    window.dispatchEvent(new ErrorEvent('error', { error, message: error.message }));
+
+    expect(onTrigger).toHaveBeenCalledWith({
+      title: 'Cannot read properties of undefined',
+      description: error.stack,
+      severity: 'critical',
+      category: 'crash',
+      metadata: { errorSource: 'error' },
+    });
+  });
+
+  it('fires for unhandled promise rejections', () => {
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    window.dispatchEvent(rejection('timeout while loading cart'));
+
+    expect(onTrigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'timeout while loading cart',
+        category: 'crash',
+        metadata: { errorSource: 'unhandledrejection' },
+      }),
+    );
+  });
+
+  it('ignores matching and default-ignored errors', () => {
+    trigger = new ErrorTrigger({ throttleMs: 0, ignore: [/ChunkLoadError/] });
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+    window.dispatchEvent(rejection(new Error('ChunkLoadError: chunk 4 failed')));
+
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  it('throttles bursts of errors', () => {
+    trigger = new ErrorTrigger({ throttleMs: 60_000 });
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    window.dispatchEvent(rejection(new Error('first')));
+    window.dispatchEvent(rejection(new Error('second')));
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not throttle after an error the session ignored', () => {
+    trigger = new ErrorTrigger({ throttleMs: 60_000 });
+    const onTrigger = vi.fn().mockReturnValueOnce(false).mockReturnValue(true);
+    trigger.activate(onTrigger);
+
+    window.dispatchEvent(rejection(new Error('while the form was open')));
+    window.dispatchEvent(rejection(new Error('after it closed')));
+    window.dispatchEvent(rejection(new Error('throttled')));
+
+    expect(onTrigger).toHaveBeenCalledTimes(2);
+    expect(onTrigger.mock.calls[1]![0]).toMatchObject({ title: 'after it closed' });
+  });
+
+  it('marks payloads headless in auto mode', () => {
+    trigger = new ErrorTrigger({ mode: 'auto', throttleMs: 0 });
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    window.dispatchEvent(rejection(new Error('boom')));
+
+    expect(onTrigger.mock.calls[0]![0]).toMatchObject({ headless: true });
+  });
+
+  it('stops listening after deactivate', () => {
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+    trigger.deactivate();
+
+    window.dispatchEvent(rejection(new Error('late')));
+
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,30 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { FABTrigger } from '../triggers/fab.js';
 
+function pointer(target: EventTarget, type: string, clientX: number, clientY: number): void {
+  target.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX, clientY }));
+}
+
+/** Activates `trigger` and places its button at the bottom-right corner of a 1024x768 window. */
+function activateAtCorner(trigger: FABTrigger, onTrigger = vi.fn()): HTMLButtonElement {
+  trigger.activate(onTrigger);
+  const btn = document.querySelector('button') as HTMLButtonElement;
+  vi.spyOn(btn, 'getBoundingClientRect').mockReturnValue({
+    left: 948,
+    top: 692,
+    width: 56,
+    height: 56,
+  } as DOMRect);
+  return btn;
+}
+
 describe('FABTrigger', () => {
   afterEach(() => {
-    // Clean up any leftover buttons.
+    // Clean up any leftover buttons and remembered state.
     document.body.innerHTML = '';
+    localStorage.clear();
+    sessionStorage.clear();
+    vi.useRealTimers();
   });
 
   it('has correct name and platform', () => {
@@ -93,4 +113,143 @@ describe('FABTrigger', () => {
     const btn = document.querySelector('button') as HTMLButtonElement;
     expect(Number(btn.style.zIndex)).toBeGreaterThanOrEqual(2147483647);
   });
+
+  it('uses the configured accent color, size and icon', () => {
+    const trigger = new FABTrigger({
+      accentColor: '#ff0000',
+      size: 40,
+      icon: '<span class="custom-icon">!</span>',
+    });
+    trigger.activate(vi.fn());
+
+    const btn = document.querySelector('button') as HTMLButtonElement;
+    expect(btn.style.backgroundColor).toBe('rgb(255, 0, 0)');
+    expect(btn.style.width).toBe('40px');
+    expect(btn.style.height).toBe('40px');
+    expect(btn.querySelector('.custom-icon')).not.toBeNull();
+    expect(btn.querySelector('svg')).toBeNull();
+  });
+
+  it('is ignored by breadcrumbs and frustration detection', () => {
+    new FABTrigger().activate(vi.fn());
+    expect(document.querySelector('button')?.hasAttribute('data-shakenbake-ignore')).toBe(true);
+  });
+
+  it('shows the number of unsent reports in a badge', () => {
+    const trigger = new FABTrigger();
+    trigger.setBadgeCount(2);
+    trigger.activate(vi.fn());
+
+    const btn = document.querySelector('button') as HTMLButtonElement;
+    const badge = btn.querySelector('span') as HTMLSpanElement;
+    expect(badge.textContent).toBe('2');
+    expect(badge.style.display).toBe('block');
+    expect(btn.getAttribute('aria-label')).toBe('Report a bug (2 unsent)');
+
+    trigger.setBadgeCount(150);
+    expect(badge.textContent).toBe('99+');
+
+    trigger.setBadgeCount(0);
+    expect(badge.style.display).toBe('none');
+    expect(btn.getAttribute('aria-label')).toBe('Report a bug');
+  });
+
+  it('snaps to the nearest side when dragged and remembers the position', () => {
+    const callback = vi.fn();
+    const trigger = new FABTrigger();
+    const btn = activateAtCorner(trigger, callback);
+
+    pointer(btn, 'pointerdown', 976, 720);
+    pointer(window, 'pointermove', 50, 400);
+    expect(btn.style.left).toBe('22px');
+    expect(btn.style.top).toBe('372px');
+    pointer(window, 'pointerup', 50, 400);
+    btn.click();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(btn.style.left).toBe('20px');
+    expect(btn.style.right).toBe('');
+    expect(btn.style.top).toBe('');
+    expect(btn.style.bottom).toBe('340px');
+
+    // A new button starts where the last one was dropped.
+    trigger.deactivate();
+    trigger.activate(vi.fn());
+    const restored = document.querySelector('button') as HTMLButtonElement;
+    expect(restored.style.left).toBe('20px');
+    expect(restored.style.bottom).toBe('340px');
+  });
+
+  it('keeps a remembered position inside the viewport', () => {
+    localStorage.setItem('shakenbake:fab:position', JSON.stringify({ side: 'left', bottom: 5000 }));
+    new FABTrigger().activate(vi.fn());
+
+    const btn = document.querySelector('button') as HTMLButtonElement;
+    expect(btn.style.bottom).toBe(`${String(window.innerHeight - 56 - 20)}px`);
+  });
+
+  it('treats small pointer movement as a click', () => {
+    const callback = vi.fn();
+    const btn = activateAtCorner(new FABTrigger(), callback);
+
+    pointer(btn, 'pointerdown', 976, 720);
+    pointer(window, 'pointermove', 978, 721);
+    pointer(window, 'pointerup', 978, 721);
+    btn.click();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(btn.style.right).toBe('20px');
+  });
+
+  it('does not move when draggable is false', () => {
+    const btn = activateAtCorner(new FABTrigger({ draggable: false }));
+
+    pointer(btn, 'pointerdown', 976, 720);
+    pointer(window, 'pointermove', 50, 400);
+    pointer(window, 'pointerup', 50, 400);
+
+    expect(btn.style.right).toBe('20px');
+    expect(localStorage.getItem('shakenbake:fab:position')).toBeNull();
+  });
+
+  it('long-press hides the button for the session', () => {
+    vi.useFakeTimers();
+    const callback = vi.fn();
+    const trigger = new FABTrigger();
+    const btn = activateAtCorner(trigger, callback);
+
+    pointer(btn, 'pointerdown', 976, 720);
+    vi.advanceTimersByTime(600);
+
+    expect(document.querySelector('button')).toBeNull();
+    expect(callback).not.toHaveBeenCalled();
+
+    // Stays hidden when activated again, e.g. after a reload.
+    trigger.activate(vi.fn());
+    expect(document.querySelector('button')).toBeNull();
+  });
+
+  it('does not hide on long-press when hideOnLongPress is false', () => {
+    vi.useFakeTimers();
+    const btn = activateAtCorner(new FABTrigger({ hideOnLongPress: false }));
+
+    pointer(btn, 'pointerdown', 976, 720);
+    vi.advanceTimersByTime(2000);
+    pointer(window, 'pointerup', 976, 720);
+
+    expect(document.querySelector('button')).not.toBeNull();
+  });
+
+  it('notifySubmitted briefly pulses the button', () => {
+    vi.useFakeTimers();
+    const trigger = new FABTrigger();
+    trigger.activate(vi.fn());
+    const btn = document.querySelector('button') as HTMLButtonElement;
+
+    trigger.notifySubmitted();
+    expect(btn.style.transform).toBe('scale(1.2)');
+
+    vi.advanceTimersByTime(400);
+    expect(btn.style.transform).toBe('scale(1)');
+  });
 });
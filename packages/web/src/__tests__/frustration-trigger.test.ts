@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FrustrationTrigger } from '../triggers/frustration.js';
+
+function click(element: Element, times: number): void {
+  for (let i = 0; i < times; i++) {
+    element.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+  }
+}
+
+function toast(): HTMLElement | null {
+  return document.querySelector('[role="status"]');
+}
+
+function toastButton(name: string): HTMLButtonElement {
+  const buttons = Array.from(toast()?.querySelectorAll('button') ?? []);
+  const button = buttons.find(
+    (b) => b.textContent === name || b.getAttribute('aria-label') === name,
+  );
+  if (!button) throw new Error(`No toast button "${name}"`);
+  return button;
+}
+
+describe('FrustrationTrigger', () => {
+  let trigger: FrustrationTrigger;
+  let save: HTMLButtonElement;
+  const originalError = console.error;
+
+  beforeEach(() => {
+    // Keep the real console quiet while counting errors.
+    console.error = vi.fn();
+    document.body.innerHTML = '<button id="save">Save</button>';
+    save = document.getElementById('save') as HTMLButtonElement;
+    trigger = new FrustrationTrigger();
+  });
+
+  afterEach(() => {
+    trigger.deactivate();
+    console.error = originalError;
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+  });
+
+  it('has correct name and platform', () => {
+    expect(trigger.name).toBe('frustration');
+    expect(trigger.platform).toBe('web');
+  });
+
+  it('offers a report after rage clicks', () => {
+    trigger.activate(vi.fn());
+    click(save, 3);
+    expect(toast()).toBeNull();
+
+    click(save, 1);
+    expect(toast()?.textContent).toContain('Having trouble?');
+    expect(toast()?.hasAttribute('data-shakenbake-ignore')).toBe(true);
+  });
+
+  it('passes the detected signals to onTrigger when accepted', () => {
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+    click(save, 4);
+
+    toastButton('Report it').click();
+
+    expect(toast()).toBeNull();
+    expect(onTrigger).toHaveBeenCalledWith({
+      metadata: {
+        frustrationSignals: [
+          expect.objectContaining({ type: 'rage-click', count: 4, target: 'button#save' }),
+        ],
+      },
+    });
+  });
+
+  it('uses the configured text', () => {
+    trigger = new FrustrationTrigger({ message: 'Stuck?', actionLabel: 'Tell us' });
+    trigger.activate(vi.fn());
+    click(save, 4);
+
+    expect(toast()?.textContent).toContain('Stuck?');
+    expect(toastButton('Tell us')).toBeTruthy();
+  });
+
+  it('counts presses on disabled controls', () => {
+    save.disabled = true;
+    trigger.activate(vi.fn());
+
+    for (let i = 0; i < 3; i++) {
+      save.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true }));
+    }
+
+    expect(toast()).not.toBeNull();
+  });
+
+  it('offers a report after a burst of console errors', () => {
+    const onTrigger = vi.fn();
+    trigger.activate(onTrigger);
+
+    console.error('Failed to save %s', 'draft');
+    console.error('Failed to save %s', 'draft');
+    console.error('Failed to save %s', 'draft');
+    toastButton('Report it').click();
+
+    expect(onTrigger).toHaveBeenCalledWith({
+      metadata: {
+        frustrationSignals: [
+          expect.objectContaining({ type: 'error-burst', message: 'Failed to save draft' }),
+        ],
+      },
+    });
+  });
+
+  it('counts uncaught errors', () => {
+    trigger.activate(vi.fn());
+    for (let i = 0; i < 3; i++) {
+      window.dispatchEvent(new ErrorEvent('error', { error: new Error('boom') }));
+    }
+    expect(toast()).not.toBeNull();
+  });
+
+  it('ignores clicks on the SDK UI', () => {
+    document.body.innerHTML = '<div data-shakenbake-ignore><button>Close</button></div>';
+    trigger.activate(vi.fn());
+    click(document.querySelector('button')!, 6);
+    expect(toast()).toBeNull();
+  });
+
+  it('hides the toast when dismissed or after the timeout', () => {
+    vi.useFakeTimers();
+    trigger = new FrustrationTrigger({ cooldownMs: 0, toastDurationMs: 5000 });
+    trigger.activate(vi.fn());
+
+    click(save, 4);
+    toastButton('Dismiss').click();
+    expect(toast()).toBeNull();
+
+    vi.advanceTimersByTime(2000);
+    click(save, 4);
+    expect(toast()).not.toBeNull();
+    vi.advanceTimersByTime(5000);
+    expect(toast()).toBeNull();
+  });
+
+  it('does not detect anything while paused', () => {
+    trigger.activate(vi.fn());
+    click(save, 4);
+    trigger.setPaused(true);
+    expect(toast()).toBeNull();
+
+    click(save, 8);
+    console.error('ignored');
+    console.error('ignored');
+    console.error('ignored');
+    expect(toast()).toBeNull();
+  });
+
+  it('deactivate removes listeners and restores console.error', () => {
+    const wrapped = console.error;
+    trigger.activate(vi.fn());
+    expect(console.error).not.toBe(wrapped);
+
+    trigger.deactivate();
+    expect(console.error).toBe(wrapped);
+    click(save, 4);
+    expect(toast()).toBeNull();
+  });
+});
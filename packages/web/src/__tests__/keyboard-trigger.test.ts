@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ShakeNbakeError } from '@shakenbake/core';
 import { KeyboardTrigger } from '../triggers/keyboard.js';
 
+function press(init: KeyboardEventInit, target: EventTarget = document): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+}
+
 describe('KeyboardTrigger', () => {
   let trigger: KeyboardTrigger;
 
@@ -181,4 +188,147 @@ describe('KeyboardTrigger', () => {
     expect(callback1).not.toHaveBeenCalled();
     expect(callback2).toHaveBeenCalledTimes(1);
   });
+
+  describe('configurable shortcuts', () => {
+    it('accepts a custom shortcut', () => {
+      const callback = vi.fn();
+      trigger = new KeyboardTrigger({ shortcut: 'mod+shift+b' });
+      trigger.activate(callback);
+
+      press({ key: 'k', ctrlKey: true, shiftKey: true });
+      press({ key: 'b', ctrlKey: true, shiftKey: true });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('requires the exact modifiers', () => {
+      const callback = vi.fn();
+      trigger.activate(callback);
+
+      press({ key: 'k', ctrlKey: true, shiftKey: true, altKey: true });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('matches the physical key on other layouts', () => {
+      const callback = vi.fn();
+      trigger.activate(callback);
+
+      // Cyrillic layout: the K key produces "л".
+      press({ key: 'Л', code: 'KeyK', ctrlKey: true, shiftKey: true });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires from a single physical key on AZERTY', () => {
+      const callback = vi.fn();
+      trigger = new KeyboardTrigger({ shortcut: 'mod+shift+a' });
+      trigger.activate(callback);
+
+      // AZERTY swaps A and Q: the key typing "a" is KeyQ.
+      press({ key: 'A', code: 'KeyQ', ctrlKey: true, shiftKey: true });
+      expect(callback).not.toHaveBeenCalled();
+
+      press({ key: 'Q', code: 'KeyA', ctrlKey: true, shiftKey: true });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('matches characters without a fixed key by the typed character', () => {
+      const callback = vi.fn();
+      trigger = new KeyboardTrigger({ shortcut: ['?', 'mod+/'] });
+      trigger.activate(callback);
+
+      // US layout: Shift+Slash.
+      press({ key: '?', code: 'Slash', shiftKey: true });
+      // AZERTY: Shift and the "," key, which is KeyM.
+      press({ key: '?', code: 'KeyM', shiftKey: true });
+      // AZERTY: "/" is Shift and the ":" key (Period), Ctrl held for "mod".
+      press({ key: '/', code: 'Period', ctrlKey: true, shiftKey: true });
+      // US: Slash without Shift is "/", not "?".
+      press({ key: '/', code: 'Slash' });
+
+      expect(callback).toHaveBeenCalledTimes(3);
+    });
+
+    it('fires after a key sequence', () => {
+      const callback = vi.fn();
+      trigger = new KeyboardTrigger({ shortcut: 'g b' });
+      trigger.activate(callback);
+
+      press({ key: 'g', code: 'KeyG' });
+      expect(callback).not.toHaveBeenCalled();
+      press({ key: 'b', code: 'KeyB' });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('restarts a sequence on a wrong key or a long pause', () => {
+      vi.useFakeTimers();
+      try {
+        const callback = vi.fn();
+        trigger = new KeyboardTrigger({ shortcut: 'g b', sequenceTimeoutMs: 500 });
+        trigger.activate(callback);
+
+        press({ key: 'g' });
+        press({ key: 'x' });
+        press({ key: 'b' });
+        press({ key: 'g' });
+        vi.advanceTimersByTime(600);
+        press({ key: 'b' });
+        expect(callback).not.toHaveBeenCalled();
+
+        press({ key: 'g' });
+        press({ key: 'g' });
+        press({ key: 'b' });
+        expect(callback).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('supports several alternative bindings', () => {
+      const callback = vi.fn();
+      trigger = new KeyboardTrigger({ shortcut: ['mod+shift+b', 'f2'] });
+      trigger.activate(callback);
+
+      press({ key: 'F2', code: 'F2' });
+      press({ key: 'b', ctrlKey: true, shiftKey: true });
+
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores key presses in editable fields unless allowed', () => {
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      try {
+        const callback = vi.fn();
+        trigger.activate(callback);
+        press({ key: 'k', ctrlKey: true, shiftKey: true }, input);
+        expect(callback).not.toHaveBeenCalled();
+
+        trigger = new KeyboardTrigger({ allowInEditable: true });
+        trigger.activate(callback);
+        press({ key: 'k', ctrlKey: true, shiftKey: true }, input);
+        expect(callback).toHaveBeenCalledTimes(1);
+      } finally {
+        input.remove();
+      }
+    });
+
+    it('does not prevent keys that only start a sequence', () => {
+      trigger = new KeyboardTrigger({ shortcut: 'g b' });
+      trigger.activate(vi.fn());
+
+      const event = press({ key: 'g' });
+
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('rejects invalid shortcuts', () => {
+      expect(() => new KeyboardTrigger({ shortcut: 'hyper+k' })).toThrow(ShakeNbakeError);
+      expect(() => new KeyboardTrigger({ shortcut: 'ctrl+pgup' })).toThrow(/unknown key/);
+      expect(() => new KeyboardTrigger({ shortcut: [] })).toThrow(ShakeNbakeError);
+      expect(() => new KeyboardTrigger({ shortcut: ' ' })).toThrow(/empty/);
+    });
+  });
 });
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NetworkInterceptor } from '../context/network-interceptor.js';
+
+/** Minimal XMLHttpRequest stand-in that completes on the next microtask. */
+class FakeXhr extends EventTarget {
+  static next: { status: number; body?: string; headers?: Record<string, string> } = {
+    status: 200,
+  };
+
+  status = 0;
+  responseType = '';
+  responseText = '';
+  private headers: Record<string, string> = {};
+
+  open(_method: string, _url: string): void {}
+
+  setRequestHeader(_name: string, _value: string): void {}
+
+  send(_body?: unknown): void {
+    const { status, body = '', headers = {} } = FakeXhr.next;
+    queueMicrotask(() => {
+      this.status = status;
+      this.responseText = body;
+      this.headers = headers;
+      this.dispatchEvent(new Event(status ? 'load' : 'error'));
+      this.dispatchEvent(new Event('loadend'));
+    });
+  }
+
+  getResponseHeader(name: string): string | null {
+    return this.headers[name] ?? null;
+  }
+
+  getAllResponseHeaders(): string {
+    return Object.entries(this.headers)
+      .map(([name, value]) => `${name}: ${value}`)
+      .join('\r\n');
+  }
+}
+
+function sendXhr(
+  method: string,
+  url: string,
+  body?: string,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const xhr = new window.XMLHttpRequest();
+  const done = new Promise<void>((resolve) => {
+    xhr.addEventListener('loadend', () => resolve());
+  });
+  xhr.open(method, url);
+  for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+  xhr.send(body);
+  return done;
+}
+
+describe('NetworkInterceptor', () => {
+  let interceptor: NetworkInterceptor;
+  let originalFetch: typeof fetch;
+  let originalXhr: typeof XMLHttpRequest;
+
+  beforeEach(() => {
+    originalFetch = window.fetch;
+    originalXhr = window.XMLHttpRequest;
+    window.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+    FakeXhr.next = { status: 200 };
+  });
+
+  afterEach(() => {
+    interceptor.uninstall();
+    window.fetch = originalFetch;
+    window.XMLHttpRequest = originalXhr;
+  });
+
+  function install(config = {}): void {
+    interceptor = new NetworkInterceptor(config);
+    interceptor.install();
+  }
+
+  it('records fetch calls with status, timings and sizes', async () => {
+    window.fetch = vi.fn().mockResolvedValue(
+      new Response('not found', { status: 404, headers: { 'content-length': '9' } }),
+    );
+    install();
+
+    await window.fetch('https://api.example.com/items?token=abc', {
+      method: 'post',
+      body: '{"a":1}',
+    });
+
+    const [entry] = interceptor.getEntries();
+    expect(entry).toMatchObject({
+      initiator: 'fetch',
+      method: 'POST',
+      url: 'https://api.example.com/items?token=[REDACTED]',
+      status: 404,
+      requestSize: 7,
+      responseSize: 9,
+    });
+    expect(entry?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(entry!.startedAt)).not.toBeNaN();
+    expect(entry).not.toHaveProperty('requestBody');
+  });
+
+  it('records fetch failures and rethrows', async () => {
+    window.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    install();
+
+    await expect(window.fetch('/api/items')).rejects.toThrow('Failed to fetch');
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      url: '/api/items',
+      error: 'Failed to fetch',
+    });
+    expect(interceptor.getEntries()[0]).not.toHaveProperty('status');
+  });
+
+  it('captures truncated text bodies when enabled', async () => {
+    window.fetch = vi.fn().mockResolvedValue(
+      new Response('{"error":"invalid coupon"}', {
+        status: 422,
+        headers: { 'content-type': 'application/json', 'content-length': '26' },
+      }),
+    );
+    install({ captureBodies: true, maxBodyLength: 10 });
+
+    const response = await window.fetch('/api/coupons', { method: 'POST', body: 'code=X' });
+    await expect(response.text()).resolves.toBe('{"error":"invalid coupon"}');
+
+    await vi.waitFor(() => expect(interceptor.getEntries()).toHaveLength(1));
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      requestBody: 'code=X',
+      responseBody: '{"error":"… (truncated)',
+      responseSize: 26,
+    });
+  });
+
+  it('keeps short bodies whole and measures them', async () => {
+    window.fetch = vi.fn().mockResolvedValue(
+      new Response('{"ok":true}', { headers: { 'content-type': 'application/json' } }),
+    );
+    install({ captureBodies: true });
+
+    await window.fetch('/api/ok');
+
+    await vi.waitFor(() => expect(interceptor.getEntries()).toHaveLength(1));
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      responseBody: '{"ok":true}',
+      responseSize: 11,
+    });
+  });
+
+  it('stops reading a body once it is longer than maxBodyLength', async () => {
+    let pulls = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls += 1;
+        controller.enqueue(new TextEncoder().encode('x'.repeat(8)));
+      },
+    });
+    window.fetch = vi.fn().mockResolvedValue(
+      new Response(stream, { headers: { 'content-type': 'text/plain' } }),
+    );
+    install({ captureBodies: true, maxBodyLength: 20 });
+
+    await window.fetch('/download');
+
+    await vi.waitFor(() => expect(interceptor.getEntries()).toHaveLength(1));
+    expect(interceptor.getEntries()[0]!.responseBody).toBe(`${'x'.repeat(20)}… (truncated)`);
+    expect(interceptor.getEntries()[0]).not.toHaveProperty('responseSize');
+    expect(pulls).toBeLessThan(10);
+  });
+
+  it('never reads event streams or bodies without a content type', async () => {
+    const neverEnds = () => new ReadableStream<Uint8Array>({ pull: () => new Promise(() => {}) });
+    window.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(neverEnds(), { headers: { 'content-type': 'text/event-stream' } }),
+      )
+      .mockResolvedValueOnce(new Response(neverEnds()));
+    install({ captureBodies: true });
+
+    await window.fetch('/events');
+    await window.fetch('/untyped');
+
+    expect(interceptor.getEntries().map((entry) => entry.url)).toEqual(['/events', '/untyped']);
+    expect(interceptor.getEntries()[0]).not.toHaveProperty('responseBody');
+    expect(interceptor.getEntries()[1]).not.toHaveProperty('responseBody');
+  });
+
+  it('records XMLHttpRequest calls', async () => {
+    FakeXhr.next = { status: 500, body: 'oops', headers: { 'content-length': '4' } };
+    install();
+
+    await sendXhr('get', '/api/cart');
+
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      initiator: 'xhr',
+      method: 'GET',
+      url: '/api/cart',
+      status: 500,
+      responseSize: 4,
+    });
+  });
+
+  it('records XMLHttpRequest network errors', async () => {
+    FakeXhr.next = { status: 0 };
+    install();
+
+    await sendXhr('POST', '/api/cart', 'qty=2');
+
+    expect(interceptor.getEntries()[0]).toMatchObject({
+      method: 'POST',
+      error: 'Network error',
+      requestSize: 5,
+    });
+  });
+
+  it('captures redacted headers when enabled', async () => {
+    window.fetch = vi.fn().mockResolvedValue(
+      new Response('', { headers: { 'set-cookie': 'sid=1', 'x-request-id': 'r1' } }),
+    );
+    FakeXhr.next = { status: 200, headers: { 'content-type': 'text/plain' } };
+    install({ captureHeaders: true });
+
+    await window.fetch('/api/me', { headers: { Authorization: 'Bearer t', Accept: 'text/html' } });
+    await sendXhr('GET', '/api/cart', undefined, { 'X-Api-Key': 'k', 'X-Locale': 'en' });
+
+    const [fetchEntry, xhrEntry] = interceptor.getEntries();
+    expect(fetchEntry?.requestHeaders).toEqual({
+      authorization: '[REDACTED]',
+      accept: 'text/html',
+    });
+    expect(fetchEntry?.responseHeaders).toMatchObject({ 'x-request-id': 'r1' });
+    expect(xhrEntry?.requestHeaders).toEqual({ 'x-api-key': '[REDACTED]', 'x-locale': 'en' });
+    expect(xhrEntry?.responseHeaders).toEqual({ 'content-type': 'text/plain' });
+  });
+
+  it('skips ignored URLs and paused periods', async () => {
+    window.fetch = vi.fn().mockResolvedValue(new Response('ok'));
+    install({ ignoreUrls: ['/api/shakenbake'] });
+
+    await window.fetch('/api/shakenbake/issue');
+    interceptor.setPaused(true);
+    await window.fetch('/api/items');
+    await sendXhr('GET', '/api/items');
+
+    expect(interceptor.getEntries()).toEqual([]);
+  });
+
+  it('keeps only the most recent requests', async () => {
+    window.fetch = vi.fn().mockImplementation(async () => new Response('ok'));
+    install({ maxRequests: 2 });
+
+    await window.fetch('/a');
+    await window.fetch('/b');
+    await window.fetch('/c');
+
+    expect(interceptor.getEntries().map((r) => r.url)).toEqual(['/b', '/c']);
+    interceptor.clear();
+    expect(interceptor.getEntries()).toEqual([]);
+  });
+
+  it('restores fetch and XMLHttpRequest on uninstall', () => {
+    const fetchMock = vi.fn();
+    window.fetch = fetchMock;
+    const { open, send } = FakeXhr.prototype;
+    install();
+
+    expect(FakeXhr.prototype.send).not.toBe(send);
+    interceptor.uninstall();
+
+    expect(window.fetch).toBe(fetchMock);
+    expect(FakeXhr.prototype.open).toBe(open);
+    expect(FakeXhr.prototype.send).toBe(send);
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
 import { act, createElement, useContext } from 'react';
 import { createRoot } from 'react-dom/client';
 import { ShakeNbakeProvider, ShakeNbakeContext } from '../ShakeNbakeProvider.js';
-import type { ShakeNbakeConfig, DestinationAdapter } from '@shakenbake/core';
+import { MemoryStorage, ReportQueue } from '@shakenbake/core';
+import type { ShakeNbakeConfig, DestinationAdapter, BugReport } from '@shakenbake/core';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -123,6 +124,8 @@ describe('ShakeNbakeProvider', () => {
 
   afterEach(() => {
     if (container) cleanup(container, root);
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
   });
 
   it('renders children', () => {
@@ -179,6 +182,30 @@ describe('ShakeNbakeProvider', () => {
     expect(capturedCtx!.isOpen).toBe(true);
   });
 
+  it('returns to idle when a beforeCollect middleware cancels the flow', async () => {
+    const beforeCollect = vi.fn(async () => false);
+    const config = createConfig({ middleware: [{ name: 'veto', beforeCollect }] });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+
+    ({ container, root } = renderProvider(config, reader));
+
+    act(() => {
+      capturedCtx!.trigger();
+    });
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 0));
+    });
+
+    expect(beforeCollect).toHaveBeenCalledTimes(1);
+    expect(capturedCtx!.currentStep).toBe('idle');
+  });
+
   it('trigger() does nothing when disabled', () => {
     const config = createConfig({ enabled: false });
     let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
@@ -239,6 +266,26 @@ describe('ShakeNbakeProvider', () => {
     expect(fab).toBeNull();
   });
 
+  it('restores fetch and console on unmount', async () => {
+    const originalFetch = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', originalFetch);
+    const originalLog = console.log;
+
+    const config = createConfig({ networkCapture: { enabled: true } });
+    ({ container, root } = renderProvider(config));
+    await act(async () => {});
+    expect(window.fetch).not.toBe(originalFetch);
+
+    act(() => {
+      root.unmount();
+    });
+    container.remove();
+    container = null as unknown as HTMLDivElement;
+
+    expect(window.fetch).toBe(originalFetch);
+    expect(console.log).toBe(originalLog);
+  });
+
   it('cleans up triggers and FAB on unmount', async () => {
     const config = createConfig({
       ui: { showFAB: true },
@@ -263,4 +310,182 @@ describe('ShakeNbakeProvider', () => {
     // Prevent double-cleanup.
     container = null as unknown as HTMLDivElement;
   });
+
+  it('passes config.ui.keyboard to the keyboard trigger', async () => {
+    const config = createConfig({ ui: { keyboard: { shortcut: 'mod+shift+b' } } });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+    ({ container, root } = renderProvider(config, reader));
+    await act(async () => {});
+
+    act(() => {
+      document.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, shiftKey: true }),
+      );
+    });
+    expect(capturedCtx!.isOpen).toBe(false);
+
+    act(() => {
+      document.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'b', ctrlKey: true, shiftKey: true }),
+      );
+    });
+    expect(capturedCtx!.isOpen).toBe(true);
+  });
+
+  it('does not listen for the shortcut when config.ui.keyboard.enabled is false', async () => {
+    const config = createConfig({ ui: { keyboard: { enabled: false } } });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+    ({ container, root } = renderProvider(config, reader));
+    await act(async () => {});
+
+    act(() => {
+      document.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, shiftKey: true }),
+      );
+    });
+    expect(capturedCtx!.isOpen).toBe(false);
+  });
+
+  it('offers a report after rage clicks when config.frustration.enabled is true', async () => {
+    const config = createConfig({ frustration: { enabled: true } });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+    ({ container, root } = renderProvider(config, reader));
+    await act(async () => {});
+
+    for (let i = 0; i < 4; i++) {
+      container.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    }
+    const report = Array.from(document.body.querySelectorAll('button')).find(
+      (button) => button.textContent === 'Report it',
+    );
+    expect(report).toBeDefined();
+
+    act(() => {
+      report!.click();
+    });
+    expect(capturedCtx!.isOpen).toBe(true);
+  });
+
+  it('submitReport() files a report without opening the UI', async () => {
+    const config = createConfig({ customMetadata: () => ({ source: 'test' }) });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+
+    ({ container, root } = renderProvider(config, reader));
+
+    let result: Awaited<ReturnType<NonNullable<typeof capturedCtx>['submitReport']>> | undefined;
+    await act(async () => {
+      result = await capturedCtx!.submitReport(
+        { title: 'From an error boundary', category: 'crash' },
+        { screenshot: false },
+      );
+    });
+
+    expect(result?.success).toBe(true);
+    expect(capturedCtx!.isOpen).toBe(false);
+    const report = vi.mocked(config.destination.createIssue).mock.calls[0]![0];
+    expect(report).toMatchObject({
+      title: 'From an error boundary',
+      category: 'crash',
+      customMetadata: { source: 'test' },
+    });
+    expect(report.screenshot.annotated).toBe('');
+  });
+
+  it("keeps a headless report's uploads out of the network log", async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('ok')));
+    const config = createConfig({ networkCapture: { enabled: true } });
+    vi.mocked(config.destination.createIssue).mockImplementation(async () => {
+      await fetch('https://reports.example.com/issue');
+      return { url: 'https://example.com/issue/1', id: '1', success: true };
+    });
+    let capturedCtx: ReturnType<typeof useContext<typeof ShakeNbakeContext>> = null;
+    const reader = createElement(ContextReader, {
+      onContext: (ctx) => {
+        capturedCtx = ctx;
+      },
+    });
+    ({ container, root } = renderProvider(config, reader));
+
+    await act(async () => {
+      await capturedCtx!.submitReport({ title: 'First' }, { screenshot: false });
+      await fetch('https://app.example.com/data');
+      await capturedCtx!.submitReport({ title: 'Second' }, { screenshot: false });
+    });
+
+    const second = vi.mocked(config.destination.createIssue).mock.calls[1]![0];
+    expect(second.context.network?.requests?.map((r) => r.url)).toEqual([
+      'https://app.example.com/data',
+    ]);
+    const httpUrls = (second.context.breadcrumbs ?? [])
+      .filter((b) => b.type === 'http')
+      .map((b) => b.data?.['url']);
+    expect(httpUrls).toContain('https://app.example.com/data');
+    expect(httpUrls).not.toContain('https://reports.example.com/issue');
+  });
+
+  it('resubmits reports left in the offline queue on mount', async () => {
+    const storage = new MemoryStorage();
+    const report = { id: 'queued-1', title: 'Queued' } as unknown as BugReport;
+    await new ReportQueue(mockAdapter(), { storage }).enqueue(report);
+
+    const config = createConfig({ offlineQueue: { storage } });
+    ({ container, root } = renderProvider(config));
+
+    await act(async () => {});
+
+    expect(config.destination.createIssue).toHaveBeenCalledWith(report);
+    expect(await new ReportQueue(mockAdapter(), { storage }).size()).toBe(0);
+  });
+
+  it('shows queued reports on the FAB badge in the accent color', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const storage = new MemoryStorage();
+    const report = { id: 'queued-1', title: 'Queued' } as unknown as BugReport;
+    await new ReportQueue(mockAdapter(), { storage }).enqueue(report);
+
+    const config = createConfig({
+      offlineQueue: { storage },
+      ui: { showFAB: true, accentColor: '#ff0000' },
+    });
+    ({ container, root } = renderProvider(config));
+    await act(async () => {});
+
+    const fab = document.body.querySelector('[aria-label="Report a bug (1 unsent)"]');
+    expect(fab).not.toBeNull();
+    expect((fab as HTMLButtonElement).style.backgroundColor).toBe('rgb(255, 0, 0)');
+  });
+
+  it('does not drain the queue when offlineQueue.enabled is false', async () => {
+    const storage = new MemoryStorage();
+    const report = { id: 'queued-1', title: 'Queued' } as unknown as BugReport;
+    await new ReportQueue(mockAdapter(), { storage }).enqueue(report);
+
+    const config = createConfig({ offlineQueue: { enabled: false, storage } });
+    ({ container, root } = renderProvider(config));
+
+    await act(async () => {});
+
+    expect(config.destination.createIssue).not.toHaveBeenCalled();
+  });
 });
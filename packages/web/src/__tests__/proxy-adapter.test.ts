@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ProxyAdapter } from '../adapters/proxy.js';
+import type { ProxyAdapterConfig } from '../adapters/proxy.js';
 import { ShakeNbakeError } from '@shakenbake/core';
 import type { BugReport, DeviceContext } from '@shakenbake/core';
 
@@ -25,8 +26,8 @@ afterEach(() => {
 
 const ENDPOINT = 'https://api.example.com/shakenbake';
 
-function createAdapter(): ProxyAdapter {
-  return new ProxyAdapter({ endpoint: ENDPOINT });
+function createAdapter(config?: Partial<ProxyAdapterConfig>): ProxyAdapter {
+  return new ProxyAdapter({ endpoint: ENDPOINT, ...config });
 }
 
 function emptyContext(): DeviceContext {
@@ -86,6 +87,20 @@ describe('ProxyAdapter', () => {
       expect(url).toBe('https://cdn.example.com/img.png');
     });
 
+    it('types Buffer uploads from the filename extension', async () => {
+      let file: FormDataEntryValue | null = null;
+      mockFetch(async (_url, init) => {
+        file = (init?.body as FormData).get('file');
+        return new Response(JSON.stringify({ url: 'https://cdn.example.com/a.webp' }), {
+          status: 200,
+        });
+      });
+
+      await createAdapter().uploadImage(Buffer.from('webp'), 'shot.webp');
+
+      expect((file as File | null)?.type).toBe('image/webp');
+    });
+
     it('throws NETWORK_ERROR when fetch fails', async () => {
       mockFetch(async () => {
         throw new TypeError('Failed to fetch');
@@ -123,6 +138,23 @@ describe('ProxyAdapter', () => {
       }
     });
 
+    it('exposes Retry-After on RATE_LIMITED errors', async () => {
+      mockFetch(async () => {
+        return new Response('Too Many Requests', {
+          status: 429,
+          headers: { 'Retry-After': '3' },
+        });
+      });
+
+      const adapter = createAdapter();
+      const blob = new Blob(['test'], { type: 'image/png' });
+
+      await expect(adapter.uploadImage(blob, 'test.png')).rejects.toMatchObject({
+        code: 'RATE_LIMITED',
+        retryAfterMs: 3000,
+      });
+    });
+
     it('throws RATE_LIMITED on 429 response', async () => {
       mockFetch(async () => {
         return new Response('Too Many Requests', { status: 429 });
@@ -183,7 +215,42 @@ describe('ProxyAdapter', () => {
   // ---------------------------------------------------------------------------
 
   describe('createIssue', () => {
-    it('sends POST to /issue with JSON body', async () => {
+    it('sends POST to /issue as a multipart manifest with file parts', async () => {
+      let formData: FormData | undefined;
+      mockFetch(async (url, init) => {
+        expect(url).toBe(`${ENDPOINT}/issue`);
+        expect(init?.method).toBe('POST');
+        expect(init?.headers).toBeUndefined();
+        formData = init?.body as FormData;
+        return new Response(
+          JSON.stringify({ url: 'https://linear.app/issue/1', id: 'issue-1' }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } },
+        );
+      });
+
+      const result = await createAdapter().createIssue({
+        ...fakeBugReport(),
+        screenshot: {
+          annotated: 'data:image/webp;base64,YW5ub3RhdGVk',
+          original: '',
+          dimensions: { width: 800, height: 600 },
+        },
+      });
+
+      expect(result.id).toBe('issue-1');
+      expect(formData).toBeInstanceOf(FormData);
+      const manifest = JSON.parse(formData!.get('manifest') as string) as BugReport;
+      expect(manifest.title).toBe('Test bug');
+      expect(manifest.screenshot.annotated).toBe('part:screenshot-annotated');
+      // jsdom's Blob cannot be read back, so check the file metadata only.
+      const file = formData!.get('screenshot-annotated') as File;
+      expect(file.name).toBe('screenshot-annotated-test-id.webp');
+      expect(file.type).toBe('image/webp');
+      expect(file.size).toBe('annotated'.length);
+      expect([...formData!.keys()]).toEqual(['manifest', 'screenshot-annotated']);
+    });
+
+    it('sends POST to /issue with JSON body when transport is json', async () => {
       const report = fakeBugReport();
 
       mockFetch(async (url, init) => {
@@ -198,7 +265,7 @@ describe('ProxyAdapter', () => {
         );
       });
 
-      const adapter = createAdapter();
+      const adapter = createAdapter({ transport: 'json' });
       const result = await adapter.createIssue(report);
 
       expect(result.url).toBe('https://linear.app/issue/1');
@@ -206,6 +273,27 @@ describe('ProxyAdapter', () => {
       expect(result.success).toBe(true);
     });
 
+    it('sends legacy customMetadata.attachments as typed attachments', async () => {
+      let body: BugReport | undefined;
+      mockFetch(async (_url, init) => {
+        body = JSON.parse(init?.body as string) as BugReport;
+        return new Response(JSON.stringify({ url: 'u', id: 'i' }), { status: 200 });
+      });
+
+      await createAdapter({ transport: 'json' }).createIssue({
+        ...fakeBugReport(),
+        customMetadata: {
+          plan: 'pro',
+          attachments: [{ base64: 'AAAA', mimeType: 'image/jpeg', filename: 'a.jpg' }],
+        },
+      });
+
+      expect(body?.customMetadata).toEqual({ plan: 'pro' });
+      expect(body?.attachments).toEqual([
+        { kind: 'image', mimeType: 'image/jpeg', filename: 'a.jpg', size: 3, data: 'AAAA' },
+      ]);
+    });
+
     it('throws NETWORK_ERROR when fetch fails', async () => {
       mockFetch(async () => {
         throw new Error('Network offline');
@@ -297,4 +385,11 @@ describe('ProxyAdapter', () => {
       await adapter.testConnection();
     });
   });
+
+  describe('requestUrls', () => {
+    it('covers every request to the endpoint', () => {
+      const adapter = new ProxyAdapter({ endpoint: '/api/shakenbake/' });
+      expect(adapter.requestUrls()).toEqual(['/api/shakenbake/']);
+    });
+  });
 });
@@ -353,6 +353,38 @@ describe('ReportForm', () => {
     expect(submitBtn.disabled).toBe(true);
   });
 
+  it('shows submitStatus on the submit button while submitting', async () => {
+    const onSubmit = vi.fn(() => new Promise<SubmitResult>(() => {}));
+
+    ({ container, root } = renderForm({
+      onSubmit,
+      submitStatus: 'Retrying (2/3)...',
+    }));
+
+    const input = queryBody('[data-testid="report-form-title"]') as HTMLInputElement;
+    act(() => {
+      const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
+        HTMLInputElement.prototype,
+        'value',
+      )!.set!;
+      nativeInputValueSetter.call(input, 'Test bug title');
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+    });
+
+    act(() => {
+      const submitBtn = queryBody('[data-testid="report-form-submit"]') as HTMLButtonElement;
+      submitBtn.click();
+    });
+
+    await act(async () => {
+      await new Promise((r) => setTimeout(r, 20));
+    });
+
+    const submitBtn = queryBody('[data-testid="report-form-submit"]') as HTMLButtonElement;
+    expect(submitBtn.textContent).toContain('Retrying (2/3)...');
+  });
+
   // -- Success state --
 
   it('shows success message with issue link after submission', async () => {
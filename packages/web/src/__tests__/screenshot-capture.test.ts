@@ -132,4 +132,141 @@ describe('Html2CanvasCapture', () => {
 
     expect(toDataURL).toHaveBeenCalledWith('image/png');
   });
+
+  describe('masking', () => {
+    function rect(left: number, top: number, width: number, height: number): DOMRect {
+      return {
+        left,
+        top,
+        width,
+        height,
+        right: left + width,
+        bottom: top + height,
+        x: left,
+        y: top,
+      } as DOMRect;
+    }
+
+    function buildTarget(): HTMLElement {
+      const target = document.createElement('div');
+      target.getBoundingClientRect = () => rect(0, 0, 400, 300);
+      target.innerHTML = `
+        <input type="password" id="pw" />
+        <input autocomplete="cc-number" id="card" />
+        <p class="ssn" id="ssn">123-45-6789</p>
+        <span data-shakenbake-mask id="hidden"></span>
+      `;
+      target.querySelector<HTMLElement>('#pw')!.getBoundingClientRect = () => rect(10, 20, 100, 30);
+      target.querySelector<HTMLElement>('#card')!.getBoundingClientRect = () => rect(350, 280, 100, 40);
+      target.querySelector<HTMLElement>('#ssn')!.getBoundingClientRect = () => rect(0, 100, 50, 10);
+      // Zero-sized elements (display: none) are skipped.
+      target.querySelector<HTMLElement>('#hidden')!.getBoundingClientRect = () => rect(0, 0, 0, 0);
+      return target;
+    }
+
+    function fakeCanvasWithContext() {
+      const ctx = {
+        fillRect: vi.fn(),
+        drawImage: vi.fn(),
+        fillStyle: '',
+        imageSmoothingEnabled: false,
+      };
+      const canvas = {
+        width: 800,
+        height: 600,
+        getContext: vi.fn(() => ctx),
+        toDataURL: vi.fn().mockReturnValue('data:image/png;base64,masked'),
+      } as unknown as HTMLCanvasElement;
+      return { canvas, ctx };
+    }
+
+    it('blacks out default selectors and reports the regions in image pixels', async () => {
+      const { canvas, ctx } = fakeCanvasWithContext();
+      mockHtml2canvas.mockResolvedValueOnce(canvas);
+
+      const capture = new Html2CanvasCapture({ target: buildTarget(), scale: 2 });
+      const result = await capture.capture();
+
+      expect(result.maskedRegions).toEqual([
+        { x: 20, y: 40, width: 200, height: 60, selector: 'input[type=password]' },
+        // Clipped to the 800x600 canvas.
+        { x: 700, y: 560, width: 100, height: 40, selector: '[autocomplete^=cc-]' },
+      ]);
+      expect(ctx.fillRect).toHaveBeenCalledWith(20, 40, 200, 60);
+      expect(ctx.fillRect).toHaveBeenCalledWith(700, 560, 100, 40);
+      expect(ctx.fillStyle).toBe('#000000');
+    });
+
+    it('supports custom selectors without the defaults', async () => {
+      const { canvas, ctx } = fakeCanvasWithContext();
+      mockHtml2canvas.mockResolvedValueOnce(canvas);
+
+      const capture = new Html2CanvasCapture({
+        target: buildTarget(),
+        scale: 1,
+        maskDefaults: false,
+        maskSelectors: ['.ssn', '::not-a-selector'],
+      });
+      const result = await capture.capture();
+
+      expect(result.maskedRegions).toEqual([
+        { x: 0, y: 100, width: 50, height: 10, selector: '.ssn' },
+      ]);
+      expect(ctx.fillRect).toHaveBeenCalledTimes(1);
+    });
+
+    it('blurs instead of blacking out when maskStyle is blur', async () => {
+      const { canvas, ctx } = fakeCanvasWithContext();
+      mockHtml2canvas.mockResolvedValueOnce(canvas);
+      const smallCtx = { drawImage: vi.fn() };
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+        smallCtx as unknown as CanvasRenderingContext2D,
+      );
+
+      const capture = new Html2CanvasCapture({
+        target: buildTarget(),
+        scale: 1,
+        maskDefaults: false,
+        maskSelectors: ['.ssn'],
+        maskStyle: 'blur',
+      });
+      await capture.capture();
+
+      // Shrunk into a small canvas, then scaled back over the region.
+      expect(smallCtx.drawImage).toHaveBeenCalledWith(
+        canvas, 0, 100, 50, 10, 0, 0, expect.any(Number), expect.any(Number),
+      );
+
+      expect(ctx.fillRect).not.toHaveBeenCalled();
+      expect(ctx.drawImage).toHaveBeenCalledWith(
+        expect.anything(), 0, 0, expect.any(Number), expect.any(Number), 0, 100, 50, 10,
+      );
+    });
+
+    it('omits maskedRegions when nothing matched', async () => {
+      const { canvas, ctx } = fakeCanvasWithContext();
+      mockHtml2canvas.mockResolvedValueOnce(canvas);
+
+      const result = await new Html2CanvasCapture({ target: document.createElement('div') }).capture();
+
+      expect(result.maskedRegions).toBeUndefined();
+      expect(canvas.getContext).not.toHaveBeenCalled();
+      expect(ctx.fillRect).not.toHaveBeenCalled();
+    });
+
+    it('fails instead of returning an unmasked screenshot', async () => {
+      const canvas = {
+        width: 800,
+        height: 600,
+        getContext: vi.fn(() => null),
+        toDataURL: vi.fn(),
+      } as unknown as HTMLCanvasElement;
+      mockHtml2canvas.mockResolvedValueOnce(canvas);
+
+      await expect(
+        new Html2CanvasCapture({ target: buildTarget() }).capture(),
+      ).rejects.toBeInstanceOf(ShakeNbakeError);
+      expect(canvas.toDataURL).not.toHaveBeenCalled();
+    });
+  });
 });
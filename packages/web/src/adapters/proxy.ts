@@ -9,7 +9,14 @@ import type {
   BugReport,
   SubmitResult,
 } from '@shakenbake/core';
-import { ShakeNbakeError } from '@shakenbake/core';
+import {
+  ShakeNbakeError,
+  attachmentMimeType,
+  encodeReportPayload,
+  normalizeAttachments,
+  parseRetryAfter,
+  reportPayloadToFormData,
+} from '@shakenbake/core';
 import type { ErrorCode } from '@shakenbake/core';
 
 // ---------------------------------------------------------------------------
@@ -19,6 +26,14 @@ import type { ErrorCode } from '@shakenbake/core';
 export interface ProxyAdapterConfig {
   /** Base URL of the proxy server (no trailing slash). */
   endpoint: string;
+  /**
+   * How reports are sent to `${endpoint}/issue`:
+   *  - `'multipart'` (default) — a JSON manifest plus one file part per
+   *    screenshot, recording and attachment (see `reportPayloadFromFormData`).
+   *  - `'json'` — the whole report, binaries base64-encoded, in one JSON
+   *    body. For proxies written before the multipart format.
+   */
+  transport?: 'multipart' | 'json';
 }
 
 // ---------------------------------------------------------------------------
@@ -30,7 +45,8 @@ export interface ProxyAdapterConfig {
  *
  * Routes:
  *  - `POST ${endpoint}/upload`  — upload screenshot (FormData)
- *  - `POST ${endpoint}/issue`   — create issue (JSON body)
+ *  - `POST ${endpoint}/issue`   — create issue (multipart manifest + files,
+ *                                  or a JSON body with `transport: 'json'`)
  *  - `GET  ${endpoint}/health`  — connectivity check
  *
  * The proxy server is responsible for authenticating with the actual
@@ -41,10 +57,17 @@ export class ProxyAdapter implements DestinationAdapter {
   readonly name = 'proxy';
 
   private readonly endpoint: string;
+  private readonly transport: 'multipart' | 'json';
 
   constructor(config: ProxyAdapterConfig) {
     // Strip trailing slash.
     this.endpoint = config.endpoint.replace(/\/+$/, '');
+    this.transport = config.transport ?? 'multipart';
+  }
+
+  /** Every request goes to `${endpoint}/...`. */
+  requestUrls(): string[] {
+    return [`${this.endpoint}/`];
   }
 
   /**
@@ -54,7 +77,7 @@ export class ProxyAdapter implements DestinationAdapter {
    * the image file. Expects a JSON response: `{ url: string }`.
    */
   async uploadImage(
-    imageData: Buffer | Blob,
+    imageData: Uint8Array | Blob,
     filename: string,
   ): Promise<string> {
     const formData = new FormData();
@@ -64,10 +87,8 @@ export class ProxyAdapter implements DestinationAdapter {
     if (imageData instanceof Blob) {
       blob = imageData;
     } else {
-      // Buffer — extract its underlying ArrayBuffer for Blob construction.
-      const buf = imageData as { buffer: ArrayBuffer; byteOffset: number; byteLength: number };
-      const arrayBuf = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
-      blob = new Blob([arrayBuf], { type: 'image/png' });
+      // Copy into a plain ArrayBuffer-backed view for Blob construction.
+      blob = new Blob([new Uint8Array(imageData)], { type: attachmentMimeType(filename) });
     }
 
     formData.append('file', blob, filename);
@@ -87,7 +108,7 @@ export class ProxyAdapter implements DestinationAdapter {
     }
 
     if (!response.ok) {
-      throw this.httpError(response.status, 'Image upload failed');
+      throw this.httpError(response, 'Image upload failed');
     }
 
     const json = (await response.json()) as { url?: string };
@@ -104,17 +125,30 @@ export class ProxyAdapter implements DestinationAdapter {
   /**
    * Creates an issue via the proxy.
    *
-   * Sends a `POST` to `${endpoint}/issue` with a JSON body containing the
-   * full `BugReport`. Expects a JSON response: `{ url: string; id: string }`.
+   * Sends a `POST` to `${endpoint}/issue`. By default the body is multipart:
+   * a `manifest` field with the report JSON (binaries replaced by `part:`
+   * references) and one file per binary, so nothing is base64-encoded on the
+   * wire. With `transport: 'json'` the full `BugReport` is sent as JSON, with
+   * legacy `customMetadata.attachments` moved into `attachments`. Expects a
+   * JSON response: `{ url: string; id: string }`.
    */
   async createIssue(report: BugReport): Promise<SubmitResult> {
+    const init: RequestInit =
+      this.transport === 'json'
+        ? {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(normalizeAttachments(report)),
+          }
+        : {
+            // The browser sets the multipart boundary header.
+            method: 'POST',
+            body: reportPayloadToFormData(encodeReportPayload(report)),
+          };
+
     let response: Response;
     try {
-      response = await fetch(`${this.endpoint}/issue`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(report),
-      });
+      response = await fetch(`${this.endpoint}/issue`, init);
     } catch (err: unknown) {
       throw new ShakeNbakeError(
         'Network error during issue creation',
@@ -124,7 +158,7 @@ export class ProxyAdapter implements DestinationAdapter {
     }
 
     if (!response.ok) {
-      throw this.httpError(response.status, 'Issue creation failed');
+      throw this.httpError(response, 'Issue creation failed');
     }
 
     const json = (await response.json()) as {
@@ -157,9 +191,11 @@ export class ProxyAdapter implements DestinationAdapter {
 
   // ---- Internal helpers ----
 
-  private httpError(status: number, fallbackMessage: string): ShakeNbakeError {
+  private httpError(response: Response, fallbackMessage: string): ShakeNbakeError {
+    const status = response.status;
     let code: ErrorCode;
     let message: string;
+    let retryAfterMs: number | undefined;
 
     switch (status) {
       case 401:
@@ -170,12 +206,13 @@ export class ProxyAdapter implements DestinationAdapter {
       case 429:
         code = 'RATE_LIMITED';
         message = 'Too many requests. Please try again in a moment.';
+        retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
         break;
       default:
         code = 'UPLOAD_FAILED';
         message = `${fallbackMessage} (HTTP ${String(status)})`;
     }
 
-    return new ShakeNbakeError(message, code);
+    return new ShakeNbakeError(message, code, { retryAfterMs });
   }
 }
@@ -0,0 +1,65 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — CanvasImageCodec
+// ImageCodec for the core ImagePipeline, backed by an offscreen <canvas>.
+// ---------------------------------------------------------------------------
+
+import type { ImageCodec, ImageMimeType } from '@shakenbake/core';
+import { toDataUri } from '@shakenbake/core';
+
+/**
+ * Decodes images with `HTMLImageElement` and re-encodes them with
+ * `canvas.toDataURL`. Browsers that cannot encode a format (e.g. WebP on
+ * older Safari) return PNG instead, which the pipeline detects and skips.
+ */
+export class CanvasImageCodec implements ImageCodec {
+  // The pipeline encodes the same image many times during its quality
+  // search; keep the last decoded image around.
+  private lastSrc: string | null = null;
+  private lastImage: Promise<HTMLImageElement> | null = null;
+
+  async getDimensions(image: string): Promise<{ width: number; height: number }> {
+    const img = await this.load(image);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+  }
+
+  async encode(
+    image: string,
+    options: {
+      width: number;
+      height: number;
+      mimeType: ImageMimeType;
+      quality: number;
+    },
+  ): Promise<string> {
+    const img = await this.load(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    if (options.mimeType === 'image/jpeg') {
+      // JPEG has no alpha channel: transparent areas would turn black.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, options.width, options.height);
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, options.width, options.height);
+    return canvas.toDataURL(options.mimeType, options.quality);
+  }
+
+  private load(image: string): Promise<HTMLImageElement> {
+    const src = toDataUri(image, 'image/png');
+    if (this.lastSrc === src && this.lastImage) return this.lastImage;
+
+    this.lastSrc = src;
+    this.lastImage = new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to decode image'));
+      img.src = src;
+    });
+    return this.lastImage;
+  }
+}
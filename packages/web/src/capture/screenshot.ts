@@ -1,11 +1,27 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/web — Html2CanvasCapture plugin
 // Captures a screenshot of the current page using html2canvas-pro.
+// Sensitive elements are masked before the image leaves the plugin.
 // ---------------------------------------------------------------------------
 
 import html2canvas from 'html2canvas-pro';
 import { ShakeNbakeError } from '@shakenbake/core';
-import type { CapturePlugin, CaptureResult } from '@shakenbake/core';
+import type {
+  CapturePlugin,
+  CaptureResult,
+  MaskedRegion,
+  MaskStyle,
+} from '@shakenbake/core';
+
+/** Elements that are always masked unless `maskDefaults` is false. */
+export const DEFAULT_MASK_SELECTORS: readonly string[] = [
+  'input[type=password]',
+  '[data-shakenbake-mask]',
+  '[autocomplete^=cc-]',
+];
+
+/** Size of the pixel blocks used by the 'blur' style, in CSS pixels. */
+const BLUR_BLOCK_SIZE = 12;
 
 /** Options for configuring the screenshot capture. */
 export interface Html2CanvasCaptureOptions {
@@ -17,12 +33,21 @@ export interface Html2CanvasCaptureOptions {
    * Device-pixel-ratio scale factor. Defaults to `window.devicePixelRatio`.
    */
   scale?: number;
+  /** Extra selectors whose elements are masked in the screenshot. */
+  maskSelectors?: string[];
+  /** Set to false to skip `DEFAULT_MASK_SELECTORS` (default: true). */
+  maskDefaults?: boolean;
+  /** How masked elements are hidden (default: 'black'). */
+  maskStyle?: MaskStyle;
 }
 
 /**
  * Screenshot capture plugin backed by `html2canvas-pro`.
  *
  * Captures the visible page (or a specific element) as a PNG base64 string.
+ * Elements matching the mask selectors are blacked out or blurred on the
+ * canvas before it is encoded, so neither the original nor the annotated
+ * image contains them. The masked areas are listed in `maskedRegions`.
  */
 export class Html2CanvasCapture implements CapturePlugin {
   readonly name = 'html2canvas';
@@ -39,12 +64,33 @@ export class Html2CanvasCapture implements CapturePlugin {
       const target = this.options.target ?? document.body;
       const scale = this.options.scale ?? window.devicePixelRatio;
 
+      // Measure before rendering: html2canvas works on a clone of the page.
+      const regions = this.findMaskedRegions(target, scale);
+
       const canvas = await html2canvas(target, {
         scale,
         useCORS: true,
         logging: false,
       });
 
+      const maskedRegions = clipRegions(regions, canvas.width, canvas.height);
+      if (maskedRegions.length > 0) {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          // Never hand out an unmasked screenshot.
+          throw new Error('Canvas 2D context unavailable for masking');
+        }
+        for (const region of maskedRegions) {
+          if (this.options.maskStyle === 'blur') {
+            const blockSize = Math.max(1, Math.round(BLUR_BLOCK_SIZE * scale));
+            blurRegion(ctx, canvas, region, blockSize);
+          } else {
+            ctx.fillStyle = '#000000';
+            ctx.fillRect(region.x, region.y, region.width, region.height);
+          }
+        }
+      }
+
       const imageData = canvas.toDataURL('image/png');
       const dimensions = { width: canvas.width, height: canvas.height };
 
@@ -52,6 +98,7 @@ export class Html2CanvasCapture implements CapturePlugin {
         imageData,
         dimensions,
         mimeType: 'image/png',
+        ...(maskedRegions.length > 0 ? { maskedRegions } : {}),
       };
     } catch (error: unknown) {
       throw new ShakeNbakeError(
@@ -61,4 +108,95 @@ export class Html2CanvasCapture implements CapturePlugin {
       );
     }
   }
+
+  /** Bounding boxes of masked elements, in canvas pixels relative to `target`. */
+  private findMaskedRegions(target: HTMLElement, scale: number): MaskedRegion[] {
+    const selectors = [
+      ...(this.options.maskDefaults === false ? [] : DEFAULT_MASK_SELECTORS),
+      ...(this.options.maskSelectors ?? []),
+    ];
+    if (selectors.length === 0) return [];
+
+    const origin = target.getBoundingClientRect();
+    const regions: MaskedRegion[] = [];
+    const seen = new Set<Element>();
+
+    for (const selector of selectors) {
+      let elements: NodeListOf<Element>;
+      try {
+        elements = target.querySelectorAll(selector);
+      } catch {
+        // Invalid selector: skip it rather than fail the capture.
+        continue;
+      }
+      for (const element of elements) {
+        if (seen.has(element)) continue;
+        seen.add(element);
+        const rect = element.getBoundingClientRect();
+        if (rect.width <= 0 || rect.height <= 0) continue;
+        regions.push({
+          x: Math.floor((rect.left - origin.left) * scale),
+          y: Math.floor((rect.top - origin.top) * scale),
+          width: Math.ceil(rect.width * scale),
+          height: Math.ceil(rect.height * scale),
+          selector,
+        });
+      }
+    }
+    return regions;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Clips regions to the canvas, dropping those entirely outside it. */
+function clipRegions(
+  regions: MaskedRegion[],
+  width: number,
+  height: number,
+): MaskedRegion[] {
+  const clipped: MaskedRegion[] = [];
+  for (const region of regions) {
+    const x = Math.max(0, region.x);
+    const y = Math.max(0, region.y);
+    const right = Math.min(width, region.x + region.width);
+    const bottom = Math.min(height, region.y + region.height);
+    if (right <= x || bottom <= y) continue;
+    clipped.push({ ...region, x, y, width: right - x, height: bottom - y });
+  }
+  return clipped;
+}
+
+/**
+ * Blurs a region by shrinking it to coarse blocks and scaling it back up
+ * with smoothing. Unlike `ctx.filter`, this works in every browser.
+ */
+function blurRegion(
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  region: MaskedRegion,
+  blockSize: number,
+): void {
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(region.width / blockSize));
+  small.height = Math.max(1, Math.ceil(region.height / blockSize));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(region.x, region.y, region.width, region.height);
+    return;
+  }
+  smallCtx.drawImage(
+    canvas,
+    region.x, region.y, region.width, region.height,
+    0, 0, small.width, small.height,
+  );
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(
+    small,
+    0, 0, small.width, small.height,
+    region.x, region.y, region.width, region.height,
+  );
 }
@@ -0,0 +1,331 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — BreadcrumbTracker
+// Records clicks, input focus, route changes and fetch calls as breadcrumbs
+// so reports show what the user did before the bug.
+// ---------------------------------------------------------------------------
+
+import type { BreadcrumbBuffer, DestinationAdapter } from '@shakenbake/core';
+import { defaultBreadcrumbs } from '@shakenbake/core';
+
+/** Configuration for the breadcrumb tracker. All sources default to on. */
+export interface BreadcrumbTrackerOptions {
+  /** Where breadcrumbs are recorded (default: the shared core buffer). */
+  buffer?: BreadcrumbBuffer;
+  /** Clicks, with a CSS selector and the element's text. */
+  clicks?: boolean;
+  /** Focus on inputs, textareas, selects and editable elements. Values are never read. */
+  inputs?: boolean;
+  /** `history.pushState` / `replaceState`, back/forward and hash changes. */
+  navigation?: boolean;
+  /** `fetch` calls with method, URL (without query string), status and duration. */
+  fetch?: boolean;
+  /** Requests to the URLs it reports (see `requestUrls`) are not recorded. */
+  destination?: DestinationAdapter;
+}
+
+/** Elements inside this selector are never recorded. */
+export const IGNORE_SELECTOR = '[data-shakenbake-ignore]';
+/** Elements whose text is kept out of breadcrumbs, as in screenshots. */
+const PRIVATE_SELECTOR = '[data-shakenbake-mask], [type="password"], [autocomplete^="cc-"]';
+/** Clicks are attributed to the closest interactive ancestor. */
+export const INTERACTIVE_SELECTOR =
+  'button, a, input, select, textarea, label, summary, [role="button"], [role="link"], [onclick]';
+
+const MAX_TEXT_LENGTH = 50;
+const MAX_SELECTOR_DEPTH = 3;
+
+/**
+ * Installs DOM listeners and wraps `fetch` / `history` to record the user's
+ * trail in a {@link BreadcrumbBuffer}. The provider installs one
+ * automatically; use it directly when building a custom integration.
+ *
+ * Call {@link install} to begin recording and {@link uninstall} to remove the
+ * listeners and restore the wrapped functions.
+ */
+export class BreadcrumbTracker {
+  private readonly buffer: BreadcrumbBuffer;
+  private readonly options: BreadcrumbTrackerOptions;
+
+  private clickHandler: ((e: MouseEvent) => void) | null = null;
+  private focusHandler: ((e: FocusEvent) => void) | null = null;
+  private locationHandler: (() => void) | null = null;
+
+  private originalPushState: History['pushState'] | null = null;
+  private originalReplaceState: History['replaceState'] | null = null;
+  private originalFetch: typeof fetch | null = null;
+  private wrappedFetch: typeof fetch | null = null;
+
+  private lastLocation = '';
+  private installed = false;
+  private paused = false;
+  private fetchPaused = false;
+
+  constructor(options: BreadcrumbTrackerOptions = {}) {
+    this.buffer = options.buffer ?? defaultBreadcrumbs;
+    this.options = options;
+  }
+
+  /** Begin recording breadcrumbs. */
+  install(): void {
+    if (this.installed || typeof window === 'undefined') return;
+
+    if (this.options.clicks !== false) {
+      this.clickHandler = (e: MouseEvent) => this.recordClick(e);
+      document.addEventListener('click', this.clickHandler, true);
+    }
+    if (this.options.inputs !== false) {
+      this.focusHandler = (e: FocusEvent) => this.recordFocus(e);
+      document.addEventListener('focusin', this.focusHandler, true);
+    }
+    if (this.options.navigation !== false) {
+      this.installNavigation();
+    }
+    if (this.options.fetch !== false && typeof window.fetch === 'function') {
+      this.installFetch();
+    }
+
+    this.installed = true;
+  }
+
+  /** Stop recording and restore `fetch` and `history`. */
+  uninstall(): void {
+    if (!this.installed) return;
+
+    if (this.clickHandler) {
+      document.removeEventListener('click', this.clickHandler, true);
+      this.clickHandler = null;
+    }
+    if (this.focusHandler) {
+      document.removeEventListener('focusin', this.focusHandler, true);
+      this.focusHandler = null;
+    }
+    if (this.locationHandler) {
+      window.removeEventListener('popstate', this.locationHandler);
+      window.removeEventListener('hashchange', this.locationHandler);
+      this.locationHandler = null;
+    }
+    if (this.originalPushState) history.pushState = this.originalPushState;
+    if (this.originalReplaceState) history.replaceState = this.originalReplaceState;
+    // Leave fetch alone if another library wrapped it after us.
+    if (this.originalFetch && window.fetch === this.wrappedFetch) {
+      window.fetch = this.originalFetch;
+    }
+
+    this.originalPushState = null;
+    this.originalReplaceState = null;
+    this.originalFetch = null;
+    this.wrappedFetch = null;
+    this.installed = false;
+  }
+
+  /**
+   * Pauses or resumes recording. The provider pauses while the report UI is
+   * open so the SDK's own clicks and uploads stay out of the trail.
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /**
+   * Pauses or resumes `fetch` breadcrumbs only. The provider pauses them
+   * while the SDK sends reports in the background, when the user's clicks
+   * and navigation still belong in the trail.
+   */
+  setFetchPaused(paused: boolean): void {
+    this.fetchPaused = paused;
+  }
+
+  // ---- Clicks & focus ----
+
+  private recordClick(event: MouseEvent): void {
+    if (this.paused) return;
+    const target = event.target;
+    if (!(target instanceof Element) || target.closest(IGNORE_SELECTOR)) return;
+
+    const element = target.closest(INTERACTIVE_SELECTOR) ?? target;
+    const selector = describeSelector(element);
+    const text = element.closest(PRIVATE_SELECTOR) ? '' : elementText(element);
+
+    this.buffer.add({
+      type: 'click',
+      message: text ? `Clicked ${selector} "${text}"` : `Clicked ${selector}`,
+      data: { selector, ...(text ? { text } : {}) },
+    });
+  }
+
+  private recordFocus(event: FocusEvent): void {
+    if (this.paused) return;
+    const target = event.target;
+    if (!(target instanceof HTMLElement) || target.closest(IGNORE_SELECTOR)) return;
+
+    const isField =
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement ||
+      target.isContentEditable;
+    if (!isField) return;
+
+    const selector = describeSelector(target);
+    const name = target.getAttribute('name');
+    this.buffer.add({
+      type: 'input',
+      message: `Focused ${selector}`,
+      data: {
+        selector,
+        ...(target instanceof HTMLInputElement ? { inputType: target.type } : {}),
+        ...(name ? { name } : {}),
+      },
+    });
+  }
+
+  // ---- Navigation ----
+
+  private installNavigation(): void {
+    this.lastLocation = currentLocation();
+    this.locationHandler = () => this.recordNavigation();
+
+    window.addEventListener('popstate', this.locationHandler);
+    window.addEventListener('hashchange', this.locationHandler);
+
+    this.originalPushState = history.pushState;
+    this.originalReplaceState = history.replaceState;
+    const pushState = this.originalPushState;
+    const replaceState = this.originalReplaceState;
+
+    history.pushState = (...args: Parameters<History['pushState']>) => {
+      pushState.apply(history, args);
+      this.recordNavigation();
+    };
+    history.replaceState = (...args: Parameters<History['replaceState']>) => {
+      replaceState.apply(history, args);
+      this.recordNavigation();
+    };
+  }
+
+  private recordNavigation(): void {
+    const to = currentLocation();
+    if (to === this.lastLocation) return;
+    const from = this.lastLocation;
+    this.lastLocation = to;
+    if (this.paused) return;
+    this.buffer.add({
+      type: 'navigation',
+      message: `Navigated to ${to}`,
+      data: { from, to },
+    });
+  }
+
+  // ---- Fetch ----
+
+  private installFetch(): void {
+    const originalFetch = window.fetch;
+    this.originalFetch = originalFetch;
+
+    this.wrappedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const method = (
+        init?.method ?? (input instanceof Request ? input.method : 'GET')
+      ).toUpperCase();
+      const fullUrl =
+        input instanceof Request ? input.url : input instanceof URL ? input.href : input;
+      if (this.paused || this.fetchPaused || this.isDestinationRequest(fullUrl)) {
+        return originalFetch.call(window, input, init);
+      }
+      const url = stripQuery(fullUrl);
+      const startedAt = Date.now();
+
+      try {
+        const response = await originalFetch.call(window, input, init);
+        this.buffer.add({
+          type: 'http',
+          message: `${method} ${url} → ${String(response.status)}`,
+          data: { method, url, status: response.status, durationMs: Date.now() - startedAt },
+        });
+        return response;
+      } catch (error) {
+        this.buffer.add({
+          type: 'http',
+          message: `${method} ${url} failed`,
+          data: {
+            method,
+            url,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startedAt,
+          },
+        });
+        throw error;
+      }
+    };
+    window.fetch = this.wrappedFetch;
+  }
+
+  private isDestinationRequest(url: string): boolean {
+    const patterns = this.options.destination?.requestUrls?.() ?? [];
+    return patterns.some((pattern) => {
+      if (typeof pattern === 'string') return url.includes(pattern);
+      pattern.lastIndex = 0;
+      return pattern.test(url);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Short CSS selector for an element, e.g. `form#checkout > button.primary`.
+ * Walks up at most a few ancestors and stops at the first id.
+ */
+export function describeSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && parts.length < MAX_SELECTOR_DEPTH && current !== document.body) {
+    let part = current.tagName.toLowerCase();
+    if (current.id) {
+      parts.unshift(`${part}#${current.id}`);
+      break;
+    }
+    const classes = Array.from(current.classList).slice(0, 2);
+    if (classes.length > 0) part += `.${classes.join('.')}`;
+    parts.unshift(part);
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+/** Visible label of an element, collapsed and truncated. Never input values. */
+function elementText(element: Element): string {
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    return element.getAttribute('aria-label') ?? '';
+  }
+  const text = (element.getAttribute('aria-label') ?? publicText(element))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+/** Text content of an element without the text of private descendants. */
+function publicText(node: Node): string {
+  let text = '';
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += child.textContent ?? '';
+    } else if (child instanceof Element && !child.matches(PRIVATE_SELECTOR)) {
+      // Keep words in sibling elements apart, e.g. <b>Pay</b><i>now</i>.
+      text += ` ${publicText(child)} `;
+    }
+  }
+  return text;
+}
+
+/** Path and hash of the current page; query strings may carry personal data. */
+function currentLocation(): string {
+  return `${window.location.pathname}${window.location.hash}`;
+}
+
+function stripQuery(url: string): string {
+  const end = url.search(/[?#]/);
+  return end === -1 ? url : url.slice(0, end);
+}
@@ -17,8 +17,10 @@ import type {
   ConsoleInfo,
 } from '@shakenbake/core';
 import { redactContext } from '@shakenbake/core';
+import type { PiiScrubber, RedactRule } from '@shakenbake/core';
 
 import type { ConsoleInterceptor } from './console-interceptor.js';
+import type { NetworkInterceptor } from './network-interceptor.js';
 
 // Extend Navigator with non-standard but widely-supported APIs.
 interface NavigatorWithConnection extends Navigator {
@@ -49,10 +51,21 @@ export interface BrowserContextCollectorOptions {
    */
   consoleInterceptor?: ConsoleInterceptor;
   /**
-   * Dot-path patterns of fields to redact from collected context.
-   * E.g. `["app.url", "console"]` removes the URL and entire console section.
+   * An optional network interceptor instance.
+   * When provided, recorded requests are included as `network.requests`.
    */
-  redactFields?: string[];
+  networkInterceptor?: NetworkInterceptor;
+  /**
+   * Path patterns of fields to redact from collected context.
+   * E.g. `["app.url", "console"]` removes the URL and entire console section;
+   * `{ path: "app.url", mask: "***" }` masks it instead.
+   */
+  redactFields?: RedactRule[];
+  /**
+   * When provided, personal data in URLs and console output is replaced
+   * with placeholders (see `privacy.stripPersonalData`).
+   */
+  piiScrubber?: PiiScrubber;
 }
 
 /**
@@ -66,11 +79,15 @@ export class BrowserContextCollector implements ContextCollector {
   readonly platform = 'web' as const;
 
   private readonly consoleInterceptor?: ConsoleInterceptor;
-  private readonly redactFields: string[];
+  private readonly networkInterceptor?: NetworkInterceptor;
+  private readonly redactFields: RedactRule[];
+  private readonly piiScrubber?: PiiScrubber;
 
   constructor(options?: BrowserContextCollectorOptions) {
     this.consoleInterceptor = options?.consoleInterceptor;
+    this.networkInterceptor = options?.networkInterceptor;
     this.redactFields = options?.redactFields ?? [];
+    this.piiScrubber = options?.piiScrubber;
   }
 
   async collect(): Promise<Partial<DeviceContext>> {
@@ -86,11 +103,15 @@ export class BrowserContextCollector implements ContextCollector {
     context.performance = this.collectPerformance();
     context.console = this.collectConsole();
 
+    const scrubbed = this.piiScrubber
+      ? this.piiScrubber.scrubContext(context)
+      : context;
+
     if (this.redactFields.length > 0) {
-      return redactContext(context, this.redactFields);
+      return redactContext(scrubbed, this.redactFields);
     }
 
-    return context;
+    return scrubbed;
   }
 
   // ---- Sub-collectors ----
@@ -191,6 +212,9 @@ export class BrowserContextCollector implements ContextCollector {
         downlink: conn?.downlink,
         rtt: conn?.rtt,
         saveData: conn?.saveData,
+        ...(this.networkInterceptor
+          ? { requests: this.networkInterceptor.getEntries() }
+          : {}),
       };
     } catch {
       return {};
@@ -341,14 +365,18 @@ export class BrowserContextCollector implements ContextCollector {
           level: e.level,
           message: e.message,
           timestamp: e.timestamp,
+          ...(e.count ? { count: e.count } : {}),
         })),
         recentErrors: entries.errors.map((e) => ({
           message: e.message,
+          ...(e.stack ? { stack: e.stack } : {}),
           timestamp: e.timestamp,
+          ...(e.count ? { count: e.count } : {}),
         })),
         unhandledRejections: entries.rejections.map((e) => ({
           reason: e.message,
           timestamp: e.timestamp,
+          ...(e.count ? { count: e.count } : {}),
         })),
       };
     } catch {
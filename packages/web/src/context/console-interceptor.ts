@@ -1,28 +1,61 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/web — ConsoleInterceptor
-// Ring buffer that intercepts console.log / warn / error and captures
-// unhandled promise rejections for inclusion in bug reports.
+// Ring buffer that intercepts console output and captures uncaught errors,
+// failed resource loads and unhandled promise rejections for inclusion in
+// bug reports.
 // ---------------------------------------------------------------------------
 
+import type { ConsoleFormatOptions } from '@shakenbake/core';
+import {
+  formatConsoleArgs,
+  formatError,
+  formatErrorStack,
+  redactUrl,
+  serializeValue,
+} from '@shakenbake/core';
+
 /** A single captured console entry. */
 export interface ConsoleEntry {
   level: string;
   message: string;
   timestamp: string;
+  /** Stack of the logged or uncaught error, including its `cause` chain. */
+  stack?: string;
+  /** How many times this entry repeated in a row; `timestamp` is the latest. */
+  count?: number;
 }
 
 /** Configuration for the console interceptor. */
 export interface ConsoleInterceptorConfig {
-  /** Maximum number of log/warn entries to retain. Default: `50`. */
+  /** Maximum number of log/info/debug/warn/trace entries to retain. Default: `50`. */
   maxLogs?: number;
   /** Maximum number of error entries to retain. Default: `20`. */
   maxErrors?: number;
+  /** Record uncaught errors (`window` `error` events). Default: `true`. */
+  captureErrors?: boolean;
+  /** Record scripts, stylesheets and images that fail to load. Default: `true`. */
+  captureResourceErrors?: boolean;
+  /** Depth and size limits for logged values. */
+  format?: ConsoleFormatOptions;
 }
 
+type LogMethod = 'log' | 'info' | 'debug' | 'warn' | 'trace';
+
+const LOG_METHODS: LogMethod[] = ['log', 'info', 'debug', 'warn', 'trace'];
+
+type ConsoleFn = (...args: unknown[]) => void;
+
+type WrappedMethod = LogMethod | 'error' | 'assert';
+
 /**
- * Intercepts `console.log`, `console.warn`, `console.error` and captures
- * unhandled promise rejections.  Entries are stored in a fixed-size ring
- * buffer so memory usage stays bounded.
+ * Intercepts `console.log`, `info`, `debug`, `warn`, `trace`, `error` and
+ * failed `console.assert` calls, uncaught errors, resource load failures
+ * and unhandled promise rejections. Entries are stored in fixed-size ring
+ * buffers so memory usage stays bounded; a message repeated in a row is
+ * stored once with a `count`.
+ *
+ * Logged values are formatted like the browser console (`%s`, `%o`, ...)
+ * with circular references, deep nesting and huge values cut short.
  *
  * Call {@link install} to begin intercepting and {@link uninstall} to restore
  * the original console methods.
@@ -30,57 +63,88 @@ export interface ConsoleInterceptorConfig {
 export class ConsoleInterceptor {
   private readonly maxLogs: number;
   private readonly maxErrors: number;
+  private readonly captureErrors: boolean;
+  private readonly captureResourceErrors: boolean;
+  private readonly format: ConsoleFormatOptions | undefined;
 
   private logs: ConsoleEntry[] = [];
   private errors: ConsoleEntry[] = [];
   private rejections: ConsoleEntry[] = [];
 
-  private originalLog: typeof console.log | null = null;
-  private originalWarn: typeof console.warn | null = null;
-  private originalError: typeof console.error | null = null;
+  private originals: Partial<Record<WrappedMethod, ConsoleFn>> = {};
+  private wrapped: Partial<Record<WrappedMethod, ConsoleFn>> = {};
 
   private rejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
+  private errorHandler: ((event: Event) => void) | null = null;
 
   private installed = false;
 
   constructor(config?: ConsoleInterceptorConfig) {
     this.maxLogs = config?.maxLogs ?? 50;
     this.maxErrors = config?.maxErrors ?? 20;
+    this.captureErrors = config?.captureErrors !== false;
+    this.captureResourceErrors = config?.captureResourceErrors !== false;
+    this.format = config?.format;
   }
 
-  /** Begin intercepting console output and unhandled rejections. */
+  /** Begin intercepting console output, errors and unhandled rejections. */
   install(): void {
     if (this.installed) return;
 
-    this.originalLog = console.log;
-    this.originalWarn = console.warn;
-    this.originalError = console.error;
-
-    console.log = (...args: unknown[]) => {
-      this.push(this.logs, this.maxLogs, 'log', args);
-      this.originalLog?.apply(console, args);
-    };
+    for (const method of LOG_METHODS) {
+      const original = console[method] as ConsoleFn;
+      this.originals[method] = original;
+      const wrapper = (...args: unknown[]) => {
+        this.push(this.logs, this.maxLogs, {
+          ...this.toEntry(method, args),
+          // trace prints the caller's stack; keep it without this frame.
+          ...(method === 'trace' ? { stack: callerStack() } : {}),
+        });
+        original.apply(console, args);
+      };
+      this.wrapped[method] = wrapper;
+      console[method] = wrapper;
+    }
 
-    console.warn = (...args: unknown[]) => {
-      this.push(this.logs, this.maxLogs, 'warn', args);
-      this.originalWarn?.apply(console, args);
+    const originalError = console.error as ConsoleFn;
+    this.originals.error = originalError;
+    const errorWrapper = (...args: unknown[]) => {
+      this.push(this.errors, this.maxErrors, this.toEntry('error', args));
+      originalError.apply(console, args);
     };
+    this.wrapped.error = errorWrapper;
+    console.error = errorWrapper;
 
-    console.error = (...args: unknown[]) => {
-      this.push(this.errors, this.maxErrors, 'error', args);
-      this.originalError?.apply(console, args);
+    const originalAssert = console.assert as (condition?: boolean, ...data: unknown[]) => void;
+    this.originals.assert = originalAssert as ConsoleFn;
+    const assertWrapper = (condition?: boolean, ...data: unknown[]) => {
+      if (!condition) {
+        const entry = this.toEntry('assert', data);
+        this.push(this.errors, this.maxErrors, {
+          ...entry,
+          message: entry.message ? `Assertion failed: ${entry.message}` : 'Assertion failed',
+        });
+      }
+      originalAssert.call(console, condition, ...data);
     };
+    this.wrapped.assert = assertWrapper as ConsoleFn;
+    console.assert = assertWrapper;
 
     this.rejectionHandler = (event: PromiseRejectionEvent) => {
-      const reason =
-        event.reason instanceof Error
-          ? event.reason.message
-          : String(event.reason);
-      this.push(this.rejections, this.maxErrors, 'unhandledrejection', [reason]);
+      this.push(this.rejections, this.maxErrors, {
+        level: 'unhandledrejection',
+        message: serializeValue(event.reason, this.format),
+        timestamp: new Date().toISOString(),
+      });
     };
-
     window.addEventListener('unhandledrejection', this.rejectionHandler);
 
+    if (this.captureErrors || this.captureResourceErrors) {
+      this.errorHandler = (event: Event) => this.handleErrorEvent(event);
+      // Resource errors do not bubble; they only reach window while capturing.
+      window.addEventListener('error', this.errorHandler, true);
+    }
+
     this.installed = true;
   }
 
@@ -88,18 +152,25 @@ export class ConsoleInterceptor {
   uninstall(): void {
     if (!this.installed) return;
 
-    if (this.originalLog) console.log = this.originalLog;
-    if (this.originalWarn) console.warn = this.originalWarn;
-    if (this.originalError) console.error = this.originalError;
+    // Leave anything another library wrapped after us alone.
+    const methods = console as unknown as Record<string, ConsoleFn>;
+    for (const [method, original] of Object.entries(this.originals)) {
+      if (methods[method] === this.wrapped[method as WrappedMethod]) {
+        methods[method] = original;
+      }
+    }
+    this.originals = {};
+    this.wrapped = {};
 
     if (this.rejectionHandler) {
       window.removeEventListener('unhandledrejection', this.rejectionHandler);
       this.rejectionHandler = null;
     }
+    if (this.errorHandler) {
+      window.removeEventListener('error', this.errorHandler, true);
+      this.errorHandler = null;
+    }
 
-    this.originalLog = null;
-    this.originalWarn = null;
-    this.originalError = null;
     this.installed = false;
   }
 
@@ -125,26 +196,94 @@ export class ConsoleInterceptor {
 
   // ---- Internal helpers ----
 
-  private push(
-    buffer: ConsoleEntry[],
-    maxSize: number,
-    level: string,
-    args: unknown[],
-  ): void {
-    const message = args.map((a) => this.stringify(a)).join(' ');
-    buffer.push({ level, message, timestamp: new Date().toISOString() });
+  private handleErrorEvent(event: Event): void {
+    const target = event.target;
+    if (target && target !== window && isElement(target)) {
+      if (!this.captureResourceErrors) return;
+      const url = resourceUrl(target);
+      const tag = target.tagName.toLowerCase();
+      this.push(this.errors, this.maxErrors, {
+        level: 'resource',
+        message: url ? `Failed to load <${tag}> ${redactUrl(url)}` : `Failed to load <${tag}>`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!this.captureErrors) return;
+    const { error, message, filename, lineno, colno } = event as ErrorEvent;
+    const location = filename ? `${filename}:${String(lineno)}:${String(colno)}` : undefined;
+    const stack =
+      error instanceof Error
+        ? formatErrorStack(error, this.format)
+        : location && `    at ${location}`;
+    this.push(this.errors, this.maxErrors, {
+      level: 'uncaught',
+      message:
+        error instanceof Error
+          ? formatError(error, this.format)
+          : message || serializeValue(error, this.format),
+      timestamp: new Date().toISOString(),
+      ...(stack ? { stack } : {}),
+    });
+  }
+
+  private toEntry(level: string, args: unknown[]): ConsoleEntry {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const stack = error ? formatErrorStack(error, this.format) : undefined;
+    return {
+      level,
+      message: formatConsoleArgs(args, this.format),
+      timestamp: new Date().toISOString(),
+      ...(stack ? { stack } : {}),
+    };
+  }
+
+  private push(buffer: ConsoleEntry[], maxSize: number, entry: ConsoleEntry): void {
+    const last = buffer[buffer.length - 1];
+    if (
+      last &&
+      last.level === entry.level &&
+      last.message === entry.message &&
+      last.stack === entry.stack
+    ) {
+      // Collapse repeats so a log in a render loop cannot flush the buffer.
+      buffer[buffer.length - 1] = {
+        ...last,
+        timestamp: entry.timestamp,
+        count: (last.count ?? 1) + 1,
+      };
+      return;
+    }
+
+    buffer.push(entry);
     // Trim the oldest entry when the buffer overflows.
     while (buffer.length > maxSize) {
       buffer.shift();
     }
   }
+}
 
-  private stringify(value: unknown): string {
-    if (typeof value === 'string') return value;
-    try {
-      return JSON.stringify(value);
-    } catch {
-      return String(value);
-    }
-  }
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isElement(target: EventTarget): target is Element {
+  return typeof Element !== 'undefined' && target instanceof Element;
+}
+
+/** URL of a failed `<img>`, `<script>`, `<link>`, `<video>`, ... */
+function resourceUrl(element: Element): string | undefined {
+  const { src, href, currentSrc } = element as Partial<
+    HTMLImageElement & HTMLLinkElement & HTMLMediaElement
+  >;
+  return currentSrc || src || href || undefined;
+}
+
+/** Stack at the console.trace call site, without the interceptor's frames. */
+function callerStack(): string | undefined {
+  const stack = new Error().stack;
+  if (!stack) return undefined;
+  // Drop the "Error" line, this function and the console wrapper.
+  return stack.split('\n').slice(3).join('\n') || undefined;
 }
@@ -0,0 +1,402 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — NetworkInterceptor
+// Ring buffer of recent fetch / XMLHttpRequest calls for inclusion in bug
+// reports.
+// ---------------------------------------------------------------------------
+
+import type { DestinationAdapter, NetworkLogOptions, NetworkRequest } from '@shakenbake/core';
+import { NetworkLog, bodySize, bodyText, parseRawHeaders } from '@shakenbake/core';
+
+/** Configuration for the network interceptor. */
+export interface NetworkInterceptorConfig extends NetworkLogOptions {
+  /** Requests to this destination's {@link DestinationAdapter.requestUrls} are not recorded. */
+  destination?: DestinationAdapter;
+}
+
+/** What is known about a request when it starts. */
+interface PendingRequest {
+  initiator: NetworkRequest['initiator'];
+  method: string;
+  url: string;
+  startedAt: string;
+  start: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/** Response content types whose bodies are kept with `captureBodies`. */
+const TEXT_CONTENT_TYPE =
+  /^(text\/|application\/(json|xml|x-www-form-urlencoded|[\w.+-]+\+(json|xml)))/i;
+
+/** Streamed responses that stay open; their bodies are never read. */
+const STREAMING_CONTENT_TYPE = /^(text\/event-stream|application\/(x-)?ndjson)/i;
+
+/**
+ * Patches `fetch` and `XMLHttpRequest` to record method, URL, status,
+ * timings and sizes of every request in a bounded {@link NetworkLog}.
+ * URLs are redacted before they are stored; bodies are only kept (and
+ * truncated) with `captureBodies`.
+ *
+ * Call {@link install} to begin intercepting and {@link uninstall} to restore
+ * the original functions.
+ */
+export class NetworkInterceptor {
+  private readonly log: NetworkLog;
+
+  private originalFetch: typeof fetch | null = null;
+  private wrappedFetch: typeof fetch | null = null;
+  private originalOpen: XMLHttpRequest['open'] | null = null;
+  private originalSend: XMLHttpRequest['send'] | null = null;
+  private originalSetRequestHeader: XMLHttpRequest['setRequestHeader'] | null = null;
+  private wrappedOpen: XMLHttpRequest['open'] | null = null;
+  private wrappedSend: XMLHttpRequest['send'] | null = null;
+  private wrappedSetRequestHeader: XMLHttpRequest['setRequestHeader'] | null = null;
+
+  private installed = false;
+  private paused = false;
+
+  constructor(config?: NetworkInterceptorConfig) {
+    this.log = new NetworkLog(config, config?.destination);
+  }
+
+  /** Begin intercepting fetch and XMLHttpRequest. */
+  install(): void {
+    if (this.installed || typeof window === 'undefined') return;
+
+    if (typeof window.fetch === 'function') this.installFetch();
+    if (typeof window.XMLHttpRequest === 'function') this.installXhr();
+
+    this.installed = true;
+  }
+
+  /** Stop intercepting and restore the original functions. */
+  uninstall(): void {
+    if (!this.installed) return;
+
+    // Leave anything another library wrapped after us alone.
+    if (this.originalFetch && window.fetch === this.wrappedFetch) {
+      window.fetch = this.originalFetch;
+    }
+    const proto = window.XMLHttpRequest?.prototype;
+    if (proto && this.originalOpen && proto.open === this.wrappedOpen) {
+      proto.open = this.originalOpen;
+    }
+    if (proto && this.originalSend && proto.send === this.wrappedSend) {
+      proto.send = this.originalSend;
+    }
+    if (
+      proto &&
+      this.originalSetRequestHeader &&
+      proto.setRequestHeader === this.wrappedSetRequestHeader
+    ) {
+      proto.setRequestHeader = this.originalSetRequestHeader;
+    }
+
+    this.originalFetch = null;
+    this.wrappedFetch = null;
+    this.originalOpen = null;
+    this.originalSend = null;
+    this.originalSetRequestHeader = null;
+    this.wrappedOpen = null;
+    this.wrappedSend = null;
+    this.wrappedSetRequestHeader = null;
+    this.installed = false;
+  }
+
+  /**
+   * Pauses or resumes recording. The provider pauses while the report UI is
+   * open so the SDK's own uploads are not logged.
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  /** Return all recorded requests, oldest first. */
+  getEntries(): NetworkRequest[] {
+    return this.log.getAll();
+  }
+
+  /** Clear all recorded requests. */
+  clear(): void {
+    this.log.clear();
+  }
+
+  // ---- fetch ----
+
+  private installFetch(): void {
+    const originalFetch = window.fetch;
+    this.originalFetch = originalFetch;
+
+    this.wrappedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url =
+        input instanceof Request ? input.url : input instanceof URL ? input.href : String(input);
+      if (!this.shouldRecord(url)) return originalFetch.call(window, input, init);
+
+      const pending = this.begin(
+        'fetch',
+        init?.method ?? (input instanceof Request ? input.method : 'GET'),
+        url,
+        init?.body,
+        this.log.captureHeaders
+          ? headersToRecord(init?.headers ?? (input instanceof Request ? input.headers : undefined))
+          : undefined,
+      );
+
+      let response: Response;
+      try {
+        response = await originalFetch.call(window, input, init);
+      } catch (error) {
+        this.finish(pending, {
+          error: error instanceof Error ? error.message || error.name : String(error),
+        });
+        throw error;
+      }
+
+      const responseSize = contentLength(response.headers?.get('content-length'));
+      const responseHeaders =
+        this.log.captureHeaders && response.headers
+          ? headersToRecord(response.headers)
+          : undefined;
+      const durationMs = elapsed(pending.start);
+      if (this.log.captureBodies && isTextResponse(response.headers?.get('content-type'))) {
+        // Read a copy in the background so the caller gets the response at once.
+        void readText(response, this.log.maxBodyLength).then((read) => {
+          this.finish(
+            pending,
+            {
+              status: response.status,
+              durationMs,
+              responseSize: responseSize ?? (read?.complete ? bodySize(read.text) : undefined),
+              responseHeaders,
+              responseBody: read?.text,
+            },
+            !read?.complete,
+          );
+        });
+      } else {
+        this.finish(pending, {
+          status: response.status,
+          durationMs,
+          responseSize,
+          responseHeaders,
+        });
+      }
+      return response;
+    };
+    window.fetch = this.wrappedFetch;
+  }
+
+  // ---- XMLHttpRequest ----
+
+  private installXhr(): void {
+    const proto = window.XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const originalSetRequestHeader = proto.setRequestHeader;
+    this.originalOpen = originalOpen;
+    this.originalSend = originalSend;
+    this.originalSetRequestHeader = originalSetRequestHeader;
+
+    const requests = new WeakMap<
+      XMLHttpRequest,
+      { method: string; url: string; headers: Record<string, string> }
+    >();
+    const shouldRecord = (url: string) => this.shouldRecord(url);
+    const begin = this.begin.bind(this);
+    const finish = this.finish.bind(this);
+    const captureBodies = this.log.captureBodies;
+    const captureHeaders = this.log.captureHeaders;
+
+    this.wrappedOpen = function open(this: XMLHttpRequest, ...args: unknown[]) {
+      requests.set(this, { method: String(args[0]), url: String(args[1]), headers: {} });
+      return (originalOpen as (...a: unknown[]) => void).apply(this, args);
+    } as XMLHttpRequest['open'];
+
+    this.wrappedSetRequestHeader = function setRequestHeader(
+      this: XMLHttpRequest,
+      name: string,
+      value: string,
+    ) {
+      const info = requests.get(this);
+      if (info && captureHeaders) info.headers[name.toLowerCase()] = value;
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
+    this.wrappedSend = function send(
+      this: XMLHttpRequest,
+      body?: Document | XMLHttpRequestBodyInit | null,
+    ) {
+      const info = requests.get(this);
+      if (info && shouldRecord(info.url)) {
+        const pending = begin(
+          'xhr',
+          info.method,
+          info.url,
+          body,
+          captureHeaders ? info.headers : undefined,
+        );
+        let error = 'Network error';
+        this.addEventListener('abort', () => { error = 'Aborted'; });
+        this.addEventListener('timeout', () => { error = 'Timed out'; });
+        this.addEventListener(
+          'loadend',
+          () => {
+            if (!this.status) {
+              finish(pending, { error });
+              return;
+            }
+            const text = xhrText(this);
+            const length = contentLength(this.getResponseHeader('content-length'));
+            finish(pending, {
+              status: this.status,
+              responseSize: length ?? bodySize(text),
+              ...(captureHeaders
+                ? { responseHeaders: parseRawHeaders(this.getAllResponseHeaders()) }
+                : {}),
+              ...(captureBodies && text !== undefined ? { responseBody: text } : {}),
+            });
+          },
+          { once: true },
+        );
+      }
+      return originalSend.call(this, body);
+    };
+
+    proto.open = this.wrappedOpen;
+    proto.send = this.wrappedSend;
+    proto.setRequestHeader = this.wrappedSetRequestHeader;
+  }
+
+  // ---- Internal helpers ----
+
+  private shouldRecord(url: string): boolean {
+    return !this.paused && this.log.shouldRecord(url);
+  }
+
+  private begin(
+    initiator: NetworkRequest['initiator'],
+    method: string,
+    url: string,
+    body: unknown,
+    headers?: Record<string, string>,
+  ): PendingRequest {
+    return {
+      initiator,
+      method: method.toUpperCase(),
+      url,
+      startedAt: new Date().toISOString(),
+      start: now(),
+      body,
+      ...(headers ? { headers } : {}),
+    };
+  }
+
+  private finish(
+    pending: PendingRequest,
+    result: Partial<Pick<
+      NetworkRequest,
+      'status' | 'error' | 'durationMs' | 'responseSize' | 'responseHeaders' | 'responseBody'
+    >>,
+    partialResponseBody = false,
+  ): void {
+    const requestSize = bodySize(pending.body);
+    const requestBody = bodyText(pending.body);
+    this.log.add({
+      initiator: pending.initiator,
+      method: pending.method,
+      url: pending.url,
+      startedAt: pending.startedAt,
+      durationMs: result.durationMs ?? elapsed(pending.start),
+      ...(result.status !== undefined ? { status: result.status } : {}),
+      ...(result.error !== undefined ? { error: result.error } : {}),
+      ...(requestSize !== undefined ? { requestSize } : {}),
+      ...(result.responseSize !== undefined ? { responseSize: result.responseSize } : {}),
+      ...(pending.headers ? { requestHeaders: pending.headers } : {}),
+      ...(result.responseHeaders ? { responseHeaders: result.responseHeaders } : {}),
+      ...(requestBody !== undefined ? { requestBody } : {}),
+      ...(result.responseBody !== undefined ? { responseBody: result.responseBody } : {}),
+    }, { partialResponseBody });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function elapsed(start: number): number {
+  return Math.round(now() - start);
+}
+
+/** Any fetch `HeadersInit` as a record with lower-case names. */
+function headersToRecord(init: HeadersInit | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  try {
+    new Headers(init).forEach((value, name) => {
+      headers[name] = value;
+    });
+  } catch {
+    // Invalid header names — record none.
+  }
+  return headers;
+}
+
+function contentLength(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+  const length = Number(header);
+  return Number.isFinite(length) && length >= 0 ? length : undefined;
+}
+
+/**
+ * Whether a response body is worth keeping. Without a content type the body
+ * may be anything, and event streams never finish.
+ */
+function isTextResponse(contentType: string | null | undefined): boolean {
+  return (
+    !!contentType &&
+    TEXT_CONTENT_TYPE.test(contentType) &&
+    !STREAMING_CONTENT_TYPE.test(contentType)
+  );
+}
+
+/**
+ * Reads a copy of the body until it is longer than `maxLength` characters,
+ * then cancels the copy, so large downloads are not buffered twice.
+ */
+async function readText(
+  response: Response,
+  maxLength: number,
+): Promise<{ text: string; complete: boolean } | undefined> {
+  try {
+    const body = response.clone().body;
+    if (!body) return { text: '', complete: true };
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return { text: text + decoder.decode(), complete: true };
+      text += decoder.decode(value, { stream: true });
+      if (text.length > maxLength) {
+        void reader.cancel().catch(() => undefined);
+        return { text, complete: false };
+      }
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+/** The response of a text or JSON XHR as text. */
+function xhrText(xhr: XMLHttpRequest): string | undefined {
+  try {
+    if (xhr.responseType === '' || xhr.responseType === 'text') return xhr.responseText;
+    if (xhr.responseType === 'json' && xhr.response !== null) return JSON.stringify(xhr.response);
+  } catch {
+    // responseText throws while the request is in an unexpected state.
+  }
+  return undefined;
+}
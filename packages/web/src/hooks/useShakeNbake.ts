@@ -7,13 +7,30 @@
 'use client';
 
 import { useContext } from 'react';
-import type { ShakeNbakeConfig } from '@shakenbake/core';
+import type {
+  ReportInput,
+  ShakeNbakeConfig,
+  SubmitReportOptions,
+  SubmitResult,
+  TriggerPayload,
+} from '@shakenbake/core';
 import { ShakeNbakeContext } from '../ShakeNbakeProvider.js';
 import type { FlowStep } from '../ShakeNbakeProvider.js';
 
 export interface UseShakeNbakeReturn {
-  /** Programmatically trigger the bug-report flow. */
-  trigger: () => void;
+  /**
+   * Programmatically trigger the bug-report flow. The payload prefills the
+   * form and can add metadata or skip annotation.
+   */
+  trigger: (payload?: TriggerPayload) => void;
+  /**
+   * File a report from code without annotation or the form. Missing fields
+   * get defaults; a screenshot is captured unless `options.screenshot` is false.
+   */
+  submitReport: (
+    input?: Partial<ReportInput>,
+    options?: SubmitReportOptions,
+  ) => Promise<SubmitResult>;
   /** Whether the bug-report overlay is currently visible. */
   isOpen: boolean;
   /** Current step of the flow state machine. */
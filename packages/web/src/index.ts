@@ -4,23 +4,36 @@
 // ---------------------------------------------------------------------------
 
 // Triggers
-export { KeyboardTrigger } from './triggers/keyboard.js';
+export { KeyboardTrigger, DEFAULT_KEYBOARD_SHORTCUT } from './triggers/keyboard.js';
+export type { KeyboardTriggerConfig } from './triggers/keyboard.js';
 export { FABTrigger } from './triggers/fab.js';
 export type { FABTriggerConfig } from './triggers/fab.js';
+export { ErrorTrigger } from './triggers/error.js';
+export { FrustrationTrigger } from './triggers/frustration.js';
+export type { FrustrationTriggerConfig } from './triggers/frustration.js';
 
 // Capture
-export { Html2CanvasCapture } from './capture/screenshot.js';
+export { Html2CanvasCapture, DEFAULT_MASK_SELECTORS } from './capture/screenshot.js';
 export type { Html2CanvasCaptureOptions } from './capture/screenshot.js';
+export { CanvasImageCodec } from './capture/image-codec.js';
 
 // Context
 export { BrowserContextCollector } from './context/collectors.js';
 export type { BrowserContextCollectorOptions } from './context/collectors.js';
 export { ConsoleInterceptor } from './context/console-interceptor.js';
+export { NetworkInterceptor } from './context/network-interceptor.js';
+export type { NetworkInterceptorConfig } from './context/network-interceptor.js';
+export { BreadcrumbTracker } from './context/breadcrumbs.js';
+export type { BreadcrumbTrackerOptions } from './context/breadcrumbs.js';
 export type {
   ConsoleEntry,
   ConsoleInterceptorConfig,
 } from './context/console-interceptor.js';
 
+// Storage
+export { IndexedDBStorage } from './storage/indexeddb.js';
+export type { IndexedDBStorageOptions } from './storage/indexeddb.js';
+
 // Annotation
 export { DrawingCanvas } from './annotate/DrawingCanvas.js';
 export type {
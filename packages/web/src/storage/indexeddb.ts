@@ -0,0 +1,86 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — IndexedDBStorage
+// KeyValueStorage backed by a single IndexedDB object store. Used to persist
+// the offline report queue (screenshots are too large for localStorage).
+// ---------------------------------------------------------------------------
+
+import type { KeyValueStorage } from '@shakenbake/core';
+
+/** Options for configuring the IndexedDB storage. */
+export interface IndexedDBStorageOptions {
+  /** Database name. Defaults to `'shakenbake'`. */
+  dbName?: string;
+  /** Object store name. Defaults to `'kv'`. */
+  storeName?: string;
+}
+
+/**
+ * Persistent {@link KeyValueStorage} for browsers.
+ *
+ * The database is opened lazily on first use. Use
+ * {@link IndexedDBStorage.isSupported} to check availability before
+ * constructing one (e.g. in SSR or private-mode browsers).
+ */
+export class IndexedDBStorage implements KeyValueStorage {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options?: IndexedDBStorageOptions) {
+    this.dbName = options?.dbName ?? 'shakenbake';
+    this.storeName = options?.storeName ?? 'kv';
+  }
+
+  /** Returns true when `indexedDB` is available in this environment. */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  // ---- Internal helpers ----
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed.
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode);
+      const request = operation(tx.objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,66 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — ErrorTrigger plugin
+// Opens (or auto-submits) a crash report when an uncaught error or an
+// unhandled promise rejection reaches `window`.
+// ---------------------------------------------------------------------------
+
+import type { ErrorTriggerOptions, TriggerPayload, TriggerPlugin } from '@shakenbake/core';
+import { ErrorReportGate } from '@shakenbake/core';
+
+/**
+ * Crash trigger for the web SDK.
+ *
+ * Listens for `error` and `unhandledrejection` on `window` and fires
+ * `onTrigger` with `category: 'crash'`, the error message as the title and
+ * the stack as the description. `metadata.errorSource` records which event
+ * fired (`'error'` or `'unhandledrejection'`). Ignore patterns and throttling come from
+ * {@link ErrorTriggerOptions}; with `mode: 'auto'` the report is submitted
+ * without showing any UI.
+ *
+ * @example
+ * ```ts
+ * triggers: [new ErrorTrigger({ mode: 'auto', ignore: [/ChunkLoadError/] })]
+ * ```
+ */
+export class ErrorTrigger implements TriggerPlugin {
+  readonly name = 'error';
+  readonly platform = 'web' as const;
+
+  private readonly gate: ErrorReportGate;
+  private errorHandler: ((e: ErrorEvent) => void) | null = null;
+  private rejectionHandler: ((e: PromiseRejectionEvent) => void) | null = null;
+
+  constructor(options?: ErrorTriggerOptions) {
+    this.gate = new ErrorReportGate(options);
+  }
+
+  activate(onTrigger: (payload?: TriggerPayload) => boolean | void): void {
+    // Remove any previously-registered handlers to avoid duplicates.
+    this.deactivate();
+    if (typeof window === 'undefined') return;
+
+    const report = (error: unknown, errorSource: string): void => {
+      const payload = this.gate.toPayload(error, { errorSource });
+      if (payload && onTrigger(payload) !== false) this.gate.markReported();
+    };
+
+    // Failed resource loads do not bubble, so only script errors arrive here.
+    this.errorHandler = (e: ErrorEvent) => report(e.error ?? e.message, 'error');
+    this.rejectionHandler = (e: PromiseRejectionEvent) =>
+      report(e.reason, 'unhandledrejection');
+
+    window.addEventListener('error', this.errorHandler);
+    window.addEventListener('unhandledrejection', this.rejectionHandler);
+  }
+
+  deactivate(): void {
+    if (this.errorHandler) {
+      window.removeEventListener('error', this.errorHandler);
+      this.errorHandler = null;
+    }
+    if (this.rejectionHandler) {
+      window.removeEventListener('unhandledrejection', this.rejectionHandler);
+      this.rejectionHandler = null;
+    }
+  }
+}
@@ -10,24 +10,65 @@ import type { TriggerPlugin } from '@shakenbake/core';
 export interface FABTriggerConfig {
   /** Which corner to pin the button to. Defaults to `'bottom-right'`. */
   position?: 'bottom-right' | 'bottom-left';
+  /** Button diameter in px. Defaults to `56`. */
+  size?: number;
+  /** SVG or HTML markup shown inside the button. Defaults to a bug icon. */
+  icon?: string;
+  /** Button color. Defaults to `'#6366f1'`. */
+  accentColor?: string;
+  /**
+   * Let the user drag the button; it snaps to the nearest side and the
+   * position is remembered in `localStorage`. Defaults to `true`.
+   */
+  draggable?: boolean;
+  /** Long-press hides the button for the rest of the browser session. Defaults to `true`. */
+  hideOnLongPress?: boolean;
+  /** How long a press must be held to hide the button. Defaults to `600` ms. */
+  longPressMs?: number;
+  /** `localStorage` / `sessionStorage` key prefix. Defaults to `'shakenbake:fab'`. */
+  storageKey?: string;
+}
+
+/** Where a dragged button was dropped: a side, and its distance from the bottom. */
+interface FABPosition {
+  side: 'left' | 'right';
+  bottom: number;
 }
 
 // SVG bug icon (24x24 viewBox) used inside the button.
 const BUG_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m8 2 1.88 1.88"/><path d="M14.12 3.88 16 2"/><path d="M9 7.13v-1a3.003 3.003 0 1 1 6 0v1"/><path d="M12 20c-3.3 0-6-2.7-6-6v-3a4 4 0 0 1 4-4h4a4 4 0 0 1 4 4v3c0 3.3-2.7 6-6 6"/><path d="M12 20v-9"/><path d="M6.53 9C4.6 8.8 3 7.1 3 5"/><path d="M6 13H2"/><path d="M3 21c0-2.1 1.7-3.9 3.8-4"/><path d="M20.97 5c0 2.1-1.6 3.8-3.5 4"/><path d="M22 13h-4"/><path d="M17.2 17c2.1.1 3.8 1.9 3.8 4"/></svg>`;
 
+/** Distance kept from the viewport edges. */
+const EDGE_MARGIN = 20;
+/** Pointer travel that turns a press into a drag. */
+const DRAG_THRESHOLD = 5;
+
+const LABEL = 'Report a bug';
+
 /**
  * Floating Action Button trigger for the web SDK.
  *
  * When activated, injects a fixed-position button into the DOM at the
  * specified corner.  Clicking the button fires `onTrigger`.
+ *
+ * The button can be dragged to either side of the screen and stays where it
+ * was dropped across page loads. A long press hides it until the browser
+ * session ends. The provider shows the number of unsent reports with
+ * {@link setBadgeCount} and calls {@link notifySubmitted} after a report is
+ * sent.
  */
 export class FABTrigger implements TriggerPlugin {
   readonly name = 'fab';
   readonly platform = 'web' as const;
 
   private button: HTMLButtonElement | null = null;
+  private badge: HTMLSpanElement | null = null;
   private readonly config: FABTriggerConfig;
 
+  private badgeCount = 0;
+  private cleanupDrag: (() => void) | null = null;
+  private pulseTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor(config?: FABTriggerConfig) {
     this.config = config ?? {};
   }
@@ -35,23 +76,25 @@ export class FABTrigger implements TriggerPlugin {
   activate(onTrigger: () => void): void {
     // Remove any previously-created button to avoid duplicates.
     this.deactivate();
+    if (this.isHiddenForSession()) return;
 
     const btn = document.createElement('button');
     btn.setAttribute('type', 'button');
-    btn.setAttribute('aria-label', 'Report a bug');
+    btn.setAttribute('aria-label', LABEL);
+    // Keep the button out of breadcrumbs and frustration detection.
+    btn.setAttribute('data-shakenbake-ignore', '');
 
-    const position = this.config.position ?? 'bottom-right';
+    const size = this.config.size ?? 56;
 
     // Apply inline styles so no external CSS is required.
     const baseStyles: Partial<CSSStyleDeclaration> = {
       position: 'fixed',
-      bottom: '20px',
       zIndex: '2147483647',
-      width: '56px',
-      height: '56px',
+      width: `${String(size)}px`,
+      height: `${String(size)}px`,
       borderRadius: '50%',
       border: 'none',
-      backgroundColor: '#6366f1',
+      backgroundColor: this.config.accentColor ?? '#6366f1',
       color: '#ffffff',
       cursor: 'pointer',
       display: 'flex',
@@ -60,17 +103,33 @@ export class FABTrigger implements TriggerPlugin {
       boxShadow: '0 4px 12px rgba(0, 0, 0, 0.25)',
       padding: '0',
       transition: 'transform 0.15s ease, box-shadow 0.15s ease',
+      // Pointer events drive dragging; stop touch scrolling from stealing them.
+      touchAction: 'none',
     };
 
-    if (position === 'bottom-left') {
-      baseStyles.left = '20px';
-    } else {
-      baseStyles.right = '20px';
-    }
-
     Object.assign(btn.style, baseStyles);
+    this.placeButton(btn, this.loadPosition() ?? this.defaultPosition());
+
+    btn.innerHTML = this.config.icon ?? BUG_ICON_SVG;
 
-    btn.innerHTML = BUG_ICON_SVG;
+    const badge = document.createElement('span');
+    badge.setAttribute('aria-hidden', 'true');
+    Object.assign(badge.style, {
+      position: 'absolute',
+      top: '-4px',
+      right: '-4px',
+      minWidth: '20px',
+      height: '20px',
+      padding: '0 5px',
+      boxSizing: 'border-box',
+      borderRadius: '10px',
+      backgroundColor: '#ef4444',
+      color: '#ffffff',
+      font: '600 12px/20px system-ui, sans-serif',
+      textAlign: 'center',
+      pointerEvents: 'none',
+    } satisfies Partial<CSSStyleDeclaration>);
+    btn.appendChild(badge);
 
     // Hover / active visual feedback.
     btn.addEventListener('mouseenter', () => {
@@ -82,18 +141,201 @@ export class FABTrigger implements TriggerPlugin {
       btn.style.boxShadow = '0 4px 12px rgba(0, 0, 0, 0.25)';
     });
 
+    // Set when a press turned into a drag or long press, so the click that
+    // ends it does not open the report flow.
+    let suppressClick = false;
     btn.addEventListener('click', () => {
+      if (suppressClick) {
+        suppressClick = false;
+        return;
+      }
       onTrigger();
     });
 
+    btn.addEventListener('pointerdown', (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      suppressClick = false;
+      this.cleanupDrag?.();
+
+      const startX = e.clientX;
+      const startY = e.clientY;
+      const rect = btn.getBoundingClientRect();
+      let dragging = false;
+
+      const longPress =
+        this.config.hideOnLongPress === false
+          ? null
+          : setTimeout(() => {
+              suppressClick = true;
+              this.hideForSession();
+            }, this.config.longPressMs ?? 600);
+
+      const onMove = (event: PointerEvent) => {
+        const dx = event.clientX - startX;
+        const dy = event.clientY - startY;
+        if (!dragging) {
+          if (this.config.draggable === false) return;
+          if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+          dragging = true;
+          if (longPress) clearTimeout(longPress);
+          btn.style.transition = 'none';
+        }
+        Object.assign(btn.style, {
+          left: `${String(rect.left + dx)}px`,
+          top: `${String(rect.top + dy)}px`,
+          right: '',
+          bottom: '',
+        });
+      };
+
+      const onUp = (event: PointerEvent) => {
+        this.cleanupDrag?.();
+        if (!dragging) return;
+        suppressClick = true;
+        btn.style.transition = baseStyles.transition ?? '';
+
+        // Snap to whichever side the button was dropped closer to.
+        const centerX = rect.left + (event.clientX - startX) + size / 2;
+        const top = rect.top + (event.clientY - startY);
+        const position: FABPosition = {
+          side: centerX < window.innerWidth / 2 ? 'left' : 'right',
+          bottom: window.innerHeight - top - size,
+        };
+        this.placeButton(btn, position);
+        this.savePosition(position);
+      };
+
+      window.addEventListener('pointermove', onMove);
+      window.addEventListener('pointerup', onUp);
+      window.addEventListener('pointercancel', onUp);
+      this.cleanupDrag = () => {
+        if (longPress) clearTimeout(longPress);
+        window.removeEventListener('pointermove', onMove);
+        window.removeEventListener('pointerup', onUp);
+        window.removeEventListener('pointercancel', onUp);
+        this.cleanupDrag = null;
+      };
+    });
+
     document.body.appendChild(btn);
     this.button = btn;
+    this.badge = badge;
+    this.renderBadge();
   }
 
   deactivate(): void {
+    this.cleanupDrag?.();
+    if (this.pulseTimer) {
+      clearTimeout(this.pulseTimer);
+      this.pulseTimer = null;
+    }
     if (this.button) {
       this.button.remove();
       this.button = null;
+      this.badge = null;
+    }
+  }
+
+  /** Shows `count` (queued or unsent reports) on the button; `0` hides the badge. */
+  setBadgeCount(count: number): void {
+    this.badgeCount = Math.max(0, Math.floor(count));
+    this.renderBadge();
+  }
+
+  /** Briefly pulses the button to confirm that a report was sent. */
+  notifySubmitted(): void {
+    const btn = this.button;
+    if (!btn) return;
+    if (this.pulseTimer) clearTimeout(this.pulseTimer);
+    btn.style.transform = 'scale(1.2)';
+    btn.style.boxShadow = '0 0 0 8px rgba(34, 197, 94, 0.35)';
+    this.pulseTimer = setTimeout(() => {
+      btn.style.transform = 'scale(1)';
+      btn.style.boxShadow = '0 4px 12px rgba(0, 0, 0, 0.25)';
+      this.pulseTimer = null;
+    }, 400);
+  }
+
+  // ---- Internal helpers ----
+
+  private renderBadge(): void {
+    if (!this.button || !this.badge) return;
+    const count = this.badgeCount;
+    this.badge.textContent = count > 99 ? '99+' : String(count);
+    this.badge.style.display = count > 0 ? 'block' : 'none';
+    this.button.setAttribute(
+      'aria-label',
+      count > 0 ? `${LABEL} (${String(count)} unsent)` : LABEL,
+    );
+  }
+
+  private defaultPosition(): FABPosition {
+    return {
+      side: this.config.position === 'bottom-left' ? 'left' : 'right',
+      bottom: EDGE_MARGIN,
+    };
+  }
+
+  /** Pins the button to `position`, kept inside the viewport. */
+  private placeButton(btn: HTMLButtonElement, position: FABPosition): void {
+    const size = this.config.size ?? 56;
+    const maxBottom = Math.max(EDGE_MARGIN, window.innerHeight - size - EDGE_MARGIN);
+    const bottom = Math.min(Math.max(position.bottom, EDGE_MARGIN), maxBottom);
+    Object.assign(btn.style, {
+      top: '',
+      bottom: `${String(Math.round(bottom))}px`,
+      left: position.side === 'left' ? `${String(EDGE_MARGIN)}px` : '',
+      right: position.side === 'right' ? `${String(EDGE_MARGIN)}px` : '',
+    });
+  }
+
+  private get storageKey(): string {
+    return this.config.storageKey ?? 'shakenbake:fab';
+  }
+
+  // Storage can throw (privacy mode, sandboxed iframes); the button then
+  // simply forgets its position.
+
+  private loadPosition(): FABPosition | null {
+    if (this.config.draggable === false) return null;
+    try {
+      const raw = window.localStorage.getItem(`${this.storageKey}:position`);
+      const parsed = raw ? (JSON.parse(raw) as Partial<FABPosition>) : null;
+      if (
+        (parsed?.side === 'left' || parsed?.side === 'right') &&
+        typeof parsed.bottom === 'number' &&
+        Number.isFinite(parsed.bottom)
+      ) {
+        return { side: parsed.side, bottom: parsed.bottom };
+      }
+    } catch {
+      // Ignore unreadable storage or malformed values.
+    }
+    return null;
+  }
+
+  private savePosition(position: FABPosition): void {
+    try {
+      window.localStorage.setItem(`${this.storageKey}:position`, JSON.stringify(position));
+    } catch {
+      // Ignore storage errors.
+    }
+  }
+
+  private isHiddenForSession(): boolean {
+    try {
+      return window.sessionStorage.getItem(`${this.storageKey}:hidden`) === '1';
+    } catch {
+      return false;
+    }
+  }
+
+  private hideForSession(): void {
+    try {
+      window.sessionStorage.setItem(`${this.storageKey}:hidden`, '1');
+    } catch {
+      // Still hide it for this page.
     }
+    this.deactivate();
   }
 }
@@ -0,0 +1,228 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — FrustrationTrigger plugin
+// Watches for rage clicks, clicks on disabled controls and bursts of errors,
+// then offers a report in a small non-modal toast. Uses plain DOM
+// manipulation (not React) so it works outside the React tree.
+// ---------------------------------------------------------------------------
+
+import type {
+  FrustrationOptions,
+  FrustrationSignal,
+  TriggerPayload,
+  TriggerPlugin,
+} from '@shakenbake/core';
+import { FrustrationDetector, formatConsoleArgs } from '@shakenbake/core';
+import {
+  IGNORE_SELECTOR,
+  INTERACTIVE_SELECTOR,
+  describeSelector,
+} from '../context/breadcrumbs.js';
+
+/** Configuration options for the frustration trigger. */
+export interface FrustrationTriggerConfig extends FrustrationOptions {
+  /** Toast text. Defaults to `'Having trouble?'`. */
+  message?: string;
+  /** Label of the toast's report button. Defaults to `'Report it'`. */
+  actionLabel?: string;
+  /** The toast hides itself after this long. Defaults to `10000` ms. */
+  toastDurationMs?: number;
+}
+
+const DISABLED_SELECTOR = ':disabled, [aria-disabled="true"]';
+
+/**
+ * Trigger that offers a report when the user seems stuck.
+ *
+ * Rapid clicks on one element, repeated clicks on a disabled control and
+ * bursts of `console.error` calls or uncaught errors are counted by a
+ * {@link FrustrationDetector}. When a threshold is reached a toast
+ * ("Having trouble? Report it") appears without blocking the page; if the
+ * user accepts, `onTrigger` receives the detected signals as
+ * `metadata.frustrationSignals`.
+ */
+export class FrustrationTrigger implements TriggerPlugin {
+  readonly name = 'frustration';
+  readonly platform = 'web' as const;
+
+  private readonly config: FrustrationTriggerConfig;
+  private detector: FrustrationDetector;
+
+  private clickHandler: ((e: Event) => void) | null = null;
+  private pointerHandler: ((e: Event) => void) | null = null;
+  private errorHandler: ((e: Event) => void) | null = null;
+  private originalConsoleError: typeof console.error | null = null;
+  private wrappedConsoleError: typeof console.error | null = null;
+
+  private toast: HTMLDivElement | null = null;
+  private toastTimer: ReturnType<typeof setTimeout> | null = null;
+  private signals: FrustrationSignal[] = [];
+  private paused = false;
+
+  constructor(config?: FrustrationTriggerConfig) {
+    this.config = config ?? {};
+    this.detector = new FrustrationDetector(this.config);
+  }
+
+  activate(onTrigger: (payload?: TriggerPayload) => void): void {
+    // Remove any previously-registered listeners to avoid duplicates.
+    this.deactivate();
+    this.detector = new FrustrationDetector(this.config);
+
+    const report = (signal: FrustrationSignal | null) => {
+      if (signal) this.offerReport(signal, onTrigger);
+    };
+
+    this.clickHandler = (e: Event) => {
+      const element = this.clickedElement(e);
+      // Disabled controls are counted on pointerdown; most browsers never
+      // dispatch clicks to them.
+      if (element && !element.matches(DISABLED_SELECTOR)) {
+        report(this.detector.recordClick(describeSelector(element)));
+      }
+    };
+    this.pointerHandler = (e: Event) => {
+      const element = this.clickedElement(e);
+      if (element?.matches(DISABLED_SELECTOR)) {
+        report(this.detector.recordClick(describeSelector(element), true));
+      }
+    };
+    this.errorHandler = (e: Event) => {
+      if (this.paused) return;
+      const { error, message } = e as ErrorEvent;
+      report(this.detector.recordError(error instanceof Error ? error.message : message));
+    };
+
+    document.addEventListener('click', this.clickHandler, true);
+    document.addEventListener('pointerdown', this.pointerHandler, true);
+    window.addEventListener('error', this.errorHandler);
+
+    const originalError = console.error;
+    this.originalConsoleError = originalError;
+    this.wrappedConsoleError = (...args: unknown[]) => {
+      if (!this.paused) report(this.detector.recordError(formatConsoleArgs(args)));
+      originalError.apply(console, args);
+    };
+    console.error = this.wrappedConsoleError;
+  }
+
+  deactivate(): void {
+    if (this.clickHandler) {
+      document.removeEventListener('click', this.clickHandler, true);
+      this.clickHandler = null;
+    }
+    if (this.pointerHandler) {
+      document.removeEventListener('pointerdown', this.pointerHandler, true);
+      this.pointerHandler = null;
+    }
+    if (this.errorHandler) {
+      window.removeEventListener('error', this.errorHandler);
+      this.errorHandler = null;
+    }
+    // Leave console.error alone if another library wrapped it after us.
+    if (this.originalConsoleError && console.error === this.wrappedConsoleError) {
+      console.error = this.originalConsoleError;
+    }
+    this.originalConsoleError = null;
+    this.wrappedConsoleError = null;
+    this.hideToast();
+  }
+
+  /**
+   * Pauses or resumes detection. The provider pauses while the report UI is
+   * open so drawing on the screenshot does not count as rage clicking.
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    if (paused) this.hideToast();
+  }
+
+  // ---- Internal helpers ----
+
+  /** The interactive element a click landed on, unless it is SDK UI. */
+  private clickedElement(event: Event): Element | null {
+    if (this.paused) return null;
+    const target = event.target;
+    if (!(target instanceof Element) || target.closest(IGNORE_SELECTOR)) return null;
+    return target.closest(INTERACTIVE_SELECTOR) ?? target;
+  }
+
+  private offerReport(
+    signal: FrustrationSignal,
+    onTrigger: (payload?: TriggerPayload) => void,
+  ): void {
+    this.signals.push(signal);
+    if (this.toast) return;
+
+    const toast = document.createElement('div');
+    toast.setAttribute('role', 'status');
+    toast.setAttribute('aria-live', 'polite');
+    toast.setAttribute('data-shakenbake-ignore', '');
+    Object.assign(toast.style, {
+      position: 'fixed',
+      bottom: '24px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      zIndex: '2147483647',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '10px 12px 10px 16px',
+      borderRadius: '8px',
+      backgroundColor: '#1f2937',
+      color: '#ffffff',
+      font: '14px/1.4 system-ui, sans-serif',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.25)',
+    } satisfies Partial<CSSStyleDeclaration>);
+
+    const text = document.createElement('span');
+    text.textContent = this.config.message ?? 'Having trouble?';
+
+    const action = document.createElement('button');
+    action.setAttribute('type', 'button');
+    action.textContent = this.config.actionLabel ?? 'Report it';
+    Object.assign(action.style, {
+      border: 'none',
+      borderRadius: '6px',
+      padding: '6px 10px',
+      backgroundColor: '#6366f1',
+      color: '#ffffff',
+      font: 'inherit',
+      fontWeight: '600',
+      cursor: 'pointer',
+    } satisfies Partial<CSSStyleDeclaration>);
+    action.addEventListener('click', () => {
+      const signals = this.signals;
+      this.hideToast();
+      onTrigger({ metadata: { frustrationSignals: signals } });
+    });
+
+    const dismiss = document.createElement('button');
+    dismiss.setAttribute('type', 'button');
+    dismiss.setAttribute('aria-label', 'Dismiss');
+    dismiss.textContent = '×';
+    Object.assign(dismiss.style, {
+      border: 'none',
+      background: 'none',
+      color: 'inherit',
+      fontSize: '18px',
+      lineHeight: '1',
+      cursor: 'pointer',
+    } satisfies Partial<CSSStyleDeclaration>);
+    dismiss.addEventListener('click', () => this.hideToast());
+
+    toast.append(text, action, dismiss);
+    document.body.appendChild(toast);
+    this.toast = toast;
+    this.toastTimer = setTimeout(() => this.hideToast(), this.config.toastDurationMs ?? 10_000);
+  }
+
+  private hideToast(): void {
+    if (this.toastTimer) {
+      clearTimeout(this.toastTimer);
+      this.toastTimer = null;
+    }
+    this.toast?.remove();
+    this.toast = null;
+    this.signals = [];
+  }
+}
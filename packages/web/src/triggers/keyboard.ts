@@ -1,35 +1,247 @@
 // ---------------------------------------------------------------------------
 // @shakenbake/web — KeyboardTrigger plugin
-// Activates the bug-report flow via Cmd+Shift+K (Mac) / Ctrl+Shift+K (other)
+// Activates the bug-report flow via a configurable shortcut; Cmd+Shift+K
+// (Mac) / Ctrl+Shift+K (other) by default
 // ---------------------------------------------------------------------------
 
 import type { TriggerPlugin } from '@shakenbake/core';
+import { ShakeNbakeError } from '@shakenbake/core';
+
+/** Configuration options for the keyboard trigger. */
+export interface KeyboardTriggerConfig {
+  /**
+   * Shortcut, or alternative shortcuts, that open the report flow.
+   * Keys are joined with `+` (`"mod+shift+b"`, where `mod` is Cmd on
+   * macOS and Ctrl elsewhere) and sequences separated by spaces
+   * (`"g b"`). Letters, digits and named keys match the physical key, so
+   * they stay in place on any layout; other characters such as `"?"` match
+   * the typed character, whether or not Shift was needed for it. Defaults
+   * to `"mod+shift+k"`.
+   */
+  shortcut?: string | string[];
+  /** Also listen while an input, textarea or editable element has focus. Default: `false`. */
+  allowInEditable?: boolean;
+  /** Maximum pause between the keys of a sequence. Default: `1000` ms. */
+  sequenceTimeoutMs?: number;
+}
+
+export const DEFAULT_KEYBOARD_SHORTCUT = 'mod+shift+k';
+
+/** One key press of a shortcut, with the exact modifiers it needs. */
+interface KeyStroke {
+  /** Physical key, as in `KeyboardEvent.code`; `''` for characters matched by `key` only. */
+  code: string;
+  /** Produced character or key name, lower-cased, as in `KeyboardEvent.key`. */
+  key: string;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+/** Key names accepted in shortcuts, mapped to `[code, key]`. */
+const NAMED_KEYS: Record<string, [string, string]> = {
+  enter: ['Enter', 'enter'],
+  escape: ['Escape', 'escape'],
+  esc: ['Escape', 'escape'],
+  space: ['Space', ' '],
+  tab: ['Tab', 'tab'],
+  backspace: ['Backspace', 'backspace'],
+  delete: ['Delete', 'delete'],
+  up: ['ArrowUp', 'arrowup'],
+  down: ['ArrowDown', 'arrowdown'],
+  left: ['ArrowLeft', 'arrowleft'],
+  right: ['ArrowRight', 'arrowright'],
+};
+
+function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /mac|ipod|iphone|ipad/i.test(navigator.userAgent);
+}
+
+function invalidShortcut(shortcut: string, reason: string): ShakeNbakeError {
+  return new ShakeNbakeError(
+    `KeyboardTrigger: invalid shortcut "${shortcut}": ${reason}`,
+    'UNKNOWN',
+    { retryable: false },
+  );
+}
+
+/** Parses `"mod+shift+k"` or `"g b"` into the key strokes to press in order. */
+function parseShortcut(shortcut: string, isMac: boolean): KeyStroke[] {
+  const steps = shortcut.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (steps.length === 0) throw invalidShortcut(shortcut, 'it is empty');
+
+  return steps.map((step) => {
+    // "+" itself can be bound as the last key, e.g. "ctrl++".
+    const parts = step.endsWith('++') ? [...step.slice(0, -2).split('+'), '+'] : step.split('+');
+    const name = parts.pop() ?? '';
+    const stroke: KeyStroke = {
+      code: '',
+      key: '',
+      ctrl: false,
+      meta: false,
+      alt: false,
+      shift: false,
+    };
+
+    for (const modifier of parts) {
+      switch (modifier) {
+        case 'mod':
+          if (isMac) stroke.meta = true;
+          else stroke.ctrl = true;
+          break;
+        case 'ctrl':
+        case 'control':
+          stroke.ctrl = true;
+          break;
+        case 'cmd':
+        case 'meta':
+          stroke.meta = true;
+          break;
+        case 'alt':
+        case 'option':
+          stroke.alt = true;
+          break;
+        case 'shift':
+          stroke.shift = true;
+          break;
+        default:
+          throw invalidShortcut(shortcut, `unknown modifier "${modifier}"`);
+      }
+    }
+
+    const named = NAMED_KEYS[name];
+    if (named) {
+      [stroke.code, stroke.key] = named;
+    } else if (/^[a-z]$/.test(name)) {
+      stroke.code = `Key${name.toUpperCase()}`;
+      stroke.key = name;
+    } else if (/^\d$/.test(name)) {
+      stroke.code = `Digit${name}`;
+      stroke.key = name;
+    } else if (/^f([1-9]|1[0-9]|2[0-4])$/.test(name)) {
+      stroke.code = name.toUpperCase();
+      stroke.key = name;
+    } else if (name.length === 1) {
+      // Punctuation sits on different keys (and Shift levels) per layout, so
+      // it is matched by the produced character only.
+      stroke.key = name;
+    } else {
+      throw invalidShortcut(shortcut, `unknown key "${name}"`);
+    }
+    return stroke;
+  });
+}
+
+/**
+ * Whether `event` is a press of `stroke`. Keys with a fixed position match
+ * by `event.code` only, so a shortcut is one physical key on AZERTY or
+ * Cyrillic keyboards too; the produced character is used only when the
+ * event has no code (synthetic events, some virtual keyboards). Characters
+ * matched by `key` ignore Shift, which the layout may need to produce them.
+ */
+function matches(stroke: KeyStroke, event: KeyboardEvent): boolean {
+  if (
+    event.ctrlKey !== stroke.ctrl ||
+    event.metaKey !== stroke.meta ||
+    event.altKey !== stroke.alt
+  ) {
+    return false;
+  }
+  const key = (event.key ?? '').toLowerCase();
+  if (stroke.code === '') return key === stroke.key;
+
+  if (event.shiftKey !== stroke.shift) return false;
+  const code = event.code ?? '';
+  return code !== '' && code !== 'Unidentified' ? code === stroke.code : key === stroke.key;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!target || typeof (target as Element).tagName !== 'string') return false;
+  const element = target as HTMLElement;
+  const tag = element.tagName.toLowerCase();
+  return (
+    tag === 'input' ||
+    tag === 'textarea' ||
+    tag === 'select' ||
+    element.isContentEditable ||
+    element.getAttribute('contenteditable') === 'true'
+  );
+}
 
 /**
  * Keyboard shortcut trigger for the web SDK.
  *
- * When activated, listens for `Cmd+Shift+K` (macOS) or `Ctrl+Shift+K`
- * (Windows/Linux) and fires the provided `onTrigger` callback.
+ * When activated, listens for the configured shortcuts (by default
+ * `Cmd+Shift+K` on macOS and `Ctrl+Shift+K` on Windows/Linux) and fires the
+ * provided `onTrigger` callback. Key presses in editable fields are ignored
+ * unless `allowInEditable` is set.
+ *
+ * @example
+ * ```ts
+ * new KeyboardTrigger({ shortcut: ['mod+shift+b', 'g b'] });
+ * ```
  */
 export class KeyboardTrigger implements TriggerPlugin {
   readonly name = 'keyboard';
   readonly platform = 'web' as const;
 
+  private readonly shortcuts: string[];
+  private readonly allowInEditable: boolean;
+  private readonly sequenceTimeoutMs: number;
+
   private handler: ((e: KeyboardEvent) => void) | null = null;
 
+  constructor(config?: KeyboardTriggerConfig) {
+    const shortcut = config?.shortcut ?? DEFAULT_KEYBOARD_SHORTCUT;
+    this.shortcuts = Array.isArray(shortcut) ? shortcut : [shortcut];
+    if (this.shortcuts.length === 0) {
+      throw invalidShortcut('', 'no shortcut given');
+    }
+    // Validate eagerly so a typo fails at startup, not on first key press.
+    for (const s of this.shortcuts) parseShortcut(s, false);
+    this.allowInEditable = config?.allowInEditable ?? false;
+    this.sequenceTimeoutMs = config?.sequenceTimeoutMs ?? 1000;
+  }
+
   activate(onTrigger: () => void): void {
     // Remove any previously-registered handler to avoid duplicates.
     this.deactivate();
 
+    const isMac = isMacPlatform();
+    const bindings = this.shortcuts.map((s) => parseShortcut(s, isMac));
+    // How many strokes of each binding have been pressed so far.
+    const progress = bindings.map(() => 0);
+    let lastPress = 0;
+
     this.handler = (e: KeyboardEvent) => {
-      // Determine the modifier key based on platform.
-      const isMac = /mac|ipod|iphone|ipad/i.test(navigator.userAgent);
-      const modifierPressed = isMac ? e.metaKey : e.ctrlKey;
-
-      if (modifierPressed && e.shiftKey && e.key.toLowerCase() === 'k') {
-        e.preventDefault();
-        e.stopPropagation();
-        onTrigger();
+      if (MODIFIER_KEYS.has(e.key) || e.repeat) return;
+      if (!this.allowInEditable && isEditable(e.target)) return;
+
+      const now = Date.now();
+      if (now - lastPress > this.sequenceTimeoutMs) progress.fill(0);
+      lastPress = now;
+
+      for (const [i, strokes] of bindings.entries()) {
+        let next = progress[i] ?? 0;
+        const expected = strokes[next];
+        if (expected && matches(expected, e)) {
+          next += 1;
+        } else {
+          // Start over, possibly with this key as the first stroke.
+          next = strokes[0] && matches(strokes[0], e) ? 1 : 0;
+        }
+
+        if (next === strokes.length) {
+          progress.fill(0);
+          e.preventDefault();
+          e.stopPropagation();
+          onTrigger();
+          return;
+        }
+        progress[i] = next;
       }
     };
 
@@ -0,0 +1,147 @@
+// ---------------------------------------------------------------------------
+// @shakenbake/web — ConsentPrompt
+// Modal overlay asking the user to agree before report data is sent.
+// Lists exactly which sections the report will contain.
+// Rendered as a React Portal attached to document.body.
+// ---------------------------------------------------------------------------
+
+'use client';
+
+import React from 'react';
+import { createPortal } from 'react-dom';
+import type { CSSProperties } from 'react';
+import type { ConsentSection } from '@shakenbake/core';
+
+// ---------------------------------------------------------------------------
+// Props
+// ---------------------------------------------------------------------------
+
+export interface ConsentPromptProps {
+  /** What the report will contain (see `describeConsentSections`). */
+  sections: ConsentSection[];
+  /** Policy version the decision applies to. */
+  version: string;
+  onAccept: () => void;
+  onDecline: () => void;
+  theme?: 'light' | 'dark';
+  accentColor?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function ConsentPrompt({
+  sections,
+  version,
+  onAccept,
+  onDecline,
+  theme = 'dark',
+  accentColor = '#6366f1',
+}: ConsentPromptProps): React.JSX.Element | null {
+  const portalTarget = typeof document !== 'undefined' ? document.body : null;
+  if (!portalTarget) return null;
+
+  const mutedColor = theme === 'dark' ? '#aaa' : '#666';
+
+  return createPortal(
+    <div
+      style={overlayStyle}
+      data-testid="shakenbake-consent-overlay"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shakenbake-consent-title"
+    >
+      <div style={getModalStyle(theme)}>
+        <h2
+          id="shakenbake-consent-title"
+          style={{ fontSize: '18px', fontWeight: 600, margin: '0 0 8px 0' }}
+        >
+          Share diagnostic data?
+        </h2>
+        <p style={{ fontSize: '14px', color: mutedColor, margin: '0 0 12px 0' }}>
+          Your bug report will include:
+        </p>
+        <ul
+          style={{ fontSize: '14px', margin: '0 0 16px 0', paddingLeft: '20px' }}
+          data-testid="shakenbake-consent-sections"
+        >
+          {sections.map((section) => (
+            <li key={section.key} data-section={section.key}>
+              {section.label}
+            </li>
+          ))}
+        </ul>
+        <p style={{ fontSize: '12px', color: mutedColor, margin: '0 0 16px 0' }}>
+          Policy version {version}
+        </p>
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+          <button
+            type="button"
+            style={{
+              ...buttonStyle,
+              border: theme === 'dark' ? '1px solid #555' : '1px solid #ccc',
+              backgroundColor: 'transparent',
+              color: theme === 'dark' ? '#e0e0e0' : '#1a1a1a',
+            }}
+            onClick={onDecline}
+            data-testid="shakenbake-consent-decline"
+          >
+            Don't Send
+          </button>
+          <button
+            type="button"
+            style={{
+              ...buttonStyle,
+              border: 'none',
+              backgroundColor: accentColor,
+              color: '#fff',
+              fontWeight: 600,
+            }}
+            onClick={onAccept}
+            data-testid="shakenbake-consent-accept"
+          >
+            I Agree
+          </button>
+        </div>
+      </div>
+    </div>,
+    portalTarget,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const overlayStyle: CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  zIndex: 999999,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  backgroundColor: 'rgba(0,0,0,0.6)',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  padding: '16px',
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '8px 16px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  outline: 'none',
+};
+
+function getModalStyle(theme: 'light' | 'dark'): CSSProperties {
+  return {
+    backgroundColor: theme === 'dark' ? '#1e1e1e' : '#ffffff',
+    color: theme === 'dark' ? '#e0e0e0' : '#1a1a1a',
+    borderRadius: '12px',
+    width: '100%',
+    maxWidth: '440px',
+    boxShadow: '0 16px 48px rgba(0,0,0,0.3)',
+    padding: '24px',
+  };
+}
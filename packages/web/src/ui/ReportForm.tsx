@@ -15,6 +15,7 @@ import type {
   Severity,
   Category,
   SubmitResult,
+  TriggerPayload,
 } from '@shakenbake/core';
 import { ShakeNbakeError, ERROR_MESSAGES } from '@shakenbake/core';
 import type { ErrorCode } from '@shakenbake/core';
@@ -33,6 +34,10 @@ export interface ReportFormProps {
   onReAnnotate?: () => void;
   theme?: 'light' | 'dark';
   accentColor?: string;
+  /** Overrides the submit button label while submitting (e.g. "Retrying (2/3)..."). */
+  submitStatus?: string;
+  /** Prefilled fields from the trigger that opened the flow. */
+  initialValues?: TriggerPayload;
 }
 
 // ---------------------------------------------------------------------------
@@ -224,14 +229,16 @@ export function ReportForm({
   onReAnnotate,
   theme: themeProp,
   accentColor = '#6366f1',
+  submitStatus,
+  initialValues,
 }: ReportFormProps): React.JSX.Element | null {
   const theme = resolveTheme(themeProp);
 
   // -- Form fields --
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [severity, setSeverity] = useState<Severity>('medium');
-  const [category, setCategory] = useState<Category>('bug');
+  const [title, setTitle] = useState(initialValues?.title ?? '');
+  const [description, setDescription] = useState(initialValues?.description ?? '');
+  const [severity, setSeverity] = useState<Severity>(initialValues?.severity ?? 'medium');
+  const [category, setCategory] = useState<Category>(initialValues?.category ?? 'bug');
   const [contextExpanded, setContextExpanded] = useState(false);
 
   // -- Form state --
@@ -745,7 +752,7 @@ export function ReportForm({
                 aria-hidden="true"
               />
             )}
-            {isSubmitting ? 'Submitting...' : 'Submit Report'}
+            {isSubmitting ? (submitStatus ?? 'Submitting...') : 'Submit Report'}
           </button>
         </div>
 